@@ -198,6 +198,12 @@ export default function AccountScreen() {
               subtitle="View order history"
               onPress={() => router.push("/(tabs)/orders")}
             />
+            <MenuItem
+              icon="list-outline"
+              title="Shopping Lists"
+              subtitle="Plan and share what you need"
+              onPress={() => router.push("/lists")}
+            />
             <MenuItem
               icon="heart-outline"
               title="Saved Items"
@@ -225,6 +231,12 @@ export default function AccountScreen() {
               subtitle="Manage notifications"
               onPress={() => router.push("/notification-preferences")}
             />
+            <MenuItem
+              icon="cloud-download-outline"
+              title="Offline Catalog"
+              subtitle="Search products without a connection"
+              onPress={() => router.push("/offline-catalog")}
+            />
             <MenuItem
               icon="lock-closed-outline"
               title="Privacy & Security"
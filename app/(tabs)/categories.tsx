@@ -1,14 +1,28 @@
 import { useState, useEffect } from "react";
-import { Text, View, StyleSheet, ScrollView } from "react-native";
+import { Text, View, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
 import SearchBar from "../../components/SearchBar";
 import { useSearch } from "../../contexts/SearchContext";
-import { getSearchSuggestions } from "../../lib/search-service";
+import { getSearchSuggestions, getCategoryTree, Category } from "../../lib/search-service";
+import { CategoryTree } from "../../lib/search/category-tree";
 
 export default function CategoriesScreen() {
+  const router = useRouter();
   const { performSearch, recentSearches } = useSearch();
   const [searchSuggestions, setSearchSuggestions] = useState<any[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [tree, setTree] = useState<CategoryTree<Category> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load the category hierarchy (departments are its roots)
+  useEffect(() => {
+    getCategoryTree()
+      .then(setTree)
+      .catch((error) => console.error("Error loading categories:", error))
+      .finally(() => setIsLoading(false));
+  }, []);
 
   // Load search suggestions as user types
   useEffect(() => {
@@ -54,11 +68,46 @@ export default function CategoriesScreen() {
           />
         </View>
 
-        {/* Categories Content */}
+        {/* Departments */}
         <View style={styles.content}>
           <Text style={styles.title}>Categories</Text>
           <Text style={styles.subtitle}>Browse all categories</Text>
         </View>
+
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#10B981" />
+          </View>
+        ) : tree && tree.roots.length > 0 ? (
+          <View style={styles.departmentList}>
+            {tree.roots.map((department) => {
+              const childCount = tree.childrenById.get(department.$id)?.length || 0;
+              return (
+                <TouchableOpacity
+                  key={department.$id}
+                  style={styles.departmentRow}
+                  onPress={() => router.push(`/category/${department.$id}`)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.departmentIcon}>
+                    <Ionicons name="grid-outline" size={20} color="#10B981" />
+                  </View>
+                  <View style={styles.departmentInfo}>
+                    <Text style={styles.departmentName}>{department.name}</Text>
+                    {childCount > 0 && (
+                      <Text style={styles.departmentMeta}>
+                        {`${childCount} ${childCount === 1 ? "category" : "categories"}`}
+                      </Text>
+                    )}
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ) : (
+          <Text style={styles.emptyText}>No categories available right now.</Text>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -84,7 +133,7 @@ const styles = StyleSheet.create({
     paddingTop: 20,
     alignItems: "center",
     justifyContent: "center",
-    minHeight: 200,
+    marginBottom: 24,
   },
   title: {
     fontSize: 32,
@@ -96,4 +145,46 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: "#6B7280",
   },
+  loadingContainer: {
+    paddingVertical: 40,
+    alignItems: "center",
+  },
+  departmentList: {
+    paddingBottom: 24,
+  },
+  departmentRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  departmentIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#ECFDF5",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  departmentInfo: {
+    flex: 1,
+  },
+  departmentName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  departmentMeta: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+    paddingVertical: 40,
+  },
 });
@@ -1,13 +1,216 @@
-import { Text, View, StyleSheet } from "react-native";
+import { useState, useCallback } from "react";
+import {
+  Text,
+  View,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter, useFocusEffect } from "expo-router";
+import { useUser } from "../../contexts/UserContext";
+import {
+  getOrders,
+  isActiveOrder,
+  Order,
+  ORDER_STATUS_LABELS,
+} from "../../lib/order-service";
+
+const PAGE_SIZE = 20;
+
+function formatOrderDate(isoDate: string): string {
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return "";
+  return date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+interface OrderCardProps {
+  order: Order;
+  onPress: () => void;
+}
+
+function OrderCard({ order, onPress }: OrderCardProps) {
+  const active = isActiveOrder(order);
+
+  return (
+    <TouchableOpacity style={styles.orderCard} onPress={onPress} activeOpacity={0.7}>
+      <View style={styles.orderCardTop}>
+        <View style={styles.orderStore}>
+          <Ionicons name="storefront" size={16} color="#10B981" />
+          <Text style={styles.orderStoreName} numberOfLines={1}>
+            {order.storeName}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, active ? styles.statusBadgeActive : styles.statusBadgePast]}>
+          <Text style={[styles.statusText, active ? styles.statusTextActive : styles.statusTextPast]}>
+            {ORDER_STATUS_LABELS[order.status] || order.status}
+          </Text>
+        </View>
+      </View>
+      <View style={styles.orderCardBottom}>
+        <Text style={styles.orderMeta}>
+          {formatOrderDate(order.placedAt)} · {order.itemCount} item{order.itemCount !== 1 ? "s" : ""}
+        </Text>
+        <Text style={styles.orderTotal}>${(order.totalJmdCents / 100).toFixed(2)}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
 
 export default function OrdersScreen() {
+  const router = useRouter();
+  const { userId, isAuthenticated } = useUser();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const result = await getOrders(userId, { page: 1, pageSize: PAGE_SIZE });
+      setOrders(result.orders);
+      setCurrentPage(1);
+      setHasMore(result.hasMore);
+    } catch (err: any) {
+      setError(err.message || "Failed to load orders");
+      console.error("Error loading orders:", err);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [userId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadOrders();
+    }, [loadOrders])
+  );
+
+  const handleRefresh = useCallback(() => {
+    setIsRefreshing(true);
+    loadOrders();
+  }, [loadOrders]);
+
+  const loadMoreOrders = async () => {
+    if (!userId || isLoadingMore || !hasMore) {
+      return;
+    }
+
+    setIsLoadingMore(true);
+    try {
+      const nextPage = currentPage + 1;
+      const result = await getOrders(userId, { page: nextPage, pageSize: PAGE_SIZE });
+      setOrders((current) => [...current, ...result.orders]);
+      setCurrentPage(nextPage);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      console.error("Error loading more orders:", err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+        <View style={styles.centerContainer}>
+          <Ionicons name="bag-outline" size={64} color="#9CA3AF" />
+          <Text style={styles.emptyTitle}>Sign in to see your orders</Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => router.replace("/sign-in")}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.primaryButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (isLoading && orders.length === 0) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+        <Text style={styles.title}>Orders</Text>
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const activeOrders = orders.filter(isActiveOrder);
+  const pastOrders = orders.filter((order) => !isActiveOrder(order));
+  const sections = [
+    { title: "Active", data: activeOrders },
+    { title: "Past", data: pastOrders },
+  ].filter((section) => section.data.length > 0);
+
   return (
     <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
-      <View style={styles.content}>
-        <Text style={styles.title}>Orders</Text>
-        <Text style={styles.subtitle}>View your order history</Text>
-      </View>
+      <Text style={styles.title}>Orders</Text>
+      <SectionList
+        sections={sections}
+        keyExtractor={(order) => order.$id}
+        renderItem={({ item }) => (
+          <OrderCard order={item} onPress={() => router.push(`/order/${item.$id}`)} />
+        )}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionHeader}>{section.title}</Text>
+        )}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        onEndReached={loadMoreOrders}
+        onEndReachedThreshold={0.5}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} />
+        }
+        ListEmptyComponent={
+          error ? (
+            <View style={styles.centerContainer}>
+              <Ionicons name="alert-circle-outline" size={64} color="#EF4444" />
+              <Text style={styles.errorText}>{error}</Text>
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={loadOrders}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.primaryButtonText}>Retry</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.centerContainer}>
+              <Ionicons name="bag-outline" size={64} color="#9CA3AF" />
+              <Text style={styles.emptyTitle}>No orders yet</Text>
+              <Text style={styles.emptyText}>Orders you place will show up here</Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          isLoadingMore ? (
+            <View style={styles.loadingMoreContainer}>
+              <ActivityIndicator size="small" color="#10B981" />
+            </View>
+          ) : null
+        }
+      />
     </SafeAreaView>
   );
 }
@@ -17,21 +220,128 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: "#FFFFFF",
   },
-  content: {
-    flex: 1,
-    paddingHorizontal: 24,
-    paddingTop: 40,
-    alignItems: "center",
-    justifyContent: "center",
-  },
   title: {
     fontSize: 32,
     fontWeight: "bold",
     color: "#111827",
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 24,
+    flexGrow: 1,
+  },
+  sectionHeader: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#6B7280",
+    textTransform: "uppercase",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#111827",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+  },
+  errorText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+    marginTop: 16,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: "#10B981",
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  orderCard: {
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    padding: 12,
     marginBottom: 12,
   },
-  subtitle: {
+  orderCardTop: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+    gap: 8,
+  },
+  orderStore: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    flex: 1,
+  },
+  orderStoreName: {
     fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+    flexShrink: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  statusBadgeActive: {
+    backgroundColor: "#ECFDF5",
+  },
+  statusBadgePast: {
+    backgroundColor: "#F3F4F6",
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  statusTextActive: {
+    color: "#059669",
+  },
+  statusTextPast: {
     color: "#6B7280",
   },
+  orderCardBottom: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  orderMeta: {
+    fontSize: 13,
+    color: "#6B7280",
+  },
+  orderTotal: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#10B981",
+  },
+  loadingMoreContainer: {
+    paddingVertical: 16,
+    alignItems: "center",
+  },
 });
@@ -6,13 +6,16 @@ import { useLocalSearchParams, useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import Constants from "expo-constants";
 import SearchBar from "../../components/SearchBar";
-import ProductFilters from "../../components/ProductFilters";
+import ProductFilters, { withDefaultDeliveryAddress } from "../../components/ProductFilters";
 import SortPicker from "../../components/SortPicker";
 import { useSearch } from "../../contexts/SearchContext";
 import { useUser } from "../../contexts/UserContext";
 import { useCart } from "../../contexts/CartContext";
-import { getSearchSuggestions, searchProductsPaginated, ProductFilters as ProductFiltersType, SearchResult } from "../../lib/search-service";
+import { getSearchSuggestions, searchProductsPaginated, ProductFilters as ProductFiltersType, SearchResult, SearchRecovery } from "../../lib/search-service";
 import { SortMode } from "../../lib/search/ranking";
+import { calculateUnitPrice, formatUnitPrice } from "../../lib/search/unit-price";
+import { formatDeliveryEstimate } from "../../lib/search/delivery-estimate";
+import { logSearchInteraction, logSearchRefinement } from "../../lib/search-analytics-service";
 
 export default function SearchScreen() {
   const params = useLocalSearchParams<{ q?: string }>();
@@ -38,9 +41,19 @@ export default function SearchScreen() {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalResults, setTotalResults] = useState(0);
   const [hasMore, setHasMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [recovery, setRecovery] = useState<(SearchRecovery & { query: string }) | null>(null);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const pageSize = 50; // Results per page
 
+  // Closest store among the loaded results (for the "Nearest store" badge)
+  const nearestDistanceKm = useMemo(() => {
+    const distances = allSearchResults
+      .map((result) => result.distanceKm)
+      .filter((distance): distance is number => typeof distance === "number");
+    return distances.length > 0 ? Math.min(...distances) : null;
+  }, [allSearchResults]);
+
   // Update query when params change
   useEffect(() => {
     if (params.q) {
@@ -71,6 +84,8 @@ export default function SearchScreen() {
       setCurrentPage(1);
       setTotalResults(0);
       setHasMore(false);
+      setNextCursor(null);
+      setRecovery(null);
       // Note: Filters and sort mode are NOT reset when search query is cleared
       // They persist during the session and are only reset when explicitly cleared
       return;
@@ -95,12 +110,24 @@ export default function SearchScreen() {
       setCurrentPage(1);
       setTotalResults(paginatedResults.totalResults);
       setHasMore(paginatedResults.hasMore);
+      setNextCursor(paginatedResults.nextCursor);
+      setRecovery(
+        paginatedResults.didYouMean || paginatedResults.relaxedQuery
+          ? {
+              query: query.trim(),
+              didYouMean: paginatedResults.didYouMean || null,
+              relaxedQuery: paginatedResults.relaxedQuery || null,
+            }
+          : null
+      );
     } catch (error) {
       console.error("Search error:", error);
       setAllSearchResults([]);
+      setRecovery(null);
       setCurrentPage(1);
       setTotalResults(0);
       setHasMore(false);
+      setNextCursor(null);
     } finally {
       setIsSearching(false);
     }
@@ -110,15 +137,25 @@ export default function SearchScreen() {
     setFilters(newFilters);
     // Re-run search with new filters if we have a query
     if (searchQuery.trim()) {
+      logSearchRefinement(userId, searchQuery, { type: "filter", filters: { ...newFilters } }).catch(console.warn);
       handleSearch(searchQuery, newFilters, sortMode);
     }
   };
 
-  const handleSortChange = (newSortMode: SortMode) => {
+  const handleSortChange = async (newSortMode: SortMode) => {
     setSortMode(newSortMode);
+    // Distance and delivery time are measured to the user's address
+    let sortFilters = filters;
+    if (newSortMode === "distance_asc" || newSortMode === "delivery_time_asc") {
+      sortFilters = await withDefaultDeliveryAddress(filters, userId);
+      if (sortFilters !== filters) {
+        setFilters(sortFilters);
+      }
+    }
     // Re-run search with new sort mode if we have a query
     if (searchQuery.trim()) {
-      handleSearch(searchQuery, filters, newSortMode);
+      logSearchRefinement(userId, searchQuery, { type: "sort", sortMode: newSortMode }).catch(console.warn);
+      handleSearch(searchQuery, sortFilters, newSortMode);
     }
   };
 
@@ -126,9 +163,11 @@ export default function SearchScreen() {
     return !!(
       (filters.brands && filters.brands.length > 0) ||
       (filters.categoryIds && filters.categoryIds.length > 0) ||
+      (filters.dietaryTags && filters.dietaryTags.length > 0) ||
       filters.minPrice !== undefined ||
       filters.maxPrice !== undefined ||
       filters.inStock === false ||
+      filters.quickDelivery ||
       filters.deliveryParish
     );
   };
@@ -139,7 +178,7 @@ export default function SearchScreen() {
 
   const loadMoreResults = async () => {
     // Prevent loading if already loading, no more results, or no search query
-    if (isLoadingMore || !hasMore || !searchQuery.trim()) {
+    if (isLoadingMore || !hasMore || !nextCursor || !searchQuery.trim()) {
       return;
     }
 
@@ -149,7 +188,7 @@ export default function SearchScreen() {
       
       const paginatedResults = await searchProductsPaginated(
         searchQuery,
-        { page: nextPage, pageSize },
+        { cursor: nextCursor, pageSize },
         undefined,
         sortMode,
         userId || null,
@@ -160,6 +199,7 @@ export default function SearchScreen() {
       setAllSearchResults([...allSearchResults, ...paginatedResults.results]);
       setCurrentPage(nextPage);
       setHasMore(paginatedResults.hasMore);
+      setNextCursor(paginatedResults.nextCursor);
     } catch (error) {
       console.error("Error loading more results:", error);
     } finally {
@@ -217,7 +257,13 @@ export default function SearchScreen() {
       {searchQuery && allSearchResults.length > 0 && !isSearching ? (
         <FlatList
           data={allSearchResults}
-          renderItem={({ item }) => <ProductCard result={item} />}
+          renderItem={({ item, index }) => (
+            <ProductCard
+              result={item}
+              position={index}
+              isNearest={nearestDistanceKm !== null && item.distanceKm === nearestDistanceKm}
+            />
+          )}
           keyExtractor={(item, index) => `${item.sku}-${index}`}
           contentContainerStyle={styles.flatListContent}
           showsVerticalScrollIndicator={false}
@@ -238,7 +284,9 @@ export default function SearchScreen() {
                     <Text style={styles.activeFiltersText}>
                       {(filters.brands?.length || 0) +
                         (filters.categoryIds?.length || 0) +
+                        (filters.dietaryTags?.length || 0) +
                         (filters.deliveryParish ? 1 : 0) +
+                        (filters.quickDelivery ? 1 : 0) +
                         (filters.inStock === false ? 1 : 0) +
                         (filters.minPrice || filters.maxPrice ? 1 : 0)}{" "}
                       active
@@ -246,6 +294,26 @@ export default function SearchScreen() {
                   </TouchableOpacity>
                 )}
               </View>
+              {/* The query found nothing - results are for a corrected or broader query */}
+              {recovery && (
+                <View style={styles.recoveryBanner}>
+                  <Ionicons name="information-circle-outline" size={16} color="#059669" />
+                  <Text style={styles.recoveryBannerText}>
+                    {recovery.relaxedQuery
+                      ? `No results for "${recovery.query}". Showing results for "${recovery.relaxedQuery}" instead.`
+                      : `Showing results for "${recovery.didYouMean}" instead of "${recovery.query}".`}
+                  </Text>
+                </View>
+              )}
+              {/* Offline results come from the downloaded catalog */}
+              {allSearchResults.some((result) => result.possiblyStale) && (
+                <View style={styles.staleBanner}>
+                  <Ionicons name="cloud-offline-outline" size={16} color="#B45309" />
+                  <Text style={styles.staleBannerText}>
+                    You are offline. Showing saved results - prices and stock may be out of date.
+                  </Text>
+                </View>
+              )}
               {/* Results Header */}
               <Text style={styles.resultsHeader}>
                 {totalResults > 0 ? `${totalResults} result${totalResults !== 1 ? "s" : ""} found` : `${allSearchResults.length} result${allSearchResults.length !== 1 ? "s" : ""} found`}
@@ -554,6 +622,36 @@ const styles = StyleSheet.create({
     color: "#6B7280",
     marginBottom: 16,
   },
+  recoveryBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#ECFDF5",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  recoveryBannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#059669",
+  },
+  staleBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#FEF3C7",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  staleBannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#B45309",
+  },
   productsGrid: {
     gap: 12,
   },
@@ -716,6 +814,27 @@ const styles = StyleSheet.create({
     color: "#9CA3AF",
     flex: 1,
   },
+  deliveryEstimate: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  deliveryEstimateText: {
+    fontSize: 11,
+    color: "#059669",
+    fontWeight: "500",
+  },
+  nearestBadge: {
+    backgroundColor: "#ECFDF5",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  nearestBadgeText: {
+    fontSize: 10,
+    color: "#059669",
+    fontWeight: "600",
+  },
   productFooter: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -733,6 +852,10 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#10B981",
   },
+  productUnitPrice: {
+    fontSize: 11,
+    color: "#6B7280",
+  },
   categoryBadge: {
     backgroundColor: "#F3F4F6",
     paddingHorizontal: 8,
@@ -802,6 +925,10 @@ const styles = StyleSheet.create({
 // Product Card Component
 interface ProductCardProps {
   result: SearchResult;
+  /** Rank position (0-based) in the search results */
+  position: number;
+  /** Whether the result's store is the nearest to the delivery address */
+  isNearest?: boolean;
 }
 
 /**
@@ -852,8 +979,9 @@ function getTransformedImageUrl(imageUrl: string | undefined): string | undefine
   return viewUrl;
 }
 
-function ProductCard({ result }: ProductCardProps) {
+function ProductCard({ result, position, isNearest }: ProductCardProps) {
   const router = useRouter();
+  const { userId } = useUser();
   const { addToCart, isProductInCart, getItemQuantity } = useCart();
   const [imageLoading, setImageLoading] = useState(true);
   const [addingToCart, setAddingToCart] = useState(false);
@@ -882,6 +1010,7 @@ function ProductCard({ result }: ProductCardProps) {
   }, [imageLoading, pulseAnim]);
   
   const handlePress = () => {
+    logSearchInteraction(userId, result.product.$id, "click", position).catch(console.warn);
     router.push(`/product/${result.product.$id}`);
   };
 
@@ -906,6 +1035,7 @@ function ProductCard({ result }: ProductCardProps) {
         1,
         result.storeLocation.logo_url
       );
+      logSearchInteraction(userId, result.product.$id, "add_to_cart", position).catch(console.warn);
       
       Alert.alert(
         "Added to Cart",
@@ -925,6 +1055,7 @@ function ProductCard({ result }: ProductCardProps) {
   };
 
   const priceFormatted = `$${(result.priceJmdCents / 100).toFixed(2)}`;
+  const unitPrice = calculateUnitPrice(result.priceJmdCents, result.product);
   const originalUrl = result.product.primary_image_url;
   const imageUri = getTransformedImageUrl(originalUrl);
   const inCart = isProductInCart(result.product.$id, result.storeLocation.$id);
@@ -997,13 +1128,39 @@ function ProductCard({ result }: ProductCardProps) {
             <Text style={styles.productStore} numberOfLines={1}>
               {result.storeLocation.display_name || result.storeLocation.name}
             </Text>
+            {typeof result.deliveryEstimateMinutes === "number" && (
+              <View style={styles.deliveryEstimate}>
+                <Ionicons name="time-outline" size={12} color="#059669" />
+                <Text style={styles.deliveryEstimateText}>
+                  {formatDeliveryEstimate(result.deliveryEstimateMinutes)}
+                </Text>
+              </View>
+            )}
           </View>
+          {typeof result.distanceKm === "number" && (
+            <View style={styles.storeInfo}>
+              <Ionicons name="navigate-outline" size={12} color="#9CA3AF" />
+              <Text style={styles.productStore}>
+                {result.distanceKm < 10 ? result.distanceKm.toFixed(1) : Math.round(result.distanceKm)} km away
+              </Text>
+              {isNearest && (
+                <View style={styles.nearestBadge}>
+                  <Text style={styles.nearestBadgeText}>Nearest store</Text>
+                </View>
+              )}
+            </View>
+          )}
         </View>
 
         {/* Footer Section - Price, Category, and Add to Cart */}
         <View style={styles.productFooter}>
           <View style={styles.productFooterLeft}>
-            <Text style={styles.productPrice}>{priceFormatted}</Text>
+            <View>
+              <Text style={styles.productPrice}>{priceFormatted}</Text>
+              {unitPrice && (
+                <Text style={styles.productUnitPrice}>{formatUnitPrice(unitPrice)}</Text>
+              )}
+            </View>
             {result.category && (
               <View style={styles.categoryBadge}>
                 <Text style={styles.categoryBadgeText} numberOfLines={1}>
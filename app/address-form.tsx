@@ -25,7 +25,14 @@ import {
   UpdateAddressParams,
 } from "../lib/profile-service";
 import { validatePhoneNumber, normalizePhoneNumber } from "../lib/phone-validation";
-import { JAMAICA_PARISHES, isValidJamaicaParish } from "../lib/jamaica-parishes";
+import {
+  JAMAICA_PARISHES,
+  isValidJamaicaParish,
+  geocodeJamaicaAddress,
+  searchJamaicaCommunities,
+  validateJamaicaCommunity,
+  normalizeJamaicaAddress,
+} from "../lib/jamaica-parishes";
 
 export default function AddressFormScreen() {
   const router = useRouter();
@@ -149,6 +156,13 @@ export default function AddressFormScreen() {
     } else if (community.trim().length > 60) {
       setCommunityError("Community must be 60 characters or less");
       isValid = false;
+    } else if (isValidJamaicaParish(parish)) {
+      // Community must belong to the chosen parish
+      const communityCheck = validateJamaicaCommunity(parish, community);
+      if (!communityCheck.isValid) {
+        setCommunityError(communityCheck.error || "Community is not in this parish");
+        isValid = false;
+      }
     }
 
     // Street is optional (0-60 chars)
@@ -212,14 +226,16 @@ export default function AddressFormScreen() {
       const finalContactPhone = useMainNumber && user?.phone 
         ? normalizePhoneNumber(user.phone) 
         : (contactPhone.trim() ? normalizePhoneNumber(contactPhone.trim()) : undefined);
+      // Save the gazetteer spelling of the community
+      const normalized = normalizeJamaicaAddress(parish.trim(), community.trim());
 
       if (isEditing && addressId) {
         // Update existing address
         const updateParams: UpdateAddressParams = {
           addressId,
           label: label.trim(),
-          parish: parish.trim(),
-          community: community.trim(),
+          parish: normalized.parish,
+          community: normalized.community,
           street: street.trim() || undefined,
           houseDetails: houseDetails.trim() || undefined,
           landmarkDirections: landmarkDirections.trim(),
@@ -236,8 +252,8 @@ export default function AddressFormScreen() {
         const createParams: CreateAddressParams = {
           userId,
           label: label.trim(),
-          parish: parish.trim(),
-          community: community.trim(),
+          parish: normalized.parish,
+          community: normalized.community,
           street: street.trim() || undefined,
           houseDetails: houseDetails.trim() || undefined,
           landmarkDirections: landmarkDirections.trim(),
@@ -257,6 +273,21 @@ export default function AddressFormScreen() {
     }
   };
 
+  // Where the address is placed for store distances (saved with the address)
+  const location = isValidJamaicaParish(parish) ? geocodeJamaicaAddress(parish, community) : null;
+
+  // Community autocomplete (chosen parish first) and the parish check
+  const communitySuggestions =
+    focusedField === "community"
+      ? searchJamaicaCommunities(community, parish).filter(
+          (suggestion) => suggestion.name !== community.trim() || suggestion.parish !== parish
+        )
+      : [];
+  const communityCheck =
+    isValidJamaicaParish(parish) && community.trim().length >= 2
+      ? validateJamaicaCommunity(parish, community)
+      : null;
+
   if (isLoadingAddress) {
     return (
       <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
@@ -480,7 +511,34 @@ export default function AddressFormScreen() {
                   maxLength={60}
                 />
               </View>
+              {communitySuggestions.length > 0 && (
+                <View style={styles.suggestionList}>
+                  {communitySuggestions.map((suggestion) => (
+                    <TouchableOpacity
+                      key={`${suggestion.parish}-${suggestion.name}`}
+                      style={styles.suggestionItem}
+                      onPress={() => {
+                        setCommunity(suggestion.name);
+                        setParish(suggestion.parish);
+                        setCommunityError(null);
+                        setParishError(null);
+                      }}
+                    >
+                      <Ionicons name="location-outline" size={16} color="#6B7280" />
+                      <Text style={styles.suggestionName}>{suggestion.name}</Text>
+                      <Text style={styles.suggestionParish}>{suggestion.parish}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
               {communityError && <Text style={styles.errorText}>{communityError}</Text>}
+              {!communityError && focusedField !== "community" && communityCheck?.suggestion && (
+                <TouchableOpacity onPress={() => setCommunity(communityCheck.suggestion!)}>
+                  <Text style={styles.helpText}>
+                    {`Not in our list of ${parish} communities. Did you mean ${communityCheck.suggestion}?`}
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {/* Parish */}
@@ -505,6 +563,16 @@ export default function AddressFormScreen() {
                 <Ionicons name="chevron-down" size={20} color="#6B7280" />
               </TouchableOpacity>
               {parishError && <Text style={styles.errorText}>{parishError}</Text>}
+              {location && (
+                <View style={styles.locationHint}>
+                  <Ionicons name="location-outline" size={14} color="#6B7280" />
+                  <Text style={styles.locationHintText}>
+                    {location.precision === "community"
+                      ? `Store distances are measured from ${communityCheck?.canonicalName || community.trim()}`
+                      : `Store distances are measured from the centre of ${parish}`}
+                  </Text>
+                </View>
+              )}
             </View>
           </View>
 
@@ -787,6 +855,42 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     lineHeight: 16,
   },
+  suggestionList: {
+    marginTop: 4,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    backgroundColor: "#FFFFFF",
+  },
+  suggestionItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  suggestionName: {
+    fontSize: 14,
+    color: "#111827",
+    flex: 1,
+  },
+  suggestionParish: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  locationHint: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 8,
+  },
+  locationHintText: {
+    fontSize: 12,
+    color: "#6B7280",
+    flex: 1,
+  },
   inputContainer: {
     flexDirection: "row",
     alignItems: "center",
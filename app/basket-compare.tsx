@@ -0,0 +1,406 @@
+import { useState, useEffect } from "react";
+import {
+  Text,
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import { useUser } from "../contexts/UserContext";
+import { useCart } from "../contexts/CartContext";
+import { getAddresses } from "../lib/profile-service";
+import { getBasketComparison } from "../lib/basket-comparison-service";
+import { BasketComparison, BasketOption } from "../lib/basket-optimizer";
+
+function formatJmd(amountJmdCents: number): string {
+  return `$${(amountJmdCents / 100).toFixed(2)}`;
+}
+
+interface OptionCardProps {
+  title: string;
+  option: BasketOption;
+  onApply: (option: BasketOption) => void;
+}
+
+function OptionCard({ title, option, onApply }: OptionCardProps) {
+  const movedCount = option.assignments.filter(
+    (assignment) => assignment.offer.storeId !== assignment.fromStoreId
+  ).length;
+
+  return (
+    <View style={styles.optionCard}>
+      <Text style={styles.optionTitle}>{title}</Text>
+      <View style={styles.optionStores}>
+        <Ionicons name="storefront" size={16} color="#10B981" />
+        <Text style={styles.optionStoreNames}>{option.storeNames.join(" + ")}</Text>
+      </View>
+
+      <View style={styles.summaryRow}>
+        <Text style={styles.summaryLabel}>Items</Text>
+        <Text style={styles.summaryValue}>{formatJmd(option.itemsJmdCents)}</Text>
+      </View>
+      <View style={styles.summaryRow}>
+        <Text style={styles.summaryLabel}>Fees</Text>
+        <Text style={styles.summaryValue}>{formatJmd(option.feesJmdCents)}</Text>
+      </View>
+      <View style={styles.summaryRow}>
+        <Text style={styles.optionTotalLabel}>Total</Text>
+        <Text style={styles.optionTotalValue}>{formatJmd(option.totalJmdCents)}</Text>
+      </View>
+
+      {option.savingsJmdCents > 0 ? (
+        <View style={styles.savingsBadge}>
+          <Ionicons name="trending-down" size={16} color="#059669" />
+          <Text style={styles.savingsText}>Save {formatJmd(option.savingsJmdCents)}</Text>
+        </View>
+      ) : (
+        <Text style={styles.noSavingsText}>
+          {option.savingsJmdCents === 0
+            ? "Same as your cart"
+            : `${formatJmd(-option.savingsJmdCents)} more than your cart`}
+        </Text>
+      )}
+
+      {option.missingItems.length > 0 && (
+        <View style={styles.missingSection}>
+          <Text style={styles.missingTitle}>
+            Not available ({option.missingItems.length}) - stays at the current store
+          </Text>
+          {option.missingItems.map((item) => (
+            <Text
+              key={`${item.productId}-${item.storeId}`}
+              style={styles.missingItem}
+              numberOfLines={1}
+            >
+              • {item.title}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.applyButton, movedCount === 0 && styles.applyButtonDisabled]}
+        onPress={() => onApply(option)}
+        disabled={movedCount === 0}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.applyButtonText}>
+          {movedCount === 0
+            ? "Your cart already matches"
+            : `Use This Option (${movedCount} item${movedCount !== 1 ? "s" : ""} move)`}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export default function BasketCompareScreen() {
+  const router = useRouter();
+  const { userId } = useUser();
+  const { cart, applyBasketOption } = useCart();
+  const [comparison, setComparison] = useState<BasketComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (cart.items.length === 0) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        // Fees depend on the delivery parish - use the default address
+        let parish: string | null = null;
+        if (userId) {
+          const addresses = await getAddresses(userId).catch(() => []);
+          parish = addresses[0]?.parish || null;
+        }
+        const result = await getBasketComparison(cart, parish);
+        if (!cancelled) setComparison(result);
+      } catch (err: any) {
+        console.error("Error comparing stores:", err);
+        if (!cancelled) setError(err.message || "Failed to compare stores");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cart, userId]);
+
+  const handleApply = (option: BasketOption) => {
+    Alert.alert(
+      "Update Cart",
+      `Move your items to ${option.storeNames.join(" and ")}? Prices will update to those stores.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Update Cart",
+          onPress: async () => {
+            await applyBasketOption(option);
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="arrow-back" size={24} color="#111827" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Compare Stores</Text>
+      <View style={styles.headerPlaceholder} />
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+          <Text style={styles.centerText}>Comparing prices across stores...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || cart.items.length === 0) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <Ionicons
+            name={error ? "alert-circle-outline" : "cart-outline"}
+            size={64}
+            color={error ? "#EF4444" : "#D1D5DB"}
+          />
+          <Text style={styles.centerText}>{error || "Your cart is empty"}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      {header}
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.currentCard}>
+          <Text style={styles.currentLabel}>Your cart now</Text>
+          <Text style={styles.currentValue}>
+            {formatJmd(comparison?.currentTotalJmdCents || 0)}
+          </Text>
+          <Text style={styles.currentNote}>
+            {cart.storeIds.length} store{cart.storeIds.length !== 1 ? "s" : ""} · items and fees
+          </Text>
+        </View>
+
+        {comparison?.singleStore && (
+          <OptionCard
+            title="Cheapest Single Store"
+            option={comparison.singleStore}
+            onApply={handleApply}
+          />
+        )}
+        {comparison?.twoStoreSplit && (
+          <OptionCard
+            title="Cheapest Two-Store Split"
+            option={comparison.twoStoreSplit}
+            onApply={handleApply}
+          />
+        )}
+        {!comparison?.singleStore && !comparison?.twoStoreSplit && (
+          <Text style={styles.centerText}>
+            No stores stock the items in your cart at or above their minimum order.
+          </Text>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  centerText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+    marginTop: 16,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  currentCard: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: "#F9FAFB",
+    marginBottom: 16,
+  },
+  currentLabel: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  currentValue: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#111827",
+    marginTop: 4,
+  },
+  currentNote: {
+    fontSize: 13,
+    color: "#9CA3AF",
+    marginTop: 4,
+  },
+  optionCard: {
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 8,
+  },
+  optionStores: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 12,
+  },
+  optionStoreNames: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  optionTotalLabel: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  optionTotalValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#10B981",
+  },
+  savingsBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 6,
+    backgroundColor: "#ECFDF5",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  savingsText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#059669",
+  },
+  noSavingsText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginTop: 8,
+  },
+  missingSection: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: "#FEF3C7",
+  },
+  missingTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#92400E",
+    marginBottom: 4,
+  },
+  missingItem: {
+    fontSize: 13,
+    color: "#92400E",
+  },
+  applyButton: {
+    backgroundColor: "#10B981",
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 16,
+  },
+  applyButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  applyButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+});
@@ -9,12 +9,22 @@ import {
   Alert,
   ActivityIndicator,
   RefreshControl,
+  TextInput,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { useCart } from "../contexts/CartContext";
+import { useUser } from "../contexts/UserContext";
 import { CartItem } from "../lib/cart-service";
+import { groupCartItemsByStore } from "../lib/order-service";
+import { priceCart } from "../lib/pricing-service";
+import { CartPricing } from "../lib/fee-engine";
+import { getAddresses } from "../lib/profile-service";
+import { evaluateCartPromo, evaluatePromoCode, PromoCodeError } from "../lib/promo-service";
+import { PromoEvaluation, PROMO_REJECTION_MESSAGES, promoLineKey } from "../lib/promo-engine";
+import StoreGroupHeader from "../components/StoreGroupHeader";
+import FeeBreakdown from "../components/FeeBreakdown";
 import Constants from "expo-constants";
 
 /**
@@ -61,46 +71,17 @@ interface CartItemRowProps {
     currentPriceJmdCents: number | null;
     priceDifference: number;
   };
+  /** Promo discount on this line */
+  discountJmdCents?: number;
 }
 
-interface StoreGroupHeaderProps {
-  storeName: string;
-  storeLogoUrl?: string;
-  subtotal: number;
-}
-
-function StoreGroupHeader({ storeName, storeLogoUrl, subtotal }: StoreGroupHeaderProps) {
-  const [logoError, setLogoError] = useState(false);
-  const showLogo = storeLogoUrl && !logoError;
-
-
-  return (
-    <View style={styles.storeGroupHeader}>
-      {showLogo ? (
-        <Image
-          source={{ uri: storeLogoUrl }}
-          style={styles.storeLogo}
-          onError={() => {
-            setLogoError(true);
-          }}
-        />
-      ) : (
-        <View style={styles.storeLogoPlaceholder}>
-          <Ionicons name="storefront" size={18} color="#10B981" />
-        </View>
-      )}
-      <View style={styles.storeGroupTitleContainer}>
-        <Text style={styles.storeGroupTitle}>{storeName}</Text>
-        <Text style={styles.storeGroupSubtotalLabel}>Subtotal</Text>
-      </View>
-      <Text style={styles.storeGroupTotal}>
-        ${(subtotal / 100).toFixed(2)}
-      </Text>
-    </View>
-  );
-}
-
-function CartItemRow({ item, onQuantityChange, onRemove, validation }: CartItemRowProps) {
+function CartItemRow({
+  item,
+  onQuantityChange,
+  onRemove,
+  validation,
+  discountJmdCents = 0,
+}: CartItemRowProps) {
   // No loading state needed - updates are instant (optimistic updates)
   const handleIncrease = () => {
     // Fire and forget - UI updates instantly, save happens in background
@@ -223,6 +204,11 @@ function CartItemRow({ item, onQuantityChange, onRemove, validation }: CartItemR
                 ${(itemTotal / 100).toFixed(2)}
               </Text>
             )}
+            {discountJmdCents > 0 && (
+              <Text style={styles.itemDiscount}>
+                -${(discountJmdCents / 100).toFixed(2)} promo
+              </Text>
+            )}
           </View>
           <View style={styles.quantityControls}>
             <TouchableOpacity
@@ -263,9 +249,16 @@ export default function CartScreen() {
     syncCart,
     validateCart,
     canCheckout,
+    setPromoCode,
   } = useCart();
+  const { userId } = useUser();
   const [refreshing, setRefreshing] = useState(false);
   const [syncing, setSyncing] = useState(false);
+  const [deliveryParish, setDeliveryParish] = useState<string | null>(null);
+  const [pricing, setPricing] = useState<CartPricing | null>(null);
+  const [promoEvaluation, setPromoEvaluation] = useState<PromoEvaluation | null>(null);
+  const [promoInput, setPromoInput] = useState("");
+  const [applyingPromo, setApplyingPromo] = useState(false);
 
   // Validate cart when screen is focused
   useEffect(() => {
@@ -276,6 +269,77 @@ export default function CartScreen() {
     }
   }, []);
 
+  // Fees depend on the delivery parish - use the default address until checkout picks one
+  useEffect(() => {
+    if (!userId) {
+      setDeliveryParish(null);
+      return;
+    }
+    getAddresses(userId)
+      .then((addresses) => setDeliveryParish(addresses[0]?.parish || null))
+      .catch((error) => {
+        console.warn("Error loading default address for fees:", error);
+      });
+  }, [userId]);
+
+  // Recalculate fees and the promo whenever the cart or delivery parish changes
+  useEffect(() => {
+    if (cart.items.length === 0) {
+      setPricing(null);
+      setPromoEvaluation(null);
+      return;
+    }
+
+    let cancelled = false;
+    evaluateCartPromo(cart, userId)
+      .then(async (promo) => {
+        const result = await priceCart(groupCartItemsByStore(cart.items), deliveryParish, promo);
+        if (!cancelled) {
+          setPromoEvaluation(promo);
+          setPricing(result);
+        }
+      })
+      .catch((error) => {
+        console.error("Error calculating cart fees:", error);
+        if (!cancelled) setPricing(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cart, deliveryParish, userId]);
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim();
+    if (!code) return;
+
+    setApplyingPromo(true);
+    try {
+      const evaluation = await evaluatePromoCode(cart, code, userId);
+      if (!evaluation.applied && evaluation.reason) {
+        Alert.alert("Promo Code", PROMO_REJECTION_MESSAGES[evaluation.reason], [{ text: "OK" }]);
+        return;
+      }
+      await setPromoCode(evaluation.code);
+      setPromoInput("");
+    } catch (error: any) {
+      console.error("Error applying promo code:", error);
+      Alert.alert(
+        "Promo Code",
+        error instanceof PromoCodeError ? error.message : "Failed to apply promo code. Please try again.",
+        [{ text: "OK" }]
+      );
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
+  const handleRemovePromo = () => {
+    setPromoCode(null).catch((error) => {
+      console.error("Error removing promo code:", error);
+    });
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     try {
@@ -307,6 +371,15 @@ export default function CartScreen() {
   };
 
   const handleCheckout = async () => {
+    if (pricing && pricing.storesBelowMinimum.length > 0) {
+      Alert.alert(
+        "Minimum Order Not Met",
+        "Some stores in your cart have a minimum order amount. Add more items from those stores or remove them to continue.",
+        [{ text: "OK" }]
+      );
+      return;
+    }
+
     // Validate before checkout
     const validation = await validateCart();
     
@@ -338,13 +411,7 @@ export default function CartScreen() {
           {
             text: "Continue Anyway",
             style: "default",
-            onPress: () => {
-              Alert.alert(
-                "Checkout",
-                "Checkout functionality will be available soon.",
-                [{ text: "OK" }]
-              );
-            },
+            onPress: () => router.push("/checkout"),
           },
         ]
       );
@@ -352,11 +419,7 @@ export default function CartScreen() {
     }
 
     // Proceed with checkout
-    Alert.alert(
-      "Checkout",
-      "Checkout functionality will be available soon.",
-      [{ text: "OK" }]
-    );
+    router.push("/checkout");
   };
 
   const handleClearCart = () => {
@@ -401,34 +464,18 @@ export default function CartScreen() {
   }
 
   // Group items by store
-  const itemsByStore = cart.items.reduce((acc, item) => {
-    if (!acc[item.storeId]) {
-      acc[item.storeId] = {
-        storeName: item.storeName,
-        storeLogoUrl: item.storeLogoUrl, // Will be updated if we find a logo in later items
-        items: [],
-        subtotal: 0,
-      };
-    }
-    acc[item.storeId].items.push(item);
-    acc[item.storeId].subtotal += item.priceJmdCents * item.quantity;
-    // If current item has a logo and we don't have one yet, use it
-    if (item.storeLogoUrl && !acc[item.storeId].storeLogoUrl) {
-      acc[item.storeId].storeLogoUrl = item.storeLogoUrl;
-    }
-    return acc;
-  }, {} as Record<string, { storeName: string; storeLogoUrl?: string; items: CartItem[]; subtotal: number }>);
+  const storeGroups = groupCartItemsByStore(cart.items);
 
-  // Calculate delivery fees per store (placeholder - will be implemented when backend provides this)
-  // TODO: Fetch delivery fees from backend API when available
-  const deliveryFeesByStore: Record<string, number> = {};
-  Object.keys(itemsByStore).forEach((storeId) => {
-    deliveryFeesByStore[storeId] = 0; // Placeholder: set to 0 until backend provides delivery fee API
-  });
+  // Overall total including fees and discounts (items only until fees have loaded)
+  const overallTotalJmdCents = pricing?.grandTotalJmdCents ?? cart.totalPriceJmdCents;
 
-  // Calculate overall total including delivery fees
-  const overallTotalJmdCents = cart.totalPriceJmdCents + 
-    Object.values(deliveryFeesByStore).reduce((sum, fee) => sum + fee, 0);
+  // Promo discount per cart line
+  const lineDiscounts = new Map(
+    (pricing?.promo?.lineDiscounts || []).map((line) => [
+      promoLineKey(line.productId, line.storeId),
+      line.discountJmdCents,
+    ])
+  );
 
   return (
     <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
@@ -515,12 +562,12 @@ export default function CartScreen() {
             }
           >
             {/* Cart Items Grouped by Store */}
-            {Object.entries(itemsByStore).map(([storeId, storeData]) => (
-              <View key={storeId} style={styles.storeGroup}>
+            {storeGroups.map((storeData) => (
+              <View key={storeData.storeId} style={styles.storeGroup}>
                 <StoreGroupHeader
                   storeName={storeData.storeName}
                   storeLogoUrl={storeData.storeLogoUrl}
-                  subtotal={storeData.subtotal}
+                  subtotal={storeData.subtotalJmdCents}
                 />
                 {storeData.items.map((item) => {
                   const validation = validationState.validation?.validations.find(
@@ -533,11 +580,79 @@ export default function CartScreen() {
                       onQuantityChange={updateQuantity}
                       onRemove={removeFromCart}
                       validation={validation}
+                      discountJmdCents={lineDiscounts.get(promoLineKey(item.productId, item.storeId))}
                     />
                   );
                 })}
               </View>
             ))}
+
+            {/* Cheapest stores for this cart */}
+            <TouchableOpacity
+              style={styles.compareButton}
+              onPress={() => router.push("/basket-compare")}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="git-compare-outline" size={20} color="#059669" />
+              <Text style={styles.compareButtonText}>Find the cheapest stores for this cart</Text>
+              <Ionicons name="chevron-forward" size={18} color="#059669" />
+            </TouchableOpacity>
+
+            {/* Promo Code */}
+            <View style={styles.promoSection}>
+              {cart.promoCode ? (
+                <>
+                  <View style={styles.promoApplied}>
+                    <Ionicons name="pricetag" size={16} color="#059669" />
+                    <View style={styles.promoAppliedInfo}>
+                      <Text style={styles.promoCodeText}>{cart.promoCode}</Text>
+                      {promoEvaluation?.description ? (
+                        <Text style={styles.promoDescription} numberOfLines={2}>
+                          {promoEvaluation.description}
+                        </Text>
+                      ) : null}
+                    </View>
+                    <TouchableOpacity onPress={handleRemovePromo} activeOpacity={0.7}>
+                      <Ionicons name="close-circle" size={20} color="#6B7280" />
+                    </TouchableOpacity>
+                  </View>
+                  {promoEvaluation && !promoEvaluation.applied && promoEvaluation.reason && (
+                    <Text style={styles.promoError}>
+                      {PROMO_REJECTION_MESSAGES[promoEvaluation.reason]}
+                    </Text>
+                  )}
+                </>
+              ) : (
+                <View style={styles.promoInputRow}>
+                  <TextInput
+                    style={styles.promoInput}
+                    value={promoInput}
+                    onChangeText={setPromoInput}
+                    placeholder="Promo code"
+                    placeholderTextColor="#9CA3AF"
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    onSubmitEditing={handleApplyPromo}
+                    returnKeyType="done"
+                  />
+                  <TouchableOpacity
+                    style={[
+                      styles.promoApplyButton,
+                      (!promoInput.trim() || applyingPromo) && styles.promoApplyButtonDisabled,
+                    ]}
+                    onPress={handleApplyPromo}
+                    disabled={!promoInput.trim() || applyingPromo}
+                    activeOpacity={0.7}
+                  >
+                    {applyingPromo ? (
+                      <ActivityIndicator size="small" color="#FFFFFF" />
+                    ) : (
+                      <Text style={styles.promoApplyButtonText}>Apply</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
           </ScrollView>
 
           {/* Footer with Total and Checkout */}
@@ -552,43 +667,43 @@ export default function CartScreen() {
                 <Text style={styles.summaryValue}>{cart.storeIds.length}</Text>
               </View>
               
-              {/* Store Subtotals Breakdown (only show if multiple stores) */}
-              {cart.storeIds.length > 1 && Object.entries(itemsByStore).map(([storeId, storeData]) => {
-                const deliveryFeeJmdCents = deliveryFeesByStore[storeId] || 0;
-                const storeTotal = storeData.subtotal + deliveryFeeJmdCents;
-                
+              {/* Per-store subtotal and fee breakdown */}
+              {storeGroups.map((storeData) => {
+                const fees = pricing?.stores.find((store) => store.storeId === storeData.storeId);
+                if (!fees) return null;
+
                 return (
-                  <View key={storeId} style={styles.storeSubtotalRow}>
-                    <View style={styles.storeSubtotalHeader}>
-                      <Text style={styles.storeSubtotalLabel}>{storeData.storeName}</Text>
-                    </View>
-                    <View style={styles.storeSubtotalDetails}>
-                      <View style={styles.summaryRow}>
-                        <Text style={styles.summaryLabel}>Subtotal</Text>
-                        <Text style={styles.summaryValue}>
-                          ${(storeData.subtotal / 100).toFixed(2)}
-                        </Text>
+                  <View key={storeData.storeId} style={styles.storeSubtotalRow}>
+                    {cart.storeIds.length > 1 && (
+                      <View style={styles.storeSubtotalHeader}>
+                        <Text style={styles.storeSubtotalLabel}>{storeData.storeName}</Text>
                       </View>
-                      {deliveryFeeJmdCents > 0 && (
+                    )}
+                    <View style={styles.storeSubtotalDetails}>
+                      <FeeBreakdown fees={fees} />
+                      {cart.storeIds.length > 1 && (
                         <View style={styles.summaryRow}>
-                          <Text style={styles.summaryLabel}>Delivery</Text>
+                          <Text style={styles.summaryLabel}>Store Total</Text>
                           <Text style={styles.summaryValue}>
-                            ${(deliveryFeeJmdCents / 100).toFixed(2)}
+                            ${(fees.totalJmdCents / 100).toFixed(2)}
                           </Text>
                         </View>
                       )}
-                      <View style={styles.summaryRow}>
-                        <Text style={styles.summaryLabel}>Store Total</Text>
-                        <Text style={styles.summaryValue}>
-                          ${(storeTotal / 100).toFixed(2)}
-                        </Text>
-                      </View>
                     </View>
                   </View>
                 );
               })}
               
-              {/* Overall Total - includes all stores and delivery fees */}
+              {pricing && pricing.discountJmdCents > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>You Save</Text>
+                  <Text style={[styles.summaryValue, styles.savingsValue]}>
+                    ${(pricing.discountJmdCents / 100).toFixed(2)}
+                  </Text>
+                </View>
+              )}
+
+              {/* Overall Total - includes all stores, fees and discounts */}
               <View style={[styles.summaryRow, styles.totalRow]}>
                 <Text style={styles.totalLabel}>Total</Text>
                 <Text style={styles.totalValue}>
@@ -708,48 +823,6 @@ const styles = StyleSheet.create({
   storeGroup: {
     marginBottom: 24,
   },
-  storeGroupHeader: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: 8,
-    marginBottom: 12,
-    paddingBottom: 8,
-    borderBottomWidth: 1,
-    borderBottomColor: "#E5E7EB",
-  },
-  storeLogo: {
-    width: 24,
-    height: 24,
-    borderRadius: 4,
-    backgroundColor: "#F3F4F6",
-  },
-  storeLogoPlaceholder: {
-    width: 24,
-    height: 24,
-    justifyContent: "center",
-    alignItems: "center",
-    backgroundColor: "#F3F4F6",
-    borderRadius: 4,
-  },
-  storeGroupTitleContainer: {
-    flex: 1,
-  },
-  storeGroupTitle: {
-    fontSize: 16,
-    fontWeight: "600",
-    color: "#111827",
-    marginBottom: 2,
-  },
-  storeGroupSubtotalLabel: {
-    fontSize: 12,
-    color: "#6B7280",
-    fontWeight: "500",
-  },
-  storeGroupTotal: {
-    fontSize: 16,
-    fontWeight: "700",
-    color: "#10B981",
-  },
   storeSubtotalRow: {
     marginTop: 12,
     paddingTop: 12,
@@ -842,6 +915,12 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#10B981",
   },
+  itemDiscount: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#059669",
+    marginTop: 2,
+  },
   quantityControls: {
     flexDirection: "row",
     alignItems: "center",
@@ -891,6 +970,9 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#111827",
   },
+  savingsValue: {
+    color: "#059669",
+  },
   totalRow: {
     marginTop: 8,
     paddingTop: 8,
@@ -995,4 +1077,83 @@ const styles = StyleSheet.create({
   quantityTextDisabled: {
     color: "#9CA3AF",
   },
+  compareButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 8,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: "#ECFDF5",
+  },
+  compareButtonText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#059669",
+  },
+  promoSection: {
+    marginTop: 8,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+  },
+  promoInputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  promoInput: {
+    flex: 1,
+    height: 44,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 14,
+    color: "#111827",
+  },
+  promoApplyButton: {
+    height: 44,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    backgroundColor: "#10B981",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  promoApplyButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  promoApplyButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  promoApplied: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#ECFDF5",
+    padding: 12,
+    borderRadius: 8,
+  },
+  promoAppliedInfo: {
+    flex: 1,
+  },
+  promoCodeText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#059669",
+  },
+  promoDescription: {
+    fontSize: 12,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  promoError: {
+    fontSize: 13,
+    color: "#DC2626",
+    marginTop: 8,
+  },
 });
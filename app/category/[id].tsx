@@ -0,0 +1,524 @@
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  FlatList,
+  ActivityIndicator,
+  TouchableOpacity,
+} from "react-native";
+import { Image } from "expo-image";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import Constants from "expo-constants";
+import ProductFilters, { withDefaultDeliveryAddress } from "../../components/ProductFilters";
+import SortPicker from "../../components/SortPicker";
+import { useUser } from "../../contexts/UserContext";
+import {
+  getCategoryTree,
+  getCategoryProductsPaginated,
+  Category,
+  ProductFilters as ProductFiltersType,
+  SearchResult,
+} from "../../lib/search-service";
+import { CategoryTree, getCategoryBreadcrumbs } from "../../lib/search/category-tree";
+import { SortMode } from "../../lib/search/ranking";
+import { calculateUnitPrice, formatUnitPrice } from "../../lib/search/unit-price";
+
+/** Products per page */
+const PAGE_SIZE = 50;
+
+/**
+ * Optimize Appwrite image URL for list display
+ * Uses /view endpoint (transformations hit billing limits)
+ */
+function getOptimizedImageUrl(imageUrl: string | undefined): string | undefined {
+  if (!imageUrl) return undefined;
+
+  const isAppwriteStorageUrl = imageUrl.includes("/storage/buckets/") && imageUrl.includes("/files/");
+
+  if (!isAppwriteStorageUrl) {
+    return imageUrl;
+  }
+
+  let viewUrl = imageUrl;
+
+  if (viewUrl.includes("/preview")) {
+    viewUrl = viewUrl.replace("/preview", "/view");
+  } else if (!viewUrl.includes("/view")) {
+    const queryIndex = viewUrl.indexOf("?");
+    const hashIndex = viewUrl.indexOf("#");
+    const insertIndex = queryIndex !== -1 ? queryIndex : (hashIndex !== -1 ? hashIndex : viewUrl.length);
+    viewUrl = viewUrl.substring(0, insertIndex) + "/view" + viewUrl.substring(insertIndex);
+  }
+
+  const projectId = Constants.expoConfig?.extra?.EXPO_PUBLIC_APPWRITE_PROJECT_ID ||
+    process.env.EXPO_PUBLIC_APPWRITE_PROJECT_ID || "";
+
+  if (projectId) {
+    const separator = viewUrl.includes("?") ? "&" : "?";
+    return `${viewUrl}${separator}project=${projectId}`;
+  }
+
+  return viewUrl;
+}
+
+export default function CategoryScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { userId } = useUser();
+
+  const [tree, setTree] = useState<CategoryTree<Category> | null>(null);
+  const [products, setProducts] = useState<SearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [totalResults, setTotalResults] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  // Filters and sort are per listing, not shared with the Search tab
+  const [filters, setFilters] = useState<ProductFiltersType>({});
+  const [sortMode, setSortMode] = useState<SortMode>("relevance");
+  const [showFilters, setShowFilters] = useState(false);
+
+  useEffect(() => {
+    getCategoryTree()
+      .then(setTree)
+      .catch((error) => console.error("Error loading categories:", error));
+  }, []);
+
+  useEffect(() => {
+    if (id) {
+      loadProducts(filters, sortMode);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  const loadProducts = async (currentFilters: ProductFiltersType, currentSortMode: SortMode) => {
+    setIsLoading(true);
+    try {
+      const page = await getCategoryProductsPaginated(
+        id,
+        { page: 1, pageSize: PAGE_SIZE },
+        undefined,
+        currentSortMode,
+        currentFilters
+      );
+      setProducts(page.results);
+      setTotalResults(page.totalResults);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading category products:", error);
+      setProducts([]);
+      setTotalResults(0);
+      setNextCursor(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadMoreProducts = async () => {
+    if (isLoadingMore || !nextCursor) {
+      return;
+    }
+
+    setIsLoadingMore(true);
+    try {
+      const page = await getCategoryProductsPaginated(
+        id,
+        { cursor: nextCursor, pageSize: PAGE_SIZE },
+        undefined,
+        sortMode,
+        filters
+      );
+      setProducts((current) => [...current, ...page.results]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading more category products:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleFiltersChange = (newFilters: ProductFiltersType) => {
+    setFilters(newFilters);
+    loadProducts(newFilters, sortMode);
+  };
+
+  const handleSortChange = async (newSortMode: SortMode) => {
+    setSortMode(newSortMode);
+    // Distance and delivery time are measured to the user's address
+    let sortFilters = filters;
+    if (newSortMode === "distance_asc" || newSortMode === "delivery_time_asc") {
+      sortFilters = await withDefaultDeliveryAddress(filters, userId);
+      setFilters(sortFilters);
+    }
+    loadProducts(sortFilters, newSortMode);
+  };
+
+  const hasActiveFilters = !!(
+    (filters.brands && filters.brands.length > 0) ||
+    (filters.categoryIds && filters.categoryIds.length > 0) ||
+    (filters.dietaryTags && filters.dietaryTags.length > 0) ||
+    filters.minPrice !== undefined ||
+    filters.maxPrice !== undefined ||
+    filters.inStock === false ||
+    filters.quickDelivery ||
+    filters.deliveryParish
+  );
+
+  const category = tree?.byId.get(id);
+  const breadcrumbs = tree ? getCategoryBreadcrumbs(id, tree) : [];
+  const subcategories = tree?.childrenById.get(id) || [];
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="arrow-back" size={24} color="#111827" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle} numberOfLines={1}>
+        {category?.name || "Category"}
+      </Text>
+      <TouchableOpacity
+        style={[styles.filterButton, hasActiveFilters && styles.filterButtonActive]}
+        onPress={() => setShowFilters(true)}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="filter" size={20} color={hasActiveFilters ? "#FFFFFF" : "#111827"} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const listHeader = (
+    <View>
+      {/* Breadcrumbs - department down to this category */}
+      {breadcrumbs.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.breadcrumbs}
+        >
+          {breadcrumbs.map((crumb, index) => {
+            const isCurrent = index === breadcrumbs.length - 1;
+            return (
+              <View key={crumb.$id} style={styles.breadcrumbItem}>
+                {index > 0 && <Ionicons name="chevron-forward" size={14} color="#9CA3AF" />}
+                <TouchableOpacity
+                  disabled={isCurrent}
+                  onPress={() => router.push(`/category/${crumb.$id}`)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.breadcrumbText, isCurrent && styles.breadcrumbTextCurrent]}>
+                    {crumb.name}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {/* Sub-categories - drill down until a leaf category */}
+      {subcategories.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.subcategories}
+        >
+          {subcategories.map((subcategory) => (
+            <TouchableOpacity
+              key={subcategory.$id}
+              style={styles.subcategoryChip}
+              onPress={() => router.push(`/category/${subcategory.$id}`)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.subcategoryChipText}>{subcategory.name}</Text>
+              {(tree?.childrenById.get(subcategory.$id)?.length || 0) > 0 && (
+                <Ionicons name="chevron-forward" size={14} color="#059669" />
+              )}
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.sortFilterBar}>
+        <SortPicker currentSort={sortMode} onSortChange={handleSortChange} />
+        <Text style={styles.resultsCount}>
+          {`${totalResults} product${totalResults !== 1 ? "s" : ""}`}
+        </Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      {header}
+
+      <ProductFilters
+        filters={filters}
+        onFiltersChange={handleFiltersChange}
+        userId={userId}
+        visible={showFilters}
+        onClose={() => setShowFilters(false)}
+      />
+
+      {isLoading ? (
+        <View>
+          {listHeader}
+          <View style={styles.centerContainer}>
+            <ActivityIndicator size="large" color="#10B981" />
+          </View>
+        </View>
+      ) : (
+        <FlatList
+          data={products}
+          renderItem={({ item }) => <CategoryProductCard result={item} />}
+          keyExtractor={(item, index) => `${item.sku}-${index}`}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          onEndReached={loadMoreProducts}
+          onEndReachedThreshold={0.5}
+          ListHeaderComponent={listHeader}
+          ListEmptyComponent={
+            <View style={styles.centerContainer}>
+              <Ionicons
+                name={hasActiveFilters ? "funnel-outline" : "basket-outline"}
+                size={64}
+                color="#D1D5DB"
+              />
+              <Text style={styles.centerText}>
+                {hasActiveFilters
+                  ? "No products in this category match your filters."
+                  : "No products in this category yet."}
+              </Text>
+            </View>
+          }
+          ListFooterComponent={
+            isLoadingMore ? (
+              <View style={styles.loadingMoreContainer}>
+                <ActivityIndicator size="small" color="#10B981" />
+              </View>
+            ) : null
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+interface CategoryProductCardProps {
+  result: SearchResult;
+}
+
+function CategoryProductCard({ result }: CategoryProductCardProps) {
+  const router = useRouter();
+  const imageUri = getOptimizedImageUrl(result.product.primary_image_url);
+  const unitPrice = calculateUnitPrice(result.priceJmdCents, result.product);
+
+  return (
+    <TouchableOpacity
+      style={[styles.productCard, !result.inStock && styles.productCardOutOfStock]}
+      onPress={() => router.push(`/product/${result.product.$id}`)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.productImageContainer}>
+        {imageUri ? (
+          <Image source={{ uri: imageUri }} style={styles.productImage} contentFit="contain" />
+        ) : (
+          <Ionicons name="image-outline" size={32} color="#D1D5DB" />
+        )}
+      </View>
+      <View style={styles.productInfo}>
+        <Text style={styles.productTitle} numberOfLines={2}>
+          {result.product.title}
+        </Text>
+        {result.brand ? <Text style={styles.productBrand}>{result.brand}</Text> : null}
+        <Text style={styles.productStore} numberOfLines={1}>
+          {result.storeLocation.display_name || result.storeLocation.name}
+        </Text>
+        <View style={styles.productPriceRow}>
+          <Text style={styles.productPrice}>{`$${(result.priceJmdCents / 100).toFixed(2)}`}</Text>
+          {unitPrice && <Text style={styles.productUnitPrice}>{formatUnitPrice(unitPrice)}</Text>}
+        </View>
+        {!result.inStock && <Text style={styles.outOfStockText}>Out of Stock</Text>}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+    textAlign: "center",
+  },
+  filterButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  filterButtonActive: {
+    backgroundColor: "#10B981",
+  },
+  breadcrumbs: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    alignItems: "center",
+  },
+  breadcrumbItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginRight: 4,
+  },
+  breadcrumbText: {
+    fontSize: 14,
+    color: "#10B981",
+  },
+  breadcrumbTextCurrent: {
+    color: "#6B7280",
+  },
+  subcategories: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+  },
+  subcategoryChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#ECFDF5",
+  },
+  subcategoryChipText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#059669",
+  },
+  sortFilterBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  resultsCount: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  listContent: {
+    paddingBottom: 24,
+  },
+  centerContainer: {
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  centerText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+    marginTop: 16,
+  },
+  loadingMoreContainer: {
+    paddingVertical: 16,
+    alignItems: "center",
+  },
+  productCard: {
+    flexDirection: "row",
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    backgroundColor: "#FFFFFF",
+  },
+  productCardOutOfStock: {
+    opacity: 0.6,
+  },
+  productImageContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: "#F9FAFB",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  productImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 2,
+  },
+  productBrand: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginBottom: 2,
+  },
+  productStore: {
+    fontSize: 12,
+    color: "#9CA3AF",
+    marginBottom: 6,
+  },
+  productPriceRow: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    gap: 8,
+  },
+  productPrice: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#10B981",
+  },
+  productUnitPrice: {
+    fontSize: 11,
+    color: "#6B7280",
+  },
+  outOfStockText: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#DC2626",
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,11 @@
+import { Stack } from "expo-router";
+
+export default function CategoryLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    />
+  );
+}
@@ -0,0 +1,783 @@
+import { useState, useCallback, useEffect } from "react";
+import {
+  Text,
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter, useFocusEffect } from "expo-router";
+import { useUser } from "../contexts/UserContext";
+import { useCart } from "../contexts/CartContext";
+import { getAddresses, Address } from "../lib/profile-service";
+import { getPaymentMethods, PaymentMethod, formatPaymentMethod } from "../lib/payment-service";
+import { checkoutCart, groupCartItemsByStore } from "../lib/order-service";
+import { logSearchInteraction } from "../lib/search-analytics-service";
+import { priceCart } from "../lib/pricing-service";
+import { CartPricing } from "../lib/fee-engine";
+import { evaluateCartPromo } from "../lib/promo-service";
+import { PromoEvaluation, PROMO_REJECTION_MESSAGES } from "../lib/promo-engine";
+import {
+  getDeliverySlots,
+  getSlotAvailability,
+  formatSlotWindow,
+  DeliverySlot,
+  DeliverySlotAvailability,
+  DeliverySlotUnavailableError,
+} from "../lib/delivery-slot-service";
+import FeeBreakdown from "../components/FeeBreakdown";
+
+/** Sentinel ID for paying cash on delivery without a saved payment method */
+const CASH_ON_DELIVERY_ID = "cash_on_delivery";
+
+function formatAddressLine(address: Address): string {
+  const parts = [];
+  if (address.houseDetails) parts.push(address.houseDetails);
+  if (address.street) parts.push(address.street);
+  parts.push(address.community);
+  parts.push(address.parish);
+  return parts.join(", ");
+}
+
+interface OptionRowProps {
+  title: string;
+  subtitle?: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function OptionRow({ title, subtitle, icon, selected, onPress }: OptionRowProps) {
+  return (
+    <TouchableOpacity
+      style={[styles.optionRow, selected && styles.optionRowSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Ionicons name={icon} size={22} color="#10B981" />
+      <View style={styles.optionText}>
+        <Text style={styles.optionTitle}>{title}</Text>
+        {subtitle ? (
+          <Text style={styles.optionSubtitle} numberOfLines={2}>
+            {subtitle}
+          </Text>
+        ) : null}
+      </View>
+      <Ionicons
+        name={selected ? "radio-button-on" : "radio-button-off"}
+        size={22}
+        color={selected ? "#10B981" : "#D1D5DB"}
+      />
+    </TouchableOpacity>
+  );
+}
+
+const SLOT_AVAILABILITY_LABELS: Record<DeliverySlotAvailability, string> = {
+  available: "Available",
+  full: "Full",
+  past_cutoff: "Closed",
+  inactive: "Unavailable",
+};
+
+interface SlotPickerProps {
+  slots: DeliverySlot[];
+  selectedSlotId: string | undefined;
+  onSelect: (slotId: string) => void;
+}
+
+function SlotPicker({ slots, selectedSlotId, onSelect }: SlotPickerProps) {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.slotList}
+    >
+      {slots.map((slot) => {
+        const availability = getSlotAvailability(slot);
+        const selectable = availability === "available";
+        const selected = slot.$id === selectedSlotId;
+
+        return (
+          <TouchableOpacity
+            key={slot.$id}
+            style={[
+              styles.slotChip,
+              selected && styles.slotChipSelected,
+              !selectable && styles.slotChipDisabled,
+            ]}
+            onPress={() => onSelect(slot.$id)}
+            disabled={!selectable}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.slotChipText,
+                selected && styles.slotChipTextSelected,
+                !selectable && styles.slotChipTextDisabled,
+              ]}
+            >
+              {formatSlotWindow(slot.startsAt, slot.endsAt)}
+            </Text>
+            {!selectable && (
+              <Text style={styles.slotChipStatus}>
+                {SLOT_AVAILABILITY_LABELS[availability]}
+              </Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+export default function CheckoutScreen() {
+  const router = useRouter();
+  const { userId, isAuthenticated } = useUser();
+  const { cart, refreshCart } = useCart();
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [selectedPaymentId, setSelectedPaymentId] = useState<string>(CASH_ON_DELIVERY_ID);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pricing, setPricing] = useState<CartPricing | null>(null);
+  const [promoEvaluation, setPromoEvaluation] = useState<PromoEvaluation | null>(null);
+  const [slotsByStore, setSlotsByStore] = useState<Map<string, DeliverySlot[]>>(new Map());
+  const [selectedSlotIds, setSelectedSlotIds] = useState<Record<string, string>>({});
+
+  const loadCheckoutOptions = useCallback(async () => {
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const [userAddresses, userPaymentMethods] = await Promise.all([
+        getAddresses(userId),
+        getPaymentMethods(userId),
+      ]);
+      setAddresses(userAddresses);
+      setPaymentMethods(userPaymentMethods);
+
+      // Pre-select the default address (getAddresses sorts default first)
+      setSelectedAddressId((current) =>
+        current && userAddresses.some((a) => a.$id === current)
+          ? current
+          : userAddresses[0]?.$id || null
+      );
+    } catch (err: any) {
+      setError(err.message || "Failed to load checkout options");
+      console.error("Error loading checkout options:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCheckoutOptions();
+    }, [loadCheckoutOptions])
+  );
+
+  const storeGroups = groupCartItemsByStore(cart.items);
+  const selectedParish =
+    addresses.find((a) => a.$id === selectedAddressId)?.parish || null;
+
+  // Fees depend on the delivery parish, so recalculate when the address changes
+  useEffect(() => {
+    if (cart.items.length === 0) {
+      setPricing(null);
+      setPromoEvaluation(null);
+      return;
+    }
+
+    let cancelled = false;
+    evaluateCartPromo(cart, userId)
+      .then(async (promo) => {
+        const result = await priceCart(groupCartItemsByStore(cart.items), selectedParish, promo);
+        if (!cancelled) {
+          setPromoEvaluation(promo);
+          setPricing(result);
+        }
+      })
+      .catch((err) => {
+        console.error("Error calculating checkout fees:", err);
+        if (!cancelled) setPricing(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cart, selectedParish, userId]);
+
+  const belowMinimum = pricing !== null && pricing.storesBelowMinimum.length > 0;
+
+  const storeIdsKey = cart.storeIds.join(",");
+  const loadDeliverySlots = useCallback(async () => {
+    const storeIds = storeIdsKey ? storeIdsKey.split(",") : [];
+    try {
+      const slots = await getDeliverySlots(storeIds);
+      setSlotsByStore(slots);
+      // Drop selections that can no longer be booked
+      setSelectedSlotIds((current) => {
+        const next: Record<string, string> = {};
+        for (const [storeId, slotId] of Object.entries(current)) {
+          const slot = slots.get(storeId)?.find((s) => s.$id === slotId);
+          if (slot && getSlotAvailability(slot) === "available") {
+            next[storeId] = slotId;
+          }
+        }
+        return next;
+      });
+    } catch (err) {
+      console.error("Error loading delivery slots:", err);
+    }
+  }, [storeIdsKey]);
+
+  useEffect(() => {
+    loadDeliverySlots();
+  }, [loadDeliverySlots]);
+
+  // Stores that offer slots need one picked; stores without slots deliver ASAP
+  const storesMissingSlot = storeGroups.filter(
+    (group) => (slotsByStore.get(group.storeId)?.length ?? 0) > 0 && !selectedSlotIds[group.storeId]
+  );
+
+  const handlePlaceOrder = async () => {
+    if (!userId) return;
+
+    const address = addresses.find((a) => a.$id === selectedAddressId);
+    if (!address) {
+      Alert.alert("Delivery Address", "Please select a delivery address.");
+      return;
+    }
+
+    const paymentMethod =
+      selectedPaymentId === CASH_ON_DELIVERY_ID
+        ? null
+        : paymentMethods.find((p) => p.$id === selectedPaymentId) || null;
+
+    setIsPlacingOrder(true);
+    try {
+      const result = await checkoutCart({
+        userId,
+        cart,
+        address,
+        paymentMethod,
+        deliverySlotIds: selectedSlotIds,
+      });
+      new Set(cart.items.map((item) => item.productId)).forEach((productId) => {
+        logSearchInteraction(userId, productId, "purchase").catch(console.warn);
+      });
+
+      // Cart was cleared by the order service - reload it into context
+      await refreshCart();
+
+      Alert.alert(
+        "Order Placed",
+        result.orders.length > 1
+          ? `Your order was split into ${result.orders.length} store orders.`
+          : "Your order has been placed.",
+        [{ text: "OK", onPress: () => router.replace("/(tabs)/orders") }]
+      );
+    } catch (err: any) {
+      if (err instanceof DeliverySlotUnavailableError) {
+        // Refresh so the picker shows the slot as full or closed
+        loadDeliverySlots();
+      }
+      Alert.alert("Checkout Failed", err.message || "Failed to place order. Please try again.");
+    } finally {
+      setIsPlacingOrder(false);
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="arrow-back" size={24} color="#111827" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Checkout</Text>
+      <View style={styles.headerPlaceholder} />
+    </View>
+  );
+
+  if (!isAuthenticated) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <Ionicons name="lock-closed-outline" size={64} color="#9CA3AF" />
+          <Text style={styles.centerTitle}>Sign in to checkout</Text>
+          <Text style={styles.centerText}>
+            You need an account to place orders. Your cart will be kept.
+          </Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => router.push("/sign-in")}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.primaryButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      {header}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {error && (
+          <View style={styles.errorBanner}>
+            <Ionicons name="alert-circle" size={18} color="#DC2626" />
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {/* Delivery Address */}
+        <Text style={styles.sectionTitle}>Delivery Address</Text>
+        {addresses.length === 0 ? (
+          <TouchableOpacity
+            style={styles.addRow}
+            onPress={() => router.push("/address-form")}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="add-circle-outline" size={22} color="#10B981" />
+            <Text style={styles.addRowText}>Add a delivery address</Text>
+          </TouchableOpacity>
+        ) : (
+          addresses.map((address) => (
+            <OptionRow
+              key={address.$id}
+              title={address.label}
+              subtitle={formatAddressLine(address)}
+              icon="location-outline"
+              selected={address.$id === selectedAddressId}
+              onPress={() => setSelectedAddressId(address.$id)}
+            />
+          ))
+        )}
+
+        {/* Payment Method */}
+        <Text style={styles.sectionTitle}>Payment Method</Text>
+        <OptionRow
+          title="Cash on Delivery"
+          icon="cash-outline"
+          selected={selectedPaymentId === CASH_ON_DELIVERY_ID}
+          onPress={() => setSelectedPaymentId(CASH_ON_DELIVERY_ID)}
+        />
+        {paymentMethods
+          .filter((method) => method.type !== "cash_on_delivery")
+          .map((method) => (
+            <OptionRow
+              key={method.$id}
+              title={formatPaymentMethod(method)}
+              subtitle={method.label}
+              icon="card-outline"
+              selected={selectedPaymentId === method.$id}
+              onPress={() => setSelectedPaymentId(method.$id)}
+            />
+          ))}
+
+        {/* Delivery Time */}
+        <Text style={styles.sectionTitle}>Delivery Time</Text>
+        {storeGroups.map((group) => {
+          const slots = slotsByStore.get(group.storeId) || [];
+          return (
+            <View key={group.storeId} style={styles.slotSection}>
+              {storeGroups.length > 1 && (
+                <Text style={styles.slotStoreName}>{group.storeName}</Text>
+              )}
+              {slots.length === 0 ? (
+                <Text style={styles.slotNote}>Delivered as soon as possible</Text>
+              ) : (
+                <SlotPicker
+                  slots={slots}
+                  selectedSlotId={selectedSlotIds[group.storeId]}
+                  onSelect={(slotId) =>
+                    setSelectedSlotIds((current) => ({ ...current, [group.storeId]: slotId }))
+                  }
+                />
+              )}
+            </View>
+          );
+        })}
+
+        {/* Order Summary */}
+        <Text style={styles.sectionTitle}>Order Summary</Text>
+        {storeGroups.length > 1 && (
+          <Text style={styles.splitNote}>
+            Your cart has items from {storeGroups.length} stores, so it will be placed as{" "}
+            {storeGroups.length} separate orders.
+          </Text>
+        )}
+        {promoEvaluation && (
+          <View style={styles.promoSummary}>
+            <Ionicons
+              name="pricetag"
+              size={16}
+              color={promoEvaluation.applied ? "#059669" : "#DC2626"}
+            />
+            <Text
+              style={[styles.promoSummaryText, !promoEvaluation.applied && styles.promoSummaryError]}
+            >
+              {promoEvaluation.applied
+                ? `${promoEvaluation.code} applied${
+                    pricing && pricing.discountJmdCents > 0
+                      ? ` · You save $${(pricing.discountJmdCents / 100).toFixed(2)}`
+                      : ""
+                  }`
+                : `${promoEvaluation.code}: ${
+                    promoEvaluation.reason ? PROMO_REJECTION_MESSAGES[promoEvaluation.reason] : ""
+                  }`}
+            </Text>
+          </View>
+        )}
+        {storeGroups.map((group) => {
+          const fees = pricing?.stores.find((store) => store.storeId === group.storeId);
+          return (
+            <View key={group.storeId} style={styles.storeSummary}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.storeName}>{group.storeName}</Text>
+                <Text style={styles.summaryValue}>
+                  ${(group.subtotalJmdCents / 100).toFixed(2)}
+                </Text>
+              </View>
+              {group.items.map((item) => (
+                <View key={`${item.productId}-${item.storeId}`} style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel} numberOfLines={1}>
+                    {item.quantity} × {item.title}
+                  </Text>
+                  <Text style={styles.summaryLabel}>
+                    ${((item.priceJmdCents * item.quantity) / 100).toFixed(2)}
+                  </Text>
+                </View>
+              ))}
+              {fees && (
+                <View style={styles.feeBreakdown}>
+                  <FeeBreakdown fees={fees} showSubtotal={false} />
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <View style={[styles.summaryRow, styles.totalRow]}>
+          <Text style={styles.totalLabel}>Total</Text>
+          <Text style={styles.totalValue}>
+            ${((pricing?.grandTotalJmdCents ?? cart.totalPriceJmdCents) / 100).toFixed(2)}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[
+            styles.primaryButton,
+            (isPlacingOrder ||
+              !selectedAddressId ||
+              cart.items.length === 0 ||
+              belowMinimum ||
+              storesMissingSlot.length > 0) &&
+              styles.primaryButtonDisabled,
+          ]}
+          onPress={handlePlaceOrder}
+          disabled={
+            isPlacingOrder ||
+            !selectedAddressId ||
+            cart.items.length === 0 ||
+            belowMinimum ||
+            storesMissingSlot.length > 0
+          }
+          activeOpacity={0.7}
+        >
+          {isPlacingOrder ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Place Order</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  centerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#111827",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  centerText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+    marginBottom: 24,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 24,
+  },
+  errorBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#FEE2E2",
+    padding: 12,
+    borderRadius: 8,
+    gap: 8,
+    marginBottom: 12,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#DC2626",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#111827",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  optionRowSelected: {
+    borderColor: "#10B981",
+    backgroundColor: "#ECFDF5",
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  optionSubtitle: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: "#10B981",
+    borderRadius: 12,
+  },
+  addRowText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#10B981",
+  },
+  promoSummary: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginBottom: 12,
+  },
+  promoSummaryText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#059669",
+  },
+  promoSummaryError: {
+    color: "#DC2626",
+  },
+  splitNote: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginBottom: 8,
+  },
+  storeSummary: {
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  slotSection: {
+    marginBottom: 8,
+  },
+  slotStoreName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 6,
+  },
+  slotNote: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  slotList: {
+    gap: 8,
+  },
+  slotChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+  },
+  slotChipSelected: {
+    borderColor: "#10B981",
+    backgroundColor: "#ECFDF5",
+  },
+  slotChipDisabled: {
+    backgroundColor: "#F3F4F6",
+  },
+  slotChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  slotChipTextSelected: {
+    color: "#059669",
+  },
+  slotChipTextDisabled: {
+    color: "#9CA3AF",
+  },
+  slotChipStatus: {
+    fontSize: 12,
+    color: "#9CA3AF",
+    marginTop: 2,
+  },
+  feeBreakdown: {
+    marginTop: 6,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  storeName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+    gap: 8,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: "#6B7280",
+    flexShrink: 1,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  footer: {
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+    padding: 16,
+    backgroundColor: "#FFFFFF",
+  },
+  totalRow: {
+    marginBottom: 16,
+  },
+  totalLabel: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  totalValue: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#10B981",
+  },
+  primaryButton: {
+    backgroundColor: "#10B981",
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  primaryButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+});
@@ -0,0 +1,650 @@
+import { useState, useCallback } from "react";
+import {
+  Text,
+  View,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter, useLocalSearchParams, useFocusEffect } from "expo-router";
+import { useUser } from "../../contexts/UserContext";
+import { useCart } from "../../contexts/CartContext";
+import {
+  getShoppingList,
+  getShoppingListMembers,
+  addShoppingListItem,
+  updateShoppingListItem,
+  removeShoppingListItem,
+  shareShoppingList,
+  unshareShoppingList,
+  deleteShoppingList,
+  buildListToCartPlan,
+  checkShoppingListItems,
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListMember,
+  ShoppingListConflictError,
+} from "../../lib/shopping-list-service";
+
+function formatJmd(amountJmdCents: number): string {
+  return `$${(amountJmdCents / 100).toFixed(2)}`;
+}
+
+interface ListItemRowProps {
+  item: ShoppingListItem;
+  onToggle: () => void;
+  onChangeQuantity: (quantity: number) => void;
+  onRemove: () => void;
+}
+
+function ListItemRow({ item, onToggle, onChangeQuantity, onRemove }: ListItemRowProps) {
+  return (
+    <View style={styles.itemRow}>
+      <TouchableOpacity onPress={onToggle} activeOpacity={0.7} style={styles.checkButton}>
+        <Ionicons
+          name={item.checked ? "checkbox" : "square-outline"}
+          size={24}
+          color={item.checked ? "#10B981" : "#9CA3AF"}
+        />
+      </TouchableOpacity>
+      <View style={styles.itemInfo}>
+        <Text style={[styles.itemText, item.checked && styles.itemTextChecked]} numberOfLines={2}>
+          {item.text}
+        </Text>
+        {!item.productId && <Text style={styles.itemHint}>Matched by search</Text>}
+      </View>
+      <View style={styles.quantityControls}>
+        <TouchableOpacity
+          style={styles.quantityButton}
+          onPress={() => onChangeQuantity(item.quantity - 1)}
+          disabled={item.quantity <= 1}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="remove" size={16} color={item.quantity <= 1 ? "#D1D5DB" : "#111827"} />
+        </TouchableOpacity>
+        <Text style={styles.quantityText}>{item.quantity}</Text>
+        <TouchableOpacity
+          style={styles.quantityButton}
+          onPress={() => onChangeQuantity(item.quantity + 1)}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="add" size={16} color="#111827" />
+        </TouchableOpacity>
+      </View>
+      <TouchableOpacity onPress={onRemove} activeOpacity={0.7} style={styles.removeButton}>
+        <Ionicons name="trash-outline" size={18} color="#DC2626" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export default function ShoppingListScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { userId } = useUser();
+  const { addToCart } = useCart();
+  const [list, setList] = useState<ShoppingList | null>(null);
+  const [members, setMembers] = useState<ShoppingListMember[]>([]);
+  const [newItemText, setNewItemText] = useState("");
+  const [shareEmail, setShareEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const [isMoving, setIsMoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadList = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setError(null);
+      const loadedList = await getShoppingList(id);
+      setList(loadedList);
+      setMembers(await getShoppingListMembers(loadedList));
+    } catch (err: any) {
+      setError(err.message || "Failed to load shopping list");
+      console.error("Error loading shopping list:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadList();
+    }, [loadList])
+  );
+
+  const isOwner = !!list && list.ownerId === userId;
+
+  const runUpdate = async (update: () => Promise<ShoppingList>) => {
+    setIsSaving(true);
+    try {
+      setList(await update());
+    } catch (err: any) {
+      if (err instanceof ShoppingListConflictError) {
+        // Show what changed before the user tries again
+        setList(err.latest);
+        Alert.alert("List Changed", err.message);
+        return;
+      }
+      Alert.alert("Error", err.message || "Failed to update list");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddItem = async () => {
+    if (!list || !newItemText.trim()) return;
+    const text = newItemText;
+    setNewItemText("");
+    await runUpdate(() => addShoppingListItem(list, { text }));
+  };
+
+  const handleShare = async () => {
+    if (!list || !shareEmail.trim()) return;
+
+    setIsSharing(true);
+    try {
+      const sharedList = await shareShoppingList(list.$id, shareEmail);
+      setList(sharedList);
+      setMembers(await getShoppingListMembers(sharedList));
+      Alert.alert("Invite Sent", `${shareEmail.trim()} can edit this list once they accept the invite.`);
+      setShareEmail("");
+    } catch (err: any) {
+      Alert.alert("Couldn't Share List", err.message || "Failed to share list");
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleUnshare = (member: ShoppingListMember) => {
+    if (!list) return;
+    Alert.alert("Stop Sharing", `Remove ${member.email} from this list?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () =>
+          runUpdate(async () => {
+            const updatedList = await unshareShoppingList(list.$id, member.userId);
+            setMembers(await getShoppingListMembers(updatedList));
+            return updatedList;
+          }),
+      },
+    ]);
+  };
+
+  const handleLeave = () => {
+    if (!list || !userId) return;
+    Alert.alert("Leave List", "You'll no longer see this list.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Leave",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await unshareShoppingList(list.$id, userId);
+            router.back();
+          } catch (err: any) {
+            Alert.alert("Error", err.message || "Failed to leave list");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDelete = () => {
+    if (!list) return;
+    Alert.alert("Delete List", `Delete "${list.name}"? This can't be undone.`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteShoppingList(list.$id);
+            router.back();
+          } catch (err: any) {
+            Alert.alert("Error", err.message || "Failed to delete list");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleMoveToCart = async () => {
+    if (!list) return;
+
+    setIsMoving(true);
+    try {
+      const plan = await buildListToCartPlan(list);
+      setIsMoving(false);
+
+      const skipped = [...plan.unresolvedItems, ...plan.unavailableItems];
+      if (plan.lines.length === 0) {
+        Alert.alert(
+          "Nothing to Add",
+          skipped.length > 0
+            ? "None of the items on this list are in stock right now."
+            : "Everything on this list is already checked off."
+        );
+        return;
+      }
+
+      const total = plan.lines.reduce(
+        (sum, line) => sum + line.offer.priceJmdCents * line.item.quantity,
+        0
+      );
+      const skippedNote =
+        skipped.length > 0
+          ? `\n\nNot available: ${skipped.map((item) => item.text).join(", ")}`
+          : "";
+
+      Alert.alert(
+        "Move to Cart",
+        `Add ${plan.lines.length} item${plan.lines.length !== 1 ? "s" : ""} at the best in-stock price (${formatJmd(total)})?${skippedNote}`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Add to Cart",
+            onPress: async () => {
+              try {
+                for (const line of plan.lines) {
+                  await addToCart(
+                    line.productId,
+                    line.offer.storeId,
+                    line.sku,
+                    line.title,
+                    line.offer.priceJmdCents,
+                    line.offer.storeName,
+                    line.brand,
+                    line.imageUrl,
+                    line.item.quantity,
+                    line.offer.storeLogoUrl
+                  );
+                }
+                setList(
+                  await checkShoppingListItems(
+                    list,
+                    plan.lines.map((line) => line.item.id)
+                  )
+                );
+                router.push("/cart");
+              } catch (err: any) {
+                Alert.alert("Error", err.message || "Failed to add items to cart");
+              }
+            },
+          },
+        ]
+      );
+    } catch (err: any) {
+      setIsMoving(false);
+      Alert.alert("Error", err.message || "Failed to find store offers");
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="arrow-back" size={24} color="#111827" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle} numberOfLines={1}>
+        {list?.name || "Shopping List"}
+      </Text>
+      {isSaving ? (
+        <View style={styles.headerPlaceholder}>
+          <ActivityIndicator size="small" color="#10B981" />
+        </View>
+      ) : (
+        <View style={styles.headerPlaceholder} />
+      )}
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !list) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <Ionicons name="alert-circle-outline" size={64} color="#EF4444" />
+          <Text style={styles.centerText}>{error || "Shopping list not found"}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const pendingCount = list.items.filter((item) => !item.checked).length;
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      {header}
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.input}
+            value={newItemText}
+            onChangeText={setNewItemText}
+            placeholder="Add an item (e.g. corn beef, hard dough bread)"
+            placeholderTextColor="#9CA3AF"
+            returnKeyType="done"
+            onSubmitEditing={handleAddItem}
+          />
+          <TouchableOpacity
+            style={[styles.smallButton, !newItemText.trim() && styles.buttonDisabled]}
+            onPress={handleAddItem}
+            disabled={!newItemText.trim()}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="add" size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+
+        {list.items.length === 0 ? (
+          <Text style={styles.emptyText}>
+            No items yet. Add items here or from any product page.
+          </Text>
+        ) : (
+          list.items.map((item) => (
+            <ListItemRow
+              key={item.id}
+              item={item}
+              onToggle={() =>
+                runUpdate(() =>
+                  updateShoppingListItem(list, item.id, { checked: !item.checked })
+                )
+              }
+              onChangeQuantity={(quantity) =>
+                runUpdate(() => updateShoppingListItem(list, item.id, { quantity }))
+              }
+              onRemove={() => runUpdate(() => removeShoppingListItem(list, item.id))}
+            />
+          ))
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (pendingCount === 0 || isMoving) && styles.buttonDisabled]}
+          onPress={handleMoveToCart}
+          disabled={pendingCount === 0 || isMoving}
+          activeOpacity={0.7}
+        >
+          {isMoving ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <>
+              <Ionicons name="cart" size={18} color="#FFFFFF" />
+              <Text style={styles.primaryButtonText}>
+                Move {pendingCount} Item{pendingCount !== 1 ? "s" : ""} to Cart
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Shared With</Text>
+          {members.length === 0 && (
+            <Text style={styles.sectionText}>Only you can see this list.</Text>
+          )}
+          {members.map((member) => (
+            <View key={member.membershipId} style={styles.sharedRow}>
+              <Ionicons name="person-circle-outline" size={20} color="#6B7280" />
+              <Text style={styles.sharedEmail} numberOfLines={1}>
+                {member.email || member.name || "Grovi user"}
+              </Text>
+              {!member.joined && <Text style={styles.sharedStatus}>Invited</Text>}
+              {isOwner && (
+                <TouchableOpacity onPress={() => handleUnshare(member)} activeOpacity={0.7}>
+                  <Ionicons name="close-circle" size={20} color="#9CA3AF" />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+
+          {isOwner && (
+            <View style={styles.addRow}>
+              <TextInput
+                style={styles.input}
+                value={shareEmail}
+                onChangeText={setShareEmail}
+                placeholder="Share by email"
+                placeholderTextColor="#9CA3AF"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="send"
+                onSubmitEditing={handleShare}
+              />
+              <TouchableOpacity
+                style={[styles.smallButton, (!shareEmail.trim() || isSharing) && styles.buttonDisabled]}
+                onPress={handleShare}
+                disabled={!shareEmail.trim() || isSharing}
+                activeOpacity={0.7}
+              >
+                {isSharing ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Ionicons name="share-social" size={18} color="#FFFFFF" />
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={styles.dangerButton}
+          onPress={isOwner ? handleDelete : handleLeave}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.dangerButtonText}>{isOwner ? "Delete List" : "Leave List"}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+    textAlign: "center",
+  },
+  headerPlaceholder: {
+    width: 40,
+    alignItems: "center",
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  centerText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+    marginTop: 16,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  addRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 12,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#111827",
+  },
+  smallButton: {
+    width: 44,
+    backgroundColor: "#10B981",
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6B7280",
+    textAlign: "center",
+    paddingVertical: 24,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  checkButton: {
+    padding: 2,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemText: {
+    fontSize: 15,
+    color: "#111827",
+  },
+  itemTextChecked: {
+    color: "#9CA3AF",
+    textDecorationLine: "line-through",
+  },
+  itemHint: {
+    fontSize: 12,
+    color: "#9CA3AF",
+    marginTop: 2,
+  },
+  quantityControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  quantityButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  quantityText: {
+    minWidth: 20,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+    textAlign: "center",
+  },
+  removeButton: {
+    padding: 4,
+  },
+  primaryButton: {
+    flexDirection: "row",
+    gap: 8,
+    backgroundColor: "#10B981",
+    paddingVertical: 14,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  section: {
+    marginTop: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: 8,
+  },
+  sectionText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginBottom: 12,
+  },
+  sharedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 8,
+  },
+  sharedEmail: {
+    flex: 1,
+    fontSize: 14,
+    color: "#111827",
+  },
+  sharedStatus: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
+  dangerButton: {
+    paddingVertical: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: "#FEE2E2",
+    alignItems: "center",
+    marginTop: 24,
+  },
+  dangerButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#DC2626",
+  },
+});
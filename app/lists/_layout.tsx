@@ -0,0 +1,11 @@
+import { Stack } from "expo-router";
+
+export default function ListsLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    />
+  );
+}
@@ -0,0 +1,353 @@
+import { useState, useCallback } from "react";
+import {
+  Text,
+  View,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter, useFocusEffect } from "expo-router";
+import { useUser } from "../../contexts/UserContext";
+import {
+  getShoppingLists,
+  createShoppingList,
+  ShoppingList,
+} from "../../lib/shopping-list-service";
+
+interface ListCardProps {
+  list: ShoppingList;
+  isOwner: boolean;
+  onPress: () => void;
+}
+
+function ListCard({ list, isOwner, onPress }: ListCardProps) {
+  const remaining = list.items.filter((item) => !item.checked).length;
+
+  return (
+    <TouchableOpacity style={styles.listCard} onPress={onPress} activeOpacity={0.7}>
+      <View style={styles.listIcon}>
+        <Ionicons name="list" size={20} color="#10B981" />
+      </View>
+      <View style={styles.listInfo}>
+        <Text style={styles.listName} numberOfLines={1}>
+          {list.name}
+        </Text>
+        <Text style={styles.listMeta}>
+          {list.items.length === 0
+            ? "No items yet"
+            : `${remaining} of ${list.items.length} item${list.items.length !== 1 ? "s" : ""} to get`}
+        </Text>
+      </View>
+      {(!isOwner || list.teamId) && (
+        <View style={styles.sharedBadge}>
+          <Ionicons name="people" size={12} color="#059669" />
+          <Text style={styles.sharedBadgeText}>{isOwner ? "Shared" : "Shared with you"}</Text>
+        </View>
+      )}
+      <Ionicons name="chevron-forward" size={20} color="#9CA3AF" />
+    </TouchableOpacity>
+  );
+}
+
+export default function ShoppingListsScreen() {
+  const router = useRouter();
+  const { userId, isAuthenticated } = useUser();
+  const [lists, setLists] = useState<ShoppingList[]>([]);
+  const [newListName, setNewListName] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLists = useCallback(async () => {
+    if (!userId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      setLists(await getShoppingLists(userId));
+    } catch (err: any) {
+      setError(err.message || "Failed to load shopping lists");
+      console.error("Error loading shopping lists:", err);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [userId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadLists();
+    }, [loadLists])
+  );
+
+  const handleCreate = async () => {
+    if (!userId || !newListName.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const list = await createShoppingList(userId, newListName);
+      setNewListName("");
+      router.push(`/lists/${list.$id}`);
+    } catch (err: any) {
+      Alert.alert("Error", err.message || "Failed to create list");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="arrow-back" size={24} color="#111827" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Shopping Lists</Text>
+      <View style={styles.headerPlaceholder} />
+    </View>
+  );
+
+  if (!isAuthenticated) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <Ionicons name="list-outline" size={64} color="#9CA3AF" />
+          <Text style={styles.emptyTitle}>Sign in to use shopping lists</Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => router.replace("/sign-in")}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.primaryButtonText}>Sign In</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      {header}
+      <View style={styles.createRow}>
+        <TextInput
+          style={styles.createInput}
+          value={newListName}
+          onChangeText={setNewListName}
+          placeholder="New list name"
+          placeholderTextColor="#9CA3AF"
+          returnKeyType="done"
+          onSubmitEditing={handleCreate}
+        />
+        <TouchableOpacity
+          style={[styles.createButton, (!newListName.trim() || isCreating) && styles.buttonDisabled]}
+          onPress={handleCreate}
+          disabled={!newListName.trim() || isCreating}
+          activeOpacity={0.7}
+        >
+          {isCreating ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.createButtonText}>Create</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {isLoading && lists.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      ) : (
+        <FlatList
+          data={lists}
+          keyExtractor={(list) => list.$id}
+          renderItem={({ item }) => (
+            <ListCard
+              list={item}
+              isOwner={item.ownerId === userId}
+              onPress={() => router.push(`/lists/${item.$id}`)}
+            />
+          )}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={() => {
+                setIsRefreshing(true);
+                loadLists();
+              }}
+            />
+          }
+          ListEmptyComponent={
+            <View style={styles.centerContainer}>
+              <Ionicons
+                name={error ? "alert-circle-outline" : "list-outline"}
+                size={64}
+                color={error ? "#EF4444" : "#9CA3AF"}
+              />
+              <Text style={styles.emptyTitle}>{error || "No shopping lists yet"}</Text>
+              {!error && (
+                <Text style={styles.emptyText}>
+                  Create a list for your weekly staples and share it with your household.
+                </Text>
+              )}
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+    marginTop: 16,
+    textAlign: "center",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginTop: 8,
+    textAlign: "center",
+  },
+  primaryButton: {
+    backgroundColor: "#10B981",
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 24,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  createRow: {
+    flexDirection: "row",
+    gap: 8,
+    padding: 16,
+  },
+  createInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#111827",
+  },
+  createButton: {
+    backgroundColor: "#10B981",
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  createButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  buttonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  listCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  listIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#ECFDF5",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  listMeta: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  sharedBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "#ECFDF5",
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+  },
+  sharedBadgeText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#059669",
+  },
+});
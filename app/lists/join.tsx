@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Text, View, StyleSheet, TouchableOpacity, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { acceptShoppingListInvite } from "../../lib/shopping-list-service";
+
+/**
+ * Opened from a shopping list invite email (see EXPO_PUBLIC_LIST_INVITE_URL)
+ * Appwrite adds teamId, membershipId, userId and secret to the link
+ */
+export default function JoinShoppingListScreen() {
+  const router = useRouter();
+  const { teamId, membershipId, userId, secret } = useLocalSearchParams<{
+    teamId: string;
+    membershipId: string;
+    userId: string;
+    secret: string;
+  }>();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!teamId || !membershipId || !userId || !secret) {
+      setError("This invite link is incomplete.");
+      return;
+    }
+
+    acceptShoppingListInvite(teamId, membershipId, userId, secret)
+      .then((list) => {
+        if (list) {
+          router.replace(`/lists/${list.$id}`);
+        } else {
+          setError("This list no longer exists.");
+        }
+      })
+      .catch((err: any) => {
+        setError(err.message || "Failed to accept invite");
+      });
+  }, [teamId, membershipId, userId, secret, router]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.centerContainer}>
+        {error ? (
+          <>
+            <Ionicons name="alert-circle-outline" size={64} color="#EF4444" />
+            <Text style={styles.centerText}>{error}</Text>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => router.replace("/lists")}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.buttonText}>Go to My Lists</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <ActivityIndicator size="large" color="#10B981" />
+            <Text style={styles.centerText}>Joining shopping list...</Text>
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  centerText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+    marginTop: 16,
+  },
+  button: {
+    marginTop: 24,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    backgroundColor: "#10B981",
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
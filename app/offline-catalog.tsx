@@ -0,0 +1,277 @@
+import { useState, useCallback } from "react";
+import {
+  Text,
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useRouter, useFocusEffect } from "expo-router";
+import {
+  getCatalogManifest,
+  downloadCatalogSnapshot,
+  deleteCatalogSnapshot,
+  CatalogManifest,
+} from "../lib/offline-catalog-service";
+
+export default function OfflineCatalogScreen() {
+  const router = useRouter();
+  const [manifest, setManifest] = useState<CatalogManifest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadManifest();
+    }, [])
+  );
+
+  const loadManifest = async () => {
+    setIsLoading(true);
+    try {
+      setManifest(await getCatalogManifest());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const newManifest = await downloadCatalogSnapshot();
+      setManifest(newManifest);
+      Alert.alert(
+        "Catalog Downloaded",
+        `${newManifest.productCount} products are now searchable offline.`
+      );
+    } catch (err: any) {
+      Alert.alert("Error", err.message || "Failed to download catalog. Please try again.");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert("Remove Offline Catalog", "Search will only work when you are online.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteCatalogSnapshot();
+            setManifest(null);
+          } catch (err: any) {
+            Alert.alert("Error", err.message || "Failed to remove catalog.");
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="arrow-back" size={24} color="#111827" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Offline Catalog</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="cloud-offline-outline" size={24} color="#10B981" />
+              <Text style={styles.sectionTitle}>Search Without a Connection</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Download the product catalog and latest prices to this device. When you are
+              offline, search uses the downloaded copy. Prices may be out of date until you
+              update it.
+            </Text>
+
+            {manifest ? (
+              <View style={styles.statsGroup}>
+                <View style={styles.statRow}>
+                  <Text style={styles.statLabel}>Downloaded</Text>
+                  <Text style={styles.statValue}>
+                    {new Date(manifest.downloadedAt).toLocaleString()}
+                  </Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text style={styles.statLabel}>Products</Text>
+                  <Text style={styles.statValue}>{manifest.productCount}</Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text style={styles.statLabel}>Stores</Text>
+                  <Text style={styles.statValue}>{manifest.storeLocationCount}</Text>
+                </View>
+                <View style={styles.statRow}>
+                  <Text style={styles.statLabel}>Prices</Text>
+                  <Text style={styles.statValue}>{manifest.listingCount}</Text>
+                </View>
+              </View>
+            ) : (
+              <Text style={styles.emptyText}>No catalog downloaded yet.</Text>
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, isDownloading && styles.primaryButtonDisabled]}
+              onPress={handleDownload}
+              disabled={isDownloading}
+              activeOpacity={0.8}
+            >
+              {isDownloading ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Ionicons name="download-outline" size={20} color="#FFFFFF" />
+              )}
+              <Text style={styles.primaryButtonText}>
+                {isDownloading ? "Downloading..." : manifest ? "Update Catalog" : "Download Catalog"}
+              </Text>
+            </TouchableOpacity>
+
+            {manifest && !isDownloading && (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={handleDelete}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.secondaryButtonText}>Remove from Device</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#F9FAFB",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: "#FFFFFF",
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  section: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 12,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  statsGroup: {
+    marginBottom: 16,
+  },
+  statRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F3F4F6",
+  },
+  statLabel: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  statValue: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#9CA3AF",
+    marginBottom: 16,
+  },
+  primaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "#10B981",
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  primaryButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    alignItems: "center",
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: "#DC2626",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
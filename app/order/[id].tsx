@@ -0,0 +1,524 @@
+import { useState, useCallback } from "react";
+import {
+  Text,
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams, useRouter, useFocusEffect } from "expo-router";
+import { useUser } from "../../contexts/UserContext";
+import StoreGroupHeader from "../../components/StoreGroupHeader";
+import FeeBreakdown from "../../components/FeeBreakdown";
+import {
+  cancelOrder,
+  canTransitionOrder,
+  getOrder,
+  getOrderFeeBreakdown,
+  getOrdersForCheckout,
+  getOrderStatusTimeline,
+  Order,
+  OrderAddressSnapshot,
+  ORDER_STATUS_LABELS,
+} from "../../lib/order-service";
+import { formatSlotWindow } from "../../lib/delivery-slot-service";
+
+function formatAddressLine(address: OrderAddressSnapshot): string {
+  const parts = [];
+  if (address.houseDetails) parts.push(address.houseDetails);
+  if (address.street) parts.push(address.street);
+  parts.push(address.community);
+  parts.push(address.parish);
+  return parts.join(", ");
+}
+
+function formatTimestamp(isoDate: string): string {
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return "";
+  return date.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function OrderDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { userId } = useUser();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [checkoutOrders, setCheckoutOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const loadOrder = useCallback(async () => {
+    if (!id) {
+      setError("Order not found");
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const fetchedOrder = await getOrder(id);
+      if (!fetchedOrder) {
+        setError("Order not found");
+        return;
+      }
+      setOrder(fetchedOrder);
+
+      // Other stores from the same checkout are shown alongside this one
+      if (userId) {
+        const siblings = await getOrdersForCheckout(userId, fetchedOrder.checkoutId);
+        setCheckoutOrders(siblings.length > 0 ? siblings : [fetchedOrder]);
+      } else {
+        setCheckoutOrders([fetchedOrder]);
+      }
+    } catch (err: any) {
+      setError(err.message || "Failed to load order");
+      console.error("Error loading order:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, userId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadOrder();
+    }, [loadOrder])
+  );
+
+  const handleCancel = () => {
+    if (!order) return;
+
+    Alert.alert(
+      "Cancel Order",
+      `Cancel your order from ${order.storeName}? Other stores in this checkout are not affected.`,
+      [
+        {
+          text: "Keep Order",
+          style: "cancel",
+        },
+        {
+          text: "Cancel Order",
+          style: "destructive",
+          onPress: async () => {
+            setIsCancelling(true);
+            try {
+              await cancelOrder(order.$id, "Cancelled by customer");
+              await loadOrder();
+            } catch (err: any) {
+              Alert.alert("Error", err.message || "Failed to cancel order");
+            } finally {
+              setIsCancelling(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="arrow-back" size={24} color="#111827" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Order Details</Text>
+      <View style={styles.headerPlaceholder} />
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <Ionicons name="alert-circle-outline" size={64} color="#EF4444" />
+          <Text style={styles.centerText}>{error || "Order not found"}</Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => {
+              setIsLoading(true);
+              loadOrder();
+            }}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.primaryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const timeline = getOrderStatusTimeline(order);
+  const grandTotalJmdCents = checkoutOrders.reduce(
+    (sum, storeOrder) => sum + storeOrder.totalJmdCents,
+    0
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      {header}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.placedAt}>Placed {formatTimestamp(order.placedAt)}</Text>
+        {order.deliveryWindowStart && order.deliveryWindowEnd && (
+          <Text style={styles.placedAt}>
+            Delivery {formatSlotWindow(order.deliveryWindowStart, order.deliveryWindowEnd)}
+          </Text>
+        )}
+        {checkoutOrders.length > 1 && (
+          <Text style={styles.splitNote}>
+            This checkout was split into {checkoutOrders.length} orders, one per store.
+          </Text>
+        )}
+
+        {/* Status */}
+        <Text style={styles.sectionTitle}>Status</Text>
+        <View style={styles.card}>
+          {timeline.map((event, index) => (
+            <View key={`${event.status}-${event.at}`} style={styles.timelineRow}>
+              <View style={styles.timelineMarker}>
+                <View
+                  style={[
+                    styles.timelineDot,
+                    index === timeline.length - 1 && styles.timelineDotCurrent,
+                  ]}
+                />
+                {index < timeline.length - 1 && <View style={styles.timelineLine} />}
+              </View>
+              <View style={styles.timelineText}>
+                <Text style={styles.timelineStatus}>
+                  {ORDER_STATUS_LABELS[event.status] || event.status}
+                </Text>
+                <Text style={styles.timelineTime}>{formatTimestamp(event.at)}</Text>
+                {event.reason ? (
+                  <Text style={styles.timelineTime}>{event.reason}</Text>
+                ) : null}
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {/* Items */}
+        <Text style={styles.sectionTitle}>Items</Text>
+        {checkoutOrders.map((storeOrder) => (
+          <View
+            key={storeOrder.$id}
+            style={[styles.card, storeOrder.$id === order.$id && styles.cardHighlighted]}
+          >
+            <StoreGroupHeader
+              storeName={storeOrder.storeName}
+              storeLogoUrl={storeOrder.storeLogoUrl}
+              subtotal={storeOrder.subtotalJmdCents}
+              subtotalLabel={ORDER_STATUS_LABELS[storeOrder.status] || storeOrder.status}
+            />
+            {storeOrder.items.map((item) => (
+              <View key={item.productId} style={styles.itemRow}>
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemTitle} numberOfLines={2}>
+                    {item.title}
+                  </Text>
+                  <Text style={styles.itemMeta}>
+                    {item.quantity} × ${(item.priceJmdCents / 100).toFixed(2)}
+                  </Text>
+                </View>
+                <Text style={styles.itemTotal}>
+                  ${((item.priceJmdCents * item.quantity) / 100).toFixed(2)}
+                </Text>
+              </View>
+            ))}
+            <View style={styles.feeBreakdown}>
+              <FeeBreakdown fees={getOrderFeeBreakdown(storeOrder)} showSubtotal={false} />
+            </View>
+          </View>
+        ))}
+
+        {/* Delivery Address */}
+        <Text style={styles.sectionTitle}>Delivery Address</Text>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{order.address.label}</Text>
+          <Text style={styles.cardText}>{formatAddressLine(order.address)}</Text>
+          {order.address.landmarkDirections ? (
+            <Text style={styles.cardText}>{order.address.landmarkDirections}</Text>
+          ) : null}
+          {order.address.contactPhone ? (
+            <Text style={styles.cardText}>{order.address.contactPhone}</Text>
+          ) : null}
+        </View>
+
+        {/* Payment */}
+        <Text style={styles.sectionTitle}>Payment</Text>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{order.paymentMethodLabel}</Text>
+        </View>
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Total</Text>
+          <Text style={styles.totalValue}>${(grandTotalJmdCents / 100).toFixed(2)}</Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.primaryButton, styles.reorderButton]}
+          onPress={() => router.push(`/reorder/${order.$id}`)}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="repeat" size={18} color="#FFFFFF" />
+          <Text style={styles.primaryButtonText}>Reorder</Text>
+        </TouchableOpacity>
+        {canTransitionOrder(order.status, "cancelled") && (
+          <TouchableOpacity
+            style={[styles.cancelButton, isCancelling && styles.buttonDisabled]}
+            onPress={handleCancel}
+            disabled={isCancelling}
+            activeOpacity={0.7}
+          >
+            {isCancelling ? (
+              <ActivityIndicator size="small" color="#EF4444" />
+            ) : (
+              <Text style={styles.cancelButtonText}>Cancel Order</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  centerText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  primaryButton: {
+    backgroundColor: "#10B981",
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  reorderButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    marginTop: 12,
+  },
+  cancelButton: {
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#EF4444",
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#EF4444",
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 24,
+  },
+  placedAt: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  splitNote: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#111827",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  cardHighlighted: {
+    borderColor: "#10B981",
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  cardText: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  timelineRow: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  timelineMarker: {
+    alignItems: "center",
+    width: 12,
+  },
+  timelineDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: "#D1D5DB",
+    marginTop: 4,
+  },
+  timelineDotCurrent: {
+    backgroundColor: "#10B981",
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: "#E5E7EB",
+    marginVertical: 2,
+  },
+  timelineText: {
+    flex: 1,
+    paddingBottom: 12,
+  },
+  timelineStatus: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  timelineTime: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  feeBreakdown: {
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+    marginBottom: 8,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 14,
+    color: "#111827",
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  itemTotal: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  totalLabel: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#111827",
+  },
+  totalValue: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#10B981",
+  },
+});
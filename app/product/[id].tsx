@@ -8,6 +8,7 @@ import {
   TouchableOpacity,
   Linking,
   Alert,
+  TextInput,
 } from "react-native";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
@@ -17,6 +18,22 @@ import ProductImageGallery from "../../components/ProductImageGallery";
 import { databases, databaseId } from "../../lib/appwrite-client";
 import { Query } from "appwrite";
 import { useCart } from "../../contexts/CartContext";
+import { useUser } from "../../contexts/UserContext";
+import PriceHistoryChart from "../../components/PriceHistoryChart";
+import { getPriceHistory, PriceHistoryEntry } from "../../lib/price-history-service";
+import { getPriceWatch, watchProduct, unwatchProduct, PriceWatch } from "../../lib/price-watch-service";
+import {
+  getShoppingLists,
+  addShoppingListItem,
+  ShoppingList,
+  ShoppingListConflictError,
+} from "../../lib/shopping-list-service";
+import { logSearchInteraction } from "../../lib/search-analytics-service";
+import { calculateUnitPrice, formatUnitPrice, UnitPrice } from "../../lib/search/unit-price";
+import { getAllergens, getLabelledDietaryTags, ALLERGEN_LABELS, DIETARY_TAG_LABELS } from "../../lib/search/dietary";
+
+/** Days of price history shown on the chart */
+const PRICE_HISTORY_DAYS = 90;
 
 interface ProductImageObject {
   fileId: string;
@@ -32,6 +49,8 @@ interface Product {
   unit_size?: string; // e.g., "500g", "1L", "296 ml"
   package_quantity?: number; // e.g., 16 (units per package)
   net_weight?: string; // e.g., "500g"
+  dietary_tags?: string[]; // e.g., ["vegan", "gluten_free"]
+  allergens?: string[]; // e.g., ["dairy", "soy"]
   country_of_origin?: string; // Future: country where product is from
   primary_image_url?: string;
   images?: ProductImageObject[] | string; // Array of image objects or JSON string
@@ -103,6 +122,7 @@ export default function ProductDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { addToCart, isProductInCart, getItemQuantity } = useCart();
+  const { userId, isAuthenticated } = useUser();
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -115,11 +135,48 @@ export default function ProductDetailScreen() {
   >([]);
   const [category, setCategory] = useState<Category | null>(null);
   const [addingToCart, setAddingToCart] = useState<string | null>(null);
+  const [priceHistory, setPriceHistory] = useState<Map<string, PriceHistoryEntry[]>>(new Map());
+  const [priceWatch, setPriceWatch] = useState<PriceWatch | null>(null);
+  const [targetPriceInput, setTargetPriceInput] = useState("");
+  const [savingWatch, setSavingWatch] = useState(false);
+  const [shoppingLists, setShoppingLists] = useState<ShoppingList[]>([]);
+  const [addingToList, setAddingToList] = useState<string | null>(null);
 
   useEffect(() => {
     loadProductDetails();
   }, [id]);
 
+  // Load the user's price watch for this product
+  useEffect(() => {
+    if (!id || !userId) {
+      setPriceWatch(null);
+      return;
+    }
+    getPriceWatch(userId, id)
+      .then((watch) => {
+        setPriceWatch(watch);
+        if (watch) {
+          setTargetPriceInput((watch.targetPriceJmdCents / 100).toFixed(2));
+        }
+      })
+      .catch((err) => {
+        console.warn("Error loading price watch:", err);
+      });
+  }, [id, userId]);
+
+  // Load the user's shopping lists for "Add to list"
+  useEffect(() => {
+    if (!userId) {
+      setShoppingLists([]);
+      return;
+    }
+    getShoppingLists(userId)
+      .then(setShoppingLists)
+      .catch((err) => {
+        console.warn("Error loading shopping lists:", err);
+      });
+  }, [userId]);
+
   const loadProductDetails = async () => {
     if (!id) {
       setError("Invalid product ID");
@@ -147,6 +204,8 @@ export default function ProductDetailScreen() {
         unit_size: productDoc.unit_size,
         package_quantity: productDoc.package_quantity,
         net_weight: productDoc.net_weight,
+        dietary_tags: productDoc.dietary_tags || [],
+        allergens: productDoc.allergens || [],
         country_of_origin: productDoc.country_of_origin,
         primary_image_url: productDoc.primary_image_url,
         images: productDoc.images,
@@ -220,6 +279,13 @@ export default function ProductDetailScreen() {
 
       setStoreProducts(storeProductsWithLocations.filter(Boolean) as any);
 
+      // Price history is supplementary - the page still works without it
+      try {
+        setPriceHistory(await getPriceHistory(id, PRICE_HISTORY_DAYS));
+      } catch (err) {
+        console.warn("Error fetching price history:", err);
+      }
+
       // Fetch category if available
       if (productData.category_leaf_id) {
         try {
@@ -279,6 +345,7 @@ export default function ProductDetailScreen() {
         1,
         storeLocation.logo_url
       );
+      logSearchInteraction(userId, product.$id, "add_to_cart").catch(console.warn);
       
       Alert.alert(
         "Added to Cart",
@@ -297,6 +364,75 @@ export default function ProductDetailScreen() {
     }
   };
 
+  const handleSaveWatch = async () => {
+    if (!userId || !product) return;
+
+    const targetPriceJmdCents = Math.round(parseFloat(targetPriceInput) * 100);
+    if (!Number.isFinite(targetPriceJmdCents) || targetPriceJmdCents <= 0) {
+      Alert.alert("Price Alert", "Please enter a valid target price.", [{ text: "OK" }]);
+      return;
+    }
+
+    try {
+      setSavingWatch(true);
+      const watch = await watchProduct(userId, product.$id, targetPriceJmdCents);
+      setPriceWatch(watch);
+      Alert.alert(
+        "Price Alert Set",
+        `We'll notify you when ${product.title} is $${(targetPriceJmdCents / 100).toFixed(2)} or less. Make sure push notifications and promotions are on in Notification Preferences.`,
+        [{ text: "OK" }]
+      );
+    } catch (err) {
+      console.error("Error saving price watch:", err);
+      Alert.alert("Error", "Failed to save price alert. Please try again.", [{ text: "OK" }]);
+    } finally {
+      setSavingWatch(false);
+    }
+  };
+
+  const handleRemoveWatch = async () => {
+    if (!priceWatch) return;
+
+    try {
+      setSavingWatch(true);
+      await unwatchProduct(priceWatch.$id);
+      setPriceWatch(null);
+      setTargetPriceInput("");
+    } catch (err) {
+      console.error("Error removing price watch:", err);
+      Alert.alert("Error", "Failed to remove price alert. Please try again.", [{ text: "OK" }]);
+    } finally {
+      setSavingWatch(false);
+    }
+  };
+
+  const handleAddToList = async (list: ShoppingList) => {
+    if (!product) return;
+
+    try {
+      setAddingToList(list.$id);
+      const item = { productId: product.$id, text: product.title };
+      const updated = await addShoppingListItem(list, item).catch((err) => {
+        // Someone else edited the list - adding doesn't depend on what changed
+        if (err instanceof ShoppingListConflictError) {
+          return addShoppingListItem(err.latest, item);
+        }
+        throw err;
+      });
+      setShoppingLists((current) =>
+        current.map((existing) => (existing.$id === updated.$id ? updated : existing))
+      );
+      Alert.alert("Added to List", `${product.title} was added to ${list.name}.`, [
+        { text: "OK" },
+      ]);
+    } catch (err) {
+      console.error("Error adding to shopping list:", err);
+      Alert.alert("Error", "Failed to add to list. Please try again.", [{ text: "OK" }]);
+    } finally {
+      setAddingToList(null);
+    }
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container} edges={["top"]}>
@@ -389,6 +525,13 @@ export default function ProductDetailScreen() {
   const lowestPrice = storeProducts.length > 0
     ? Math.min(...storeProducts.map((sp) => sp.storeProduct.price_jmd_cents))
     : null;
+  const lowestUnitPrice = lowestPrice !== null ? calculateUnitPrice(lowestPrice, product) : null;
+  const allergens = getAllergens(product);
+  const dietaryTags = getLabelledDietaryTags(product);
+  const unitPriceByStoreProduct: Record<string, UnitPrice | null> = {};
+  for (const { storeProduct } of storeProducts) {
+    unitPriceByStoreProduct[storeProduct.$id] = calculateUnitPrice(storeProduct.price_jmd_cents, product);
+  }
 
   return (
     <SafeAreaView style={styles.container} edges={["top"]}>
@@ -465,6 +608,26 @@ export default function ProductDetailScreen() {
             </View>
           )}
 
+          {/* Dietary attributes and allergens */}
+          {dietaryTags.length > 0 && (
+            <View style={styles.dietaryTags}>
+              {dietaryTags.map((tag) => (
+                <View key={tag} style={styles.dietaryTag}>
+                  <Ionicons name="leaf-outline" size={12} color="#059669" />
+                  <Text style={styles.dietaryTagText}>{DIETARY_TAG_LABELS[tag]}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+          {allergens.length > 0 && (
+            <View style={styles.allergenWarning}>
+              <Ionicons name="warning-outline" size={18} color="#B45309" />
+              <Text style={styles.allergenWarningText}>
+                {`Contains allergens: ${allergens.map((allergen) => ALLERGEN_LABELS[allergen]).join(", ")}`}
+              </Text>
+            </View>
+          )}
+
           {/* Price */}
           {lowestPrice && (
             <View style={styles.priceSection}>
@@ -472,6 +635,9 @@ export default function ProductDetailScreen() {
               <Text style={styles.priceText}>
                 ${(lowestPrice / 100).toFixed(2)}
               </Text>
+              {lowestUnitPrice && (
+                <Text style={styles.unitPriceText}>{formatUnitPrice(lowestUnitPrice)}</Text>
+              )}
             </View>
           )}
 
@@ -522,6 +688,116 @@ export default function ProductDetailScreen() {
             </View>
           )}
 
+          {/* Price History */}
+          {storeProducts.length > 0 && (
+            <View style={styles.priceHistorySection}>
+              <Text style={styles.sectionTitle}>Price History</Text>
+              <PriceHistoryChart
+                days={PRICE_HISTORY_DAYS}
+                series={storeProducts.map(({ storeProduct, storeLocation }) => ({
+                  storeId: storeProduct.store_location_id,
+                  storeName: storeLocation.display_name || storeLocation.name,
+                  currentPriceJmdCents: storeProduct.price_jmd_cents,
+                  entries: priceHistory.get(storeProduct.store_location_id) || [],
+                }))}
+              />
+            </View>
+          )}
+
+          {/* Price Alert */}
+          {isAuthenticated && (
+            <View style={styles.priceAlertSection}>
+              <Text style={styles.sectionTitle}>Price Alert</Text>
+              <Text style={styles.priceAlertHint}>
+                {priceWatch
+                  ? `Watching for $${(priceWatch.targetPriceJmdCents / 100).toFixed(2)} or less at any store`
+                  : "Get a notification when this product drops to your target price"}
+              </Text>
+              <View style={styles.priceAlertRow}>
+                <View style={styles.priceAlertInputContainer}>
+                  <Text style={styles.priceAlertCurrency}>$</Text>
+                  <TextInput
+                    style={styles.priceAlertInput}
+                    value={targetPriceInput}
+                    onChangeText={setTargetPriceInput}
+                    placeholder={lowestPrice ? ((lowestPrice * 0.9) / 100).toFixed(2) : "0.00"}
+                    placeholderTextColor="#9CA3AF"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <TouchableOpacity
+                  style={[styles.priceAlertButton, savingWatch && styles.addToCartButtonDisabled]}
+                  onPress={handleSaveWatch}
+                  disabled={savingWatch}
+                  activeOpacity={0.7}
+                >
+                  {savingWatch ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <>
+                      <Ionicons name="notifications" size={16} color="#FFFFFF" />
+                      <Text style={styles.priceAlertButtonText}>
+                        {priceWatch ? "Update" : "Watch"}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+              {priceWatch && (
+                <TouchableOpacity
+                  onPress={handleRemoveWatch}
+                  disabled={savingWatch}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.priceAlertRemoveText}>Stop watching</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {/* Shopping Lists */}
+          {isAuthenticated && (
+            <View style={styles.priceAlertSection}>
+              <Text style={styles.sectionTitle}>Add to Shopping List</Text>
+              {shoppingLists.length === 0 ? (
+                <TouchableOpacity onPress={() => router.push("/lists")} activeOpacity={0.7}>
+                  <Text style={styles.priceAlertHint}>
+                    No lists yet. Create one in Shopping Lists.
+                  </Text>
+                </TouchableOpacity>
+              ) : (
+                <View style={styles.listChips}>
+                  {shoppingLists.map((list) => (
+                    <TouchableOpacity
+                      key={list.$id}
+                      style={styles.listChip}
+                      onPress={() => handleAddToList(list)}
+                      disabled={addingToList !== null}
+                      activeOpacity={0.7}
+                    >
+                      {addingToList === list.$id ? (
+                        <ActivityIndicator size="small" color="#10B981" />
+                      ) : (
+                        <Ionicons
+                          name={
+                            list.items.some((item) => item.productId === product.$id)
+                              ? "checkmark-circle"
+                              : "add-circle-outline"
+                          }
+                          size={16}
+                          color="#10B981"
+                        />
+                      )}
+                      <Text style={styles.listChipText} numberOfLines={1}>
+                        {list.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+
           {/* Available Stores */}
           {storeProducts.length > 0 && (
             <View style={styles.storesSection}>
@@ -541,9 +817,16 @@ export default function ProductDetailScreen() {
                         {storeLocation.display_name || storeLocation.name}
                       </Text>
                     </View>
-                    <Text style={styles.storePrice}>
-                      ${(storeProduct.price_jmd_cents / 100).toFixed(2)}
-                    </Text>
+                    <View style={styles.storePriceColumn}>
+                      <Text style={styles.storePrice}>
+                        ${(storeProduct.price_jmd_cents / 100).toFixed(2)}
+                      </Text>
+                      {unitPriceByStoreProduct[storeProduct.$id] && (
+                        <Text style={styles.storeUnitPrice}>
+                          {formatUnitPrice(unitPriceByStoreProduct[storeProduct.$id]!)}
+                        </Text>
+                      )}
+                    </View>
                   </View>
 
                   {storeLocation.parish && (
@@ -737,6 +1020,40 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#111827",
   },
+  dietaryTags: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 12,
+  },
+  dietaryTag: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: "#ECFDF5",
+  },
+  dietaryTagText: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: "#059669",
+  },
+  allergenWarning: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: "#FEF3C7",
+    marginBottom: 12,
+  },
+  allergenWarningText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#B45309",
+  },
   priceSection: {
     flexDirection: "row",
     alignItems: "baseline",
@@ -752,6 +1069,10 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     color: "#10B981",
   },
+  unitPriceText: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
   stockSection: {
     flexDirection: "row",
     alignItems: "center",
@@ -816,6 +1137,84 @@ const styles = StyleSheet.create({
     color: "#9CA3AF",
     marginLeft: 4,
   },
+  priceHistorySection: {
+    marginBottom: 24,
+  },
+  priceAlertSection: {
+    marginBottom: 24,
+  },
+  priceAlertHint: {
+    fontSize: 14,
+    color: "#6B7280",
+    marginBottom: 12,
+  },
+  priceAlertRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  priceAlertInputContainer: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    height: 44,
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  priceAlertCurrency: {
+    fontSize: 16,
+    color: "#6B7280",
+    marginRight: 4,
+  },
+  priceAlertInput: {
+    flex: 1,
+    fontSize: 16,
+    color: "#111827",
+  },
+  priceAlertButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    height: 44,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    backgroundColor: "#10B981",
+  },
+  priceAlertButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  priceAlertRemoveText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#DC2626",
+    marginTop: 12,
+  },
+  listChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  listChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#A7F3D0",
+    backgroundColor: "#ECFDF5",
+    maxWidth: "100%",
+  },
+  listChipText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: "#059669",
+  },
   storesSection: {
     marginBottom: 24,
   },
@@ -848,11 +1247,18 @@ const styles = StyleSheet.create({
     color: "#111827",
     flex: 1,
   },
+  storePriceColumn: {
+    alignItems: "flex-end",
+  },
   storePrice: {
     fontSize: 18,
     fontWeight: "700",
     color: "#10B981",
   },
+  storeUnitPrice: {
+    fontSize: 12,
+    color: "#6B7280",
+  },
   storeLocation: {
     fontSize: 14,
     color: "#6B7280",
@@ -0,0 +1,420 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  Text,
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { useUser } from "../../contexts/UserContext";
+import { useCart } from "../../contexts/CartContext";
+import { getOrder, getOrdersForCheckout } from "../../lib/order-service";
+import { buildReorderPlan, ReorderLine, ReorderPlan } from "../../lib/reorder-service";
+
+function lineKey(line: ReorderLine): string {
+  return `${line.orderItem.productId}-${line.storeId}`;
+}
+
+export default function ReorderScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { userId } = useUser();
+  const { addToCart } = useCart();
+  const [plan, setPlan] = useState<ReorderPlan | null>(null);
+  const [acceptedSubstitutes, setAcceptedSubstitutes] = useState<Set<string>>(new Set());
+  const [addingSubstitute, setAddingSubstitute] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Items are added to the cart once per visit, not on every re-render
+  const hasReordered = useRef(false);
+
+  useEffect(() => {
+    if (hasReordered.current) {
+      return;
+    }
+    hasReordered.current = true;
+
+    const reorder = async () => {
+      try {
+        if (!id) {
+          throw new Error("Order not found");
+        }
+        const order = await getOrder(id);
+        if (!order) {
+          throw new Error("Order not found");
+        }
+
+        // Reorder the whole checkout, not just one store's part of it
+        const orders = userId
+          ? await getOrdersForCheckout(userId, order.checkoutId)
+          : [order];
+        const reorderPlan = await buildReorderPlan(orders.length > 0 ? orders : [order]);
+
+        for (const line of reorderPlan.lines) {
+          if (line.status === "unavailable" || line.currentPriceJmdCents === null) {
+            continue;
+          }
+          const item = line.orderItem;
+          await addToCart(
+            item.productId,
+            line.storeId,
+            item.sku,
+            item.title,
+            line.currentPriceJmdCents,
+            line.storeName,
+            item.brand,
+            item.imageUrl,
+            item.quantity,
+            line.storeLogoUrl
+          );
+        }
+
+        setPlan(reorderPlan);
+      } catch (err: any) {
+        setError(err.message || "Failed to reorder");
+        console.error("Error reordering:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    reorder();
+  }, [id, userId, addToCart]);
+
+  const handleAddSubstitute = async (line: ReorderLine) => {
+    const substitute = line.substitute;
+    if (!substitute) {
+      return;
+    }
+
+    const key = lineKey(line);
+    try {
+      setAddingSubstitute(key);
+      await addToCart(
+        substitute.productId,
+        substitute.storeId,
+        substitute.sku,
+        substitute.title,
+        substitute.priceJmdCents,
+        substitute.storeName,
+        substitute.brand,
+        substitute.imageUrl,
+        line.orderItem.quantity,
+        substitute.storeLogoUrl
+      );
+      setAcceptedSubstitutes((current) => new Set(current).add(key));
+    } catch (err) {
+      console.error("Error adding substitute:", err);
+    } finally {
+      setAddingSubstitute(null);
+    }
+  };
+
+  const header = (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.back()}
+        activeOpacity={0.7}
+      >
+        <Ionicons name="arrow-back" size={24} color="#111827" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Reorder</Text>
+      <View style={styles.headerPlaceholder} />
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color="#10B981" />
+          <Text style={styles.centerText}>Checking what&apos;s in stock...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !plan) {
+    return (
+      <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+        {header}
+        <View style={styles.centerContainer}>
+          <Ionicons name="alert-circle-outline" size={64} color="#EF4444" />
+          <Text style={styles.centerText}>{error || "Failed to reorder"}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const addedLines = plan.lines.filter((line) => line.status !== "unavailable");
+  const unavailableLines = plan.lines.filter((line) => line.status === "unavailable");
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top", "bottom"]}>
+      {header}
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.summaryBanner}>
+          <Ionicons name="checkmark-circle" size={20} color="#059669" />
+          <Text style={styles.summaryBannerText}>
+            {plan.availableCount} of {plan.lines.length} item
+            {plan.lines.length !== 1 ? "s" : ""} added to your cart
+          </Text>
+        </View>
+
+        {addedLines.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Added to Cart</Text>
+            {addedLines.map((line) => (
+              <View key={lineKey(line)} style={styles.card}>
+                <Text style={styles.itemTitle} numberOfLines={2}>
+                  {line.orderItem.quantity} × {line.orderItem.title}
+                </Text>
+                <Text style={styles.itemMeta}>{line.storeName}</Text>
+                {line.status === "price_changed" && line.currentPriceJmdCents !== null && (
+                  <Text
+                    style={[
+                      styles.priceChange,
+                      line.priceDifference > 0 ? styles.priceUp : styles.priceDown,
+                    ]}
+                  >
+                    Now ${(line.currentPriceJmdCents / 100).toFixed(2)} (was $
+                    {(line.orderItem.priceJmdCents / 100).toFixed(2)})
+                  </Text>
+                )}
+              </View>
+            ))}
+          </>
+        )}
+
+        {unavailableLines.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>No Longer Available</Text>
+            {unavailableLines.map((line) => {
+              const key = lineKey(line);
+              const substitute = line.substitute;
+              const accepted = acceptedSubstitutes.has(key);
+
+              return (
+                <View key={key} style={styles.card}>
+                  <Text style={[styles.itemTitle, styles.itemTitleUnavailable]} numberOfLines={2}>
+                    {line.orderItem.quantity} × {line.orderItem.title}
+                  </Text>
+                  <Text style={styles.itemMeta}>{line.storeName}</Text>
+
+                  {substitute ? (
+                    <View style={styles.substitute}>
+                      <Text style={styles.substituteLabel}>
+                        {substitute.matchType === "same_product"
+                          ? "Same item at another store"
+                          : "Similar item"}
+                      </Text>
+                      <Text style={styles.itemTitle} numberOfLines={2}>
+                        {substitute.title}
+                      </Text>
+                      <Text style={styles.itemMeta}>
+                        {substitute.storeName} · ${(substitute.priceJmdCents / 100).toFixed(2)}
+                      </Text>
+                      <TouchableOpacity
+                        style={[
+                          styles.substituteButton,
+                          (accepted || addingSubstitute === key) && styles.substituteButtonDisabled,
+                        ]}
+                        onPress={() => handleAddSubstitute(line)}
+                        disabled={accepted || addingSubstitute === key}
+                        activeOpacity={0.7}
+                      >
+                        {addingSubstitute === key ? (
+                          <ActivityIndicator size="small" color="#FFFFFF" />
+                        ) : (
+                          <Text style={styles.substituteButtonText}>
+                            {accepted ? "Added" : "Add Substitute"}
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <Text style={styles.noSubstitute}>No substitute found</Text>
+                  )}
+                </View>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() => router.push("/cart")}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.primaryButtonText}>View Cart</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FFFFFF",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 32,
+  },
+  centerText: {
+    fontSize: 15,
+    color: "#6B7280",
+    textAlign: "center",
+    marginTop: 16,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 24,
+  },
+  summaryBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#ECFDF5",
+    padding: 12,
+    borderRadius: 8,
+    gap: 8,
+  },
+  summaryBannerText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#059669",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#111827",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    borderWidth: 1,
+    borderColor: "#E5E7EB",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  itemTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  itemTitleUnavailable: {
+    color: "#6B7280",
+    textDecorationLine: "line-through",
+  },
+  itemMeta: {
+    fontSize: 13,
+    color: "#6B7280",
+    marginTop: 2,
+  },
+  priceChange: {
+    fontSize: 13,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  priceUp: {
+    color: "#DC2626",
+  },
+  priceDown: {
+    color: "#059669",
+  },
+  substitute: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  substituteLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#10B981",
+    textTransform: "uppercase",
+    marginBottom: 4,
+  },
+  substituteButton: {
+    backgroundColor: "#10B981",
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  substituteButtonDisabled: {
+    backgroundColor: "#9CA3AF",
+  },
+  substituteButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  noSubstitute: {
+    fontSize: 13,
+    color: "#9CA3AF",
+    marginTop: 8,
+  },
+  footer: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#E5E7EB",
+  },
+  primaryButton: {
+    backgroundColor: "#10B981",
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+});
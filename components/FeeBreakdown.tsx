@@ -0,0 +1,106 @@
+import { View, Text, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { StoreFeeBreakdown } from "../lib/fee-engine";
+
+interface FeeBreakdownProps {
+  fees: StoreFeeBreakdown;
+  /** Show the item subtotal row above the fees (default: true) */
+  showSubtotal?: boolean;
+}
+
+function formatJmd(amountJmdCents: number): string {
+  return `$${(amountJmdCents / 100).toFixed(2)}`;
+}
+
+/**
+ * Per-store fee rows (cart, checkout and order screens)
+ * Zero-value fees and discounts are hidden except delivery, which shows "Free"
+ */
+export default function FeeBreakdown({ fees, showSubtotal = true }: FeeBreakdownProps) {
+  return (
+    <View>
+      {showSubtotal && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Subtotal</Text>
+          <Text style={styles.value}>{formatJmd(fees.subtotalJmdCents)}</Text>
+        </View>
+      )}
+      {fees.discountJmdCents > 0 && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Promo Discount</Text>
+          <Text style={[styles.value, styles.discountValue]}>
+            -{formatJmd(fees.discountJmdCents)}
+          </Text>
+        </View>
+      )}
+      <View style={styles.row}>
+        <Text style={styles.label}>Delivery</Text>
+        <Text style={styles.value}>
+          {fees.deliveryFeeJmdCents > 0 ? formatJmd(fees.deliveryFeeJmdCents) : "Free"}
+        </Text>
+      </View>
+      {fees.serviceFeeJmdCents > 0 && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Service Fee</Text>
+          <Text style={styles.value}>{formatJmd(fees.serviceFeeJmdCents)}</Text>
+        </View>
+      )}
+      {fees.smallOrderSurchargeJmdCents > 0 && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Small Order Fee</Text>
+          <Text style={styles.value}>{formatJmd(fees.smallOrderSurchargeJmdCents)}</Text>
+        </View>
+      )}
+      {fees.gctJmdCents > 0 && (
+        <View style={styles.row}>
+          <Text style={styles.label}>GCT on Fees</Text>
+          <Text style={styles.value}>{formatJmd(fees.gctJmdCents)}</Text>
+        </View>
+      )}
+      {!fees.meetsMinimum && (
+        <View style={styles.minimumWarning}>
+          <Ionicons name="alert-circle" size={16} color="#DC2626" />
+          <Text style={styles.minimumWarningText}>
+            Add {formatJmd(fees.amountToMinimumJmdCents)} more to reach this store&apos;s{" "}
+            {formatJmd(fees.minimumOrderJmdCents)} minimum
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  label: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111827",
+  },
+  discountValue: {
+    color: "#059669",
+  },
+  minimumWarning: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#FEE2E2",
+    padding: 8,
+    borderRadius: 8,
+    marginTop: 4,
+  },
+  minimumWarningText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#DC2626",
+  },
+});
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { View, Text, StyleSheet, LayoutChangeEvent } from "react-native";
+import Svg, { Polyline, Line } from "react-native-svg";
+import { PriceHistoryEntry } from "../lib/price-history-service";
+
+export interface PriceHistorySeries {
+  storeId: string;
+  storeName: string;
+  /** Current listing price - extends the line to today */
+  currentPriceJmdCents: number;
+  /** Price changes, oldest first */
+  entries: PriceHistoryEntry[];
+}
+
+interface PriceHistoryChartProps {
+  series: PriceHistorySeries[];
+  /** Days covered by the chart */
+  days: number;
+}
+
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 8;
+const SERIES_COLORS = ["#10B981", "#3B82F6", "#F59E0B", "#8B5CF6", "#EF4444", "#14B8A6"];
+
+function formatJmd(amountJmdCents: number): string {
+  return `$${(amountJmdCents / 100).toFixed(2)}`;
+}
+
+/**
+ * Step chart of price changes, one line per store
+ * Prices hold until the next recorded change, so lines are drawn as steps
+ */
+export default function PriceHistoryChart({ series, days }: PriceHistoryChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const charted = series.filter((s) => s.entries.length > 0);
+  if (charted.length === 0) {
+    return (
+      <Text style={styles.emptyText}>No price changes in the last {days} days</Text>
+    );
+  }
+
+  const end = Date.now();
+  const start = end - days * 24 * 60 * 60 * 1000;
+
+  const prices = charted.flatMap((s) => [
+    s.currentPriceJmdCents,
+    ...s.entries.map((entry) => entry.priceJmdCents),
+  ]);
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const priceRange = maxPrice - minPrice || 1;
+
+  const plotWidth = Math.max(width - CHART_PADDING * 2, 0);
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const x = (time: number) =>
+    CHART_PADDING + ((Math.max(time, start) - start) / (end - start)) * plotWidth;
+  const y = (price: number) =>
+    CHART_PADDING + plotHeight - ((price - minPrice) / priceRange) * plotHeight;
+
+  const toPoints = (s: PriceHistorySeries): string => {
+    const points: string[] = [];
+    let previousY: number | null = null;
+    for (const entry of s.entries) {
+      const entryX = x(new Date(entry.observedAt).getTime());
+      const entryY = y(entry.priceJmdCents);
+      if (previousY !== null) {
+        points.push(`${entryX},${previousY}`);
+      }
+      points.push(`${entryX},${entryY}`);
+      previousY = entryY;
+    }
+    points.push(`${x(end)},${y(s.currentPriceJmdCents)}`);
+    return points.join(" ");
+  };
+
+  return (
+    <View>
+      <View
+        style={styles.chart}
+        onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+      >
+        {width > 0 && (
+          <Svg width={width} height={CHART_HEIGHT}>
+            <Line
+              x1={CHART_PADDING}
+              y1={CHART_HEIGHT - CHART_PADDING}
+              x2={width - CHART_PADDING}
+              y2={CHART_HEIGHT - CHART_PADDING}
+              stroke="#E5E7EB"
+              strokeWidth={1}
+            />
+            {charted.map((s, index) => (
+              <Polyline
+                key={s.storeId}
+                points={toPoints(s)}
+                fill="none"
+                stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                strokeWidth={2}
+              />
+            ))}
+          </Svg>
+        )}
+        <Text style={[styles.axisLabel, styles.axisLabelTop]}>{formatJmd(maxPrice)}</Text>
+        <Text style={[styles.axisLabel, styles.axisLabelBottom]}>{formatJmd(minPrice)}</Text>
+      </View>
+      <View style={styles.axisRow}>
+        <Text style={styles.axisText}>{days} days ago</Text>
+        <Text style={styles.axisText}>Today</Text>
+      </View>
+
+      {charted.map((s, index) => {
+        const low = Math.min(s.currentPriceJmdCents, ...s.entries.map((e) => e.priceJmdCents));
+        return (
+          <View key={s.storeId} style={styles.legendRow}>
+            <View
+              style={[
+                styles.legendDot,
+                { backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] },
+              ]}
+            />
+            <Text style={styles.legendName} numberOfLines={1}>
+              {s.storeName}
+            </Text>
+            <Text style={styles.legendLow}>Low {formatJmd(low)}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    height: CHART_HEIGHT,
+    backgroundColor: "#F9FAFB",
+    borderRadius: 8,
+  },
+  axisLabel: {
+    position: "absolute",
+    right: 8,
+    fontSize: 11,
+    color: "#6B7280",
+  },
+  axisLabelTop: {
+    top: 2,
+  },
+  axisLabelBottom: {
+    bottom: 10,
+  },
+  axisRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  axisText: {
+    fontSize: 11,
+    color: "#9CA3AF",
+  },
+  legendRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 4,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendName: {
+    flex: 1,
+    fontSize: 14,
+    color: "#111827",
+  },
+  legendLow: {
+    fontSize: 13,
+    color: "#6B7280",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#6B7280",
+  },
+});
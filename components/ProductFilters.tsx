@@ -13,8 +13,40 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
 import { ProductFilters as ProductFiltersType } from "../lib/search-service";
 import { getAllCategories, getAllBrands, Category } from "../lib/search-service";
-import { getAddresses } from "../lib/profile-service";
+import { getAddresses, getAddressCoordinates } from "../lib/profile-service";
 import { Address } from "../lib/profile-service";
+import { DIETARY_TAGS, DIETARY_TAG_LABELS, DietaryTag } from "../lib/search/dietary";
+import { QUICK_DELIVERY_MINUTES } from "../lib/search/delivery-estimate";
+
+/**
+ * Delivery address filter value for an address (with its coordinates for distance sorting)
+ */
+function toDeliveryAddress(address: Address): ProductFiltersType["deliveryAddress"] {
+  return {
+    parish: address.parish,
+    community: address.community,
+    ...getAddressCoordinates(address),
+  };
+}
+
+/**
+ * Adds the user's default address as the delivery address, if none is selected
+ * Used when sorting by distance or delivery time, which need an address.
+ */
+export async function withDefaultDeliveryAddress(
+  filters: ProductFiltersType,
+  userId: string | null | undefined
+): Promise<ProductFiltersType> {
+  if (filters.deliveryAddress || !userId) return filters;
+  try {
+    const addresses = await getAddresses(userId);
+    const address = addresses.find((addr) => addr.default) || addresses[0];
+    return address ? { ...filters, deliveryAddress: toDeliveryAddress(address) } : filters;
+  } catch (error) {
+    console.error("Error loading delivery address:", error);
+    return filters;
+  }
+}
 
 interface ProductFiltersProps {
   filters: ProductFiltersType;
@@ -87,6 +119,14 @@ export default function ProductFilters({
     onFiltersChange({ ...filters, categoryIds: newCategoryIds.length > 0 ? newCategoryIds : undefined });
   };
 
+  const toggleDietaryTag = (tag: DietaryTag) => {
+    const currentTags = filters.dietaryTags || [];
+    const newTags = currentTags.includes(tag)
+      ? currentTags.filter((t) => t !== tag)
+      : [...currentTags, tag];
+    onFiltersChange({ ...filters, dietaryTags: newTags.length > 0 ? newTags : undefined });
+  };
+
   const setPriceRange = (min?: number, max?: number) => {
     onFiltersChange({
       ...filters,
@@ -106,6 +146,21 @@ export default function ProductFilters({
     onFiltersChange({
       ...filters,
       deliveryParish: address?.parish,
+      // Quick delivery keeps estimating to the address after the parish filter is removed
+      deliveryAddress: address
+        ? toDeliveryAddress(address)
+        : filters.quickDelivery
+        ? filters.deliveryAddress
+        : undefined,
+    });
+  };
+
+  const toggleQuickDelivery = () => {
+    const address = addresses.find((addr) => addr.default) || addresses[0];
+    onFiltersChange({
+      ...filters,
+      quickDelivery: filters.quickDelivery ? undefined : true,
+      deliveryAddress: filters.deliveryAddress || (address ? toDeliveryAddress(address) : undefined),
     });
   };
 
@@ -128,9 +183,11 @@ export default function ProductFilters({
     return !!(
       (filters.brands && filters.brands.length > 0) ||
       (filters.categoryIds && filters.categoryIds.length > 0) ||
+      (filters.dietaryTags && filters.dietaryTags.length > 0) ||
       filters.minPrice !== undefined ||
       filters.maxPrice !== undefined ||
       filters.inStock === false ||
+      filters.quickDelivery ||
       filters.deliveryParish
     );
   };
@@ -146,6 +203,7 @@ export default function ProductFilters({
   const defaultAddress = addresses.find((addr) => addr.default) || addresses[0];
   const activeBrandsCount = filters.brands?.length || 0;
   const activeCategoriesCount = filters.categoryIds?.length || 0;
+  const activeDietaryCount = filters.dietaryTags?.length || 0;
 
   return (
     <Modal
@@ -162,7 +220,7 @@ export default function ProductFilters({
             {hasActiveFilters() && (
               <View style={styles.activeBadge}>
                 <Text style={styles.activeBadgeText}>
-                  {activeBrandsCount + activeCategoriesCount + (filters.deliveryParish ? 1 : 0) + (filters.inStock === false ? 1 : 0) + (filters.minPrice || filters.maxPrice ? 1 : 0)}
+                  {activeBrandsCount + activeCategoriesCount + activeDietaryCount + (filters.deliveryParish ? 1 : 0) + (filters.quickDelivery ? 1 : 0) + (filters.inStock === false ? 1 : 0) + (filters.minPrice || filters.maxPrice ? 1 : 0)}
                 </Text>
               </View>
             )}
@@ -214,6 +272,18 @@ export default function ProductFilters({
                       </TouchableOpacity>
                     ) : null;
                   })}
+                  {filters.dietaryTags?.map((tag) => (
+                    <TouchableOpacity
+                      key={tag}
+                      style={styles.filterChip}
+                      onPress={() => toggleDietaryTag(tag as DietaryTag)}
+                    >
+                      <Text style={styles.filterChipText}>
+                        {DIETARY_TAG_LABELS[tag as DietaryTag] || tag}
+                      </Text>
+                      <Ionicons name="close-circle" size={16} color="#6B7280" />
+                    </TouchableOpacity>
+                  ))}
                   {filters.deliveryParish && (
                     <View style={styles.filterChip}>
                       <Text style={styles.filterChipText}>Delivery: {filters.deliveryParish}</Text>
@@ -238,6 +308,17 @@ export default function ProductFilters({
                       </TouchableOpacity>
                     </View>
                   )}
+                  {filters.quickDelivery && (
+                    <View style={styles.filterChip}>
+                      <Text style={styles.filterChipText}>Quick Delivery</Text>
+                      <TouchableOpacity
+                        onPress={toggleQuickDelivery}
+                        style={{ marginLeft: 4 }}
+                      >
+                        <Ionicons name="close-circle" size={16} color="#6B7280" />
+                      </TouchableOpacity>
+                    </View>
+                  )}
                   {filters.inStock === false && (
                     <View style={styles.filterChip}>
                       <Text style={styles.filterChipText}>Include Out of Stock</Text>
@@ -370,6 +451,72 @@ export default function ProductFilters({
               </TouchableOpacity>
             </View>
 
+            {/* Quick Delivery Filter */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="flash" size={20} color="#10B981" />
+                <Text style={styles.sectionTitle}>Quick Delivery</Text>
+              </View>
+              <Text style={styles.sectionDescription}>
+                {filters.deliveryAddress
+                  ? `Stores estimated to deliver to ${filters.deliveryAddress.community || filters.deliveryAddress.parish} within ${QUICK_DELIVERY_MINUTES} minutes`
+                  : `Stores estimated to deliver within ${QUICK_DELIVERY_MINUTES} minutes`}
+              </Text>
+              <TouchableOpacity
+                style={[
+                  styles.optionCard,
+                  filters.quickDelivery && styles.optionCardSelected,
+                ]}
+                onPress={toggleQuickDelivery}
+              >
+                <View style={styles.optionCardContent}>
+                  <Ionicons
+                    name={filters.quickDelivery ? "checkbox" : "square-outline"}
+                    size={24}
+                    color={filters.quickDelivery ? "#10B981" : "#D1D5DB"}
+                  />
+                  <Text style={[
+                    styles.checkboxLabel,
+                    filters.quickDelivery && styles.checkboxLabelSelected
+                  ]}>
+                    Quick delivery only
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            </View>
+
+            {/* Dietary Filter */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="leaf" size={20} color="#10B981" />
+                <Text style={styles.sectionTitle}>Dietary</Text>
+                {activeDietaryCount > 0 && (
+                  <View style={styles.countBadge}>
+                    <Text style={styles.countBadgeText}>{activeDietaryCount}</Text>
+                  </View>
+                )}
+              </View>
+              <Text style={styles.sectionDescription}>
+                Only show products labelled with all selected attributes
+              </Text>
+              <View style={styles.activeFiltersChips}>
+                {DIETARY_TAGS.map((tag) => {
+                  const isSelected = filters.dietaryTags?.includes(tag) || false;
+                  return (
+                    <TouchableOpacity
+                      key={tag}
+                      style={[styles.filterChip, isSelected && styles.dietaryChipSelected]}
+                      onPress={() => toggleDietaryTag(tag)}
+                    >
+                      <Text style={[styles.filterChipText, isSelected && styles.dietaryChipTextSelected]}>
+                        {DIETARY_TAG_LABELS[tag]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+
             {/* Category Filter */}
             <View style={styles.section}>
               <View style={styles.sectionHeader}>
@@ -596,6 +743,12 @@ const styles = StyleSheet.create({
     color: "#10B981",
     fontWeight: "500",
   },
+  dietaryChipSelected: {
+    backgroundColor: "#10B981",
+  },
+  dietaryChipTextSelected: {
+    color: "#FFFFFF",
+  },
   section: {
     paddingHorizontal: 20,
     paddingVertical: 20,
@@ -12,7 +12,7 @@ import { Ionicons } from "@expo/vector-icons";
 export interface SearchSuggestion {
   id: string;
   text: string;
-  type?: "product" | "category" | "store";
+  type?: "product" | "brand" | "category" | "store";
 }
 
 interface SearchBarProps {
@@ -94,11 +94,9 @@ export default function SearchBar({
     }, 200);
   };
 
-  const filteredSuggestions = suggestions
-    .filter((suggestion) =>
-      suggestion.text.toLowerCase().includes(query.toLowerCase())
-    )
-    .slice(0, 7); // Limit to 7 suggestions
+  // Suggestions are already matched to the query (including synonyms like
+  // "shuga" -> "sugar"), so they aren't re-filtered by substring here
+  const filteredSuggestions = suggestions.slice(0, 7); // Limit to 7 suggestions
 
   const handleRecentSearchPress = (recentQuery: string) => {
     setQuery(recentQuery);
@@ -161,15 +159,18 @@ export default function SearchBar({
                     ? "list"
                     : item.type === "store"
                     ? "storefront"
+                    : item.type === "brand"
+                    ? "pricetag"
                     : "search"
                 }
                 size={18}
-                color="#6B7280"
+                color={item.type === "brand" ? "#10B981" : "#6B7280"}
                 style={styles.suggestionIcon}
               />
               <Text style={styles.suggestionText} numberOfLines={1} ellipsizeMode="tail">
                 {item.text}
               </Text>
+              {item.type === "brand" && <Text style={styles.suggestionTypeLabel}>Brand</Text>}
             </TouchableOpacity>
           ))}
         </View>
@@ -292,6 +293,17 @@ const styles = StyleSheet.create({
     color: "#111827",
     flex: 1,
   },
+  suggestionTypeLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#059669",
+    backgroundColor: "#ECFDF5",
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginLeft: 8,
+    overflow: "hidden",
+  },
   recentSearchesHeader: {
     paddingHorizontal: 16,
     paddingVertical: 10,
@@ -41,6 +41,13 @@ const SORT_OPTIONS: SortOption[] = [
     description: "Highest price first",
     available: true,
   },
+  {
+    value: "unit_price_asc",
+    label: "Unit Price",
+    icon: "scale-outline",
+    description: "Best value per 100g / 100ml first",
+    available: true,
+  },
   {
     value: "rating_desc",
     label: "Customer Rating",
@@ -59,15 +66,15 @@ const SORT_OPTIONS: SortOption[] = [
     value: "delivery_time_asc",
     label: "Delivery Time",
     icon: "time",
-    description: "Fastest delivery first",
-    available: false, // Will be enabled when delivery time data is available
+    description: "Fastest delivery to your address first",
+    available: true,
   },
   {
     value: "distance_asc",
     label: "Distance",
     icon: "navigate",
-    description: "Nearest location first",
-    available: false, // Will be enabled when location data is available
+    description: "Nearest store to your address first",
+    available: true,
   },
 ];
 
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { View, Text, StyleSheet, Image } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+interface StoreGroupHeaderProps {
+  storeName: string;
+  storeLogoUrl?: string;
+  subtotal: number;
+  /** Label shown under the store name (default: "Subtotal") */
+  subtotalLabel?: string;
+}
+
+/**
+ * Header for a group of items from one store (cart and order screens)
+ */
+export default function StoreGroupHeader({
+  storeName,
+  storeLogoUrl,
+  subtotal,
+  subtotalLabel = "Subtotal",
+}: StoreGroupHeaderProps) {
+  const [logoError, setLogoError] = useState(false);
+  const showLogo = storeLogoUrl && !logoError;
+
+  return (
+    <View style={styles.storeGroupHeader}>
+      {showLogo ? (
+        <Image
+          source={{ uri: storeLogoUrl }}
+          style={styles.storeLogo}
+          onError={() => {
+            setLogoError(true);
+          }}
+        />
+      ) : (
+        <View style={styles.storeLogoPlaceholder}>
+          <Ionicons name="storefront" size={18} color="#10B981" />
+        </View>
+      )}
+      <View style={styles.storeGroupTitleContainer}>
+        <Text style={styles.storeGroupTitle}>{storeName}</Text>
+        <Text style={styles.storeGroupSubtotalLabel}>{subtotalLabel}</Text>
+      </View>
+      <Text style={styles.storeGroupTotal}>
+        ${(subtotal / 100).toFixed(2)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  storeGroupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#E5E7EB",
+  },
+  storeLogo: {
+    width: 24,
+    height: 24,
+    borderRadius: 4,
+    backgroundColor: "#F3F4F6",
+  },
+  storeLogoPlaceholder: {
+    width: 24,
+    height: 24,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#F3F4F6",
+    borderRadius: 4,
+  },
+  storeGroupTitleContainer: {
+    flex: 1,
+  },
+  storeGroupTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#111827",
+    marginBottom: 2,
+  },
+  storeGroupSubtotalLabel: {
+    fontSize: 12,
+    color: "#6B7280",
+    fontWeight: "500",
+  },
+  storeGroupTotal: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#10B981",
+  },
+});
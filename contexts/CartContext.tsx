@@ -19,6 +19,7 @@ import {
   CartValidationResult,
   CartItemValidation,
 } from "../lib/cart-validation-service";
+import { applyBasketOption as applyBasketOptionToCart, BasketOption } from "../lib/basket-optimizer";
 import { useUser } from "./UserContext";
 
 export interface CartValidationState {
@@ -57,6 +58,10 @@ interface CartContextType {
   validateCart: () => Promise<CartValidationResult>;
   syncCart: () => Promise<void>;
   canCheckout: () => boolean;
+  /** Set or remove (null) the cart's promo code */
+  setPromoCode: (code: string | null) => Promise<void>;
+  /** Move cart lines to the stores chosen by a basket comparison option */
+  applyBasketOption: (option: BasketOption) => Promise<void>;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -423,6 +428,30 @@ export function CartProvider({ children }: { children: ReactNode }) {
     return item?.quantity || 0;
   };
 
+  const setPromoCode = async (code: string | null) => {
+    setCart((currentCart) => {
+      const updatedCart = {
+        ...currentCart,
+        promoCode: code || undefined,
+        updatedAt: new Date().toISOString(),
+      };
+
+      // Save in background - don't wait
+      saveCart(updatedCart);
+      return updatedCart;
+    });
+  };
+
+  const applyBasketOption = async (option: BasketOption) => {
+    setCart((currentCart) => {
+      const updatedCart = applyBasketOptionToCart(currentCart, option);
+
+      // Save in background - don't wait
+      saveCart(updatedCart);
+      return updatedCart;
+    });
+  };
+
   const refreshCart = async () => {
     await loadCartAndValidate();
   };
@@ -532,6 +561,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
         validateCart: validateCartItems,
         syncCart,
         canCheckout,
+        setPromoCode,
+        applyBasketOption,
       }}
     >
       {children}
@@ -1,10 +1,13 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { AppState } from "react-native";
 import { useRouter } from "expo-router";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useUser } from "./UserContext";
 import { SearchSuggestion } from "../components/SearchBar";
 import { ProductFilters } from "../lib/search-service";
 import { SortMode } from "../lib/search/ranking";
+import { flushSearchAnalyticsInBackground } from "../lib/search-analytics-service";
+import { loadSearchTermDictionaryInBackground } from "../lib/search-synonyms-service";
 
 const RECENT_SEARCHES_KEY_PREFIX = "recent_searches_";
 const MAX_RECENT_SEARCHES = 10;
@@ -72,6 +75,20 @@ export function SearchProvider({ children }: { children: ReactNode }) {
     loadRecentSearches(userId);
   }, [userId]);
 
+  // Load the synonym dictionary before the first search, send search analytics
+  // queued before the last restart, and whatever is queued when the app goes
+  // to the background
+  useEffect(() => {
+    loadSearchTermDictionaryInBackground();
+    flushSearchAnalyticsInBackground();
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "background") {
+        flushSearchAnalyticsInBackground();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
   const performSearch = (query: string) => {
     if (!query.trim()) return;
 
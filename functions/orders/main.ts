@@ -0,0 +1,442 @@
+import type {
+  OrderDraft,
+  OrdersFunctionRequest,
+  PromoRedemptionDraft,
+} from "../../lib/order-service";
+import {
+  DeliverySlot,
+  DeliverySlotUnavailableError,
+  getSlotAvailability,
+  parseDeliverySlotDocument,
+} from "../../lib/delivery-slot-rules";
+import {
+  buildOrderStatusUpdate,
+  InvalidOrderTransitionError,
+  UnknownOrderStatusError,
+} from "../../lib/order-status";
+
+/**
+ * Orders function
+ *
+ * Appwrite Function that owns every write to the orders, delivery_slots and
+ * promo_redemptions collections. They are read-only for customers, so the
+ * app places and cancels orders here:
+ *   { action: "placeOrders", checkoutId, orders, promoRedemption } - records
+ *     the promo redemption, reserves each order's delivery slot and creates
+ *     one order per store
+ *   { action: "cancelOrder", orderId, reason }   - cancels the caller's order
+ * Other status changes are made by staff with scripts/order-status.ts.
+ *
+ * Deploy from the repository root with the Bun runtime and entrypoint
+ * functions/orders/main.ts. Give "users" execute access and the key the
+ * documents.read and documents.write scopes. Requests are made with the
+ * function's dynamic API key; the caller comes from x-appwrite-user-id.
+ */
+
+const ORDERS_COLLECTION_ID = "orders";
+const DELIVERY_SLOTS_COLLECTION_ID = "delivery_slots";
+const AUDIT_LOGS_COLLECTION_ID = "audit_logs";
+const PROMO_REDEMPTIONS_COLLECTION_ID = "promo_redemptions";
+
+/** Most stores a single checkout can place orders with */
+const MAX_ORDERS_PER_CHECKOUT = 20;
+
+const endpoint = process.env.APPWRITE_FUNCTION_API_ENDPOINT || "";
+const projectId = process.env.APPWRITE_FUNCTION_PROJECT_ID || "";
+const databaseId = process.env.APPWRITE_DATABASE_ID || "grovi-db";
+
+interface FunctionContext {
+  req: {
+    headers: Record<string, string>;
+    bodyText?: string;
+    body?: any;
+  };
+  res: {
+    json: (body: any, statusCode?: number) => any;
+  };
+  error: (message: string) => void;
+}
+
+class RequestError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = "RequestError";
+    this.code = code;
+  }
+}
+
+/**
+ * Calls the Appwrite REST API with the function's API key
+ */
+async function appwriteRequest(
+  apiKey: string,
+  method: string,
+  path: string,
+  body?: any
+): Promise<any> {
+  const response = await fetch(`${endpoint}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      "X-Appwrite-Project": projectId,
+      "X-Appwrite-Key": apiKey,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const text = await response.text();
+  const parsed = text ? JSON.parse(text) : {};
+  if (!response.ok) {
+    const error: any = new Error(parsed.message || "Request failed");
+    error.code = response.status;
+    throw error;
+  }
+  return parsed;
+}
+
+function documentsPath(collectionId: string, documentId?: string): string {
+  const path = `/databases/${databaseId}/collections/${collectionId}/documents`;
+  return documentId ? `${path}/${documentId}` : path;
+}
+
+/**
+ * Records an audit log entry for the customer (errors are logged, not thrown)
+ */
+async function writeAuditLog(
+  apiKey: string,
+  userId: string,
+  eventType: "order.placed" | "order.status_changed",
+  metadata: Record<string, any>,
+  log: (message: string) => void
+): Promise<void> {
+  try {
+    await appwriteRequest(apiKey, "POST", documentsPath(AUDIT_LOGS_COLLECTION_ID), {
+      documentId: "unique()",
+      data: {
+        userId,
+        eventType,
+        metadata: JSON.stringify(metadata),
+        timestamp: new Date().toISOString(),
+      },
+      permissions: [`read("user:${userId}")`],
+    });
+  } catch (error: any) {
+    log(`Failed to write ${eventType} audit log: ${error.message}`);
+  }
+}
+
+/**
+ * Reserves one place in a delivery slot for a store's order
+ *
+ * Availability is re-checked against the latest slot document, and the
+ * increment is bounded by capacity so concurrent checkouts can't overbook
+ * the window.
+ *
+ * @throws DeliverySlotUnavailableError if the slot can't be booked
+ */
+async function reserveDeliverySlot(
+  apiKey: string,
+  slotId: string,
+  storeLocationId: string
+): Promise<DeliverySlot> {
+  let slot: DeliverySlot;
+  try {
+    slot = parseDeliverySlotDocument(
+      await appwriteRequest(apiKey, "GET", documentsPath(DELIVERY_SLOTS_COLLECTION_ID, slotId))
+    );
+  } catch (error: any) {
+    if (error.code === 404) throw new DeliverySlotUnavailableError(slotId, "not_found");
+    throw error;
+  }
+
+  if (slot.storeLocationId !== storeLocationId) {
+    throw new DeliverySlotUnavailableError(slotId, "not_found");
+  }
+  const availability = getSlotAvailability(slot);
+  if (availability !== "available") {
+    throw new DeliverySlotUnavailableError(slotId, availability);
+  }
+
+  try {
+    return parseDeliverySlotDocument(
+      await appwriteRequest(
+        apiKey,
+        "PATCH",
+        `${documentsPath(DELIVERY_SLOTS_COLLECTION_ID, slotId)}/reservedCount/increment`,
+        { value: 1, max: slot.capacity }
+      )
+    );
+  } catch {
+    // The bounded increment fails if another checkout took the last place
+    throw new DeliverySlotUnavailableError(slotId, "full");
+  }
+}
+
+/**
+ * Gives back a place in a delivery slot (errors are logged, not thrown)
+ */
+async function releaseDeliverySlot(
+  apiKey: string,
+  slotId: string,
+  log: (message: string) => void
+): Promise<void> {
+  try {
+    await appwriteRequest(
+      apiKey,
+      "PATCH",
+      `${documentsPath(DELIVERY_SLOTS_COLLECTION_ID, slotId)}/reservedCount/decrement`,
+      { value: 1, min: 0 }
+    );
+  } catch (error: any) {
+    log(`Failed to release slot ${slotId}: ${error.message}`);
+  }
+}
+
+/**
+ * Order document data for a draft
+ * Only known fields are copied; owner, status and timestamps are set here
+ */
+function toOrderData(
+  draft: OrderDraft,
+  slot: DeliverySlot | null,
+  userId: string,
+  checkoutId: string,
+  placedAt: string
+): Record<string, any> {
+  return {
+    userId,
+    checkoutId,
+    storeId: draft.storeId,
+    storeName: draft.storeName,
+    storeLogoUrl: draft.storeLogoUrl || null,
+    status: "placed",
+    statusHistory: JSON.stringify([{ status: "placed", at: placedAt }]),
+    statusUpdatedAt: placedAt,
+    items: JSON.stringify(draft.items || []),
+    itemCount: draft.itemCount || 0,
+    subtotalJmdCents: draft.subtotalJmdCents || 0,
+    deliveryFeeJmdCents: draft.deliveryFeeJmdCents || 0,
+    serviceFeeJmdCents: draft.serviceFeeJmdCents || 0,
+    smallOrderSurchargeJmdCents: draft.smallOrderSurchargeJmdCents || 0,
+    gctJmdCents: draft.gctJmdCents || 0,
+    discountJmdCents: draft.discountJmdCents || 0,
+    promoCode: draft.promoCode || null,
+    totalJmdCents: draft.totalJmdCents || 0,
+    addressId: draft.addressId,
+    address: JSON.stringify(draft.address || {}),
+    paymentMethodId: draft.paymentMethodId || null,
+    paymentMethodLabel: draft.paymentMethodLabel || "",
+    deliverySlotId: slot?.$id || null,
+    deliveryWindowStart: slot?.startsAt || null,
+    deliveryWindowEnd: slot?.endsAt || null,
+    placedAt,
+  };
+}
+
+/**
+ * Records the promo redemption, reserves slots and creates one order per
+ * store for a checkout
+ * The redemption is written first so a used promo always counts toward its
+ * limits. If any step fails, everything already written is undone.
+ */
+async function placeOrders(
+  apiKey: string,
+  userId: string,
+  checkoutId: string,
+  drafts: OrderDraft[],
+  promoRedemption: PromoRedemptionDraft | null,
+  log: (message: string) => void
+): Promise<any[]> {
+  if (!checkoutId || !Array.isArray(drafts) || drafts.length === 0) {
+    throw new RequestError(400, "No orders to place");
+  }
+  if (drafts.length > MAX_ORDERS_PER_CHECKOUT) {
+    throw new RequestError(400, "Too many stores in one checkout");
+  }
+
+  const placedAt = new Date().toISOString();
+  let redemption: any = null;
+  const reservedSlotIds: string[] = [];
+  const created: any[] = [];
+  try {
+    if (promoRedemption) {
+      redemption = await appwriteRequest(
+        apiKey,
+        "POST",
+        documentsPath(PROMO_REDEMPTIONS_COLLECTION_ID),
+        {
+          documentId: "unique()",
+          data: {
+            userId,
+            promoId: promoRedemption.promoId,
+            code: promoRedemption.code,
+            checkoutId,
+            discountJmdCents: promoRedemption.discountJmdCents || 0,
+            redeemedAt: placedAt,
+          },
+          permissions: [`read("user:${userId}")`],
+        }
+      );
+    }
+
+    for (const draft of drafts) {
+      let slot: DeliverySlot | null = null;
+      if (draft.deliverySlotId) {
+        slot = await reserveDeliverySlot(apiKey, draft.deliverySlotId, draft.storeId);
+        reservedSlotIds.push(slot.$id);
+      }
+
+      created.push(
+        await appwriteRequest(apiKey, "POST", documentsPath(ORDERS_COLLECTION_ID), {
+          documentId: "unique()",
+          data: toOrderData(draft, slot, userId, checkoutId, placedAt),
+          permissions: [`read("user:${userId}")`],
+        })
+      );
+    }
+  } catch (error: any) {
+    log(`Checkout ${checkoutId} failed, rolling back: ${error.message}`);
+    for (const doc of created) {
+      await appwriteRequest(apiKey, "DELETE", documentsPath(ORDERS_COLLECTION_ID, doc.$id)).catch(
+        (deleteError: any) => log(`Failed to roll back order ${doc.$id}: ${deleteError.message}`)
+      );
+    }
+    for (const slotId of reservedSlotIds) {
+      await releaseDeliverySlot(apiKey, slotId, log);
+    }
+    if (redemption) {
+      await appwriteRequest(
+        apiKey,
+        "DELETE",
+        documentsPath(PROMO_REDEMPTIONS_COLLECTION_ID, redemption.$id)
+      ).catch((deleteError: any) =>
+        log(`Failed to roll back promo redemption ${redemption.$id}: ${deleteError.message}`)
+      );
+    }
+    throw error;
+  }
+
+  for (const doc of created) {
+    await writeAuditLog(
+      apiKey,
+      userId,
+      "order.placed",
+      { orderId: doc.$id, checkoutId, storeId: doc.storeId, totalJmdCents: doc.totalJmdCents },
+      log
+    );
+  }
+  return created;
+}
+
+/**
+ * Cancels one of the caller's orders if the transition table allows it
+ */
+async function cancelOrder(
+  apiKey: string,
+  userId: string,
+  orderId: string,
+  reason: string | undefined,
+  log: (message: string) => void
+): Promise<any> {
+  let order: any;
+  try {
+    order = await appwriteRequest(apiKey, "GET", documentsPath(ORDERS_COLLECTION_ID, orderId));
+  } catch (error: any) {
+    if (error.code === 404) throw new RequestError(404, "Order not found");
+    throw error;
+  }
+  if (order.userId !== userId) {
+    throw new RequestError(404, "Order not found");
+  }
+
+  let update;
+  try {
+    update = buildOrderStatusUpdate(order, "cancelled", reason, new Date().toISOString());
+  } catch (error: any) {
+    if (error instanceof InvalidOrderTransitionError || error instanceof UnknownOrderStatusError) {
+      throw new RequestError(409, error.message);
+    }
+    throw error;
+  }
+
+  const updated = await appwriteRequest(
+    apiKey,
+    "PATCH",
+    documentsPath(ORDERS_COLLECTION_ID, orderId),
+    { data: update }
+  );
+
+  if (order.deliverySlotId) {
+    await releaseDeliverySlot(apiKey, order.deliverySlotId, log);
+  }
+  await writeAuditLog(
+    apiKey,
+    userId,
+    "order.status_changed",
+    {
+      field: "status",
+      orderId,
+      oldValue: order.status,
+      newValue: "cancelled",
+      reason: reason || null,
+    },
+    log
+  );
+  return updated;
+}
+
+function parseRequest(req: FunctionContext["req"]): OrdersFunctionRequest {
+  if (req.body && typeof req.body === "object") {
+    return req.body;
+  }
+  try {
+    return JSON.parse(req.bodyText || req.body || "{}");
+  } catch {
+    throw new RequestError(400, "Invalid request body");
+  }
+}
+
+export default async ({ req, res, error: log }: FunctionContext) => {
+  const userId = req.headers["x-appwrite-user-id"];
+  const apiKey = req.headers["x-appwrite-key"];
+  if (!userId) {
+    return res.json({ error: "Sign in to manage orders" }, 401);
+  }
+
+  try {
+    const request = parseRequest(req);
+    switch (request.action) {
+      case "placeOrders":
+        return res.json({
+          orders: await placeOrders(
+            apiKey,
+            userId,
+            request.checkoutId,
+            request.orders,
+            request.promoRedemption || null,
+            log
+          ),
+        });
+      case "cancelOrder":
+        return res.json({
+          order: await cancelOrder(apiKey, userId, request.orderId, request.reason, log),
+        });
+      default:
+        return res.json({ error: "Unknown action" }, 400);
+    }
+  } catch (error: any) {
+    if (error instanceof RequestError) {
+      return res.json({ error: error.message }, error.code);
+    }
+    if (error instanceof DeliverySlotUnavailableError) {
+      return res.json(
+        { error: error.message, slotError: { slotId: error.slotId, reason: error.reason } },
+        409
+      );
+    }
+    log(error.message);
+    return res.json({ error: error.message || "Order request failed" }, 500);
+  }
+};
@@ -1,4 +1,4 @@
-import { Client, Account, Databases } from "appwrite";
+import { Client, Account, Databases, Functions, Teams } from "appwrite";
 import Constants from "expo-constants";
 
 // Get environment variables
@@ -33,5 +33,11 @@ const account = new Account(client);
 // Initialize Databases service
 const databases = new Databases(client);
 
-export { client, account, databases, databaseId };
+// Initialize Teams service
+const teams = new Teams(client);
+
+// Initialize Functions service
+const functions = new Functions(client);
+
+export { client, account, databases, functions, teams, databaseId };
 
@@ -16,7 +16,10 @@ export type AuditEventType =
   | "preferences.updated"
   | "notifications.preferences_updated"
   | "notifications.push_token_updated"
-  | "payment_method.removed";
+  | "payment_method.removed"
+  // Order events are written by the orders function (functions/orders)
+  | "order.placed"
+  | "order.status_changed";
 
 export interface AuditLogMetadata {
   [key: string]: any;
@@ -0,0 +1,88 @@
+import { Query } from "appwrite";
+import { databases, databaseId } from "./appwrite-client";
+import { Cart } from "./cart-service";
+import { getFeeRules } from "./pricing-service";
+import { getStoreLocationsByIds } from "./search-service";
+import { compareBaskets, BasketComparison, StoreOffer } from "./basket-optimizer";
+
+/**
+ * Basket Comparison Service
+ *
+ * Loads every in-stock store listing for the products in a cart and runs the
+ * basket optimizer over them.
+ */
+
+const STORE_LOCATION_PRODUCT_COLLECTION_ID = "store_location_product";
+
+/**
+ * Loads in-stock offers at active stores for a set of products
+ * @param productIds - Product IDs
+ * @returns Promise with one offer per product and store
+ */
+export async function getStoreOffers(productIds: string[]): Promise<StoreOffer[]> {
+  if (productIds.length === 0) return [];
+
+  const listings: any[] = [];
+  const batchSize = 100;
+  for (let i = 0; i < productIds.length; i += batchSize) {
+    const batch = productIds.slice(i, i + batchSize);
+    const result = await databases.listDocuments(
+      databaseId,
+      STORE_LOCATION_PRODUCT_COLLECTION_ID,
+      [
+        Query.equal("product_id", batch),
+        Query.equal("in_stock", true),
+        Query.limit(5000),
+      ]
+    );
+    listings.push(...result.documents);
+  }
+
+  const storeLocations = await getStoreLocationsByIds(
+    Array.from(new Set(listings.map((doc) => doc.store_location_id)))
+  );
+
+  const offers: StoreOffer[] = [];
+  for (const doc of listings) {
+    const storeLocation = storeLocations.get(doc.store_location_id);
+    if (!storeLocation || !storeLocation.is_active) continue;
+
+    offers.push({
+      productId: doc.product_id,
+      storeId: doc.store_location_id,
+      storeName: storeLocation.display_name || storeLocation.name,
+      storeLogoUrl: storeLocation.logo_url,
+      priceJmdCents: doc.price_jmd_cents,
+    });
+  }
+
+  return offers;
+}
+
+/**
+ * Compares the current cart with the cheapest single-store basket and the
+ * cheapest two-store split, fees included
+ * @param cart - Current cart
+ * @param parish - Delivery parish for fees (null if unknown)
+ * @returns Promise with both options and the current cart cost
+ */
+export async function getBasketComparison(
+  cart: Cart,
+  parish: string | null
+): Promise<BasketComparison> {
+  try {
+    const offers = await getStoreOffers(
+      Array.from(new Set(cart.items.map((item) => item.productId)))
+    );
+    const storeIds = Array.from(
+      new Set([...offers.map((offer) => offer.storeId), ...cart.storeIds])
+    );
+    const feeRules = await getFeeRules(storeIds);
+
+    return compareBaskets(cart, offers, { feeRules, parish });
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to compare stores";
+    console.error("Basket comparison error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Test harness for the basket optimizer
+ *
+ * Run with: tsx lib/basket-optimizer.test.ts
+ */
+
+import { Cart, CartItem } from "./cart-service";
+import { DEFAULT_FEE_RULE, FeeRule } from "./fee-engine";
+import {
+  applyBasketOption,
+  BasketPricingContext,
+  compareBaskets,
+  StoreOffer,
+} from "./basket-optimizer";
+
+// Test data helpers
+function createItem(
+  productId: string,
+  storeId: string,
+  priceJmdCents: number,
+  quantity: number
+): CartItem {
+  return {
+    productId,
+    storeId,
+    sku: `SKU_${productId}`,
+    title: `Product ${productId}`,
+    priceJmdCents,
+    quantity,
+    storeName: `Store ${storeId}`,
+    addedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+function createCart(items: CartItem[]): Cart {
+  return {
+    items,
+    totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalPriceJmdCents: items.reduce((sum, item) => sum + item.priceJmdCents * item.quantity, 0),
+    storeIds: Array.from(new Set(items.map((item) => item.storeId))),
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+function createOffer(productId: string, storeId: string, priceJmdCents: number): StoreOffer {
+  return {
+    productId,
+    storeId,
+    storeName: `Store ${storeId}`,
+    priceJmdCents,
+  };
+}
+
+function createRule(overrides: Partial<FeeRule>): FeeRule {
+  return {
+    ...DEFAULT_FEE_RULE,
+    gctBasisPoints: 0,
+    ...overrides,
+  };
+}
+
+function createContext(feeRules: FeeRule[] = []): BasketPricingContext {
+  return { feeRules, parish: null };
+}
+
+// Test runner
+function runTest(name: string, testFn: () => boolean | void): void {
+  try {
+    const result = testFn();
+    if (result === false) {
+      console.error(`❌ FAIL: ${name}`);
+    } else {
+      console.log(`✓ PASS: ${name}`);
+    }
+  } catch (error: any) {
+    console.error(`❌ FAIL: ${name} - ${error.message}`);
+    console.error(error.stack);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(
+      `Assertion failed: ${message || "values not equal"}\n  Expected: ${expected}\n  Actual: ${actual}`
+    );
+  }
+}
+
+console.log("\n=== Basket Optimizer Tests ===\n");
+
+// Cart at s1; s2 is cheaper for a, s3 is cheaper for b
+const cart = createCart([createItem("a", "s1", 1000, 2), createItem("b", "s1", 2000, 1)]);
+const offers = [
+  createOffer("a", "s1", 1000),
+  createOffer("b", "s1", 2000),
+  createOffer("a", "s2", 800),
+  createOffer("b", "s2", 1900),
+  createOffer("a", "s3", 950),
+  createOffer("b", "s3", 1500),
+];
+
+runTest("Single store picks the cheapest full basket", () => {
+  const result = compareBaskets(cart, offers, createContext());
+
+  assertEqual(result.currentTotalJmdCents, 4000, "Current cart cost");
+  assertEqual(result.singleStore?.storeIds.join(","), "s3", "s3 costs 3400");
+  assertEqual(result.singleStore?.totalJmdCents, 3400);
+  assertEqual(result.singleStore?.savingsJmdCents, 600);
+});
+
+runTest("Split buys each line at the cheaper of two stores", () => {
+  const result = compareBaskets(cart, offers, createContext());
+
+  assertEqual(result.twoStoreSplit?.storeIds.join(","), "s2,s3", "a from s2, b from s3");
+  assertEqual(result.twoStoreSplit?.totalJmdCents, 3100);
+});
+
+runTest("Second delivery fee makes a split lose to a single store", () => {
+  const feeRules = [createRule({ deliveryFeeJmdCents: 500 })];
+  const result = compareBaskets(cart, offers, createContext(feeRules));
+
+  assertEqual(result.singleStore?.totalJmdCents, 3900, "3400 plus one delivery fee");
+  assertEqual(result.twoStoreSplit?.totalJmdCents, 4100, "3100 plus two delivery fees");
+});
+
+runTest("Out-of-stock items are reported as missing", () => {
+  const stockOffers = [
+    createOffer("a", "s1", 1000),
+    createOffer("b", "s1", 2000),
+    createOffer("a", "s2", 500),
+  ];
+  const result = compareBaskets(cart, stockOffers, createContext());
+
+  assertEqual(result.singleStore?.storeIds.join(","), "s1", "Only s1 has everything");
+  assertEqual(result.singleStore?.missingItems.length, 0);
+  assertEqual(result.twoStoreSplit?.storeIds.join(","), "s1,s2", "a from s2, b from s1");
+});
+
+runTest("Fuller basket beats a cheaper one with missing items", () => {
+  const stockOffers = [
+    createOffer("a", "s1", 1000),
+    createOffer("b", "s1", 2000),
+    createOffer("a", "s2", 100),
+  ];
+  const result = compareBaskets(cart, stockOffers, createContext());
+
+  assertEqual(result.singleStore?.storeIds.join(","), "s1", "s2 is cheaper but lacks b");
+});
+
+runTest("Options below a store's minimum order are dropped", () => {
+  // Both genuine splits buy a from s2: 1600 of items, below its 2000 minimum
+  const feeRules = [createRule({ storeLocationId: "s2", minimumOrderJmdCents: 2000 })];
+  const result = compareBaskets(cart, offers, createContext(feeRules));
+
+  assertEqual(result.twoStoreSplit, null, "Every split leaves s2 short");
+  assertEqual(result.singleStore?.storeIds.join(","), "s3");
+});
+
+runTest("Missing items left at their store count toward its minimum", () => {
+  const stockOffers = [createOffer("a", "s2", 500), createOffer("b", "s1", 2000)];
+  const feeRules = [createRule({ storeLocationId: "s1", minimumOrderJmdCents: 2500 })];
+  const result = compareBaskets(cart, stockOffers, createContext(feeRules));
+
+  // s2 is cheaper for a, but b would be left alone at s1 with 2000
+  assertEqual(result.singleStore?.storeIds.join(","), "s1", "s2 option leaves s1 short");
+  assertEqual(result.singleStore?.storesBelowMinimum.length, 0);
+  assertEqual(result.twoStoreSplit, null, "Split also leaves s1 with 2000");
+});
+
+runTest("No option when nothing meets the minimum", () => {
+  const feeRules = [createRule({ minimumOrderJmdCents: 100000 })];
+  const result = compareBaskets(cart, offers, createContext(feeRules));
+
+  assertEqual(result.singleStore, null);
+  assertEqual(result.twoStoreSplit, null);
+});
+
+runTest("Applying an option moves lines and merges duplicates", () => {
+  const mixedCart = createCart([
+    createItem("a", "s1", 1000, 2),
+    createItem("a", "s3", 950, 1),
+    createItem("c", "s1", 300, 1),
+  ]);
+  const result = compareBaskets(
+    mixedCart,
+    [createOffer("a", "s3", 950), createOffer("a", "s1", 1000)],
+    createContext()
+  );
+  const updated = applyBasketOption(mixedCart, result.singleStore!);
+
+  const lineA = updated.items.find((item) => item.productId === "a");
+  assertEqual(lineA?.storeId, "s3", "a moved to s3");
+  assertEqual(lineA?.quantity, 3, "Quantities combined");
+  assertEqual(updated.items.find((item) => item.productId === "c")?.storeId, "s1", "c stays");
+  assertEqual(updated.totalPriceJmdCents, 3150);
+});
+
+console.log("\n=== All Tests Complete ===\n");
@@ -0,0 +1,319 @@
+import { Cart, CartItem } from "./cart-service";
+import { calculateStoreFees, selectFeeRule, FeeRule } from "./fee-engine";
+
+/**
+ * Basket Optimizer
+ *
+ * Pure "cheapest way to buy this cart" comparison. Given every in-stock offer
+ * for the products in a cart, it finds the cheapest single-store basket and
+ * the cheapest two-store split. No database access - callers load offers,
+ * store details and fee rules.
+ *
+ * Options are compared on what the user would actually pay: item prices plus
+ * each store's fees (a split pays two delivery fees). Options that can supply
+ * more of the cart always rank ahead of cheaper options with more missing items.
+ * Options that would leave any store below its minimum order are dropped, since
+ * checkout would reject them.
+ */
+
+/** One store's current in-stock price for a product */
+export interface StoreOffer {
+  productId: string;
+  storeId: string;
+  storeName: string;
+  storeLogoUrl?: string;
+  priceJmdCents: number;
+}
+
+export type BasketOptionType = "single_store" | "two_store_split";
+
+/** Where one cart line would be bought */
+export interface BasketAssignment {
+  productId: string;
+  /** Store the line is in now */
+  fromStoreId: string;
+  offer: StoreOffer;
+  quantity: number;
+}
+
+export interface BasketOption {
+  type: BasketOptionType;
+  /** Stores used by this option (one or two) */
+  storeIds: string[];
+  storeNames: string[];
+  assignments: BasketAssignment[];
+  /** Cart lines none of the option's stores have in stock */
+  missingItems: CartItem[];
+  itemsJmdCents: number;
+  feesJmdCents: number;
+  totalJmdCents: number;
+  /**
+   * Current cart cost (items and fees) for the lines this option covers,
+   * minus this option's total. Negative when the option costs more.
+   */
+  savingsJmdCents: number;
+  /**
+   * Stores that would be below their minimum order once the option is applied,
+   * including stores still holding missing items
+   */
+  storesBelowMinimum: string[];
+}
+
+export interface BasketComparison {
+  /** Current cart cost (items and fees) */
+  currentTotalJmdCents: number;
+  singleStore: BasketOption | null;
+  twoStoreSplit: BasketOption | null;
+}
+
+export interface BasketPricingContext {
+  feeRules: FeeRule[];
+  /** Delivery parish (null if unknown) */
+  parish: string | null;
+}
+
+function lineKey(productId: string, storeId: string): string {
+  return `${productId}_${storeId}`;
+}
+
+/**
+ * Item subtotal plus fees for a set of per-store subtotals
+ */
+function costWithFees(
+  subtotalsByStore: Map<string, number>,
+  context: BasketPricingContext
+): { itemsJmdCents: number; feesJmdCents: number } {
+  let itemsJmdCents = 0;
+  let feesJmdCents = 0;
+  for (const [storeId, subtotal] of subtotalsByStore) {
+    const fees = calculateStoreFees(
+      storeId,
+      subtotal,
+      selectFeeRule(context.feeRules, storeId, context.parish)
+    );
+    itemsJmdCents += subtotal;
+    feesJmdCents += fees.feesJmdCents;
+  }
+  return { itemsJmdCents, feesJmdCents };
+}
+
+/**
+ * Stores whose subtotal would be below their minimum order
+ */
+function storesBelowMinimum(
+  subtotalsByStore: Map<string, number>,
+  context: BasketPricingContext
+): string[] {
+  const storeIds: string[] = [];
+  for (const [storeId, subtotal] of subtotalsByStore) {
+    const rule = selectFeeRule(context.feeRules, storeId, context.parish);
+    if (subtotal < rule.minimumOrderJmdCents) {
+      storeIds.push(storeId);
+    }
+  }
+  return storeIds;
+}
+
+/**
+ * Prices the cart lines an option covers as they are now
+ */
+function currentCostOf(items: CartItem[], context: BasketPricingContext): number {
+  const subtotals = new Map<string, number>();
+  for (const item of items) {
+    subtotals.set(
+      item.storeId,
+      (subtotals.get(item.storeId) || 0) + item.priceJmdCents * item.quantity
+    );
+  }
+  const { itemsJmdCents, feesJmdCents } = costWithFees(subtotals, context);
+  return itemsJmdCents + feesJmdCents;
+}
+
+/**
+ * Builds the option for a fixed set of stores: each line goes to the cheapest
+ * of those stores that has it
+ */
+function buildOption(
+  type: BasketOptionType,
+  storeIds: string[],
+  items: CartItem[],
+  offerIndex: Map<string, StoreOffer>,
+  context: BasketPricingContext
+): BasketOption {
+  const assignments: BasketAssignment[] = [];
+  const missingItems: CartItem[] = [];
+  const coveredItems: CartItem[] = [];
+  const subtotals = new Map<string, number>();
+
+  for (const item of items) {
+    let best: StoreOffer | undefined;
+    for (const storeId of storeIds) {
+      const offer = offerIndex.get(lineKey(item.productId, storeId));
+      if (offer && (!best || offer.priceJmdCents < best.priceJmdCents)) {
+        best = offer;
+      }
+    }
+
+    if (!best) {
+      missingItems.push(item);
+      continue;
+    }
+
+    coveredItems.push(item);
+    assignments.push({
+      productId: item.productId,
+      fromStoreId: item.storeId,
+      offer: best,
+      quantity: item.quantity,
+    });
+    subtotals.set(
+      best.storeId,
+      (subtotals.get(best.storeId) || 0) + best.priceJmdCents * item.quantity
+    );
+  }
+
+  // A split where one store ends up unused is really a single-store basket
+  const usedStoreIds = storeIds.filter((storeId) => subtotals.has(storeId));
+  const { itemsJmdCents, feesJmdCents } = costWithFees(subtotals, context);
+  const totalJmdCents = itemsJmdCents + feesJmdCents;
+
+  // Missing lines stay at their current store after the option is applied
+  const resultingSubtotals = new Map(subtotals);
+  for (const item of missingItems) {
+    resultingSubtotals.set(
+      item.storeId,
+      (resultingSubtotals.get(item.storeId) || 0) + item.priceJmdCents * item.quantity
+    );
+  }
+
+  return {
+    type,
+    storeIds: usedStoreIds,
+    storeNames: usedStoreIds.map(
+      (storeId) => assignments.find((a) => a.offer.storeId === storeId)?.offer.storeName || ""
+    ),
+    assignments,
+    missingItems,
+    itemsJmdCents,
+    feesJmdCents,
+    totalJmdCents,
+    savingsJmdCents: currentCostOf(coveredItems, context) - totalJmdCents,
+    storesBelowMinimum: storesBelowMinimum(resultingSubtotals, context),
+  };
+}
+
+/**
+ * Fewer missing items first, then lower total
+ * Options below a store's minimum order never win
+ */
+function isBetterOption(candidate: BasketOption, best: BasketOption | null): boolean {
+  if (candidate.storesBelowMinimum.length > 0) return false;
+  if (!best) return true;
+  if (candidate.missingItems.length !== best.missingItems.length) {
+    return candidate.missingItems.length < best.missingItems.length;
+  }
+  return candidate.totalJmdCents < best.totalJmdCents;
+}
+
+/**
+ * Finds the cheapest single-store basket and two-store split for a cart
+ * @param cart - Current cart
+ * @param offers - In-stock offers for the cart's products at any store
+ * @param context - Fee rules and delivery parish
+ * @returns Both options (null if no store stocks anything in the cart, or no
+ *   option meets every store's minimum order)
+ */
+export function compareBaskets(
+  cart: Cart,
+  offers: StoreOffer[],
+  context: BasketPricingContext
+): BasketComparison {
+  const offerIndex = new Map<string, StoreOffer>();
+  for (const offer of offers) {
+    const key = lineKey(offer.productId, offer.storeId);
+    const existing = offerIndex.get(key);
+    if (!existing || offer.priceJmdCents < existing.priceJmdCents) {
+      offerIndex.set(key, offer);
+    }
+  }
+  const storeIds = Array.from(new Set(offers.map((offer) => offer.storeId))).sort();
+
+  let singleStore: BasketOption | null = null;
+  for (const storeId of storeIds) {
+    const option = buildOption("single_store", [storeId], cart.items, offerIndex, context);
+    if (isBetterOption(option, singleStore)) {
+      singleStore = option;
+    }
+  }
+
+  let twoStoreSplit: BasketOption | null = null;
+  for (let i = 0; i < storeIds.length; i++) {
+    for (let j = i + 1; j < storeIds.length; j++) {
+      const option = buildOption(
+        "two_store_split",
+        [storeIds[i], storeIds[j]],
+        cart.items,
+        offerIndex,
+        context
+      );
+      // Only genuine splits - one-store results are covered above
+      if (option.storeIds.length === 2 && isBetterOption(option, twoStoreSplit)) {
+        twoStoreSplit = option;
+      }
+    }
+  }
+
+  return {
+    currentTotalJmdCents: currentCostOf(cart.items, context),
+    singleStore,
+    twoStoreSplit,
+  };
+}
+
+/**
+ * Rewrites a cart to buy each covered line from the option's store
+ *
+ * Lines the option can't supply stay where they are. If a product ends up in
+ * the cart twice at the same store, the quantities are combined. Options from
+ * compareBaskets already meet every store's minimum order.
+ *
+ * @param cart - Current cart
+ * @param option - Option to apply
+ * @returns New cart (totals recalculated)
+ */
+export function applyBasketOption(cart: Cart, option: BasketOption): Cart {
+  const assignmentByLine = new Map(
+    option.assignments.map((a) => [lineKey(a.productId, a.fromStoreId), a])
+  );
+
+  const itemMap = new Map<string, CartItem>();
+  for (const item of cart.items) {
+    const assignment = assignmentByLine.get(lineKey(item.productId, item.storeId));
+    const updated: CartItem = assignment
+      ? {
+          ...item,
+          storeId: assignment.offer.storeId,
+          storeName: assignment.offer.storeName,
+          storeLogoUrl: assignment.offer.storeLogoUrl,
+          priceJmdCents: assignment.offer.priceJmdCents,
+        }
+      : item;
+
+    const key = lineKey(updated.productId, updated.storeId);
+    const existing = itemMap.get(key);
+    itemMap.set(
+      key,
+      existing ? { ...existing, quantity: existing.quantity + updated.quantity } : updated
+    );
+  }
+
+  const items = Array.from(itemMap.values());
+  return {
+    ...cart,
+    items,
+    totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalPriceJmdCents: items.reduce((sum, item) => sum + item.priceJmdCents * item.quantity, 0),
+    storeIds: Array.from(new Set(items.map((item) => item.storeId))),
+    updatedAt: new Date().toISOString(),
+  };
+}
@@ -72,6 +72,7 @@ export async function getServerCart(userId: string): Promise<Cart | null> {
         totalPriceJmdCents: cartDoc.totalPriceJmdCents || 0,
         storeIds,
         updatedAt: cartDoc.updatedAt || new Date().toISOString(),
+        promoCode: cartDoc.promoCode || undefined,
       };
     }
     return null;
@@ -102,6 +103,7 @@ export async function saveServerCart(userId: string, cart: Cart): Promise<void>
       totalPriceJmdCents: cart.totalPriceJmdCents || 0,
       storeIds: cart.storeIds && cart.storeIds.length > 0 ? JSON.stringify(cart.storeIds) : "[]",
       updatedAt: new Date().toISOString(),
+      promoCode: cart.promoCode || null,
     };
 
     if (existing.documents.length > 0) {
@@ -258,6 +260,8 @@ export function mergeCarts(localCart: Cart, serverCart: Cart): Cart {
     totalPriceJmdCents,
     storeIds,
     updatedAt: new Date().toISOString(),
+    // Prefer the code entered on this device
+    promoCode: localCart.promoCode || serverCart.promoCode,
   };
 }
 
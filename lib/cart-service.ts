@@ -51,6 +51,8 @@ export interface Cart {
   storeIds: string[];
   /** Last updated timestamp */
   updatedAt: string;
+  /** Promo code entered by the user (evaluated when the cart is priced) */
+  promoCode?: string;
 }
 
 // Legacy storage key for backward compatibility (will be migrated)
@@ -42,7 +42,7 @@ const STORE_LOCATION_PRODUCT_COLLECTION_ID = "store_location_product";
 /**
  * Validate a single cart item against current database state
  */
-async function validateCartItem(item: CartItem): Promise<CartItemValidation> {
+export async function validateCartItem(item: CartItem): Promise<CartItemValidation> {
   try {
     // Query store_location_product to get current price and availability
     const response = await databases.listDocuments(
@@ -190,6 +190,7 @@ export async function getUpdatedCart(cart: Cart): Promise<{
     totalPriceJmdCents,
     storeIds,
     updatedAt: new Date().toISOString(),
+    promoCode: cart.promoCode,
   };
 
   return {
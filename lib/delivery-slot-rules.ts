@@ -0,0 +1,107 @@
+/**
+ * Delivery Slot Rules
+ *
+ * Slot types and booking rules shared by the app and the orders function
+ * (functions/orders), which makes the reservations. No database access.
+ */
+
+export interface DeliverySlot {
+  $id: string;
+  storeLocationId: string;
+  /** ISO 8601 start of the delivery window */
+  startsAt: string;
+  /** ISO 8601 end of the delivery window */
+  endsAt: string;
+  /** ISO 8601 time after which the slot can no longer be booked */
+  cutoffAt: string;
+  /** Maximum number of orders in this window */
+  capacity: number;
+  /** Orders already booked into this window */
+  reservedCount: number;
+  isActive: boolean;
+}
+
+export type DeliverySlotAvailability = "available" | "full" | "past_cutoff" | "inactive";
+
+/**
+ * Thrown when a slot can't be reserved (full, past cutoff, inactive or missing)
+ */
+export class DeliverySlotUnavailableError extends Error {
+  readonly slotId: string;
+  readonly reason: DeliverySlotAvailability | "not_found";
+
+  constructor(slotId: string, reason: DeliverySlotAvailability | "not_found") {
+    const messages: Record<DeliverySlotAvailability | "not_found", string> = {
+      available: "Delivery slot is no longer available",
+      full: "This delivery slot is now full. Please choose another time.",
+      past_cutoff: "This delivery slot can no longer be booked. Please choose another time.",
+      inactive: "This delivery slot is no longer offered. Please choose another time.",
+      not_found: "Delivery slot not found. Please choose another time.",
+    };
+    super(messages[reason]);
+    this.name = "DeliverySlotUnavailableError";
+    this.slotId = slotId;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Parse a delivery slot document from Appwrite
+ */
+export function parseDeliverySlotDocument(doc: any): DeliverySlot {
+  return {
+    $id: doc.$id,
+    storeLocationId: doc.storeLocationId,
+    startsAt: doc.startsAt,
+    endsAt: doc.endsAt,
+    cutoffAt: doc.cutoffAt || doc.startsAt,
+    capacity: doc.capacity || 0,
+    reservedCount: doc.reservedCount || 0,
+    isActive: doc.isActive !== false,
+  };
+}
+
+/**
+ * Whether a slot can be booked right now, and if not, why
+ */
+export function getSlotAvailability(
+  slot: DeliverySlot,
+  now: Date = new Date()
+): DeliverySlotAvailability {
+  if (!slot.isActive) {
+    return "inactive";
+  }
+  if (new Date(slot.cutoffAt).getTime() <= now.getTime()) {
+    return "past_cutoff";
+  }
+  if (slot.reservedCount >= slot.capacity) {
+    return "full";
+  }
+  return "available";
+}
+
+/**
+ * Whether a slot can be picked at checkout
+ */
+export function isSlotSelectable(slot: DeliverySlot, now: Date = new Date()): boolean {
+  return getSlotAvailability(slot, now) === "available";
+}
+
+/**
+ * Display label for a slot window, e.g. "Tue, Oct 20 · 2:00 PM – 4:00 PM"
+ */
+export function formatSlotWindow(startsAt: string, endsAt: string): string {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return "";
+
+  const day = start.toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const time = (date: Date) =>
+    date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+  return `${day} · ${time(start)} – ${time(end)}`;
+}
@@ -0,0 +1,73 @@
+import { Query } from "appwrite";
+import { databases, databaseId } from "./appwrite-client";
+import { DeliverySlot, parseDeliverySlotDocument } from "./delivery-slot-rules";
+
+export {
+  DeliverySlotUnavailableError,
+  formatSlotWindow,
+  getSlotAvailability,
+  isSlotSelectable,
+} from "./delivery-slot-rules";
+export type { DeliverySlot, DeliverySlotAvailability } from "./delivery-slot-rules";
+
+/**
+ * Delivery Slot Service
+ *
+ * Delivery windows per store location, each with a fixed capacity. A slot can
+ * be booked until its cutoff time while reservedCount is below capacity.
+ * Slots are read-only for users: the orders function (functions/orders)
+ * reserves a place when it creates an order, using Appwrite's bounded
+ * increment so two checkouts can't both take the last place in a window, and
+ * gives it back when the order is cancelled.
+ */
+
+const DELIVERY_SLOTS_COLLECTION_ID = "delivery_slots";
+
+/** How far ahead slots are offered at checkout */
+const DEFAULT_SLOT_LOOKAHEAD_DAYS = 3;
+
+/**
+ * Retrieves upcoming delivery slots for store locations
+ * Includes full and closed slots so the picker can show them as unavailable
+ * @param storeLocationIds - Store location IDs
+ * @param lookaheadDays - How many days ahead to include
+ * @returns Promise with slots per store location, earliest first
+ */
+export async function getDeliverySlots(
+  storeLocationIds: string[],
+  lookaheadDays: number = DEFAULT_SLOT_LOOKAHEAD_DAYS
+): Promise<Map<string, DeliverySlot[]>> {
+  const slotsByStore = new Map<string, DeliverySlot[]>();
+  storeLocationIds.forEach((storeId) => slotsByStore.set(storeId, []));
+
+  if (storeLocationIds.length === 0) return slotsByStore;
+
+  const now = new Date();
+  const horizon = new Date(now.getTime() + lookaheadDays * 24 * 60 * 60 * 1000);
+
+  try {
+    const result = await databases.listDocuments(
+      databaseId,
+      DELIVERY_SLOTS_COLLECTION_ID,
+      [
+        Query.equal("storeLocationId", storeLocationIds),
+        Query.equal("isActive", true),
+        Query.greaterThan("endsAt", now.toISOString()),
+        Query.lessThan("startsAt", horizon.toISOString()),
+        Query.orderAsc("startsAt"),
+        Query.limit(500),
+      ]
+    );
+
+    for (const doc of result.documents) {
+      const slot = parseDeliverySlotDocument(doc);
+      slotsByStore.get(slot.storeLocationId)?.push(slot);
+    }
+
+    return slotsByStore;
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve delivery slots";
+    console.error("Delivery slots retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Test harness for the fee engine
+ *
+ * Run with: tsx lib/fee-engine.test.ts
+ */
+
+import {
+  calculateCartPricing,
+  calculateStoreFees,
+  DEFAULT_FEE_RULE,
+  FeeRule,
+  MinimumOrderNotMetError,
+  selectFeeRule,
+} from "./fee-engine";
+
+// Test data helpers
+function createRule(overrides: Partial<FeeRule>): FeeRule {
+  return {
+    ...DEFAULT_FEE_RULE,
+    ...overrides,
+  };
+}
+
+// Test runner
+function runTest(name: string, testFn: () => boolean | void): void {
+  try {
+    const result = testFn();
+    if (result === false) {
+      console.error(`❌ FAIL: ${name}`);
+    } else {
+      console.log(`✓ PASS: ${name}`);
+    }
+  } catch (error: any) {
+    console.error(`❌ FAIL: ${name} - ${error.message}`);
+    console.error(error.stack);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(
+      `Assertion failed: ${message || "values not equal"}\n  Expected: ${expected}\n  Actual: ${actual}`
+    );
+  }
+}
+
+console.log("\n=== Fee Engine Tests ===\n");
+
+const rules: FeeRule[] = [
+  createRule({ $id: "global", deliveryFeeJmdCents: 50000 }),
+  createRule({ $id: "parish", parish: "St. Andrew", deliveryFeeJmdCents: 40000 }),
+  createRule({ $id: "store", storeLocationId: "s1", deliveryFeeJmdCents: 30000 }),
+  createRule({ $id: "store_parish", storeLocationId: "s1", parish: "St. Andrew", deliveryFeeJmdCents: 20000 }),
+];
+
+runTest("Store and parish rule wins over less specific rules", () => {
+  assertEqual(selectFeeRule(rules, "s1", "St. Andrew").$id, "store_parish");
+});
+
+runTest("Store rule wins over parish rule", () => {
+  assertEqual(selectFeeRule(rules, "s1", "St. Catherine").$id, "store", "Other parish");
+  assertEqual(selectFeeRule(rules, "s1", null).$id, "store", "No parish known");
+});
+
+runTest("Parish rule wins over global rule", () => {
+  assertEqual(selectFeeRule(rules, "s2", "St. Andrew").$id, "parish");
+});
+
+runTest("Global rule applies when nothing more specific matches", () => {
+  assertEqual(selectFeeRule(rules, "s2", "St. Catherine").$id, "global");
+  assertEqual(selectFeeRule(rules, "s2", null).$id, "global", "Parish rules need a parish");
+});
+
+runTest("Falls back to the default rule with no fees", () => {
+  const rule = selectFeeRule([], "s1", "St. Andrew");
+  assertEqual(rule, DEFAULT_FEE_RULE);
+
+  const fees = calculateStoreFees("s1", 10000, rule);
+  assertEqual(fees.feesJmdCents, 0, "No fees");
+  assertEqual(fees.meetsMinimum, true, "No minimum");
+});
+
+runTest("Delivery is free at or above the threshold", () => {
+  const rule = createRule({ deliveryFeeJmdCents: 50000, freeDeliveryThresholdJmdCents: 500000 });
+
+  assertEqual(calculateStoreFees("s1", 499999, rule).deliveryFeeJmdCents, 50000, "Just below");
+  assertEqual(calculateStoreFees("s1", 500000, rule).deliveryFeeJmdCents, 0, "At the threshold");
+  assertEqual(calculateStoreFees("s1", 800000, rule).deliveryFeeJmdCents, 0, "Above the threshold");
+});
+
+runTest("No threshold means delivery is never free", () => {
+  const rule = createRule({ deliveryFeeJmdCents: 50000 });
+  assertEqual(calculateStoreFees("s1", 10000000, rule).deliveryFeeJmdCents, 50000);
+});
+
+runTest("Free-delivery promo waives the fee left after the threshold", () => {
+  const rule = createRule({ deliveryFeeJmdCents: 50000, freeDeliveryThresholdJmdCents: 500000 });
+  const discount = { storeId: "s1", itemDiscountJmdCents: 0, freeDelivery: true };
+
+  const belowThreshold = calculateStoreFees("s1", 100000, rule, discount);
+  assertEqual(belowThreshold.deliveryFeeJmdCents, 0, "Fee waived");
+  assertEqual(belowThreshold.deliveryFeeWaivedJmdCents, 50000, "Waived amount reported");
+
+  const aboveThreshold = calculateStoreFees("s1", 600000, rule, discount);
+  assertEqual(aboveThreshold.deliveryFeeWaivedJmdCents, 0, "Nothing left to waive");
+});
+
+runTest("Service fee is clamped between its minimum and maximum", () => {
+  const rule = createRule({
+    serviceFeeBasisPoints: 500,
+    serviceFeeMinJmdCents: 10000,
+    serviceFeeMaxJmdCents: 50000,
+  });
+
+  assertEqual(calculateStoreFees("s1", 100000, rule).serviceFeeJmdCents, 10000, "Minimum");
+  assertEqual(calculateStoreFees("s1", 400000, rule).serviceFeeJmdCents, 20000, "5% of subtotal");
+  assertEqual(calculateStoreFees("s1", 2000000, rule).serviceFeeJmdCents, 50000, "Maximum");
+});
+
+runTest("Small-order surcharge and GCT apply to fees only", () => {
+  const rule = createRule({
+    deliveryFeeJmdCents: 40000,
+    smallOrderThresholdJmdCents: 200000,
+    smallOrderSurchargeJmdCents: 10000,
+  });
+
+  const fees = calculateStoreFees("s1", 150000, rule);
+  assertEqual(fees.smallOrderSurchargeJmdCents, 10000, "Surcharge below threshold");
+  assertEqual(fees.gctJmdCents, 7500, "15% of 50000 in fees");
+  assertEqual(fees.feesJmdCents, 57500);
+  assertEqual(fees.totalJmdCents, 207500, "Subtotal plus fees");
+
+  assertEqual(calculateStoreFees("s1", 200000, rule).smallOrderSurchargeJmdCents, 0, "At threshold");
+});
+
+runTest("Stores below their minimum order are reported", () => {
+  const minimumRules = [
+    createRule({ storeLocationId: "s1", minimumOrderJmdCents: 300000 }),
+    createRule({ storeLocationId: "s2", minimumOrderJmdCents: 100000 }),
+  ];
+  const pricing = calculateCartPricing(
+    [
+      { storeId: "s1", subtotalJmdCents: 250000 },
+      { storeId: "s2", subtotalJmdCents: 100000 },
+    ],
+    minimumRules,
+    null
+  );
+
+  assertEqual(pricing.storesBelowMinimum.length, 1, "Only s1 is short");
+  assertEqual(pricing.storesBelowMinimum[0], "s1");
+  assertEqual(pricing.stores[0].amountToMinimumJmdCents, 50000, "Needs 50000 more");
+  assertEqual(pricing.stores[1].meetsMinimum, true, "s2 is exactly at its minimum");
+});
+
+runTest("Minimum order error carries the store IDs", () => {
+  const error = new MinimumOrderNotMetError(["s1", "s2"]);
+
+  assertEqual(error instanceof Error, true, "Is an Error");
+  assertEqual(error.name, "MinimumOrderNotMetError");
+  assertEqual(error.storeIds.join(","), "s1,s2");
+  assertEqual(error.message, "2 store(s) in your cart are below their minimum order amount");
+});
+
+console.log("\n=== All Tests Complete ===\n");
@@ -0,0 +1,241 @@
+import { PromoEvaluation, StoreDiscount } from "./promo-engine";
+
+/**
+ * Fee Engine
+ *
+ * Pure fee calculator: picks the fee rule for each store and works out the
+ * delivery fee, service fee, small-order surcharge and GCT. No database
+ * access - pricing-service loads the rules from store_fee_rules.
+ *
+ * Item prices are GCT-inclusive shelf prices, so GCT here applies to fees only.
+ * Promo discounts come off the total; fees, surcharges and minimums are based
+ * on the pre-discount subtotal.
+ * All amounts are integer JMD cents; percentages are basis points (500 = 5%).
+ */
+
+export interface FeeRule {
+  $id?: string;
+  /** Store location this rule applies to (null = any store) */
+  storeLocationId: string | null;
+  /** Parish this rule applies to (null = any parish) */
+  parish: string | null;
+  deliveryFeeJmdCents: number;
+  /** Subtotal at or above which delivery is free (null = never free) */
+  freeDeliveryThresholdJmdCents: number | null;
+  /** Service fee as basis points of the subtotal */
+  serviceFeeBasisPoints: number;
+  serviceFeeMinJmdCents: number;
+  /** Service fee cap (null = no cap) */
+  serviceFeeMaxJmdCents: number | null;
+  /** Orders below this subtotal can't be placed */
+  minimumOrderJmdCents: number;
+  /** Orders below this subtotal pay the small-order surcharge */
+  smallOrderThresholdJmdCents: number;
+  smallOrderSurchargeJmdCents: number;
+  /** GCT on fees as basis points */
+  gctBasisPoints: number;
+}
+
+export interface StoreFeeBreakdown {
+  storeId: string;
+  subtotalJmdCents: number;
+  deliveryFeeJmdCents: number;
+  serviceFeeJmdCents: number;
+  smallOrderSurchargeJmdCents: number;
+  gctJmdCents: number;
+  /** Sum of all fees including GCT */
+  feesJmdCents: number;
+  /** Promo discount on items */
+  discountJmdCents: number;
+  /** Delivery fee waived by a free-delivery promo */
+  deliveryFeeWaivedJmdCents: number;
+  /** Subtotal plus fees, less the discount */
+  totalJmdCents: number;
+  minimumOrderJmdCents: number;
+  meetsMinimum: boolean;
+  /** How much more needs to be added to reach the minimum (0 if met) */
+  amountToMinimumJmdCents: number;
+}
+
+export interface CartPricing {
+  stores: StoreFeeBreakdown[];
+  itemsSubtotalJmdCents: number;
+  feesJmdCents: number;
+  /** Promo discount on items across all stores */
+  discountJmdCents: number;
+  grandTotalJmdCents: number;
+  /** Applied promo (null if none) */
+  promo: PromoEvaluation | null;
+  /** Store IDs whose subtotal is below their minimum order */
+  storesBelowMinimum: string[];
+}
+
+/** Minimal store group shape needed for pricing */
+export interface PricingStoreGroup {
+  storeId: string;
+  subtotalJmdCents: number;
+}
+
+/** Jamaica GCT standard rate (15%) */
+const STANDARD_GCT_BASIS_POINTS = 1500;
+
+/**
+ * Fallback when no rule matches: no fees and no minimum
+ */
+export const DEFAULT_FEE_RULE: FeeRule = {
+  storeLocationId: null,
+  parish: null,
+  deliveryFeeJmdCents: 0,
+  freeDeliveryThresholdJmdCents: null,
+  serviceFeeBasisPoints: 0,
+  serviceFeeMinJmdCents: 0,
+  serviceFeeMaxJmdCents: null,
+  minimumOrderJmdCents: 0,
+  smallOrderThresholdJmdCents: 0,
+  smallOrderSurchargeJmdCents: 0,
+  gctBasisPoints: STANDARD_GCT_BASIS_POINTS,
+};
+
+/**
+ * Thrown when checkout includes a store whose subtotal is below its minimum order
+ */
+export class MinimumOrderNotMetError extends Error {
+  readonly storeIds: string[];
+
+  constructor(storeIds: string[], message?: string) {
+    super(
+      message ||
+        `${storeIds.length} store(s) in your cart are below their minimum order amount`
+    );
+    this.name = "MinimumOrderNotMetError";
+    this.storeIds = storeIds;
+  }
+}
+
+/**
+ * Basis points of an amount, rounded to the nearest cent
+ */
+function applyBasisPoints(amountJmdCents: number, basisPoints: number): number {
+  return Math.round((amountJmdCents * basisPoints) / 10000);
+}
+
+/**
+ * Picks the most specific rule for a store and delivery parish
+ *
+ * Priority: store + parish, store only, parish only, global default.
+ * Falls back to DEFAULT_FEE_RULE if nothing matches.
+ */
+export function selectFeeRule(
+  rules: FeeRule[],
+  storeId: string,
+  parish: string | null
+): FeeRule {
+  const matches = (rule: FeeRule, byStore: boolean, byParish: boolean) =>
+    (byStore ? rule.storeLocationId === storeId : rule.storeLocationId === null) &&
+    (byParish ? parish !== null && rule.parish === parish : rule.parish === null);
+
+  return (
+    rules.find((rule) => matches(rule, true, true)) ||
+    rules.find((rule) => matches(rule, true, false)) ||
+    rules.find((rule) => matches(rule, false, true)) ||
+    rules.find((rule) => matches(rule, false, false)) ||
+    DEFAULT_FEE_RULE
+  );
+}
+
+/**
+ * Computes the fee breakdown for one store's items
+ * @param storeId - Store location ID
+ * @param subtotalJmdCents - Sum of item prices for the store
+ * @param rule - Fee rule that applies to the store
+ * @param discount - Promo discount for the store (optional)
+ */
+export function calculateStoreFees(
+  storeId: string,
+  subtotalJmdCents: number,
+  rule: FeeRule,
+  discount?: StoreDiscount
+): StoreFeeBreakdown {
+  const freeDelivery =
+    rule.freeDeliveryThresholdJmdCents !== null &&
+    subtotalJmdCents >= rule.freeDeliveryThresholdJmdCents;
+  const baseDeliveryFeeJmdCents = freeDelivery ? 0 : rule.deliveryFeeJmdCents;
+  const deliveryFeeWaivedJmdCents = discount?.freeDelivery ? baseDeliveryFeeJmdCents : 0;
+  const deliveryFeeJmdCents = baseDeliveryFeeJmdCents - deliveryFeeWaivedJmdCents;
+  const discountJmdCents = Math.min(discount?.itemDiscountJmdCents || 0, subtotalJmdCents);
+
+  let serviceFeeJmdCents = 0;
+  if (rule.serviceFeeBasisPoints > 0 || rule.serviceFeeMinJmdCents > 0) {
+    serviceFeeJmdCents = Math.max(
+      applyBasisPoints(subtotalJmdCents, rule.serviceFeeBasisPoints),
+      rule.serviceFeeMinJmdCents
+    );
+    if (rule.serviceFeeMaxJmdCents !== null) {
+      serviceFeeJmdCents = Math.min(serviceFeeJmdCents, rule.serviceFeeMaxJmdCents);
+    }
+  }
+
+  const smallOrderSurchargeJmdCents =
+    subtotalJmdCents < rule.smallOrderThresholdJmdCents
+      ? rule.smallOrderSurchargeJmdCents
+      : 0;
+
+  const taxableFees = deliveryFeeJmdCents + serviceFeeJmdCents + smallOrderSurchargeJmdCents;
+  const gctJmdCents = applyBasisPoints(taxableFees, rule.gctBasisPoints);
+  const feesJmdCents = taxableFees + gctJmdCents;
+
+  const amountToMinimumJmdCents = Math.max(0, rule.minimumOrderJmdCents - subtotalJmdCents);
+
+  return {
+    storeId,
+    subtotalJmdCents,
+    deliveryFeeJmdCents,
+    serviceFeeJmdCents,
+    smallOrderSurchargeJmdCents,
+    gctJmdCents,
+    feesJmdCents,
+    discountJmdCents,
+    deliveryFeeWaivedJmdCents,
+    totalJmdCents: subtotalJmdCents - discountJmdCents + feesJmdCents,
+    minimumOrderJmdCents: rule.minimumOrderJmdCents,
+    meetsMinimum: amountToMinimumJmdCents === 0,
+    amountToMinimumJmdCents,
+  };
+}
+
+/**
+ * Computes fees for every store group using an already-loaded rule set
+ * Rejected promo evaluations are ignored
+ */
+export function calculateCartPricing(
+  groups: PricingStoreGroup[],
+  rules: FeeRule[],
+  parish: string | null,
+  promo: PromoEvaluation | null = null
+): CartPricing {
+  const appliedPromo = promo?.applied ? promo : null;
+  const stores = groups.map((group) =>
+    calculateStoreFees(
+      group.storeId,
+      group.subtotalJmdCents,
+      selectFeeRule(rules, group.storeId, parish),
+      appliedPromo?.storeDiscounts.find((discount) => discount.storeId === group.storeId)
+    )
+  );
+
+  const itemsSubtotalJmdCents = stores.reduce((sum, store) => sum + store.subtotalJmdCents, 0);
+  const feesJmdCents = stores.reduce((sum, store) => sum + store.feesJmdCents, 0);
+  const discountJmdCents = stores.reduce((sum, store) => sum + store.discountJmdCents, 0);
+
+  return {
+    stores,
+    itemsSubtotalJmdCents,
+    feesJmdCents,
+    discountJmdCents,
+    grandTotalJmdCents: itemsSubtotalJmdCents - discountJmdCents + feesJmdCents,
+    promo: appliedPromo,
+    storesBelowMinimum: stores
+      .filter((store) => !store.meetsMinimum)
+      .map((store) => store.storeId),
+  };
+}
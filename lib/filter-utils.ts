@@ -1,5 +1,7 @@
 import { SearchResult } from "./search-service";
 import { FilterState } from "../components/ProductFilters";
+import { matchesDietaryTags, DietaryTag } from "./search/dietary";
+import { isQuickDelivery } from "./search/delivery-estimate";
 
 /**
  * Utility function to apply non-price filters to search results
@@ -9,96 +11,35 @@ import { FilterState } from "../components/ProductFilters";
  * 2. Category filter (if any categories selected)
  * 3. Partner store filter (if any stores selected)
  * 4. In stock filter (if enabled)
- * 5. Quick delivery filter (if enabled) - placeholder implementation
- * 6. Dietary restrictions filter (if any selected) - placeholder implementation
- * 
- * Note: Quick delivery and dietary restrictions are placeholder implementations
- * that check product title/description for keywords. These should be replaced
- * with proper database fields when available.
+ * 5. Quick delivery filter (if enabled) - uses the store's delivery estimate to the user's address
+ * 6. Dietary restrictions filter (if any selected) - uses products.dietary_tags
  */
 
 /**
- * Check if a product matches dietary restrictions based on title/description keywords
- * This is a placeholder implementation - should be replaced with proper database fields
+ * Check if a product matches dietary restrictions using its dietary tags
+ * Products without dietary data don't match a restriction (see lib/search/dietary.ts)
  */
 function matchesDietaryRestrictions(
   result: SearchResult,
   restrictions: FilterState["dietaryRestrictions"]
 ): boolean {
-  // If no restrictions are selected, all products match
-  if (!restrictions.vegan && !restrictions.vegetarian && !restrictions.glutenFree) {
-    return true;
-  }
+  const requiredTags: DietaryTag[] = [];
+  if (restrictions.vegan) requiredTags.push("vegan");
+  if (restrictions.vegetarian) requiredTags.push("vegetarian");
+  if (restrictions.glutenFree) requiredTags.push("gluten_free");
 
-  const title = result.product.title.toLowerCase();
-  const description = (result.product.description || "").toLowerCase();
-  const searchText = `${title} ${description}`;
-
-  // Check vegan
-  if (restrictions.vegan) {
-    const veganKeywords = ["vegan", "plant-based", "dairy-free", "egg-free"];
-    const hasVeganKeyword = veganKeywords.some((keyword) => searchText.includes(keyword));
-    // Exclude non-vegan keywords
-    const nonVeganKeywords = ["meat", "chicken", "beef", "pork", "fish", "dairy", "milk", "cheese", "egg", "honey"];
-    const hasNonVeganKeyword = nonVeganKeywords.some((keyword) => searchText.includes(keyword));
-    
-    if (!hasVeganKeyword && hasNonVeganKeyword) {
-      return false;
-    }
-    // If vegan keyword is present, it matches
-    if (hasVeganKeyword) {
-      return true;
-    }
-  }
-
-  // Check vegetarian
-  if (restrictions.vegetarian) {
-    const vegetarianKeywords = ["vegetarian", "veggie", "plant-based"];
-    const hasVegetarianKeyword = vegetarianKeywords.some((keyword) => searchText.includes(keyword));
-    // Exclude non-vegetarian keywords
-    const nonVegetarianKeywords = ["meat", "chicken", "beef", "pork", "fish", "seafood"];
-    const hasNonVegetarianKeyword = nonVegetarianKeywords.some((keyword) => searchText.includes(keyword));
-    
-    if (!hasVegetarianKeyword && hasNonVegetarianKeyword) {
-      return false;
-    }
-    // If vegetarian keyword is present, it matches
-    if (hasVegetarianKeyword) {
-      return true;
-    }
-  }
-
-  // Check gluten-free
-  if (restrictions.glutenFree) {
-    const glutenFreeKeywords = ["gluten-free", "gluten free", "gf", "certified gluten-free"];
-    const hasGlutenFreeKeyword = glutenFreeKeywords.some((keyword) => searchText.includes(keyword));
-    // Exclude gluten-containing keywords
-    const glutenKeywords = ["wheat", "barley", "rye", "flour", "bread", "pasta"];
-    const hasGlutenKeyword = glutenKeywords.some((keyword) => searchText.includes(keyword));
-    
-    if (!hasGlutenFreeKeyword && hasGlutenKeyword) {
-      return false;
-    }
-    // If gluten-free keyword is present, it matches
-    if (hasGlutenFreeKeyword) {
-      return true;
-    }
-  }
-
-  // If we get here and restrictions are selected but no matches found,
-  // only return true if no restrictions are actually selected
-  return !restrictions.vegan && !restrictions.vegetarian && !restrictions.glutenFree;
+  return matchesDietaryTags(result.product, requiredTags);
 }
 
 /**
- * Check if a product has quick delivery
- * This is a placeholder implementation - should be replaced with proper database fields
- * For now, we assume all products have quick delivery if the store is active
+ * Check if a product's store delivers quickly to the user's address
+ * Stores without a delivery time don't count as quick (see lib/search/delivery-estimate.ts)
  */
-function hasQuickDelivery(result: SearchResult): boolean {
-  // Placeholder: assume quick delivery if store is active
-  // This should be replaced with proper database fields (e.g., delivery_time, delivery_available)
-  return result.storeLocation.is_active;
+function hasQuickDelivery(
+  result: SearchResult,
+  userDeliveryAddress?: { parish?: string; community?: string } | null
+): boolean {
+  return isQuickDelivery(result.storeLocation, userDeliveryAddress);
 }
 
 /**
@@ -159,18 +100,9 @@ export function applyFilters(
 
     // Filter by quick delivery
     if (filters.quickDelivery === true) {
-      // Check if store supports quick delivery to user's address
-      // For now, we check if the store is active and optionally matches user's parish
-      if (!hasQuickDelivery(result)) {
+      if (!hasQuickDelivery(result, userDeliveryAddress)) {
         return false;
       }
-      
-      // If user has a delivery address, optionally filter by location
-      // This is a placeholder - proper implementation would check delivery zones
-      if (userDeliveryAddress?.parish && result.storeLocation.parish) {
-        // For now, we allow all stores regardless of parish
-        // This can be enhanced to check delivery zones when available
-      }
     }
 
     // Filter by price range
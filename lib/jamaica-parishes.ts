@@ -1,3 +1,5 @@
+import { fuzzyMatchScore } from "./search/fuzzy-match";
+
 /**
  * Jamaica Parishes - Complete list of all 14 parishes
  */
@@ -25,3 +27,358 @@ export type JamaicaParish = typeof JAMAICA_PARISHES[number];
 export function isValidJamaicaParish(parish: string): boolean {
   return JAMAICA_PARISHES.includes(parish as JamaicaParish);
 }
+
+/**
+ * Approximate centre of each parish - the parish capital (Kingston for
+ * Kingston & St. Andrew). Used for delivery estimates when a store or
+ * address has no coordinates of its own.
+ */
+export const PARISH_CENTROIDS: Record<JamaicaParish, { latitude: number; longitude: number }> = {
+  "Kingston & St. Andrew": { latitude: 17.997, longitude: -76.7936 },
+  "St. Catherine": { latitude: 17.9911, longitude: -76.9574 },
+  Clarendon: { latitude: 17.9645, longitude: -77.2434 },
+  Manchester: { latitude: 18.0417, longitude: -77.5071 },
+  "St. Elizabeth": { latitude: 18.0264, longitude: -77.8487 },
+  Westmoreland: { latitude: 18.219, longitude: -78.1332 },
+  Hanover: { latitude: 18.4509, longitude: -78.1736 },
+  "St. James": { latitude: 18.4762, longitude: -77.8939 },
+  Trelawny: { latitude: 18.4936, longitude: -77.6559 },
+  "St. Ann": { latitude: 18.4358, longitude: -77.201 },
+  "St. Mary": { latitude: 18.3702, longitude: -76.8903 },
+  Portland: { latitude: 18.1757, longitude: -76.4503 },
+  "St. Thomas": { latitude: 17.8815, longitude: -76.4093 },
+};
+
+/**
+ * Lowercase letters and digits only, "Saint" as "St" - for comparing place names
+ */
+function toPlaceKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\bsaint\b/g, "st")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Matches a parish as stored on stores and addresses to its canonical name
+ * ("St Andrew", "Saint Catherine", "kingston" -> "Kingston & St. Andrew", "St. Catherine")
+ * @returns The parish, or null if it isn't a Jamaica parish
+ */
+export function normalizeJamaicaParish(parish: string | null | undefined): JamaicaParish | null {
+  if (!parish) return null;
+  const key = toPlaceKey(parish);
+  if (key === "kingston" || key === "standrew" || key === "kingstonstandrew") {
+    return "Kingston & St. Andrew";
+  }
+  return JAMAICA_PARISHES.find((name) => toPlaceKey(name) === key) || null;
+}
+
+export interface JamaicaCommunity {
+  name: string;
+  latitude: number;
+  longitude: number;
+  /** Other names the community goes by ("MoBay", "Ochi") */
+  aliases?: string[];
+}
+
+/**
+ * Gazetteer of towns and communities in each parish, with approximate
+ * coordinates. Addresses are placed at their community's coordinates, or at
+ * the parish centre when the community isn't listed, and saved with the
+ * listed name (see normalizeJamaicaAddress).
+ */
+export const JAMAICA_COMMUNITIES: Record<JamaicaParish, JamaicaCommunity[]> = {
+  "Kingston & St. Andrew": [
+    { name: "Downtown Kingston", latitude: 17.9665, longitude: -76.7936, aliases: ["Downtown"] },
+    { name: "New Kingston", latitude: 18.0069, longitude: -76.7836 },
+    { name: "Cross Roads", latitude: 17.999, longitude: -76.784 },
+    { name: "Half Way Tree", latitude: 18.0124, longitude: -76.7977, aliases: ["HWT"] },
+    { name: "Trench Town", latitude: 17.98, longitude: -76.81 },
+    { name: "Vineyard Town", latitude: 17.98, longitude: -76.77 },
+    { name: "Olympic Gardens", latitude: 18.0, longitude: -76.83 },
+    { name: "Pembroke Hall", latitude: 18.03, longitude: -76.83 },
+    { name: "Havendale", latitude: 18.04, longitude: -76.82 },
+    { name: "Grants Pen", latitude: 18.035, longitude: -76.79 },
+    { name: "Norbrook", latitude: 18.04, longitude: -76.8 },
+    { name: "Cherry Gardens", latitude: 18.04, longitude: -76.78 },
+    { name: "Hope Pastures", latitude: 18.02, longitude: -76.755 },
+    { name: "Jacks Hill", latitude: 18.03, longitude: -76.75 },
+    { name: "Liguanea", latitude: 18.02, longitude: -76.768 },
+    { name: "Mona", latitude: 18.005, longitude: -76.748 },
+    { name: "Papine", latitude: 18.018, longitude: -76.742 },
+    { name: "August Town", latitude: 18.011, longitude: -76.735 },
+    { name: "Barbican", latitude: 18.028, longitude: -76.776 },
+    { name: "Constant Spring", latitude: 18.051, longitude: -76.795 },
+    { name: "Stony Hill", latitude: 18.08, longitude: -76.788 },
+    { name: "Red Hills", latitude: 18.045, longitude: -76.82 },
+    { name: "Meadowbrook", latitude: 18.03, longitude: -76.815 },
+    { name: "Washington Gardens", latitude: 18.015, longitude: -76.825 },
+    { name: "Duhaney Park", latitude: 18.02, longitude: -76.833 },
+    { name: "Harbour View", latitude: 17.953, longitude: -76.727 },
+  ],
+  "St. Catherine": [
+    { name: "Spanish Town", latitude: 17.9911, longitude: -76.9574 },
+    { name: "Portmore", latitude: 17.95, longitude: -76.88 },
+    { name: "Greater Portmore", latitude: 17.958, longitude: -76.905 },
+    { name: "Portmore Pines", latitude: 17.963, longitude: -76.892 },
+    { name: "Independence City", latitude: 17.955, longitude: -76.887 },
+    { name: "Edgewater", latitude: 17.958, longitude: -76.873 },
+    { name: "Bridgeport", latitude: 17.958, longitude: -76.86 },
+    { name: "Passage Fort", latitude: 17.967, longitude: -76.858 },
+    { name: "Naggo Head", latitude: 17.935, longitude: -76.885 },
+    { name: "Hellshire", latitude: 17.91, longitude: -76.91 },
+    { name: "Caymanas", latitude: 17.99, longitude: -76.88 },
+    { name: "Waterford", latitude: 17.962, longitude: -76.863 },
+    { name: "Gregory Park", latitude: 17.973, longitude: -76.883 },
+    { name: "Old Harbour", latitude: 17.9414, longitude: -77.1089 },
+    { name: "Old Harbour Bay", latitude: 17.905, longitude: -77.095 },
+    { name: "Bog Walk", latitude: 18.102, longitude: -77.005 },
+    { name: "Linstead", latitude: 18.1367, longitude: -77.0317 },
+    { name: "Ewarton", latitude: 18.1833, longitude: -77.0833 },
+  ],
+  Clarendon: [
+    { name: "May Pen", latitude: 17.9645, longitude: -77.2434 },
+    { name: "Four Paths", latitude: 17.975, longitude: -77.3 },
+    { name: "Hayes", latitude: 17.87, longitude: -77.23 },
+    { name: "Lionel Town", latitude: 17.81, longitude: -77.24 },
+    { name: "Chapelton", latitude: 18.0833, longitude: -77.2667 },
+    { name: "Frankfield", latitude: 18.15, longitude: -77.3667 },
+    { name: "Spaldings", latitude: 18.15, longitude: -77.45 },
+  ],
+  Manchester: [
+    { name: "Mandeville", latitude: 18.0417, longitude: -77.5071 },
+    { name: "Williamsfield", latitude: 18.065, longitude: -77.465 },
+    { name: "Porus", latitude: 18.0333, longitude: -77.4167 },
+    { name: "Christiana", latitude: 18.175, longitude: -77.49 },
+    { name: "Mile Gully", latitude: 18.13, longitude: -77.56 },
+    { name: "Spur Tree", latitude: 18.017, longitude: -77.55 },
+    { name: "Newport", latitude: 17.97, longitude: -77.51 },
+  ],
+  "St. Elizabeth": [
+    { name: "Black River", latitude: 18.0264, longitude: -77.8487 },
+    { name: "Santa Cruz", latitude: 18.05, longitude: -77.7 },
+    { name: "Junction", latitude: 17.9333, longitude: -77.6 },
+    { name: "Malvern", latitude: 17.98, longitude: -77.68 },
+    { name: "Treasure Beach", latitude: 17.888, longitude: -77.76 },
+    { name: "Lacovia", latitude: 18.08, longitude: -77.75 },
+    { name: "Balaclava", latitude: 18.17, longitude: -77.65 },
+  ],
+  Westmoreland: [
+    { name: "Savanna-la-Mar", latitude: 18.219, longitude: -78.1332, aliases: ["Sav", "Sav-la-Mar"] },
+    { name: "Negril", latitude: 18.268, longitude: -78.348 },
+    { name: "Little London", latitude: 18.25, longitude: -78.22 },
+    { name: "Grange Hill", latitude: 18.32, longitude: -78.18 },
+    { name: "Frome", latitude: 18.3, longitude: -78.16 },
+    { name: "Bethel Town", latitude: 18.28, longitude: -77.97 },
+  ],
+  Hanover: [
+    { name: "Lucea", latitude: 18.4509, longitude: -78.1736 },
+    { name: "Green Island", latitude: 18.38, longitude: -78.27 },
+    { name: "Sandy Bay", latitude: 18.45, longitude: -78.07 },
+    { name: "Hopewell", latitude: 18.44, longitude: -78.03 },
+  ],
+  "St. James": [
+    { name: "Montego Bay", latitude: 18.4762, longitude: -77.8939, aliases: ["MoBay", "Mo Bay"] },
+    { name: "Bogue", latitude: 18.46, longitude: -77.93 },
+    { name: "Catherine Hall", latitude: 18.462, longitude: -77.905 },
+    { name: "Granville", latitude: 18.45, longitude: -77.88 },
+    { name: "Reading", latitude: 18.45, longitude: -77.94 },
+    { name: "Ironshore", latitude: 18.5, longitude: -77.85 },
+    { name: "Rose Hall", latitude: 18.51, longitude: -77.83 },
+    { name: "Anchovy", latitude: 18.41, longitude: -77.93 },
+    { name: "Cambridge", latitude: 18.3, longitude: -77.9 },
+  ],
+  Trelawny: [
+    { name: "Falmouth", latitude: 18.4936, longitude: -77.6559 },
+    { name: "Duncans", latitude: 18.47, longitude: -77.53 },
+    { name: "Clark's Town", latitude: 18.42, longitude: -77.54 },
+    { name: "Wakefield", latitude: 18.4, longitude: -77.7 },
+    { name: "Albert Town", latitude: 18.29, longitude: -77.54 },
+    { name: "Wait-a-Bit", latitude: 18.27, longitude: -77.58 },
+  ],
+  "St. Ann": [
+    { name: "St. Ann's Bay", latitude: 18.4358, longitude: -77.201 },
+    { name: "Ocho Rios", latitude: 18.4078, longitude: -77.1031, aliases: ["Ochi"] },
+    { name: "Runaway Bay", latitude: 18.46, longitude: -77.33 },
+    { name: "Discovery Bay", latitude: 18.46, longitude: -77.4 },
+    { name: "Brown's Town", latitude: 18.395, longitude: -77.37 },
+    { name: "Claremont", latitude: 18.33, longitude: -77.18 },
+    { name: "Moneague", latitude: 18.27, longitude: -77.12 },
+  ],
+  "St. Mary": [
+    { name: "Port Maria", latitude: 18.3702, longitude: -76.8903 },
+    { name: "Oracabessa", latitude: 18.4, longitude: -76.95 },
+    { name: "Highgate", latitude: 18.27, longitude: -76.88 },
+    { name: "Annotto Bay", latitude: 18.27, longitude: -76.77 },
+    { name: "Richmond", latitude: 18.23, longitude: -76.88 },
+  ],
+  Portland: [
+    { name: "Port Antonio", latitude: 18.1757, longitude: -76.4503 },
+    { name: "Buff Bay", latitude: 18.23, longitude: -76.66 },
+    { name: "Hope Bay", latitude: 18.2, longitude: -76.57 },
+    { name: "Boston Bay", latitude: 18.155, longitude: -76.352 },
+    { name: "Moore Town", latitude: 18.08, longitude: -76.42 },
+    { name: "Manchioneal", latitude: 18.04, longitude: -76.28 },
+  ],
+  "St. Thomas": [
+    { name: "Morant Bay", latitude: 17.8815, longitude: -76.4093 },
+    { name: "Yallahs", latitude: 17.88, longitude: -76.56 },
+    { name: "Trinityville", latitude: 17.95, longitude: -76.53 },
+    { name: "Seaforth", latitude: 17.93, longitude: -76.45 },
+    { name: "Port Morant", latitude: 17.89, longitude: -76.33 },
+    { name: "Bath", latitude: 17.95, longitude: -76.35 },
+    { name: "Golden Grove", latitude: 17.93, longitude: -76.27 },
+  ],
+};
+
+function matchesCommunity(entry: JamaicaCommunity, key: string): boolean {
+  return toPlaceKey(entry.name) === key || (entry.aliases || []).some((alias) => toPlaceKey(alias) === key);
+}
+
+/**
+ * Looks up a community in a parish by its name or an alias (ignoring case and punctuation)
+ * @returns The gazetteer entry, or null if the community isn't listed in the parish
+ */
+export function findJamaicaCommunity(
+  parish: string | null | undefined,
+  community: string | null | undefined
+): JamaicaCommunity | null {
+  const canonicalParish = normalizeJamaicaParish(parish);
+  if (!canonicalParish || !community) return null;
+  const key = toPlaceKey(community);
+  if (!key) return null;
+  return JAMAICA_COMMUNITIES[canonicalParish].find((entry) => matchesCommunity(entry, key)) || null;
+}
+
+export interface CommunitySuggestion {
+  name: string;
+  parish: JamaicaParish;
+  /** Match score (0 to 1) */
+  score: number;
+}
+
+/** Minimum fuzzyMatchScore for a community to be suggested */
+const COMMUNITY_MATCH_THRESHOLD = 0.7;
+
+/**
+ * Communities matching what's been typed, best first, for address autocomplete
+ * Names and aliases are fuzzy matched, so "portmor" and "mobay" find Portmore and Montego Bay.
+ * @param query - Typed community
+ * @param parish - Chosen parish (optional - its communities are listed first, or only them if strict)
+ * @param options - limit (default 8), strict (only the parish's communities)
+ */
+export function searchJamaicaCommunities(
+  query: string,
+  parish?: string | null,
+  options: { limit?: number; strict?: boolean } = {}
+): CommunitySuggestion[] {
+  const { limit = 8, strict = false } = options;
+  const text = query.trim().toLowerCase();
+  if (text.length < 2) return [];
+  const canonicalParish = normalizeJamaicaParish(parish);
+
+  const suggestions: (CommunitySuggestion & { prefix: boolean })[] = [];
+  for (const entryParish of JAMAICA_PARISHES) {
+    if (strict && canonicalParish && entryParish !== canonicalParish) continue;
+    for (const entry of JAMAICA_COMMUNITIES[entryParish]) {
+      const names = [entry.name, ...(entry.aliases || [])];
+      const score = Math.max(...names.map((name) => fuzzyMatchScore(name, text)));
+      if (score < COMMUNITY_MATCH_THRESHOLD) continue;
+      const prefix = names.some((name) => name.toLowerCase().startsWith(text));
+      suggestions.push({ name: entry.name, parish: entryParish, score, prefix });
+    }
+  }
+
+  suggestions.sort((a, b) => {
+    if (canonicalParish && (a.parish === canonicalParish) !== (b.parish === canonicalParish)) {
+      return a.parish === canonicalParish ? -1 : 1;
+    }
+    if (a.score !== b.score) return b.score - a.score;
+    if (a.prefix !== b.prefix) return a.prefix ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+  return suggestions.slice(0, limit).map(({ name, parish: suggestionParish, score }) => ({
+    name,
+    parish: suggestionParish,
+    score,
+  }));
+}
+
+export interface CommunityValidation {
+  isValid: boolean;
+  error?: string;
+  /** Gazetteer name of the community, if it's listed in the parish */
+  canonicalName?: string;
+  /** Closest listed community in the parish, if it isn't listed */
+  suggestion?: string;
+}
+
+/**
+ * Checks that a community belongs to the chosen parish
+ * Communities listed under another parish are rejected. The gazetteer isn't
+ * complete, so communities that aren't listed anywhere are accepted, with the
+ * closest listed name in the parish as a suggestion.
+ */
+export function validateJamaicaCommunity(parish: string, community: string): CommunityValidation {
+  const canonicalParish = normalizeJamaicaParish(parish);
+  if (!canonicalParish || !community.trim()) return { isValid: true };
+
+  const match = findJamaicaCommunity(canonicalParish, community);
+  if (match) return { isValid: true, canonicalName: match.name };
+
+  const key = toPlaceKey(community);
+  const otherParish = JAMAICA_PARISHES.find(
+    (name) => name !== canonicalParish && JAMAICA_COMMUNITIES[name].some((entry) => matchesCommunity(entry, key))
+  );
+  if (otherParish) {
+    const name = findJamaicaCommunity(otherParish, community)!.name;
+    return { isValid: false, error: `${name} is in ${otherParish}, not ${canonicalParish}` };
+  }
+
+  const [closest] = searchJamaicaCommunities(community, canonicalParish, { limit: 1, strict: true });
+  return { isValid: true, suggestion: closest?.name };
+}
+
+/**
+ * Canonical parish and community names for an address
+ * ("st andrew", "half-way tree" -> "Kingston & St. Andrew", "Half Way Tree").
+ * Unlisted communities are kept as typed (trimmed).
+ */
+export function normalizeJamaicaAddress(
+  parish: string,
+  community: string
+): { parish: string; community: string } {
+  const canonicalParish = normalizeJamaicaParish(parish);
+  const match = findJamaicaCommunity(canonicalParish, community);
+  return {
+    parish: canonicalParish || parish.trim(),
+    community: match ? match.name : community.trim().replace(/\s+/g, " "),
+  };
+}
+
+export interface GeocodedLocation {
+  latitude: number;
+  longitude: number;
+  /** "community" if the community is listed, otherwise "parish" (its centre) */
+  precision: "community" | "parish";
+}
+
+/**
+ * Places an address from its parish and community, without a network lookup
+ * @returns The community's coordinates, else the parish centre, or null if the parish isn't known
+ */
+export function geocodeJamaicaAddress(
+  parish: string | null | undefined,
+  community?: string | null
+): GeocodedLocation | null {
+  const canonicalParish = normalizeJamaicaParish(parish);
+  if (!canonicalParish) return null;
+
+  const match = findJamaicaCommunity(canonicalParish, community);
+  if (match) {
+    return { latitude: match.latitude, longitude: match.longitude, precision: "community" };
+  }
+
+  const centroid = PARISH_CENTROIDS[canonicalParish];
+  return { latitude: centroid.latitude, longitude: centroid.longitude, precision: "parish" };
+}
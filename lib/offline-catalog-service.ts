@@ -0,0 +1,389 @@
+import { Query } from "appwrite";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { databases, databaseId } from "./appwrite-client";
+import {
+  buildLocalCatalogIndex,
+  searchLocalCatalog,
+  CatalogCategory,
+  CatalogListing,
+  CatalogProduct,
+  CatalogSnapshot,
+  CatalogStoreLocation,
+  LocalCatalogIndex,
+  LocalSearchOptions,
+  LocalSearchResult,
+} from "./search/local-search";
+
+/**
+ * Offline Catalog Service
+ *
+ * Downloads a snapshot of the catalog (products, categories, active store
+ * locations and the latest price of every listing) to the device so search
+ * keeps working without a connection. Search falls back to it automatically
+ * when the network is down (see searchProducts).
+ *
+ * Snapshots are versioned: each download is written under its own storage keys
+ * and the manifest is switched over last, so an interrupted download never
+ * leaves a half-written catalog behind. Only compact fields are stored.
+ */
+
+const PRODUCTS_COLLECTION_ID = "products";
+const CATEGORIES_COLLECTION_ID = "categories";
+const STORE_LOCATIONS_COLLECTION_ID = "store_location";
+const STORE_LOCATION_PRODUCT_COLLECTION_ID = "store_location_product";
+const STORE_BRAND_COLLECTION_ID = "store_brand";
+
+/** Bump when the stored shape changes - older snapshots are ignored */
+export const CATALOG_SNAPSHOT_SCHEMA_VERSION = 2;
+
+const MANIFEST_STORAGE_KEY = "@grovi:offline_catalog_manifest";
+const SECTION_STORAGE_KEY_PREFIX = "@grovi:offline_catalog";
+const PAGE_SIZE = 500;
+/**
+ * Products, categories and listings are split across storage entries to stay
+ * under Android's ~2 MB per-entry limit (products carry the most text)
+ */
+const PRODUCTS_PER_CHUNK = 2000;
+const CATEGORIES_PER_CHUNK = 5000;
+const LISTINGS_PER_CHUNK = 5000;
+/** After a network failure, go straight to the local catalog for this long */
+const OFFLINE_RETRY_MS = 30 * 1000;
+
+export interface CatalogManifest {
+  schemaVersion: number;
+  /** Snapshot version (download time, ISO 8601) */
+  version: string;
+  downloadedAt: string;
+  productCount: number;
+  categoryCount: number;
+  storeLocationCount: number;
+  listingCount: number;
+  productChunks: number;
+  categoryChunks: number;
+  listingChunks: number;
+}
+
+let loadedIndex: { version: string; index: LocalCatalogIndex } | null = null;
+let offlineUntil = 0;
+
+function sectionKey(version: string, section: string): string {
+  return `${SECTION_STORAGE_KEY_PREFIX}_${version}_${section}`;
+}
+
+function chunkCount(itemCount: number, perChunk: number): number {
+  return Math.max(1, Math.ceil(itemCount / perChunk));
+}
+
+/**
+ * Storage keys of a chunked section ("products_0", "products_1", ...)
+ */
+function chunkKeys(version: string, section: string, chunks: number): string[] {
+  const keys: string[] = [];
+  for (let chunk = 0; chunk < chunks; chunk++) {
+    keys.push(sectionKey(version, `${section}_${chunk}`));
+  }
+  return keys;
+}
+
+/**
+ * Storage entries for a section split into chunks of perChunk items
+ */
+function chunkEntries<T>(
+  version: string,
+  section: string,
+  items: T[],
+  perChunk: number
+): [string, string][] {
+  return chunkKeys(version, section, chunkCount(items.length, perChunk)).map((key, chunk) => [
+    key,
+    JSON.stringify(items.slice(chunk * perChunk, (chunk + 1) * perChunk)),
+  ]);
+}
+
+/**
+ * Every storage key a snapshot's sections are written under
+ */
+function snapshotSectionKeys(manifest: CatalogManifest): {
+  products: string[];
+  categories: string[];
+  stores: string;
+  listings: string[];
+} {
+  return {
+    products: chunkKeys(manifest.version, "products", manifest.productChunks),
+    categories: chunkKeys(manifest.version, "categories", manifest.categoryChunks),
+    stores: sectionKey(manifest.version, "stores"),
+    listings: chunkKeys(manifest.version, "listings", manifest.listingChunks),
+  };
+}
+
+/**
+ * Whether an error means the server couldn't be reached (as opposed to an
+ * error response from it)
+ * The Appwrite SDK reports failed requests with code 0
+ */
+export function isNetworkError(error: any): boolean {
+  if (!error) return false;
+  if (error.code === 0) return true;
+  const message = String(error.message || "");
+  return /network request failed|failed to fetch|network error|timed out|internet connection/i.test(
+    message
+  );
+}
+
+/**
+ * Records that the network is down, so searches skip the online attempt for a while
+ */
+export function markOffline(): void {
+  offlineUntil = Date.now() + OFFLINE_RETRY_MS;
+}
+
+/**
+ * Whether a recent request found the network down
+ */
+export function isLikelyOffline(): boolean {
+  return Date.now() < offlineUntil;
+}
+
+/**
+ * Cheap connectivity check against the catalog
+ * @returns Promise with false only if the server can't be reached
+ */
+export async function isCatalogReachable(): Promise<boolean> {
+  try {
+    await databases.listDocuments(databaseId, PRODUCTS_COLLECTION_ID, [Query.limit(1)]);
+    offlineUntil = 0;
+    return true;
+  } catch (error: any) {
+    if (isNetworkError(error)) {
+      markOffline();
+      return false;
+    }
+    // Any other error (permissions etc.) means the server answered
+    return true;
+  }
+}
+
+/**
+ * Fetches every document in a collection, following cursors
+ * Throws on failure - a partial catalog is worse than none
+ */
+async function fetchAllDocuments(collectionId: string, queries: string[] = []): Promise<any[]> {
+  const documents: any[] = [];
+  let cursor: string | null = null;
+
+  while (true) {
+    const response: { documents: any[] } = await databases.listDocuments(databaseId, collectionId, [
+      ...queries,
+      Query.limit(PAGE_SIZE),
+      ...(cursor ? [Query.cursorAfter(cursor)] : []),
+    ]);
+    documents.push(...response.documents);
+    if (response.documents.length < PAGE_SIZE) break;
+    cursor = response.documents[response.documents.length - 1].$id;
+  }
+
+  return documents;
+}
+
+/**
+ * Returns the manifest of the snapshot on this device
+ * @returns Promise with the manifest, or null if none (or an older format) is stored
+ */
+export async function getCatalogManifest(): Promise<CatalogManifest | null> {
+  try {
+    const raw = await AsyncStorage.getItem(MANIFEST_STORAGE_KEY);
+    if (!raw) return null;
+    const manifest = JSON.parse(raw) as CatalogManifest;
+    return manifest.schemaVersion === CATALOG_SNAPSHOT_SCHEMA_VERSION ? manifest : null;
+  } catch (error) {
+    console.warn("Error reading offline catalog manifest:", error);
+    return null;
+  }
+}
+
+/**
+ * Downloads the catalog and stores it on the device, replacing any older snapshot
+ * @returns Promise with the new manifest
+ */
+export async function downloadCatalogSnapshot(): Promise<CatalogManifest> {
+  try {
+    const [productDocs, categoryDocs, storeDocs, storeBrandDocs] = await Promise.all([
+      fetchAllDocuments(PRODUCTS_COLLECTION_ID),
+      fetchAllDocuments(CATEGORIES_COLLECTION_ID),
+      fetchAllDocuments(STORE_LOCATIONS_COLLECTION_ID, [Query.equal("is_active", true)]),
+      fetchAllDocuments(STORE_BRAND_COLLECTION_ID),
+    ]);
+    const listingDocs = await fetchAllDocuments(STORE_LOCATION_PRODUCT_COLLECTION_ID, [
+      Query.equal("in_stock", true),
+    ]);
+
+    const logoByBrandId = new Map<string, string | undefined>(
+      storeBrandDocs.map((doc) => [doc.$id, doc.logo_url])
+    );
+    const storeLocations: CatalogStoreLocation[] = storeDocs.map((doc) => ({
+      $id: doc.$id,
+      name: doc.name,
+      display_name: doc.display_name,
+      is_active: doc.is_active,
+      brand_id: doc.brand_id,
+      slug: doc.slug,
+      parish: doc.parish || undefined,
+      logo_url: logoByBrandId.get(doc.brand_id) || undefined,
+      delivery_time_minutes: doc.delivery_time_minutes ?? undefined,
+      latitude: doc.latitude ?? undefined,
+      longitude: doc.longitude ?? undefined,
+    }));
+    const activeStoreIds = new Set(storeLocations.map((store) => store.$id));
+
+    const listings: CatalogListing[] = listingDocs
+      .filter((doc) => activeStoreIds.has(doc.store_location_id))
+      .map((doc) => ({
+        product_id: doc.product_id,
+        store_location_id: doc.store_location_id,
+        price_jmd_cents: doc.price_jmd_cents,
+        in_stock: doc.in_stock,
+        last_seen_at: doc.last_seen_at || doc.$updatedAt || undefined,
+      }));
+    const listedProductIds = new Set(listings.map((listing) => listing.product_id));
+
+    const products: CatalogProduct[] = productDocs
+      .filter((doc) => listedProductIds.has(doc.$id))
+      .map((doc) => ({
+        $id: doc.$id,
+        title: doc.title,
+        sku: doc.sku,
+        brand: doc.brand || undefined,
+        unit_size: doc.unit_size || undefined,
+        net_weight: doc.net_weight || undefined,
+        package_quantity: doc.package_quantity || undefined,
+        dietary_tags: doc.dietary_tags?.length ? doc.dietary_tags : undefined,
+        allergens: doc.allergens?.length ? doc.allergens : undefined,
+        primary_image_url: doc.primary_image_url || undefined,
+        category_leaf_id: doc.category_leaf_id,
+        category_path_ids: doc.category_path_ids || [],
+      }));
+    const categories: CatalogCategory[] = categoryDocs.map((doc) => ({
+      $id: doc.$id,
+      name: doc.name,
+      parentId: doc.parentId || undefined,
+    }));
+
+    const downloadedAt = new Date().toISOString();
+    const version = String(Date.now());
+
+    const entries: [string, string][] = [
+      ...chunkEntries(version, "products", products, PRODUCTS_PER_CHUNK),
+      ...chunkEntries(version, "categories", categories, CATEGORIES_PER_CHUNK),
+      [sectionKey(version, "stores"), JSON.stringify(storeLocations)],
+      ...chunkEntries(version, "listings", listings, LISTINGS_PER_CHUNK),
+    ];
+    await AsyncStorage.multiSet(entries);
+
+    const manifest: CatalogManifest = {
+      schemaVersion: CATALOG_SNAPSHOT_SCHEMA_VERSION,
+      version,
+      downloadedAt,
+      productCount: products.length,
+      categoryCount: categories.length,
+      storeLocationCount: storeLocations.length,
+      listingCount: listings.length,
+      productChunks: chunkCount(products.length, PRODUCTS_PER_CHUNK),
+      categoryChunks: chunkCount(categories.length, CATEGORIES_PER_CHUNK),
+      listingChunks: chunkCount(listings.length, LISTINGS_PER_CHUNK),
+    };
+    await AsyncStorage.setItem(MANIFEST_STORAGE_KEY, JSON.stringify(manifest));
+
+    removeStaleSections(version).catch((error) => {
+      console.warn("Error removing old offline catalog:", error);
+    });
+    loadedIndex = null;
+
+    return manifest;
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to download catalog";
+    console.error("Offline catalog download error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Removes stored sections of every snapshot except keepVersion, including
+ * snapshots in an older format that no manifest points at any more
+ */
+async function removeStaleSections(keepVersion: string | null): Promise<void> {
+  const keepPrefix = keepVersion ? sectionKey(keepVersion, "") : null;
+  const staleKeys = (await AsyncStorage.getAllKeys()).filter(
+    (key) =>
+      key !== MANIFEST_STORAGE_KEY &&
+      key.startsWith(`${SECTION_STORAGE_KEY_PREFIX}_`) &&
+      !(keepPrefix && key.startsWith(keepPrefix))
+  );
+  if (staleKeys.length > 0) {
+    await AsyncStorage.multiRemove(staleKeys);
+  }
+}
+
+/**
+ * Deletes the snapshot from the device
+ */
+export async function deleteCatalogSnapshot(): Promise<void> {
+  await AsyncStorage.removeItem(MANIFEST_STORAGE_KEY);
+  loadedIndex = null;
+  await removeStaleSections(null);
+}
+
+/**
+ * Loads the stored snapshot and builds the search index (cached in memory)
+ * @returns Promise with the index, or null if no snapshot is stored
+ */
+async function getLocalCatalogIndex(): Promise<LocalCatalogIndex | null> {
+  const manifest = await getCatalogManifest();
+  if (!manifest) return null;
+  if (loadedIndex?.version === manifest.version) return loadedIndex.index;
+
+  const keys = snapshotSectionKeys(manifest);
+  const values = new Map(
+    await AsyncStorage.multiGet([
+      ...keys.products,
+      ...keys.categories,
+      keys.stores,
+      ...keys.listings,
+    ])
+  );
+  const read = <T>(key: string): T[] => {
+    const raw = values.get(key);
+    return raw ? (JSON.parse(raw) as T[]) : [];
+  };
+
+  const snapshot: CatalogSnapshot = {
+    products: keys.products.flatMap((key) => read<CatalogProduct>(key)),
+    categories: keys.categories.flatMap((key) => read<CatalogCategory>(key)),
+    storeLocations: read<CatalogStoreLocation>(keys.stores),
+    listings: keys.listings.flatMap((key) => read<CatalogListing>(key)),
+  };
+
+  const index = buildLocalCatalogIndex(snapshot);
+  loadedIndex = { version: manifest.version, index };
+  return index;
+}
+
+/**
+ * Searches the on-device catalog
+ * @param query - Search query
+ * @param options - Limit, sort, filters
+ * @returns Promise with results, or null if no snapshot has been downloaded
+ */
+export async function searchOfflineCatalog(
+  query: string,
+  options: LocalSearchOptions = {}
+): Promise<LocalSearchResult[] | null> {
+  try {
+    const index = await getLocalCatalogIndex();
+    if (!index) return null;
+    return searchLocalCatalog(index, query, options);
+  } catch (error) {
+    console.error("Error searching offline catalog:", error);
+    return null;
+  }
+}
@@ -0,0 +1,698 @@
+import { ID, Query, ExecutionMethod } from "appwrite";
+import { databases, functions, databaseId } from "./appwrite-client";
+import { Cart, CartItem, saveCart } from "./cart-service";
+import { validateCart } from "./cart-validation-service";
+import { Address } from "./profile-service";
+import { PaymentMethod, formatPaymentMethod } from "./payment-service";
+import { priceCart } from "./pricing-service";
+import { MinimumOrderNotMetError, StoreFeeBreakdown } from "./fee-engine";
+import { DeliverySlotUnavailableError } from "./delivery-slot-rules";
+import { evaluatePromoCode, PromoCodeError } from "./promo-service";
+import { PromoEvaluation } from "./promo-engine";
+import {
+  OrderStatus,
+  OrderStatusEvent,
+  ACTIVE_ORDER_STATUSES,
+  parseOrderStatusHistory,
+} from "./order-status";
+
+export {
+  ACTIVE_ORDER_STATUSES,
+  ORDER_STATUS_LABELS,
+  InvalidOrderTransitionError,
+  UnknownOrderStatusError,
+  canTransitionOrder,
+  isTerminalOrderStatus,
+} from "./order-status";
+export type { OrderStatus, OrderStatusEvent } from "./order-status";
+
+/**
+ * Order Service
+ *
+ * Turns a multi-store cart into orders. A single checkout produces one order
+ * per store location, all linked by a shared checkoutId. Prices, titles and the
+ * delivery address are snapshotted at checkout time so later catalog or
+ * profile changes don't rewrite order history.
+ *
+ * Orders are read-only for customers. Placing and cancelling go through the
+ * orders Appwrite Function (functions/orders), which applies the status
+ * transition table and writes the audit log; staff move orders along with
+ * scripts/order-status.ts.
+ */
+
+const ORDERS_COLLECTION_ID = "orders";
+
+/** Appwrite Function that writes orders (see functions/orders/main.ts) */
+const ORDERS_FUNCTION_ID = process.env.EXPO_PUBLIC_ORDERS_FUNCTION_ID || "orders";
+
+export interface OrderItem {
+  /** Product ID */
+  productId: string;
+  /** Product SKU at time of checkout */
+  sku: string;
+  /** Product title at time of checkout */
+  title: string;
+  /** Product brand at time of checkout (optional) */
+  brand?: string;
+  /** Product image URL at time of checkout (optional) */
+  imageUrl?: string;
+  /** Unit price in JMD cents at time of checkout */
+  priceJmdCents: number;
+  /** Quantity ordered */
+  quantity: number;
+}
+
+export interface OrderAddressSnapshot {
+  label: string;
+  parish: string;
+  community: string;
+  street?: string;
+  houseDetails?: string;
+  landmarkDirections: string;
+  contactPhone?: string;
+}
+
+export interface Order {
+  $id: string;
+  userId: string;
+  /** Shared ID linking all sub-orders created by the same checkout */
+  checkoutId: string;
+  /** Store location ID (store_location_id) */
+  storeId: string;
+  storeName: string;
+  storeLogoUrl?: string;
+  status: OrderStatus;
+  items: OrderItem[];
+  /** Total number of units (sum of quantities) */
+  itemCount: number;
+  /** Sum of item prices in JMD cents */
+  subtotalJmdCents: number;
+  deliveryFeeJmdCents: number;
+  serviceFeeJmdCents: number;
+  smallOrderSurchargeJmdCents: number;
+  /** GCT on fees in JMD cents */
+  gctJmdCents: number;
+  /** Promo discount on items in JMD cents */
+  discountJmdCents: number;
+  /** Promo code applied at checkout (null if none) */
+  promoCode: string | null;
+  /** Amount charged for this store in JMD cents (subtotal plus fees, less discount) */
+  totalJmdCents: number;
+  addressId: string;
+  address: OrderAddressSnapshot;
+  /** Saved payment method ID (null for cash on delivery without a saved method) */
+  paymentMethodId: string | null;
+  /** Display label for the payment method at time of checkout */
+  paymentMethodLabel: string;
+  /** Reserved delivery slot (null = deliver as soon as possible) */
+  deliverySlotId: string | null;
+  /** ISO 8601 start of the booked delivery window */
+  deliveryWindowStart: string | null;
+  /** ISO 8601 end of the booked delivery window */
+  deliveryWindowEnd: string | null;
+  placedAt: string;
+  /** Every status the order has been in, oldest first */
+  statusHistory: OrderStatusEvent[];
+  /** ISO 8601 timestamp of the last status change */
+  statusUpdatedAt: string;
+  createdAt?: string;
+}
+
+/**
+ * Pagination options for order history
+ */
+export interface OrderPaginationOptions {
+  /** Page number (1-based) */
+  page?: number;
+  /** Number of orders per page */
+  pageSize?: number;
+}
+
+/**
+ * Paginated order history wrapper
+ */
+export interface PaginatedOrders {
+  /** Current page of orders (most recent first) */
+  orders: Order[];
+  /** Total number of orders for the user */
+  totalOrders: number;
+  /** Current page number (1-based) */
+  currentPage: number;
+  /** Total number of pages */
+  totalPages: number;
+  /** Number of orders per page */
+  pageSize: number;
+  /** Whether there are more orders */
+  hasMore: boolean;
+}
+
+/**
+ * One store's order as sent to the orders function
+ * The function adds the owner, checkout ID, status and timestamps
+ */
+export interface OrderDraft {
+  storeId: string;
+  storeName: string;
+  storeLogoUrl: string | null;
+  items: OrderItem[];
+  itemCount: number;
+  subtotalJmdCents: number;
+  deliveryFeeJmdCents: number;
+  serviceFeeJmdCents: number;
+  smallOrderSurchargeJmdCents: number;
+  gctJmdCents: number;
+  discountJmdCents: number;
+  promoCode: string | null;
+  totalJmdCents: number;
+  addressId: string;
+  address: OrderAddressSnapshot;
+  paymentMethodId: string | null;
+  paymentMethodLabel: string;
+  /** Slot to reserve (the function copies its window onto the order) */
+  deliverySlotId: string | null;
+}
+
+/**
+ * Promo used in a checkout
+ * The orders function records it before creating the orders so per-user
+ * limits always count the use
+ */
+export interface PromoRedemptionDraft {
+  promoId: string;
+  code: string;
+  /** Total discount given (items and waived delivery) */
+  discountJmdCents: number;
+}
+
+/** Request body accepted by the orders function */
+export type OrdersFunctionRequest =
+  | {
+      action: "placeOrders";
+      checkoutId: string;
+      orders: OrderDraft[];
+      promoRedemption: PromoRedemptionDraft | null;
+    }
+  | { action: "cancelOrder"; orderId: string; reason?: string };
+
+/**
+ * Thrown when an order does not exist (or is not visible to the user)
+ */
+export class OrderNotFoundError extends Error {
+  readonly orderId: string;
+
+  constructor(orderId: string) {
+    super("Order not found");
+    this.name = "OrderNotFoundError";
+    this.orderId = orderId;
+  }
+}
+
+export interface StoreItemGroup {
+  storeId: string;
+  storeName: string;
+  storeLogoUrl?: string;
+  items: CartItem[];
+  subtotalJmdCents: number;
+}
+
+export interface CheckoutParams {
+  userId: string;
+  cart: Cart;
+  address: Address;
+  /** Saved payment method, or null to pay cash on delivery */
+  paymentMethod: PaymentMethod | null;
+  /** Chosen delivery slot per store location ID (stores without one deliver ASAP) */
+  deliverySlotIds?: Record<string, string>;
+}
+
+export interface CheckoutResult {
+  checkoutId: string;
+  orders: Order[];
+  /** Sum of all sub-order totals in JMD cents */
+  grandTotalJmdCents: number;
+}
+
+/**
+ * Groups cart items by store location, preserving the order in which
+ * stores first appear in the cart
+ */
+export function groupCartItemsByStore(items: CartItem[]): StoreItemGroup[] {
+  const groups = new Map<string, StoreItemGroup>();
+
+  for (const item of items) {
+    let group = groups.get(item.storeId);
+    if (!group) {
+      group = {
+        storeId: item.storeId,
+        storeName: item.storeName,
+        storeLogoUrl: item.storeLogoUrl,
+        items: [],
+        subtotalJmdCents: 0,
+      };
+      groups.set(item.storeId, group);
+    }
+    group.items.push(item);
+    group.subtotalJmdCents += item.priceJmdCents * item.quantity;
+    // Use the first logo we find for the store
+    if (item.storeLogoUrl && !group.storeLogoUrl) {
+      group.storeLogoUrl = item.storeLogoUrl;
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Snapshot of an address for storing on an order
+ */
+function toAddressSnapshot(address: Address): OrderAddressSnapshot {
+  return {
+    label: address.label,
+    parish: address.parish,
+    community: address.community,
+    street: address.street || undefined,
+    houseDetails: address.houseDetails || undefined,
+    landmarkDirections: address.landmarkDirections,
+    contactPhone: address.contactPhone || undefined,
+  };
+}
+
+/**
+ * Snapshot of a cart item for storing on an order
+ */
+function toOrderItem(item: CartItem): OrderItem {
+  return {
+    productId: item.productId,
+    sku: item.sku,
+    title: item.title,
+    brand: item.brand,
+    imageUrl: item.imageUrl,
+    priceJmdCents: item.priceJmdCents,
+    quantity: item.quantity,
+  };
+}
+
+/**
+ * Parse an order document from Appwrite
+ * items, address and statusHistory are stored as JSON strings
+ */
+function parseOrderDocument(doc: any): Order {
+  let items: OrderItem[] = [];
+  let address: OrderAddressSnapshot = {
+    label: "",
+    parish: "",
+    community: "",
+    landmarkDirections: "",
+  };
+
+  try {
+    if (typeof doc.items === "string") {
+      items = JSON.parse(doc.items);
+    } else if (Array.isArray(doc.items)) {
+      items = doc.items;
+    }
+  } catch (e) {
+    console.warn("Error parsing order items:", e);
+  }
+
+  // Orders placed before status history was recorded get a "placed" event
+  const statusHistory = parseOrderStatusHistory(doc.statusHistory, doc.placedAt);
+
+  try {
+    if (typeof doc.address === "string") {
+      address = JSON.parse(doc.address);
+    } else if (doc.address) {
+      address = doc.address;
+    }
+  } catch (e) {
+    console.warn("Error parsing order address:", e);
+  }
+
+  return {
+    $id: doc.$id,
+    userId: doc.userId,
+    checkoutId: doc.checkoutId,
+    storeId: doc.storeId,
+    storeName: doc.storeName,
+    storeLogoUrl: doc.storeLogoUrl || undefined,
+    status: doc.status,
+    items,
+    itemCount: doc.itemCount || 0,
+    subtotalJmdCents: doc.subtotalJmdCents || 0,
+    deliveryFeeJmdCents: doc.deliveryFeeJmdCents || 0,
+    serviceFeeJmdCents: doc.serviceFeeJmdCents || 0,
+    smallOrderSurchargeJmdCents: doc.smallOrderSurchargeJmdCents || 0,
+    gctJmdCents: doc.gctJmdCents || 0,
+    discountJmdCents: doc.discountJmdCents || 0,
+    promoCode: doc.promoCode || null,
+    totalJmdCents: doc.totalJmdCents || 0,
+    addressId: doc.addressId,
+    address,
+    paymentMethodId: doc.paymentMethodId || null,
+    paymentMethodLabel: doc.paymentMethodLabel || "",
+    deliverySlotId: doc.deliverySlotId || null,
+    deliveryWindowStart: doc.deliveryWindowStart || null,
+    deliveryWindowEnd: doc.deliveryWindowEnd || null,
+    placedAt: doc.placedAt,
+    statusHistory,
+    statusUpdatedAt: doc.statusUpdatedAt || doc.placedAt,
+    createdAt: doc.$createdAt,
+  };
+}
+
+/**
+ * Runs the orders function and returns its JSON response
+ * @throws Error with the function's message if it rejects the request
+ */
+async function runOrdersFunction(request: OrdersFunctionRequest): Promise<any> {
+  const execution = await functions.createExecution(
+    ORDERS_FUNCTION_ID,
+    JSON.stringify(request),
+    false,
+    "/",
+    ExecutionMethod.POST
+  );
+
+  let response: any = {};
+  try {
+    response = execution.responseBody ? JSON.parse(execution.responseBody) : {};
+  } catch {
+    response = {};
+  }
+
+  if (execution.responseStatusCode < 200 || execution.responseStatusCode >= 300) {
+    const error: any = new Error(response.error || "Order request failed");
+    error.code = execution.responseStatusCode;
+    error.response = response;
+    throw error;
+  }
+  return response;
+}
+
+/**
+ * Places orders for every store in the cart
+ *
+ * Steps:
+ * 1. Re-validate the cart and snapshot current prices (unavailable items block checkout)
+ * 2. Re-evaluate the cart's promo code, split items into one group per store
+ *    location and price fees and discounts for each
+ *    (stores below their minimum order or a promo that no longer applies block checkout)
+ * 3. Send one order per store with snapshotted items, fees, address and payment
+ *    method to the orders function, which records the promo redemption, reserves
+ *    each chosen delivery slot and creates the orders - or undoes what it
+ *    already did if any step fails
+ * 4. Clear the cart only after every order has been created
+ *
+ * @param params - Checkout parameters
+ * @returns Promise with the created orders
+ */
+export async function checkoutCart(params: CheckoutParams): Promise<CheckoutResult> {
+  const { userId, cart, address, paymentMethod, deliverySlotIds = {} } = params;
+
+  if (cart.items.length === 0) {
+    throw new Error("Your cart is empty");
+  }
+
+  // Step 1: Re-validate cart (prices and availability may have changed)
+  const validation = await validateCart(cart);
+  if (!validation.isValid) {
+    throw new Error(
+      `${validation.unavailableItems.length} item(s) in your cart are no longer available. Please sync your cart and try again.`
+    );
+  }
+
+  // Snapshot the current database price rather than the (possibly stale) cart price
+  const pricedItems = cart.items.map((item) => {
+    const itemValidation = validation.validations.find(
+      (v) => v.item.productId === item.productId && v.item.storeId === item.storeId
+    );
+    if (itemValidation?.currentPriceJmdCents != null) {
+      return { ...item, priceJmdCents: itemValidation.currentPriceJmdCents };
+    }
+    return item;
+  });
+
+  // Step 2: Re-check the promo against current prices and this user's usage
+  let promo: PromoEvaluation | null = null;
+  if (cart.promoCode) {
+    promo = await evaluatePromoCode({ ...cart, items: pricedItems }, cart.promoCode, userId);
+    if (!promo.applied && promo.reason) {
+      throw new PromoCodeError(promo.code, promo.reason);
+    }
+  }
+
+  // Split by store and compute fees for the delivery parish
+  const storeGroups = groupCartItemsByStore(pricedItems);
+  const pricing = await priceCart(storeGroups, address.parish || null, promo);
+  if (pricing.storesBelowMinimum.length > 0) {
+    const storeNames = storeGroups
+      .filter((group) => pricing.storesBelowMinimum.includes(group.storeId))
+      .map((group) => group.storeName);
+    throw new MinimumOrderNotMetError(
+      pricing.storesBelowMinimum,
+      `Minimum order not met for ${storeNames.join(", ")}`
+    );
+  }
+
+  const checkoutId = ID.unique();
+  const addressSnapshot = toAddressSnapshot(address);
+  const paymentMethodLabel = paymentMethod
+    ? formatPaymentMethod(paymentMethod)
+    : "Cash on Delivery";
+
+  let createdOrders: Order[];
+  try {
+    // Step 3: Reserve slots and create one order per store
+    const drafts: OrderDraft[] = storeGroups.map((group) => {
+      const orderItems = group.items.map(toOrderItem);
+      const fees = pricing.stores.find((store) => store.storeId === group.storeId);
+
+      return {
+        storeId: group.storeId,
+        storeName: group.storeName,
+        storeLogoUrl: group.storeLogoUrl || null,
+        items: orderItems,
+        itemCount: orderItems.reduce((sum, item) => sum + item.quantity, 0),
+        subtotalJmdCents: group.subtotalJmdCents,
+        deliveryFeeJmdCents: fees?.deliveryFeeJmdCents || 0,
+        serviceFeeJmdCents: fees?.serviceFeeJmdCents || 0,
+        smallOrderSurchargeJmdCents: fees?.smallOrderSurchargeJmdCents || 0,
+        gctJmdCents: fees?.gctJmdCents || 0,
+        discountJmdCents: fees?.discountJmdCents || 0,
+        promoCode: pricing.promo?.code || null,
+        totalJmdCents: fees?.totalJmdCents ?? group.subtotalJmdCents,
+        addressId: address.$id,
+        address: addressSnapshot,
+        paymentMethodId: paymentMethod?.$id || null,
+        paymentMethodLabel,
+        deliverySlotId: deliverySlotIds[group.storeId] || null,
+      };
+    });
+
+    const promoRedemption: PromoRedemptionDraft | null = pricing.promo
+      ? {
+          promoId: pricing.promo.promoId,
+          code: pricing.promo.code,
+          discountJmdCents: pricing.stores.reduce(
+            (sum, store) => sum + store.discountJmdCents + store.deliveryFeeWaivedJmdCents,
+            0
+          ),
+        }
+      : null;
+
+    const response = await runOrdersFunction({
+      action: "placeOrders",
+      checkoutId,
+      orders: drafts,
+      promoRedemption,
+    });
+    createdOrders = (response.orders || []).map(parseOrderDocument);
+  } catch (error: any) {
+    console.error("[OrderService] Checkout failed:", error.message);
+
+    const slotError = error.response?.slotError;
+    if (slotError) {
+      throw new DeliverySlotUnavailableError(slotError.slotId, slotError.reason);
+    }
+
+    if (error.message && error.message.includes("Unknown attribute")) {
+      throw new Error(
+        "Orders collection is missing required attributes. Please run 'npm run setup-database' to fix this."
+      );
+    }
+    throw new Error(error.message || "Failed to place order");
+  }
+
+  // Step 4: Clear the cart now that every order exists
+  try {
+    await saveCart({
+      items: [],
+      totalItems: 0,
+      totalPriceJmdCents: 0,
+      storeIds: [],
+      updatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    // Orders were placed - a stale cart is recoverable, so don't fail checkout
+    console.warn("[OrderService] Orders placed but failed to clear cart:", error);
+  }
+
+  return {
+    checkoutId,
+    orders: createdOrders,
+    grandTotalJmdCents: createdOrders.reduce((sum, order) => sum + order.totalJmdCents, 0),
+  };
+}
+
+/**
+ * Whether an order is still in progress (shown under "Active")
+ */
+export function isActiveOrder(order: Order): boolean {
+  return ACTIVE_ORDER_STATUSES.includes(order.status);
+}
+
+/**
+ * Fee breakdown recorded on an order at checkout
+ * The minimum order was already enforced when the order was placed
+ */
+export function getOrderFeeBreakdown(order: Order): StoreFeeBreakdown {
+  return {
+    storeId: order.storeId,
+    subtotalJmdCents: order.subtotalJmdCents,
+    deliveryFeeJmdCents: order.deliveryFeeJmdCents,
+    serviceFeeJmdCents: order.serviceFeeJmdCents,
+    smallOrderSurchargeJmdCents: order.smallOrderSurchargeJmdCents,
+    gctJmdCents: order.gctJmdCents,
+    feesJmdCents: order.totalJmdCents - order.subtotalJmdCents + order.discountJmdCents,
+    discountJmdCents: order.discountJmdCents,
+    deliveryFeeWaivedJmdCents: 0,
+    totalJmdCents: order.totalJmdCents,
+    minimumOrderJmdCents: 0,
+    meetsMinimum: true,
+    amountToMinimumJmdCents: 0,
+  };
+}
+
+/**
+ * Status timeline for an order, oldest first
+ */
+export function getOrderStatusTimeline(order: Order): OrderStatusEvent[] {
+  return [...order.statusHistory].sort(
+    (a, b) => new Date(a.at).getTime() - new Date(b.at).getTime()
+  );
+}
+
+/**
+ * Retrieves a page of a user's orders, most recent first
+ * @param userId - User ID
+ * @param pagination - Pagination options (page, pageSize)
+ * @returns Promise with paginated orders
+ */
+export async function getOrders(
+  userId: string,
+  pagination: OrderPaginationOptions = {}
+): Promise<PaginatedOrders> {
+  const pageSize = pagination.pageSize || 20;
+  const page = pagination.page || 1;
+
+  try {
+    const result = await databases.listDocuments(
+      databaseId,
+      ORDERS_COLLECTION_ID,
+      [
+        Query.equal("userId", userId),
+        Query.orderDesc("placedAt"),
+        Query.limit(pageSize),
+        Query.offset((page - 1) * pageSize),
+      ]
+    );
+
+    const orders = result.documents.map(parseOrderDocument);
+    const totalOrders = result.total;
+
+    return {
+      orders,
+      totalOrders,
+      currentPage: page,
+      totalPages: Math.ceil(totalOrders / pageSize),
+      pageSize,
+      hasMore: page * pageSize < totalOrders,
+    };
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve orders";
+    console.error("Orders retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Retrieves a single order by ID
+ * @param orderId - Order document ID
+ * @returns Promise with the order or null if not found
+ */
+export async function getOrder(orderId: string): Promise<Order | null> {
+  try {
+    const doc = await databases.getDocument(databaseId, ORDERS_COLLECTION_ID, orderId);
+    return parseOrderDocument(doc);
+  } catch (error: any) {
+    if (error.code === 404) {
+      return null;
+    }
+    const errorMessage = error.message || "Failed to retrieve order";
+    console.error("Order retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Retrieves all sub-orders placed in the same checkout
+ * @param userId - User ID
+ * @param checkoutId - Shared checkout ID
+ * @returns Promise with the sub-orders, one per store
+ */
+export async function getOrdersForCheckout(
+  userId: string,
+  checkoutId: string
+): Promise<Order[]> {
+  try {
+    const result = await databases.listDocuments(
+      databaseId,
+      ORDERS_COLLECTION_ID,
+      [
+        Query.equal("userId", userId),
+        Query.equal("checkoutId", checkoutId),
+        Query.limit(100),
+      ]
+    );
+
+    return result.documents.map(parseOrderDocument);
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve checkout orders";
+    console.error("Checkout orders retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Cancels one of the customer's orders
+ * Only allowed before the order leaves the store (see ORDER_STATUS_TRANSITIONS).
+ * The orders function re-checks the transition, frees the delivery slot and
+ * records the change in the order's history and the audit log.
+ * @param orderId - Order document ID
+ * @param reason - Cancellation reason (optional)
+ * @returns Promise with the cancelled order
+ * @throws OrderNotFoundError if the order does not exist or isn't the customer's
+ */
+export async function cancelOrder(orderId: string, reason?: string): Promise<Order> {
+  try {
+    const response = await runOrdersFunction({ action: "cancelOrder", orderId, reason });
+    return parseOrderDocument(response.order);
+  } catch (error: any) {
+    if (error.code === 404) {
+      throw new OrderNotFoundError(orderId);
+    }
+    const errorMessage = error.message || "Failed to cancel order";
+    console.error("Order cancellation error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
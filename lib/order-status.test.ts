@@ -0,0 +1,172 @@
+/**
+ * Test harness for the order status transition table
+ *
+ * Run with: tsx lib/order-status.test.ts
+ */
+
+import {
+  ACTIVE_ORDER_STATUSES,
+  assertOrderTransition,
+  buildOrderStatusUpdate,
+  canTransitionOrder,
+  InvalidOrderTransitionError,
+  isOrderStatus,
+  isTerminalOrderStatus,
+  ORDER_STATUS_TRANSITIONS,
+  OrderStatus,
+  UnknownOrderStatusError,
+} from "./order-status";
+
+const ALL_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+
+// Test runner
+function runTest(name: string, testFn: () => boolean | void): void {
+  try {
+    const result = testFn();
+    if (result === false) {
+      console.error(`❌ FAIL: ${name}`);
+    } else {
+      console.log(`✓ PASS: ${name}`);
+    }
+  } catch (error: any) {
+    console.error(`❌ FAIL: ${name} - ${error.message}`);
+    console.error(error.stack);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(
+      `Assertion failed: ${message || "values not equal"}\n  Expected: ${expected}\n  Actual: ${actual}`
+    );
+  }
+}
+
+function assertThrows(fn: () => void, errorClass: Function, message?: string): any {
+  try {
+    fn();
+  } catch (error: any) {
+    if (!(error instanceof errorClass)) {
+      throw new Error(
+        `Assertion failed: ${message || "wrong error"}\n  Expected: ${errorClass.name}\n  Actual: ${error.name}`
+      );
+    }
+    return error;
+  }
+  throw new Error(`Assertion failed: ${message || "expected an error"}\n  Nothing was thrown`);
+}
+
+console.log("\n=== Order Status Tests ===\n");
+
+runTest("Happy path moves through every step to delivered", () => {
+  const path: OrderStatus[] = ["placed", "accepted", "picking", "out_for_delivery", "delivered"];
+  for (let i = 0; i < path.length - 1; i++) {
+    assertEqual(canTransitionOrder(path[i], path[i + 1]), true, `${path[i]} → ${path[i + 1]}`);
+  }
+});
+
+runTest("Out for delivery can end partially fulfilled", () => {
+  assertEqual(canTransitionOrder("out_for_delivery", "partially_fulfilled"), true);
+});
+
+runTest("Orders can be cancelled only before they leave the store", () => {
+  assertEqual(canTransitionOrder("placed", "cancelled"), true, "placed");
+  assertEqual(canTransitionOrder("accepted", "cancelled"), true, "accepted");
+  assertEqual(canTransitionOrder("picking", "cancelled"), true, "picking");
+  assertEqual(canTransitionOrder("out_for_delivery", "cancelled"), false, "out_for_delivery");
+  assertEqual(canTransitionOrder("delivered", "cancelled"), false, "delivered");
+});
+
+runTest("Steps cannot be skipped or reversed", () => {
+  assertEqual(canTransitionOrder("placed", "picking"), false, "Skip accepted");
+  assertEqual(canTransitionOrder("placed", "delivered"), false, "Skip to delivered");
+  assertEqual(canTransitionOrder("picking", "accepted"), false, "Backwards");
+  assertEqual(canTransitionOrder("placed", "placed"), false, "Same status");
+});
+
+runTest("Terminal statuses have no way out", () => {
+  const terminal = ALL_STATUSES.filter(isTerminalOrderStatus);
+  assertEqual(terminal.join(","), "delivered,partially_fulfilled,cancelled");
+
+  for (const from of terminal) {
+    for (const to of ALL_STATUSES) {
+      assertEqual(canTransitionOrder(from, to), false, `${from} → ${to}`);
+    }
+  }
+});
+
+runTest("Active statuses are exactly the non-terminal ones", () => {
+  const nonTerminal = ALL_STATUSES.filter((status) => !isTerminalOrderStatus(status));
+  assertEqual(ACTIVE_ORDER_STATUSES.join(","), nonTerminal.join(","));
+});
+
+runTest("Status type guard rejects unknown values", () => {
+  assertEqual(isOrderStatus("picking"), true, "Known status");
+  assertEqual(isOrderStatus("shipped"), false, "Unknown status");
+  assertEqual(isOrderStatus("toString"), false, "Object prototype key");
+  assertEqual(isOrderStatus(null), false, "Not a string");
+});
+
+runTest("Allowed transitions pass validation", () => {
+  assertOrderTransition("placed", "accepted");
+  assertOrderTransition("picking", "cancelled");
+});
+
+runTest("Invalid transition throws with both statuses", () => {
+  const error = assertThrows(
+    () => assertOrderTransition("delivered", "cancelled"),
+    InvalidOrderTransitionError
+  );
+
+  assertEqual(error.name, "InvalidOrderTransitionError");
+  assertEqual(error.from, "delivered");
+  assertEqual(error.to, "cancelled");
+  assertEqual(error.message, 'Order cannot move from "Delivered" to "Cancelled"');
+});
+
+runTest("Unknown status throws before the table is checked", () => {
+  const fromError = assertThrows(
+    () => assertOrderTransition("shipped", "delivered"),
+    UnknownOrderStatusError
+  );
+  assertEqual(fromError.status, "shipped", "Unknown current status");
+
+  const toError = assertThrows(
+    () => assertOrderTransition("placed", "shipped"),
+    UnknownOrderStatusError
+  );
+  assertEqual(toError.status, "shipped", "Unknown next status");
+});
+
+runTest("Status update appends the change to the stored history", () => {
+  const order = {
+    status: "placed",
+    statusHistory: JSON.stringify([{ status: "placed", at: "2026-01-01T10:00:00.000Z" }]),
+  };
+  const update = buildOrderStatusUpdate(order, "cancelled", "Out of stock", "2026-01-01T11:00:00.000Z");
+  const history = JSON.parse(update.statusHistory);
+
+  assertEqual(update.status, "cancelled");
+  assertEqual(update.statusUpdatedAt, "2026-01-01T11:00:00.000Z");
+  assertEqual(history.length, 2);
+  assertEqual(history[1].reason, "Out of stock");
+});
+
+runTest("Status update starts the history from placedAt when none is stored", () => {
+  const order = { status: "placed", statusHistory: null, placedAt: "2026-01-01T10:00:00.000Z" };
+  const history = JSON.parse(
+    buildOrderStatusUpdate(order, "accepted", undefined, "2026-01-01T11:00:00.000Z").statusHistory
+  );
+
+  assertEqual(history.map((event: any) => event.status).join(","), "placed,accepted");
+  assertEqual("reason" in history[1], false, "No reason recorded");
+});
+
+runTest("Status update refuses transitions the table doesn't allow", () => {
+  assertThrows(
+    () => buildOrderStatusUpdate({ status: "placed" }, "delivered", undefined, "2026-01-01T11:00:00.000Z"),
+    InvalidOrderTransitionError
+  );
+});
+
+console.log("\n=== All Tests Complete ===\n");
@@ -0,0 +1,196 @@
+/**
+ * Order Status
+ *
+ * Lifecycle of a single store order. Every status change goes through the
+ * transition table below - nothing else should write an order's status.
+ * Kept free of Appwrite imports so the rules can be checked anywhere.
+ *
+ *   placed → accepted → picking → out_for_delivery → delivered
+ *                                                  ↘ partially_fulfilled
+ *   placed / accepted / picking → cancelled
+ */
+
+export type OrderStatus =
+  | "placed"
+  | "accepted"
+  | "picking"
+  | "out_for_delivery"
+  | "delivered"
+  | "partially_fulfilled"
+  | "cancelled";
+
+export interface OrderStatusEvent {
+  status: OrderStatus;
+  /** ISO 8601 timestamp when the order entered this status */
+  at: string;
+  /** Why the status changed (optional, e.g. cancellation reason) */
+  reason?: string;
+}
+
+/** Order fields written by a status change */
+export interface OrderStatusUpdate {
+  status: OrderStatus;
+  /** JSON array of OrderStatusEvent */
+  statusHistory: string;
+  statusUpdatedAt: string;
+}
+
+/**
+ * Allowed next statuses for each status
+ * Statuses with no outgoing transitions are terminal
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  placed: ["accepted", "cancelled"],
+  accepted: ["picking", "cancelled"],
+  picking: ["out_for_delivery", "cancelled"],
+  out_for_delivery: ["delivered", "partially_fulfilled"],
+  delivered: [],
+  partially_fulfilled: [],
+  cancelled: [],
+};
+
+/** Statuses shown under "Active" in order history */
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = [
+  "placed",
+  "accepted",
+  "picking",
+  "out_for_delivery",
+];
+
+/** Human-readable labels for order statuses */
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  placed: "Placed",
+  accepted: "Accepted",
+  picking: "Picking",
+  out_for_delivery: "Out for Delivery",
+  delivered: "Delivered",
+  partially_fulfilled: "Partially Fulfilled",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Thrown when a status change is not allowed by the transition table
+ */
+export class InvalidOrderTransitionError extends Error {
+  readonly from: OrderStatus;
+  readonly to: OrderStatus;
+
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super(
+      `Order cannot move from "${ORDER_STATUS_LABELS[from] || from}" to "${ORDER_STATUS_LABELS[to] || to}"`
+    );
+    this.name = "InvalidOrderTransitionError";
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Thrown when a value is not a known order status
+ */
+export class UnknownOrderStatusError extends Error {
+  readonly status: string;
+
+  constructor(status: string) {
+    super(`Unknown order status "${status}"`);
+    this.name = "UnknownOrderStatusError";
+    this.status = status;
+  }
+}
+
+/**
+ * Type guard for order status values read from storage or input
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(ORDER_STATUS_TRANSITIONS, value)
+  );
+}
+
+/**
+ * Whether a status has no outgoing transitions
+ */
+export function isTerminalOrderStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Whether an order in `from` may move to `to`
+ */
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Validates a status change against the transition table
+ * @throws UnknownOrderStatusError if either status is not recognised
+ * @throws InvalidOrderTransitionError if the transition is not allowed
+ */
+export function assertOrderTransition(from: string, to: string): void {
+  if (!isOrderStatus(from)) {
+    throw new UnknownOrderStatusError(from);
+  }
+  if (!isOrderStatus(to)) {
+    throw new UnknownOrderStatusError(to);
+  }
+  if (!canTransitionOrder(from, to)) {
+    throw new InvalidOrderTransitionError(from, to);
+  }
+}
+
+/**
+ * Reads an order's stored status history (JSON string or array)
+ * Orders without a history get a single "placed" event from placedAt
+ */
+export function parseOrderStatusHistory(value: unknown, placedAt?: string): OrderStatusEvent[] {
+  let statusHistory: OrderStatusEvent[] = [];
+  try {
+    if (typeof value === "string") {
+      statusHistory = JSON.parse(value);
+    } else if (Array.isArray(value)) {
+      statusHistory = value;
+    }
+  } catch (e) {
+    console.warn("Error parsing order status history:", e);
+  }
+
+  if (statusHistory.length === 0 && placedAt) {
+    statusHistory = [{ status: "placed", at: placedAt }];
+  }
+  return statusHistory;
+}
+
+/**
+ * Builds the update for moving an order to a new status
+ * Used by everything that writes order status (functions/orders and
+ * scripts/order-status.ts) so the transition table is always applied.
+ * @param order - Current status, stored history and placedAt
+ * @param nextStatus - Status to move to
+ * @param reason - Why the status changed (optional)
+ * @param now - ISO 8601 time of the change
+ * @throws UnknownOrderStatusError if either status is not recognised
+ * @throws InvalidOrderTransitionError if the transition is not allowed
+ */
+export function buildOrderStatusUpdate(
+  order: { status: string; statusHistory?: unknown; placedAt?: string },
+  nextStatus: string,
+  reason: string | undefined,
+  now: string
+): OrderStatusUpdate {
+  assertOrderTransition(order.status, nextStatus);
+
+  const event: OrderStatusEvent = { status: nextStatus as OrderStatus, at: now };
+  if (reason) {
+    event.reason = reason;
+  }
+
+  return {
+    status: nextStatus as OrderStatus,
+    statusHistory: JSON.stringify([
+      ...parseOrderStatusHistory(order.statusHistory, order.placedAt),
+      event,
+    ]),
+    statusUpdatedAt: now,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Test harness for price drop detection and price watch alerts
+ *
+ * Run with: tsx lib/price-alerts.test.ts
+ */
+
+import {
+  formatPriceDropAlert,
+  getPriceDrop,
+  isPriceChanged,
+  isWatchTriggered,
+  PriceDrop,
+  PriceWatch,
+} from "./price-alerts";
+
+// Test data helpers
+function createWatch(overrides: Partial<PriceWatch>): PriceWatch {
+  return {
+    $id: "watch_1",
+    userId: "user_1",
+    productId: "p1",
+    storeLocationId: null,
+    targetPriceJmdCents: 50000,
+    isActive: true,
+    lastNotifiedAt: null,
+    lastNotifiedPriceJmdCents: null,
+    ...overrides,
+  };
+}
+
+function createDrop(priceJmdCents: number, overrides: Partial<PriceDrop> = {}): PriceDrop {
+  return {
+    productId: "p1",
+    storeLocationId: "s1",
+    priceJmdCents,
+    previousPriceJmdCents: 60000,
+    ...overrides,
+  };
+}
+
+const observation = { productId: "p1", storeLocationId: "s1", priceJmdCents: 45000 };
+
+// Test runner
+function runTest(name: string, testFn: () => boolean | void): void {
+  try {
+    const result = testFn();
+    if (result === false) {
+      console.error(`❌ FAIL: ${name}`);
+    } else {
+      console.log(`✓ PASS: ${name}`);
+    }
+  } catch (error: any) {
+    console.error(`❌ FAIL: ${name} - ${error.message}`);
+    console.error(error.stack);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(
+      `Assertion failed: ${message || "values not equal"}\n  Expected: ${expected}\n  Actual: ${actual}`
+    );
+  }
+}
+
+console.log("\n=== Price Alert Tests ===\n");
+
+runTest("Only new or changed prices are recorded", () => {
+  assertEqual(isPriceChanged(45000, null), true, "First observation");
+  assertEqual(isPriceChanged(45000, 50000), true, "Lower");
+  assertEqual(isPriceChanged(55000, 50000), true, "Higher");
+  assertEqual(isPriceChanged(50000, 50000), false, "Unchanged");
+});
+
+runTest("A lower price than the latest record is a drop", () => {
+  const drop = getPriceDrop(observation, 50000);
+
+  assertEqual(drop?.priceJmdCents, 45000);
+  assertEqual(drop?.previousPriceJmdCents, 50000);
+  assertEqual(drop?.storeLocationId, "s1");
+});
+
+runTest("First observations, rises and unchanged prices are not drops", () => {
+  assertEqual(getPriceDrop(observation, null), null, "First observation");
+  assertEqual(getPriceDrop(observation, 40000), null, "Price rose");
+  assertEqual(getPriceDrop(observation, 45000), null, "Unchanged");
+});
+
+runTest("Drop at or below the target triggers the watch", () => {
+  assertEqual(isWatchTriggered(createWatch({}), createDrop(50000)), true, "At target");
+  assertEqual(isWatchTriggered(createWatch({}), createDrop(40000)), true, "Below target");
+  assertEqual(isWatchTriggered(createWatch({}), createDrop(50001)), false, "Above target");
+});
+
+runTest("Store-specific watches ignore other stores", () => {
+  const watch = createWatch({ storeLocationId: "s2" });
+
+  assertEqual(isWatchTriggered(watch, createDrop(40000)), false, "Drop at s1");
+  assertEqual(isWatchTriggered(watch, createDrop(40000, { storeLocationId: "s2" })), true, "Drop at s2");
+});
+
+runTest("Inactive watches and other products never trigger", () => {
+  assertEqual(isWatchTriggered(createWatch({ isActive: false }), createDrop(40000)), false);
+  assertEqual(isWatchTriggered(createWatch({ productId: "p2" }), createDrop(40000)), false);
+});
+
+runTest("A watch fires again only below the last alerted price", () => {
+  const watch = createWatch({ lastNotifiedPriceJmdCents: 45000 });
+
+  assertEqual(isWatchTriggered(watch, createDrop(45000)), false, "Same price");
+  assertEqual(isWatchTriggered(watch, createDrop(48000)), false, "Higher than last alert");
+  assertEqual(isWatchTriggered(watch, createDrop(44000)), true, "Lower than last alert");
+});
+
+runTest("Alert shows both prices and opens the product", () => {
+  const message = formatPriceDropAlert({
+    productId: "p1",
+    productTitle: "Grace Corned Beef 340g",
+    storeName: "Hi-Lo Liguanea",
+    priceJmdCents: 45000,
+    previousPriceJmdCents: 50050,
+  });
+
+  assertEqual(message.body, "Grace Corned Beef 340g is now $450.00 at Hi-Lo Liguanea (was $500.50)");
+  assertEqual(message.data.route, "/product/p1");
+});
+
+console.log("\n=== All Tests Complete ===\n");
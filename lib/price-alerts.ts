@@ -0,0 +1,131 @@
+/**
+ * Price Alerts
+ *
+ * Pure rules for price history and price watches: which observed prices are
+ * recorded, which count as a drop, which watches a drop should alert and the
+ * alert text. No database access - scripts/record-prices.ts applies these
+ * with the server API key during the catalog sync.
+ */
+
+export interface PriceWatch {
+  $id: string;
+  userId: string;
+  productId: string;
+  /** Store location to watch (null = any store) */
+  storeLocationId: string | null;
+  targetPriceJmdCents: number;
+  isActive: boolean;
+  /** ISO 8601 timestamp of the last alert */
+  lastNotifiedAt: string | null;
+  /** Price in the last alert (alerts repeat only for a lower price) */
+  lastNotifiedPriceJmdCents: number | null;
+  createdAt?: string;
+}
+
+/** A store listing's price as seen by the catalog sync */
+export interface PriceObservation {
+  productId: string;
+  storeLocationId: string;
+  priceJmdCents: number;
+}
+
+/** A recorded price drop for one store listing */
+export interface PriceDrop {
+  productId: string;
+  storeLocationId: string;
+  priceJmdCents: number;
+  previousPriceJmdCents: number;
+}
+
+export interface PriceDropAlert {
+  productId: string;
+  productTitle: string;
+  storeName: string;
+  priceJmdCents: number;
+  previousPriceJmdCents: number;
+}
+
+/**
+ * Parse a price watch document from Appwrite
+ */
+export function parsePriceWatchDocument(doc: any): PriceWatch {
+  return {
+    $id: doc.$id,
+    userId: doc.userId,
+    productId: doc.productId,
+    storeLocationId: doc.storeLocationId || null,
+    targetPriceJmdCents: doc.targetPriceJmdCents || 0,
+    isActive: doc.isActive !== false,
+    lastNotifiedAt: doc.lastNotifiedAt || null,
+    lastNotifiedPriceJmdCents: doc.lastNotifiedPriceJmdCents ?? null,
+    createdAt: doc.$createdAt,
+  };
+}
+
+/**
+ * Whether an observed price needs a new history record
+ * @param priceJmdCents - Price just observed
+ * @param latestPriceJmdCents - Price in the listing's latest record (null if none)
+ */
+export function isPriceChanged(priceJmdCents: number, latestPriceJmdCents: number | null): boolean {
+  return latestPriceJmdCents === null || priceJmdCents !== latestPriceJmdCents;
+}
+
+/**
+ * Works out the price drop for an observation, if it is one
+ * The first observation of a listing is never a drop
+ * @param observation - Listing price just observed
+ * @param latestPriceJmdCents - Price in the listing's latest record (null if none)
+ * @returns The drop, or null if the price rose, stayed the same or is new
+ */
+export function getPriceDrop(
+  observation: PriceObservation,
+  latestPriceJmdCents: number | null
+): PriceDrop | null {
+  if (latestPriceJmdCents === null || observation.priceJmdCents >= latestPriceJmdCents) {
+    return null;
+  }
+  return {
+    productId: observation.productId,
+    storeLocationId: observation.storeLocationId,
+    priceJmdCents: observation.priceJmdCents,
+    previousPriceJmdCents: latestPriceJmdCents,
+  };
+}
+
+/**
+ * Whether a price drop should alert a watcher
+ */
+export function isWatchTriggered(watch: PriceWatch, drop: PriceDrop): boolean {
+  if (!watch.isActive || watch.productId !== drop.productId) {
+    return false;
+  }
+  if (watch.storeLocationId && watch.storeLocationId !== drop.storeLocationId) {
+    return false;
+  }
+  if (drop.priceJmdCents > watch.targetPriceJmdCents) {
+    return false;
+  }
+  return (
+    watch.lastNotifiedPriceJmdCents === null ||
+    drop.priceJmdCents < watch.lastNotifiedPriceJmdCents
+  );
+}
+
+/**
+ * Push notification content for a price drop
+ */
+export function formatPriceDropAlert(alert: PriceDropAlert): {
+  title: string;
+  body: string;
+  data: Record<string, any>;
+} {
+  const price = `$${(alert.priceJmdCents / 100).toFixed(2)}`;
+  const previousPrice = `$${(alert.previousPriceJmdCents / 100).toFixed(2)}`;
+
+  return {
+    title: "Price drop",
+    body: `${alert.productTitle} is now ${price} at ${alert.storeName} (was ${previousPrice})`,
+    data: { type: "price_drop", productId: alert.productId, route: `/product/${alert.productId}` },
+  };
+}
@@ -0,0 +1,84 @@
+import { Query } from "appwrite";
+import { databases, databaseId } from "./appwrite-client";
+
+/**
+ * Price History Service
+ *
+ * One price_history record per observed price change on a store listing
+ * (store_location_product). Records are written by scripts/record-prices.ts
+ * after each catalog sync (the collection is read-only for users); unchanged
+ * prices don't create records.
+ */
+
+const PRICE_HISTORY_COLLECTION_ID = "price_history";
+
+/** How far back the product screen chart goes */
+const DEFAULT_HISTORY_DAYS = 90;
+
+export interface PriceHistoryEntry {
+  $id: string;
+  /** store_location_product document ID */
+  storeLocationProductId: string;
+  productId: string;
+  storeLocationId: string;
+  priceJmdCents: number;
+  /** Price before this change (null for the first observation) */
+  previousPriceJmdCents: number | null;
+  /** ISO 8601 time the new price was observed */
+  observedAt: string;
+}
+
+/**
+ * Parse a price history document from Appwrite
+ */
+function parsePriceHistoryDocument(doc: any): PriceHistoryEntry {
+  return {
+    $id: doc.$id,
+    storeLocationProductId: doc.storeLocationProductId,
+    productId: doc.productId,
+    storeLocationId: doc.storeLocationId,
+    priceJmdCents: doc.priceJmdCents || 0,
+    previousPriceJmdCents: doc.previousPriceJmdCents ?? null,
+    observedAt: doc.observedAt,
+  };
+}
+
+/**
+ * Retrieves a product's price changes per store, oldest first
+ * @param productId - Product ID
+ * @param days - How many days back to include
+ * @returns Promise with history entries keyed by store location ID
+ */
+export async function getPriceHistory(
+  productId: string,
+  days: number = DEFAULT_HISTORY_DAYS
+): Promise<Map<string, PriceHistoryEntry[]>> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  try {
+    const result = await databases.listDocuments(
+      databaseId,
+      PRICE_HISTORY_COLLECTION_ID,
+      [
+        Query.equal("productId", productId),
+        Query.greaterThanEqual("observedAt", since),
+        Query.orderAsc("observedAt"),
+        Query.limit(1000),
+      ]
+    );
+
+    const historyByStore = new Map<string, PriceHistoryEntry[]>();
+    for (const doc of result.documents) {
+      const entry = parsePriceHistoryDocument(doc);
+      const entries = historyByStore.get(entry.storeLocationId) || [];
+      entries.push(entry);
+      historyByStore.set(entry.storeLocationId, entries);
+    }
+
+    return historyByStore;
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve price history";
+    console.error("Price history retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
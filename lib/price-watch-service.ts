@@ -0,0 +1,112 @@
+import { ID, Query, Permission, Role } from "appwrite";
+import { databases, databaseId } from "./appwrite-client";
+import { parsePriceWatchDocument, PriceWatch } from "./price-alerts";
+
+export type { PriceWatch } from "./price-alerts";
+
+/**
+ * Price Watch Service
+ *
+ * Users "watch" a product with a target price, optionally at one store.
+ * When a price drop is recorded at or below the target, watchers get a push
+ * notification (if they allow promotions). A watch fires again only when the
+ * price drops below the last price they were told about. Alerts are sent by
+ * scripts/record-prices.ts, which can read every user's watches.
+ */
+
+const PRICE_WATCHES_COLLECTION_ID = "price_watches";
+
+/**
+ * Retrieves a user's watch on a product
+ * @param userId - User ID
+ * @param productId - Product ID
+ * @returns Promise with the watch or null if the product isn't watched
+ */
+export async function getPriceWatch(
+  userId: string,
+  productId: string
+): Promise<PriceWatch | null> {
+  try {
+    const result = await databases.listDocuments(
+      databaseId,
+      PRICE_WATCHES_COLLECTION_ID,
+      [Query.equal("userId", userId), Query.equal("productId", productId), Query.limit(1)]
+    );
+    return result.documents.length > 0 ? parsePriceWatchDocument(result.documents[0]) : null;
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve price watch";
+    console.error("Price watch retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Watches a product, or updates the target price of an existing watch
+ * Changing the target resets the last alert so the new target can fire
+ * @param userId - User ID
+ * @param productId - Product ID
+ * @param targetPriceJmdCents - Alert when the price is at or below this
+ * @param storeLocationId - Store to watch (null = any store)
+ * @returns Promise with the saved watch
+ */
+export async function watchProduct(
+  userId: string,
+  productId: string,
+  targetPriceJmdCents: number,
+  storeLocationId: string | null = null
+): Promise<PriceWatch> {
+  if (!Number.isInteger(targetPriceJmdCents) || targetPriceJmdCents <= 0) {
+    throw new Error("Target price must be greater than zero");
+  }
+
+  try {
+    const data = {
+      userId,
+      productId,
+      storeLocationId,
+      targetPriceJmdCents,
+      isActive: true,
+      lastNotifiedAt: null,
+      lastNotifiedPriceJmdCents: null,
+    };
+
+    const existing = await getPriceWatch(userId, productId);
+    const doc = existing
+      ? await databases.updateDocument(
+          databaseId,
+          PRICE_WATCHES_COLLECTION_ID,
+          existing.$id,
+          data
+        )
+      : await databases.createDocument(
+          databaseId,
+          PRICE_WATCHES_COLLECTION_ID,
+          ID.unique(),
+          data,
+          [
+            Permission.read(Role.user(userId)),
+            Permission.write(Role.user(userId)),
+          ]
+        );
+
+    return parsePriceWatchDocument(doc);
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to save price watch";
+    console.error("Price watch save error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Stops watching a product
+ * @param watchId - Price watch document ID
+ */
+export async function unwatchProduct(watchId: string): Promise<void> {
+  try {
+    await databases.deleteDocument(databaseId, PRICE_WATCHES_COLLECTION_ID, watchId);
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to remove price watch";
+    console.error("Price watch removal error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
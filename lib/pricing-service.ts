@@ -0,0 +1,80 @@
+import { Query } from "appwrite";
+import { databases, databaseId } from "./appwrite-client";
+import { PromoEvaluation } from "./promo-engine";
+import { calculateCartPricing, CartPricing, DEFAULT_FEE_RULE, FeeRule, PricingStoreGroup } from "./fee-engine";
+
+/**
+ * Pricing Service
+ *
+ * Loads fee rules from the store_fee_rules collection and prices a cart with
+ * the fee engine. Rules can target a store location, a parish, both, or
+ * neither (global default).
+ */
+
+const STORE_FEE_RULES_COLLECTION_ID = "store_fee_rules";
+
+/**
+ * Parse a fee rule document from Appwrite
+ */
+function parseFeeRuleDocument(doc: any): FeeRule {
+  return {
+    $id: doc.$id,
+    storeLocationId: doc.storeLocationId || null,
+    parish: doc.parish || null,
+    deliveryFeeJmdCents: doc.deliveryFeeJmdCents || 0,
+    freeDeliveryThresholdJmdCents: doc.freeDeliveryThresholdJmdCents ?? null,
+    serviceFeeBasisPoints: doc.serviceFeeBasisPoints || 0,
+    serviceFeeMinJmdCents: doc.serviceFeeMinJmdCents || 0,
+    serviceFeeMaxJmdCents: doc.serviceFeeMaxJmdCents ?? null,
+    minimumOrderJmdCents: doc.minimumOrderJmdCents || 0,
+    smallOrderThresholdJmdCents: doc.smallOrderThresholdJmdCents || 0,
+    smallOrderSurchargeJmdCents: doc.smallOrderSurchargeJmdCents || 0,
+    gctBasisPoints: doc.gctBasisPoints ?? DEFAULT_FEE_RULE.gctBasisPoints,
+  };
+}
+
+/**
+ * Loads the active fee rules that could apply to the given stores
+ * @param storeIds - Store location IDs in the cart
+ * @returns Promise with store-specific and store-agnostic rules
+ */
+export async function getFeeRules(storeIds: string[]): Promise<FeeRule[]> {
+  try {
+    const [storeRules, generalRules] = await Promise.all([
+      storeIds.length > 0
+        ? databases.listDocuments(databaseId, STORE_FEE_RULES_COLLECTION_ID, [
+            Query.equal("isActive", true),
+            Query.equal("storeLocationId", storeIds),
+            Query.limit(500),
+          ])
+        : Promise.resolve({ documents: [] }),
+      databases.listDocuments(databaseId, STORE_FEE_RULES_COLLECTION_ID, [
+        Query.equal("isActive", true),
+        Query.isNull("storeLocationId"),
+        Query.limit(100),
+      ]),
+    ]);
+
+    return [...storeRules.documents, ...generalRules.documents].map(parseFeeRuleDocument);
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve fee rules";
+    console.error("Fee rules retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Computes delivery fee, service fee, small-order surcharge and GCT per store
+ * @param groups - Store groups with their item subtotals
+ * @param parish - Delivery parish (null if no address is known yet)
+ * @param promo - Promo evaluation for the cart (optional)
+ * @returns Promise with the per-store breakdown and cart totals
+ */
+export async function priceCart(
+  groups: PricingStoreGroup[],
+  parish: string | null,
+  promo: PromoEvaluation | null = null
+): Promise<CartPricing> {
+  const rules = await getFeeRules(groups.map((group) => group.storeId));
+  return calculateCartPricing(groups, rules, parish, promo);
+}
@@ -6,6 +6,7 @@ import {
   logAddressDeleted,
   logAddressDefaultChanged,
 } from "./audit-service";
+import { geocodeJamaicaAddress, normalizeJamaicaAddress } from "./jamaica-parishes";
 
 const PROFILES_COLLECTION_ID = "profiles";
 const ADDRESSES_COLLECTION_ID = "addresses";
@@ -31,6 +32,8 @@ export interface Address {
   houseDetails?: string;
   landmarkDirections: string;
   contactPhone?: string;
+  latitude?: number | null; // Community (or parish) centre, or a pinned location
+  longitude?: number | null;
   default: boolean;
   createdAt: string;
 }
@@ -53,6 +56,8 @@ export interface CreateAddressParams {
   houseDetails?: string;
   landmarkDirections: string;
   contactPhone?: string;
+  latitude?: number; // Optional: derived from parish/community when not given
+  longitude?: number;
   isDefault: boolean;
 }
 
@@ -65,6 +70,8 @@ export interface UpdateAddressParams {
   houseDetails?: string;
   landmarkDirections?: string;
   contactPhone?: string;
+  latitude?: number; // Optional: re-derived when parish/community change and not given
+  longitude?: number;
   isDefault?: boolean;
 }
 
@@ -246,9 +253,20 @@ export async function createAddress(
       houseDetails,
       landmarkDirections,
       contactPhone,
+      latitude,
+      longitude,
       isDefault 
     } = params;
 
+    // Canonical parish/community names, so parish and community lookups match
+    const normalized = normalizeJamaicaAddress(parish, community);
+
+    // Place the address on the map for distance sorting and delivery estimates
+    const location =
+      latitude !== undefined && longitude !== undefined
+        ? { latitude, longitude }
+        : geocodeJamaicaAddress(normalized.parish, normalized.community);
+
     // Check if this is the first address - if so, automatically set as default
     const existingAddresses = await databases.listDocuments(
       databaseId,
@@ -273,12 +291,14 @@ export async function createAddress(
       {
         userId,
         label,
-        parish,
-        community,
+        parish: normalized.parish,
+        community: normalized.community,
         street: street || null,
         houseDetails: houseDetails || null,
         landmarkDirections,
         contactPhone: contactPhone || null,
+        latitude: location?.latitude ?? null,
+        longitude: location?.longitude ?? null,
         default: finalIsDefault,
       },
       [
@@ -342,6 +362,21 @@ export async function getAddresses(userId: string): Promise<Address[]> {
   }
 }
 
+/**
+ * Coordinates of an address
+ * Addresses saved before coordinates were stored are placed from their parish/community.
+ * @returns Coordinates, or null if the address can't be placed
+ */
+export function getAddressCoordinates(
+  address: Pick<Address, "parish" | "community" | "latitude" | "longitude">
+): { latitude: number; longitude: number } | null {
+  if (typeof address.latitude === "number" && typeof address.longitude === "number") {
+    return { latitude: address.latitude, longitude: address.longitude };
+  }
+  const location = geocodeJamaicaAddress(address.parish, address.community);
+  return location ? { latitude: location.latitude, longitude: location.longitude } : null;
+}
+
 /**
  * Updates an existing address
  * @param params - Address update data
@@ -360,6 +395,8 @@ export async function updateAddress(
       houseDetails,
       landmarkDirections,
       contactPhone,
+      latitude,
+      longitude,
       isDefault 
     } = params;
 
@@ -377,14 +414,32 @@ export async function updateAddress(
 
     const updateData: any = {};
     if (label !== undefined) updateData.label = label;
-    if (parish !== undefined) updateData.parish = parish;
-    if (community !== undefined) updateData.community = community;
+    if (parish !== undefined || community !== undefined) {
+      const normalized = normalizeJamaicaAddress(
+        parish ?? currentAddress.parish,
+        community ?? currentAddress.community
+      );
+      if (parish !== undefined) updateData.parish = normalized.parish;
+      if (community !== undefined) updateData.community = normalized.community;
+    }
     if (street !== undefined) updateData.street = street || null;
     if (houseDetails !== undefined) updateData.houseDetails = houseDetails || null;
     if (landmarkDirections !== undefined) updateData.landmarkDirections = landmarkDirections;
     if (contactPhone !== undefined) updateData.contactPhone = contactPhone || null;
     if (isDefault !== undefined) updateData.default = isDefault;
 
+    if (latitude !== undefined && longitude !== undefined) {
+      updateData.latitude = latitude;
+      updateData.longitude = longitude;
+    } else if (parish !== undefined || community !== undefined) {
+      const location = geocodeJamaicaAddress(
+        parish ?? currentAddress.parish,
+        community ?? currentAddress.community
+      );
+      updateData.latitude = location?.latitude ?? null;
+      updateData.longitude = location?.longitude ?? null;
+    }
+
     const updatedAddress = await databases.updateDocument(
       databaseId,
       ADDRESSES_COLLECTION_ID,
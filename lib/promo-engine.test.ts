@@ -0,0 +1,238 @@
+/**
+ * Test harness for the promo engine
+ *
+ * Run with: tsx lib/promo-engine.test.ts
+ */
+
+import { Cart, CartItem } from "./cart-service";
+import {
+  evaluatePromo,
+  promoLineKey,
+  Promo,
+  PromoEvaluationContext,
+  PromoLineAttributes,
+} from "./promo-engine";
+
+// Test data helpers
+function createItem(
+  productId: string,
+  storeId: string,
+  priceJmdCents: number,
+  quantity: number
+): CartItem {
+  return {
+    productId,
+    storeId,
+    sku: `SKU_${productId}`,
+    title: `Product ${productId}`,
+    priceJmdCents,
+    quantity,
+    storeName: `Store ${storeId}`,
+    addedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+function createCart(items: CartItem[]): Cart {
+  return {
+    items,
+    totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalPriceJmdCents: items.reduce((sum, item) => sum + item.priceJmdCents * item.quantity, 0),
+    storeIds: Array.from(new Set(items.map((item) => item.storeId))),
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+function createPromo(overrides: Partial<Promo>): Promo {
+  return {
+    $id: "promo_1",
+    code: "SAVE",
+    description: "Test promo",
+    type: "percentage",
+    percentOff: 0,
+    amountOffJmdCents: 0,
+    buyQuantity: 0,
+    getQuantity: 0,
+    maxDiscountJmdCents: null,
+    minSpendJmdCents: 0,
+    scope: { storeBrandIds: [], categoryIds: [], productIds: [] },
+    startsAt: null,
+    expiresAt: null,
+    usageLimitPerUser: null,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+function createContext(
+  lineAttributes: Record<string, PromoLineAttributes> = {},
+  userUsageCount = 0
+): PromoEvaluationContext {
+  return {
+    now: new Date("2026-06-01T12:00:00.000Z"),
+    userUsageCount,
+    lineAttributes,
+  };
+}
+
+// Test runner
+function runTest(name: string, testFn: () => boolean | void): void {
+  try {
+    const result = testFn();
+    if (result === false) {
+      console.error(`❌ FAIL: ${name}`);
+    } else {
+      console.log(`✓ PASS: ${name}`);
+    }
+  } catch (error: any) {
+    console.error(`❌ FAIL: ${name} - ${error.message}`);
+    console.error(error.stack);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, message?: string): void {
+  if (actual !== expected) {
+    throw new Error(
+      `Assertion failed: ${message || "values not equal"}\n  Expected: ${expected}\n  Actual: ${actual}`
+    );
+  }
+}
+
+console.log("\n=== Promo Engine Tests ===\n");
+
+runTest("Percentage promo discounts every line", () => {
+  const cart = createCart([createItem("a", "s1", 1000, 2), createItem("b", "s2", 500, 1)]);
+  const result = evaluatePromo(cart, createPromo({ percentOff: 10 }), createContext());
+
+  assertEqual(result.applied, true, "Promo should apply");
+  assertEqual(result.itemDiscountJmdCents, 250, "10% of 2500");
+  assertEqual(result.storeDiscounts.length, 2, "Both stores get a discount");
+});
+
+runTest("Percentage promo respects max discount cap", () => {
+  const cart = createCart([createItem("a", "s1", 1000, 3), createItem("b", "s1", 1000, 1)]);
+  const result = evaluatePromo(
+    cart,
+    createPromo({ percentOff: 50, maxDiscountJmdCents: 1000 }),
+    createContext()
+  );
+
+  assertEqual(result.itemDiscountJmdCents, 1000, "Capped at 1000");
+  assertEqual(result.lineDiscounts[0].discountJmdCents, 750, "Cap split in proportion (3:1)");
+  assertEqual(result.lineDiscounts[1].discountJmdCents, 250, "Cap split in proportion (3:1)");
+});
+
+runTest("Fixed amount is split across lines and never exceeds the subtotal", () => {
+  const cart = createCart([createItem("a", "s1", 100, 1), createItem("b", "s2", 200, 1)]);
+  const result = evaluatePromo(
+    cart,
+    createPromo({ type: "fixed_amount", amountOffJmdCents: 1000 }),
+    createContext()
+  );
+
+  assertEqual(result.itemDiscountJmdCents, 300, "Discount limited to eligible subtotal");
+});
+
+runTest("Fixed amount rounding leaves no stray cents", () => {
+  const cart = createCart([
+    createItem("a", "s1", 100, 1),
+    createItem("b", "s1", 100, 1),
+    createItem("c", "s1", 100, 1),
+  ]);
+  const result = evaluatePromo(
+    cart,
+    createPromo({ type: "fixed_amount", amountOffJmdCents: 100 }),
+    createContext()
+  );
+
+  const total = result.lineDiscounts.reduce((sum, line) => sum + line.discountJmdCents, 0);
+  assertEqual(total, 100, "Line discounts add up to the promo amount");
+});
+
+runTest("Buy 2 get 1 frees one unit per group of three", () => {
+  const cart = createCart([createItem("a", "s1", 300, 7)]);
+  const result = evaluatePromo(
+    cart,
+    createPromo({ type: "buy_x_get_y", buyQuantity: 2, getQuantity: 1 }),
+    createContext()
+  );
+
+  assertEqual(result.itemDiscountJmdCents, 600, "Two full groups in seven units");
+});
+
+runTest("Free delivery marks eligible stores without an item discount", () => {
+  const cart = createCart([createItem("a", "s1", 1000, 1), createItem("b", "s2", 1000, 1)]);
+  const result = evaluatePromo(
+    cart,
+    createPromo({ type: "free_delivery", scope: { storeBrandIds: ["brand_1"], categoryIds: [], productIds: [] } }),
+    createContext({
+      [promoLineKey("a", "s1")]: { storeBrandId: "brand_1", categoryIds: [] },
+      [promoLineKey("b", "s2")]: { storeBrandId: "brand_2", categoryIds: [] },
+    })
+  );
+
+  assertEqual(result.itemDiscountJmdCents, 0, "No item discount");
+  assertEqual(result.freeDeliveryStoreIds.length, 1, "Only the matching store brand");
+  assertEqual(result.freeDeliveryStoreIds[0], "s1", "Store s1 gets free delivery");
+});
+
+runTest("Category scope matches ancestor categories", () => {
+  const cart = createCart([createItem("a", "s1", 1000, 1), createItem("b", "s1", 1000, 1)]);
+  const result = evaluatePromo(
+    cart,
+    createPromo({ percentOff: 20, scope: { storeBrandIds: [], categoryIds: ["dairy"], productIds: [] } }),
+    createContext({
+      [promoLineKey("a", "s1")]: { categoryIds: ["dairy", "milk"] },
+      [promoLineKey("b", "s1")]: { categoryIds: ["bakery"] },
+    })
+  );
+
+  assertEqual(result.lineDiscounts.length, 1, "Only the dairy line");
+  assertEqual(result.lineDiscounts[0].productId, "a", "Product a is in dairy");
+});
+
+runTest("Minimum spend is checked against eligible lines only", () => {
+  const cart = createCart([createItem("a", "s1", 500, 1), createItem("b", "s1", 5000, 1)]);
+  const result = evaluatePromo(
+    cart,
+    createPromo({
+      percentOff: 10,
+      minSpendJmdCents: 1000,
+      scope: { storeBrandIds: [], categoryIds: [], productIds: ["a"] },
+    }),
+    createContext()
+  );
+
+  assertEqual(result.applied, false, "Eligible subtotal is only 500");
+  assertEqual(result.reason, "min_spend_not_met");
+});
+
+runTest("Expired, not-started and inactive promos are rejected", () => {
+  const cart = createCart([createItem("a", "s1", 1000, 1)]);
+
+  assertEqual(
+    evaluatePromo(cart, createPromo({ expiresAt: "2026-05-01T00:00:00.000Z" }), createContext()).reason,
+    "expired"
+  );
+  assertEqual(
+    evaluatePromo(cart, createPromo({ startsAt: "2026-07-01T00:00:00.000Z" }), createContext()).reason,
+    "not_started"
+  );
+  assertEqual(
+    evaluatePromo(cart, createPromo({ isActive: false }), createContext()).reason,
+    "inactive"
+  );
+});
+
+runTest("Per-user usage limit is enforced", () => {
+  const cart = createCart([createItem("a", "s1", 1000, 1)]);
+  const promo = createPromo({ percentOff: 10, usageLimitPerUser: 1 });
+
+  assertEqual(evaluatePromo(cart, promo, createContext({}, 0)).applied, true, "First use allowed");
+  assertEqual(
+    evaluatePromo(cart, promo, createContext({}, 1)).reason,
+    "usage_limit_reached",
+    "Second use rejected"
+  );
+});
+
+console.log("\n=== All Tests Complete ===\n");
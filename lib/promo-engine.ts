@@ -0,0 +1,314 @@
+import { Cart, CartItem } from "./cart-service";
+
+/**
+ * Promo Engine
+ *
+ * Pure promo code evaluator: takes a Cart and a promo definition and works out
+ * which lines and stores get a discount. No database access - callers load
+ * the promo, the user's usage count and each line's store brand / categories.
+ *
+ * All amounts are integer JMD cents. Discounts are split across lines so
+ * per-store totals stay correct when a cart is checked out as several orders.
+ */
+
+export type PromoType = "percentage" | "fixed_amount" | "free_delivery" | "buy_x_get_y";
+
+/**
+ * Which cart lines a promo applies to
+ * Empty lists don't restrict; non-empty lists must all match
+ */
+export interface PromoScope {
+  /** Store brand IDs (store_brand) */
+  storeBrandIds: string[];
+  /** Category IDs - matches a line's leaf category or any ancestor */
+  categoryIds: string[];
+  productIds: string[];
+}
+
+export interface Promo {
+  $id: string;
+  /** Code the user types (stored upper-case) */
+  code: string;
+  description: string;
+  type: PromoType;
+  /** Percent off eligible lines (percentage promos, 0-100) */
+  percentOff: number;
+  /** Amount off eligible lines (fixed_amount promos) */
+  amountOffJmdCents: number;
+  /** Units to buy per free group (buy_x_get_y promos) */
+  buyQuantity: number;
+  /** Free units per group (buy_x_get_y promos) */
+  getQuantity: number;
+  /** Cap on the item discount (null = no cap) */
+  maxDiscountJmdCents: number | null;
+  /** Eligible lines must add up to at least this much */
+  minSpendJmdCents: number;
+  scope: PromoScope;
+  /** ISO 8601 start (null = already started) */
+  startsAt: string | null;
+  /** ISO 8601 expiry (null = never expires) */
+  expiresAt: string | null;
+  /** How many times one user may redeem the code (null = unlimited) */
+  usageLimitPerUser: number | null;
+  isActive: boolean;
+}
+
+/** Store brand and categories for one cart line */
+export interface PromoLineAttributes {
+  storeBrandId?: string;
+  categoryIds: string[];
+}
+
+export interface PromoEvaluationContext {
+  /** Evaluation time (default: now) */
+  now?: Date;
+  /** How many times the user has already redeemed this promo */
+  userUsageCount: number;
+  /** Line attributes keyed by promoLineKey(productId, storeId) */
+  lineAttributes: Record<string, PromoLineAttributes>;
+}
+
+export type PromoRejectionReason =
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "usage_limit_reached"
+  | "no_eligible_items"
+  | "min_spend_not_met";
+
+export interface LineDiscount {
+  productId: string;
+  storeId: string;
+  discountJmdCents: number;
+}
+
+export interface StoreDiscount {
+  storeId: string;
+  /** Sum of line discounts for the store */
+  itemDiscountJmdCents: number;
+  /** Whether the store's delivery fee is waived */
+  freeDelivery: boolean;
+}
+
+export interface PromoEvaluation {
+  promoId: string;
+  code: string;
+  description: string;
+  applied: boolean;
+  /** Why the promo didn't apply (only set when applied is false) */
+  reason?: PromoRejectionReason;
+  lineDiscounts: LineDiscount[];
+  storeDiscounts: StoreDiscount[];
+  /** Total discount on items (delivery waivers are priced separately) */
+  itemDiscountJmdCents: number;
+  /** Stores whose delivery fee is waived */
+  freeDeliveryStoreIds: string[];
+}
+
+/** User-facing messages for rejected promos */
+export const PROMO_REJECTION_MESSAGES: Record<PromoRejectionReason, string> = {
+  inactive: "This promo code is no longer active",
+  not_started: "This promo code isn't active yet",
+  expired: "This promo code has expired",
+  usage_limit_reached: "You've already used this promo code",
+  no_eligible_items: "No items in your cart qualify for this promo code",
+  min_spend_not_met: "Your cart doesn't meet the minimum spend for this promo code",
+};
+
+/**
+ * Key for per-line lookups (matches cart item identity)
+ */
+export function promoLineKey(productId: string, storeId: string): string {
+  return `${productId}_${storeId}`;
+}
+
+function lineTotal(item: CartItem): number {
+  return item.priceJmdCents * item.quantity;
+}
+
+/**
+ * Whether a cart line falls inside a promo's scope
+ */
+export function isLineEligible(
+  item: CartItem,
+  scope: PromoScope,
+  attributes: PromoLineAttributes | undefined
+): boolean {
+  if (scope.productIds.length > 0 && !scope.productIds.includes(item.productId)) {
+    return false;
+  }
+  if (
+    scope.storeBrandIds.length > 0 &&
+    (!attributes?.storeBrandId || !scope.storeBrandIds.includes(attributes.storeBrandId))
+  ) {
+    return false;
+  }
+  if (
+    scope.categoryIds.length > 0 &&
+    !(attributes?.categoryIds || []).some((categoryId) => scope.categoryIds.includes(categoryId))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Splits an amount across weights in whole cents
+ * Shares are floored, then leftover cents go to the largest remainders
+ */
+function allocateProportionally(amount: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (amount <= 0 || totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map((weight) => (amount * weight) / totalWeight);
+  const shares = exact.map(Math.floor);
+  let leftover = amount - shares.reduce((sum, share) => sum + share, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    shares[index] += 1;
+    leftover -= 1;
+  }
+
+  return shares;
+}
+
+/**
+ * Raw per-line item discounts before any cap
+ */
+function calculateLineDiscounts(promo: Promo, lines: CartItem[]): number[] {
+  switch (promo.type) {
+    case "percentage":
+      return lines.map((item) => Math.round((lineTotal(item) * promo.percentOff) / 100));
+    case "fixed_amount": {
+      const eligibleTotal = lines.reduce((sum, item) => sum + lineTotal(item), 0);
+      return allocateProportionally(
+        Math.min(promo.amountOffJmdCents, eligibleTotal),
+        lines.map(lineTotal)
+      );
+    }
+    case "buy_x_get_y": {
+      const groupSize = promo.buyQuantity + promo.getQuantity;
+      if (promo.buyQuantity <= 0 || promo.getQuantity <= 0) {
+        return lines.map(() => 0);
+      }
+      return lines.map((item) => {
+        const freeUnits = Math.floor(item.quantity / groupSize) * promo.getQuantity;
+        return freeUnits * item.priceJmdCents;
+      });
+    }
+    case "free_delivery":
+    default:
+      return lines.map(() => 0);
+  }
+}
+
+function rejected(promo: Promo, reason: PromoRejectionReason): PromoEvaluation {
+  return {
+    promoId: promo.$id,
+    code: promo.code,
+    description: promo.description,
+    applied: false,
+    reason,
+    lineDiscounts: [],
+    storeDiscounts: [],
+    itemDiscountJmdCents: 0,
+    freeDeliveryStoreIds: [],
+  };
+}
+
+/**
+ * Evaluates a promo against a cart
+ *
+ * Checks run in order: active, start date, expiry, per-user usage, eligible
+ * items, minimum spend. The first failing check is returned as the reason.
+ *
+ * @param cart - Cart to evaluate
+ * @param promo - Promo definition
+ * @param context - Usage count, line attributes and evaluation time
+ * @returns Discounts per line and per store
+ */
+export function evaluatePromo(
+  cart: Cart,
+  promo: Promo,
+  context: PromoEvaluationContext
+): PromoEvaluation {
+  const now = (context.now || new Date()).getTime();
+
+  if (!promo.isActive) {
+    return rejected(promo, "inactive");
+  }
+  if (promo.startsAt && new Date(promo.startsAt).getTime() > now) {
+    return rejected(promo, "not_started");
+  }
+  if (promo.expiresAt && new Date(promo.expiresAt).getTime() <= now) {
+    return rejected(promo, "expired");
+  }
+  if (promo.usageLimitPerUser !== null && context.userUsageCount >= promo.usageLimitPerUser) {
+    return rejected(promo, "usage_limit_reached");
+  }
+
+  const eligibleLines = cart.items.filter((item) =>
+    isLineEligible(
+      item,
+      promo.scope,
+      context.lineAttributes[promoLineKey(item.productId, item.storeId)]
+    )
+  );
+  if (eligibleLines.length === 0) {
+    return rejected(promo, "no_eligible_items");
+  }
+
+  const eligibleSubtotal = eligibleLines.reduce((sum, item) => sum + lineTotal(item), 0);
+  if (eligibleSubtotal < promo.minSpendJmdCents) {
+    return rejected(promo, "min_spend_not_met");
+  }
+
+  let discounts = calculateLineDiscounts(promo, eligibleLines).map((discount, index) =>
+    Math.min(discount, lineTotal(eligibleLines[index]))
+  );
+  const rawTotal = discounts.reduce((sum, discount) => sum + discount, 0);
+  if (promo.maxDiscountJmdCents !== null && rawTotal > promo.maxDiscountJmdCents) {
+    discounts = allocateProportionally(promo.maxDiscountJmdCents, discounts);
+  }
+
+  const lineDiscounts: LineDiscount[] = eligibleLines
+    .map((item, index) => ({
+      productId: item.productId,
+      storeId: item.storeId,
+      discountJmdCents: discounts[index],
+    }))
+    .filter((line) => line.discountJmdCents > 0);
+
+  const freeDeliveryStoreIds =
+    promo.type === "free_delivery"
+      ? Array.from(new Set(eligibleLines.map((item) => item.storeId)))
+      : [];
+
+  const storeIds = Array.from(
+    new Set([...lineDiscounts.map((line) => line.storeId), ...freeDeliveryStoreIds])
+  );
+  const storeDiscounts: StoreDiscount[] = storeIds.map((storeId) => ({
+    storeId,
+    itemDiscountJmdCents: lineDiscounts
+      .filter((line) => line.storeId === storeId)
+      .reduce((sum, line) => sum + line.discountJmdCents, 0),
+    freeDelivery: freeDeliveryStoreIds.includes(storeId),
+  }));
+
+  return {
+    promoId: promo.$id,
+    code: promo.code,
+    description: promo.description,
+    applied: true,
+    lineDiscounts,
+    storeDiscounts,
+    itemDiscountJmdCents: lineDiscounts.reduce((sum, line) => sum + line.discountJmdCents, 0),
+    freeDeliveryStoreIds,
+  };
+}
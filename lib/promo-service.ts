@@ -0,0 +1,223 @@
+import { Query } from "appwrite";
+import { databases, databaseId } from "./appwrite-client";
+import { Cart } from "./cart-service";
+import {
+  evaluatePromo,
+  promoLineKey,
+  Promo,
+  PromoEvaluation,
+  PromoLineAttributes,
+  PromoRejectionReason,
+  PROMO_REJECTION_MESSAGES,
+} from "./promo-engine";
+
+/**
+ * Promo Service
+ *
+ * Loads promo codes and everything the pure promo engine needs to evaluate
+ * them (per-user usage and each cart line's store brand / categories).
+ * Redemptions are read-only for users; the orders function (functions/orders)
+ * records them at checkout.
+ */
+
+const PROMO_CODES_COLLECTION_ID = "promo_codes";
+const PROMO_REDEMPTIONS_COLLECTION_ID = "promo_redemptions";
+const STORE_LOCATION_PRODUCT_COLLECTION_ID = "store_location_product";
+
+/**
+ * Thrown when a promo code doesn't exist or can't be applied to the cart
+ */
+export class PromoCodeError extends Error {
+  readonly code: string;
+  readonly reason: PromoRejectionReason | "not_found";
+
+  constructor(code: string, reason: PromoRejectionReason | "not_found") {
+    super(
+      reason === "not_found"
+        ? `Promo code "${code}" was not found`
+        : PROMO_REJECTION_MESSAGES[reason]
+    );
+    this.name = "PromoCodeError";
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Normalizes user input to the stored code format
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function parseIdList(value: any): string[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string" && value.length > 0) {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      console.warn("Error parsing promo scope:", e);
+    }
+  }
+  return [];
+}
+
+/**
+ * Parse a promo code document from Appwrite
+ * Scope ID lists are stored as JSON strings
+ */
+function parsePromoDocument(doc: any): Promo {
+  return {
+    $id: doc.$id,
+    code: doc.code,
+    description: doc.description || "",
+    type: doc.type,
+    percentOff: doc.percentOff || 0,
+    amountOffJmdCents: doc.amountOffJmdCents || 0,
+    buyQuantity: doc.buyQuantity || 0,
+    getQuantity: doc.getQuantity || 0,
+    maxDiscountJmdCents: doc.maxDiscountJmdCents ?? null,
+    minSpendJmdCents: doc.minSpendJmdCents || 0,
+    scope: {
+      storeBrandIds: parseIdList(doc.storeBrandIds),
+      categoryIds: parseIdList(doc.categoryIds),
+      productIds: parseIdList(doc.productIds),
+    },
+    startsAt: doc.startsAt || null,
+    expiresAt: doc.expiresAt || null,
+    usageLimitPerUser: doc.usageLimitPerUser ?? null,
+    isActive: doc.isActive !== false,
+  };
+}
+
+/**
+ * Retrieves a promo by its code
+ * @param code - Code as typed by the user (case-insensitive)
+ * @returns Promise with the promo or null if not found
+ */
+export async function getPromoByCode(code: string): Promise<Promo | null> {
+  try {
+    const result = await databases.listDocuments(
+      databaseId,
+      PROMO_CODES_COLLECTION_ID,
+      [Query.equal("code", normalizePromoCode(code)), Query.limit(1)]
+    );
+    return result.documents.length > 0 ? parsePromoDocument(result.documents[0]) : null;
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve promo code";
+    console.error("Promo code retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Counts how many times a user has redeemed a promo
+ */
+export async function getPromoUsageCount(userId: string, promoId: string): Promise<number> {
+  try {
+    const result = await databases.listDocuments(
+      databaseId,
+      PROMO_REDEMPTIONS_COLLECTION_ID,
+      [Query.equal("userId", userId), Query.equal("promoId", promoId), Query.limit(1)]
+    );
+    return result.total;
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve promo usage";
+    console.error("Promo usage retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Loads store brand and category IDs for every cart line
+ * @param cart - Cart to look up
+ * @returns Promise with attributes keyed by promoLineKey(productId, storeId)
+ */
+export async function getPromoLineAttributes(
+  cart: Cart
+): Promise<Record<string, PromoLineAttributes>> {
+  const attributes: Record<string, PromoLineAttributes> = {};
+  const productIds = Array.from(new Set(cart.items.map((item) => item.productId)));
+  const lineKeys = new Set(cart.items.map((item) => promoLineKey(item.productId, item.storeId)));
+
+  const batchSize = 100;
+  for (let i = 0; i < productIds.length; i += batchSize) {
+    const batch = productIds.slice(i, i + batchSize);
+    const result = await databases.listDocuments(
+      databaseId,
+      STORE_LOCATION_PRODUCT_COLLECTION_ID,
+      [Query.equal("product_id", batch), Query.limit(5000)]
+    );
+
+    for (const doc of result.documents as any[]) {
+      const key = promoLineKey(doc.product_id, doc.store_location_id);
+      if (!lineKeys.has(key)) continue;
+
+      const categoryIds = new Set<string>(doc.category_path_ids || []);
+      if (doc.category_leaf_id) {
+        categoryIds.add(doc.category_leaf_id);
+      }
+      attributes[key] = {
+        storeBrandId: doc.brand_id || undefined,
+        categoryIds: Array.from(categoryIds),
+      };
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Evaluates a promo code against a cart
+ *
+ * Returns the evaluation even when the promo doesn't apply, so the cart can
+ * explain why (e.g. minimum spend no longer met after removing items).
+ *
+ * @param cart - Cart to evaluate
+ * @param code - Promo code
+ * @param userId - User ID for usage limits (null for signed-out users)
+ * @returns Promise with the evaluation
+ * @throws PromoCodeError if the code doesn't exist
+ */
+export async function evaluatePromoCode(
+  cart: Cart,
+  code: string,
+  userId: string | null
+): Promise<PromoEvaluation> {
+  const promo = await getPromoByCode(code);
+  if (!promo) {
+    throw new PromoCodeError(normalizePromoCode(code), "not_found");
+  }
+
+  const [userUsageCount, lineAttributes] = await Promise.all([
+    userId ? getPromoUsageCount(userId, promo.$id) : Promise.resolve(0),
+    getPromoLineAttributes(cart),
+  ]);
+
+  return evaluatePromo(cart, promo, { userUsageCount, lineAttributes });
+}
+
+/**
+ * Evaluates the promo code saved on a cart for display
+ * A code that no longer exists is treated as no promo
+ * @param cart - Cart with an optional promoCode
+ * @param userId - User ID for usage limits (null for signed-out users)
+ * @returns Promise with the evaluation, or null if the cart has no usable code
+ */
+export async function evaluateCartPromo(
+  cart: Cart,
+  userId: string | null
+): Promise<PromoEvaluation | null> {
+  if (!cart.promoCode || cart.items.length === 0) return null;
+
+  try {
+    return await evaluatePromoCode(cart, cart.promoCode, userId);
+  } catch (error) {
+    if (error instanceof PromoCodeError) {
+      console.warn(`[PromoService] ${error.message}`);
+      return null;
+    }
+    throw error;
+  }
+}
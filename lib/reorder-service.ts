@@ -0,0 +1,235 @@
+import { Query } from "appwrite";
+import { databases, databaseId } from "./appwrite-client";
+import { CartItem } from "./cart-service";
+import { validateCartItem } from "./cart-validation-service";
+import { Order, OrderItem } from "./order-service";
+import { getProductsByIds, getStoreLocationsByIds } from "./search-service";
+
+/**
+ * Reorder Service
+ *
+ * Rebuilds a cart from past orders. Each line is re-checked against
+ * store_location_product (same rules as cart validation). Lines that can no
+ * longer be bought get a suggested substitute: the cheapest in-stock listing
+ * of the same product at another store, or failing that the cheapest in-stock
+ * product in the same leaf category.
+ */
+
+const STORE_LOCATION_PRODUCT_COLLECTION_ID = "store_location_product";
+const PRODUCTS_COLLECTION_ID = "products";
+
+/** How many candidate listings to consider when looking for a substitute */
+const SUBSTITUTE_CANDIDATE_LIMIT = 25;
+
+export type ReorderLineStatus = "available" | "price_changed" | "unavailable";
+
+export interface ReorderSubstitute {
+  /** How the substitute was found */
+  matchType: "same_product" | "same_category";
+  productId: string;
+  storeId: string;
+  storeName: string;
+  storeLogoUrl?: string;
+  sku: string;
+  title: string;
+  brand?: string;
+  imageUrl?: string;
+  /** Current price in JMD cents */
+  priceJmdCents: number;
+}
+
+export interface ReorderLine {
+  /** Item as it was ordered */
+  orderItem: OrderItem;
+  /** Store the item was ordered from */
+  storeId: string;
+  storeName: string;
+  storeLogoUrl?: string;
+  status: ReorderLineStatus;
+  /** Current price in JMD cents (null if the listing no longer exists) */
+  currentPriceJmdCents: number | null;
+  /** Current price minus ordered price in JMD cents */
+  priceDifference: number;
+  /** Suggested replacement for unavailable lines (null if none found) */
+  substitute: ReorderSubstitute | null;
+}
+
+export interface ReorderPlan {
+  lines: ReorderLine[];
+  /** Lines that can be added as-is (including price changes) */
+  availableCount: number;
+  /** Lines that can't be added but have a suggested substitute */
+  substitutableCount: number;
+  /** Lines that can't be added and have no substitute */
+  unavailableCount: number;
+}
+
+/**
+ * Cart item for an order line, used to run the standard cart validation
+ */
+function toCartItem(order: Order, item: OrderItem): CartItem {
+  return {
+    productId: item.productId,
+    storeId: order.storeId,
+    sku: item.sku,
+    title: item.title,
+    brand: item.brand,
+    imageUrl: item.imageUrl,
+    priceJmdCents: item.priceJmdCents,
+    quantity: item.quantity,
+    storeName: order.storeName,
+    storeLogoUrl: order.storeLogoUrl,
+    addedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Picks the cheapest listing at an active store and resolves its display details
+ * Listings must already be filtered to in-stock and sorted by price ascending
+ */
+async function resolveCheapestListing(
+  listings: any[],
+  matchType: ReorderSubstitute["matchType"]
+): Promise<ReorderSubstitute | null> {
+  if (listings.length === 0) {
+    return null;
+  }
+
+  const storeIds = Array.from(new Set(listings.map((doc) => doc.store_location_id)));
+  const productIds = Array.from(new Set(listings.map((doc) => doc.product_id)));
+  const [storeMap, productMap] = await Promise.all([
+    getStoreLocationsByIds(storeIds),
+    getProductsByIds(productIds),
+  ]);
+
+  for (const listing of listings) {
+    const store = storeMap.get(listing.store_location_id);
+    const product = productMap.get(listing.product_id);
+    if (!store || !store.is_active || !product) {
+      continue;
+    }
+
+    return {
+      matchType,
+      productId: product.$id,
+      storeId: store.$id,
+      storeName: store.display_name || store.name,
+      storeLogoUrl: store.logo_url,
+      sku: product.sku,
+      title: product.title,
+      brand: product.brand,
+      imageUrl: product.primary_image_url,
+      priceJmdCents: listing.price_jmd_cents,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Finds the cheapest in-stock replacement for an unavailable order line
+ * Tries the same product at another store first, then the same leaf category
+ * @param productId - Product that is no longer available
+ * @param storeId - Store it was ordered from
+ * @returns Promise with the substitute or null if none found
+ */
+export async function findSubstitute(
+  productId: string,
+  storeId: string
+): Promise<ReorderSubstitute | null> {
+  try {
+    // Same product at another store
+    const sameProduct = await databases.listDocuments(
+      databaseId,
+      STORE_LOCATION_PRODUCT_COLLECTION_ID,
+      [
+        Query.equal("product_id", productId),
+        Query.equal("in_stock", true),
+        Query.notEqual("store_location_id", storeId),
+        Query.orderAsc("price_jmd_cents"),
+        Query.limit(SUBSTITUTE_CANDIDATE_LIMIT),
+      ]
+    );
+    const sameProductMatch = await resolveCheapestListing(
+      sameProduct.documents,
+      "same_product"
+    );
+    if (sameProductMatch) {
+      return sameProductMatch;
+    }
+
+    // Same leaf category, any store
+    const product = await databases.getDocument(databaseId, PRODUCTS_COLLECTION_ID, productId);
+    if (!product.category_leaf_id) {
+      return null;
+    }
+
+    const sameCategory = await databases.listDocuments(
+      databaseId,
+      STORE_LOCATION_PRODUCT_COLLECTION_ID,
+      [
+        Query.equal("category_leaf_id", product.category_leaf_id),
+        Query.equal("in_stock", true),
+        Query.notEqual("product_id", productId),
+        Query.orderAsc("price_jmd_cents"),
+        Query.limit(SUBSTITUTE_CANDIDATE_LIMIT),
+      ]
+    );
+    return resolveCheapestListing(sameCategory.documents, "same_category");
+  } catch (error: any) {
+    // A missing substitute shouldn't block the rest of the reorder
+    console.warn(`[ReorderService] Failed to find substitute for ${productId}:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Checks every line of past orders against current availability and prices
+ *
+ * Does not modify the cart - callers add the available lines (and any
+ * substitutes the user accepts) with addToCart.
+ *
+ * @param orders - Orders to reorder (e.g. all sub-orders from one checkout)
+ * @returns Promise with one line per ordered item
+ */
+export async function buildReorderPlan(orders: Order[]): Promise<ReorderPlan> {
+  const lines = await Promise.all(
+    orders.flatMap((order) =>
+      order.items.map(async (item): Promise<ReorderLine> => {
+        const validation = await validateCartItem(toCartItem(order, item));
+        const base = {
+          orderItem: item,
+          storeId: order.storeId,
+          storeName: order.storeName,
+          storeLogoUrl: order.storeLogoUrl,
+          currentPriceJmdCents: validation.currentPriceJmdCents,
+          priceDifference: validation.priceDifference,
+        };
+
+        if (!validation.isAvailable) {
+          return {
+            ...base,
+            status: "unavailable",
+            substitute: await findSubstitute(item.productId, order.storeId),
+          };
+        }
+
+        return {
+          ...base,
+          status: validation.priceChanged ? "price_changed" : "available",
+          substitute: null,
+        };
+      })
+    )
+  );
+
+  const unavailableLines = lines.filter((line) => line.status === "unavailable");
+  const substitutableCount = unavailableLines.filter((line) => line.substitute).length;
+
+  return {
+    lines,
+    availableCount: lines.length - unavailableLines.length,
+    substitutableCount,
+    unavailableCount: unavailableLines.length - substitutableCount,
+  };
+}
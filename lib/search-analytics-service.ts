@@ -1,14 +1,69 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { databases, databaseId } from "./appwrite-client";
-import { ID, Permission, Role } from "appwrite";
+import { ID, Permission, Query, Role } from "appwrite";
+import { SearchInteractionType } from "./search/popularity";
 
 const SEARCH_ANALYTICS_COLLECTION_ID = "search_analytics";
 
+/** A search session ends after this long without a search or interaction */
+const SEARCH_SESSION_IDLE_MS = 30 * 60 * 1000;
+/** Add-to-cart and purchases count towards the search the product was found with, within this window */
+const PRODUCT_ATTRIBUTION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Events are sent in batches of this size */
+const ANALYTICS_BATCH_SIZE = 20;
+/** Queued events are sent at least this often */
+const ANALYTICS_FLUSH_INTERVAL_MS = 10 * 1000;
+/** Oldest events are dropped beyond this, so a long time offline can't grow the queue without bound */
+const MAX_QUEUED_EVENTS = 500;
+const ANALYTICS_QUEUE_STORAGE_KEY = "@grovi:search_analytics_queue";
+/** Longest product ID list stored on an impression event */
+const MAX_IMPRESSION_DETAIL_LENGTH = 2000;
+
+export type SearchAnalyticsEventType =
+  | "search"
+  | "impression"
+  | "refinement"
+  | SearchInteractionType;
+
+/**
+ * A search and everything done with its results (impressions, clicks,
+ * refinements) until the query changes or the user goes idle
+ */
+interface SearchSession {
+  id: string;
+  /** Sanitized, lowercased query */
+  query: string;
+  lastActivityAt: number;
+  /** Products shown in the session's results - the only ones interactions are credited for */
+  shownProductIds: Set<string>;
+}
+
+interface QueuedSearchAnalyticsEvent {
+  /** Document ID, generated up front so a retried send can't create a duplicate */
+  id: string;
+  data: Record<string, unknown>;
+}
+
+let currentSession: SearchSession | null = null;
+const productSearchAttribution = new Map<string, { query: string; sessionId: string; at: number }>();
+
+let eventQueue: QueuedSearchAnalyticsEvent[] = [];
+let queueLoaded: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let activeFlush: Promise<void> | null = null;
+
 export interface SearchAnalyticsEvent {
   $id: string;
   userId?: string; // Optional - may be null for anonymous searches
   query: string; // Sanitized query
   resultCount: number;
   isNoResult: boolean; // true if resultCount === 0
+  eventType?: SearchAnalyticsEventType; // Missing on older events (= "search")
+  sessionId?: string; // Search session the event belongs to
+  productId?: string; // Product interacted with (click, add_to_cart, purchase)
+  position?: number; // Rank position (0-based) - click: the result clicked, impression: first result shown
+  detail?: string; // impression: comma-separated product IDs shown, refinement: JSON of the change
   timestamp: string;
   createdAt: string;
 }
@@ -70,74 +125,80 @@ function sanitizeQuery(query: string): string {
 }
 
 /**
- * Creates a search analytics event in the database
- * This function is non-blocking - errors are logged but don't throw
- * to ensure analytics failures don't break the main search flow
+ * Continues the current search session if the query is the same and the user
+ * hasn't gone idle, otherwise starts a new one
+ */
+function startOrContinueSearchSession(sanitizedQuery: string, now: number = Date.now()): SearchSession {
+  const query = sanitizedQuery.toLowerCase();
+  if (
+    currentSession &&
+    currentSession.query === query &&
+    now - currentSession.lastActivityAt <= SEARCH_SESSION_IDLE_MS
+  ) {
+    currentSession.lastActivityAt = now;
+    return currentSession;
+  }
+  currentSession = { id: ID.unique(), query, lastActivityAt: now, shownProductIds: new Set() };
+  return currentSession;
+}
+
+/**
+ * Returns the current search session, unless the user has gone idle
+ */
+function getActiveSearchSession(now: number = Date.now()): SearchSession | null {
+  if (!currentSession || now - currentSession.lastActivityAt > SEARCH_SESSION_IDLE_MS) {
+    return null;
+  }
+  currentSession.lastActivityAt = now;
+  return currentSession;
+}
+
+/**
+ * Creates a search analytics event
+ * This function is non-blocking - the event is queued and sent in the
+ * background with the next batch (see flushSearchAnalytics), so analytics
+ * never hold up the search flow
  * 
  * @param params - Search analytics parameters
- * @returns Promise that resolves when event is logged (or silently fails)
+ * @returns Promise that resolves when event is queued (or silently skipped)
  */
 export async function logSearchEvent(
   params: CreateSearchAnalyticsParams
 ): Promise<void> {
-  try {
-    const { userId, query, resultCount } = params;
+  const { userId, query, resultCount } = params;
 
-    // Sanitize query to remove PII
-    const sanitizedQuery = sanitizeQuery(query);
+  // Sanitize query to remove PII
+  const sanitizedQuery = sanitizeQuery(query);
 
-    // Skip logging if query is empty after sanitization
-    if (!sanitizedQuery || sanitizedQuery.trim().length === 0) {
-      if (__DEV__) {
-        console.warn("[SearchAnalytics] Skipping log - query empty after sanitization");
-      }
-      return;
+  // Skip logging if query is empty after sanitization
+  if (!sanitizedQuery || sanitizedQuery.trim().length === 0) {
+    if (__DEV__) {
+      console.warn("[SearchAnalytics] Skipping log - query empty after sanitization");
     }
+    return;
+  }
 
-    const isNoResult = resultCount === 0;
-
-    // Prepare permissions
-    // All authenticated users can read and write (for analytics)
-    // Document-level permissions allow users to write their own logs
-    const permissions = [
-      Permission.read(Role.users()), // All authenticated users can read
-      Permission.write(Role.users()), // All authenticated users can write
-    ];
+  const isNoResult = resultCount === 0;
+  const session = startOrContinueSearchSession(sanitizedQuery);
 
-    // Create analytics event document
-    await databases.createDocument(
-      databaseId,
-      SEARCH_ANALYTICS_COLLECTION_ID,
-      ID.unique(),
-      {
-        userId: userId || null,
-        query: sanitizedQuery,
-        resultCount,
-        isNoResult,
-        timestamp: new Date().toISOString(),
-      },
-      permissions
-    );
+  enqueueSearchAnalyticsEvent({
+    userId: userId || null,
+    query: sanitizedQuery,
+    resultCount,
+    isNoResult,
+    eventType: "search",
+    sessionId: session.id,
+    timestamp: new Date().toISOString(),
+  });
 
-    if (__DEV__) {
-      console.log("[SearchAnalytics] Search event logged:", {
-        query: sanitizedQuery,
-        resultCount,
-        isNoResult,
-        userId: userId || "anonymous",
-      });
-    }
-  } catch (error: any) {
-    // Silently fail - analytics logging should never break the main flow
-    // Log to console for debugging in development
-    if (__DEV__) {
-      console.warn("[SearchAnalytics] Failed to log search event:", {
-        query: params.query.substring(0, 50), // Log first 50 chars only
-        resultCount: params.resultCount,
-        userId: params.userId || "anonymous",
-        error: error.message,
-      });
-    }
+  if (__DEV__) {
+    console.log("[SearchAnalytics] Search event queued:", {
+      query: sanitizedQuery,
+      resultCount,
+      isNoResult,
+      sessionId: session.id,
+      userId: userId || "anonymous",
+    });
   }
 }
 
@@ -160,3 +221,295 @@ export async function logSearchResults(
     resultCount: results.length,
   });
 }
+
+/**
+ * Counts recent searches per query, for weighting search suggestions
+ * Only searches that found results are counted. Returns an empty map on
+ * failure - popularity is a nice-to-have for suggestions.
+ *
+ * @param days - How far back to look
+ * @param maxEvents - Most recent events to read at most
+ * @returns Promise with search counts keyed by lowercased query
+ */
+export async function getPopularSearchQueries(
+  days: number = 30,
+  maxEvents: number = 2000
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  try {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const response = await databases.listDocuments(
+      databaseId,
+      SEARCH_ANALYTICS_COLLECTION_ID,
+      [
+        Query.greaterThan("timestamp", since),
+        Query.equal("isNoResult", false),
+        // Searches only - interactions and refinements share the collection (older searches have no eventType)
+        Query.or([Query.equal("eventType", "search"), Query.isNull("eventType")]),
+        Query.orderDesc("timestamp"),
+        Query.select(["query"]),
+        Query.limit(maxEvents),
+      ]
+    );
+
+    for (const doc of response.documents as any[]) {
+      const query = String(doc.query || "").toLowerCase().trim();
+      // Skip queries where sanitization replaced PII
+      if (!query || query.includes("[")) continue;
+      counts[query] = (counts[query] || 0) + 1;
+    }
+  } catch (error: any) {
+    if (__DEV__) {
+      console.warn("[SearchAnalytics] Failed to load popular queries:", error.message);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Logs a click, add-to-cart or purchase against the search that led to it
+ * Only interactions with a product the session's results actually showed
+ * (see logSearchImpressions) are logged - they feed search ranking (see
+ * lib/search/popularity.ts), so a product found some other way while a search
+ * is open isn't credited to that query. Queued like logSearchEvent, so this
+ * never blocks.
+ *
+ * @param userId - User ID (optional, null for anonymous)
+ * @param productId - Product interacted with
+ * @param eventType - What the user did
+ * @param position - Rank position (0-based) of the product in the results, for clicks
+ */
+export async function logSearchInteraction(
+  userId: string | null | undefined,
+  productId: string,
+  eventType: SearchInteractionType,
+  position?: number
+): Promise<void> {
+  const now = Date.now();
+  let attribution: { query: string; sessionId: string } | null = null;
+
+  const found = productSearchAttribution.get(productId);
+  if (eventType !== "click" && found && now - found.at <= PRODUCT_ATTRIBUTION_WINDOW_MS) {
+    // Added or bought after being found through a search earlier
+    attribution = found;
+  } else if (eventType !== "purchase") {
+    // A click or add-to-cart straight from the current results
+    const session = getActiveSearchSession(now);
+    if (session && session.shownProductIds.has(productId)) {
+      attribution = { query: session.query, sessionId: session.id };
+      productSearchAttribution.set(productId, { ...attribution, at: now });
+    }
+  }
+  if (eventType === "purchase") {
+    productSearchAttribution.delete(productId);
+  }
+
+  if (!attribution) return;
+
+  enqueueSearchAnalyticsEvent({
+    userId: userId || null,
+    query: attribution.query,
+    resultCount: 0,
+    isNoResult: false,
+    eventType,
+    sessionId: attribution.sessionId,
+    productId,
+    position: position ?? null,
+    timestamp: new Date(now).toISOString(),
+  });
+}
+
+/**
+ * Logs which results were shown for a search (one event per page)
+ * @param userId - User ID (optional, null for anonymous)
+ * @param query - Search query (will be sanitized)
+ * @param productIds - Products shown, in rank order
+ * @param startPosition - Rank position (0-based) of the first product shown
+ */
+export async function logSearchImpressions(
+  userId: string | null | undefined,
+  query: string,
+  productIds: string[],
+  startPosition: number
+): Promise<void> {
+  const sanitizedQuery = sanitizeQuery(query);
+  if (!sanitizedQuery || productIds.length === 0) return;
+  const session = startOrContinueSearchSession(sanitizedQuery);
+  productIds.forEach((productId) => session.shownProductIds.add(productId));
+
+  let detail = "";
+  for (const productId of productIds) {
+    const next = detail ? `${detail},${productId}` : productId;
+    if (next.length > MAX_IMPRESSION_DETAIL_LENGTH) break;
+    detail = next;
+  }
+
+  enqueueSearchAnalyticsEvent({
+    userId: userId || null,
+    query: sanitizedQuery,
+    resultCount: productIds.length,
+    isNoResult: false,
+    eventType: "impression",
+    sessionId: session.id,
+    position: startPosition,
+    detail,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export type SearchRefinement =
+  | { type: "filter"; filters: Record<string, unknown> }
+  | { type: "sort"; sortMode: string };
+
+/**
+ * Logs a filter or sort change on a search's results
+ * @param userId - User ID (optional, null for anonymous)
+ * @param query - Search query being refined (will be sanitized)
+ * @param refinement - What changed
+ */
+export async function logSearchRefinement(
+  userId: string | null | undefined,
+  query: string,
+  refinement: SearchRefinement
+): Promise<void> {
+  const sanitizedQuery = sanitizeQuery(query);
+  if (!sanitizedQuery) return;
+  const session = startOrContinueSearchSession(sanitizedQuery);
+
+  enqueueSearchAnalyticsEvent({
+    userId: userId || null,
+    query: sanitizedQuery,
+    resultCount: 0,
+    isNoResult: false,
+    eventType: "refinement",
+    sessionId: session.id,
+    detail: JSON.stringify(refinement).substring(0, MAX_IMPRESSION_DETAIL_LENGTH),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Restores events queued before the app was last closed (once)
+ */
+function loadEventQueue(): Promise<void> {
+  if (!queueLoaded) {
+    queueLoaded = AsyncStorage.getItem(ANALYTICS_QUEUE_STORAGE_KEY)
+      .then((raw) => {
+        if (!raw) return;
+        const stored = JSON.parse(raw) as QueuedSearchAnalyticsEvent[];
+        const queuedIds = new Set(eventQueue.map((event) => event.id));
+        eventQueue = [...stored.filter((event) => !queuedIds.has(event.id)), ...eventQueue];
+      })
+      .catch((error) => {
+        console.warn("[SearchAnalytics] Failed to restore queued events:", error);
+      });
+  }
+  return queueLoaded;
+}
+
+/**
+ * Saves the queue in background (non-blocking), so events survive app restarts
+ */
+function saveEventQueueInBackground(): void {
+  AsyncStorage.setItem(ANALYTICS_QUEUE_STORAGE_KEY, JSON.stringify(eventQueue)).catch((error) => {
+    console.warn("[SearchAnalytics] Failed to save queued events:", error);
+  });
+}
+
+function scheduleFlush(): void {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushSearchAnalyticsInBackground();
+  }, ANALYTICS_FLUSH_INTERVAL_MS);
+}
+
+function enqueueSearchAnalyticsEvent(data: Record<string, unknown>): void {
+  const event: QueuedSearchAnalyticsEvent = { id: ID.unique(), data };
+  eventQueue.push(event);
+
+  loadEventQueue().then(() => {
+    if (eventQueue.length > MAX_QUEUED_EVENTS) {
+      eventQueue = eventQueue.slice(eventQueue.length - MAX_QUEUED_EVENTS);
+    }
+    saveEventQueueInBackground();
+    if (eventQueue.length >= ANALYTICS_BATCH_SIZE) {
+      flushSearchAnalyticsInBackground();
+    } else {
+      scheduleFlush();
+    }
+  });
+}
+
+/**
+ * Whether a failed send is worth retrying (offline, server error, rate limit)
+ * Other errors mean the event itself was rejected, so it's dropped
+ */
+function isRetryableError(error: any): boolean {
+  const code = typeof error?.code === "number" ? error.code : 0;
+  return code === 0 || code === 408 || code === 429 || code >= 500;
+}
+
+/**
+ * Sends queued events in batches
+ * Events that fail with a retryable error stay queued for the next flush.
+ * Concurrent calls share one flush.
+ */
+export async function flushSearchAnalytics(): Promise<void> {
+  if (activeFlush) return activeFlush;
+
+  activeFlush = (async () => {
+    await loadEventQueue();
+    // Events can't be edited once sent - popularity is aggregated from them (scripts/search-popularity.ts)
+    const permissions = [Permission.read(Role.users())];
+
+    while (eventQueue.length > 0) {
+      const batch = eventQueue.slice(0, ANALYTICS_BATCH_SIZE);
+      const outcomes = await Promise.allSettled(
+        batch.map((event) =>
+          databases.createDocument(
+            databaseId,
+            SEARCH_ANALYTICS_COLLECTION_ID,
+            event.id,
+            event.data,
+            permissions
+          )
+        )
+      );
+
+      const retryIds = new Set<string>();
+      outcomes.forEach((outcome, index) => {
+        if (outcome.status === "fulfilled") return;
+        const error: any = outcome.reason;
+        // 409: sent by an earlier attempt whose response was lost
+        if (error?.code !== 409 && isRetryableError(error)) {
+          retryIds.add(batch[index].id);
+        } else if (error?.code !== 409 && __DEV__) {
+          console.warn("[SearchAnalytics] Dropping rejected event:", error?.message);
+        }
+      });
+
+      const batchIds = new Set(batch.map((event) => event.id));
+      eventQueue = eventQueue.filter((event) => !batchIds.has(event.id) || retryIds.has(event.id));
+      saveEventQueueInBackground();
+
+      if (retryIds.size > 0) {
+        scheduleFlush();
+        break;
+      }
+    }
+  })().finally(() => {
+    activeFlush = null;
+  });
+
+  return activeFlush;
+}
+
+/**
+ * Sends queued events in background (non-blocking)
+ */
+export function flushSearchAnalyticsInBackground(): void {
+  flushSearchAnalytics().catch((error) => {
+    console.warn("[SearchAnalytics] Background flush failed (non-critical):", error);
+  });
+}
@@ -1,15 +1,72 @@
 import { Query } from "appwrite";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { databases, databaseId } from "./appwrite-client";
 import { SearchSuggestion } from "../components/SearchBar";
 import {
   rankResults,
   RankingUserPrefs,
   SortMode,
+  PopularityLookup,
   normalizeText,
 } from "./search/ranking";
 import { UserPreferences } from "./preferences-service";
-import { normalizeJamaicanTerms, expandQueryWithSynonyms } from "./search/jamaican-terms";
-import { logSearchResults } from "./search-analytics-service";
+import {
+  normalizeJamaicanTerms,
+  expandQueryWithSynonyms,
+  getSearchTermDictionary,
+  SearchTermDictionary,
+} from "./search/jamaican-terms";
+import {
+  logSearchResults,
+  logSearchImpressions,
+  getPopularSearchQueries,
+} from "./search-analytics-service";
+import {
+  getPopularityScore,
+  parsePopularityScoreRows,
+  toPopularityQueryKey,
+  PopularityScoreRow,
+} from "./search/popularity";
+import {
+  buildSearchKey,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  getSearchSnapshot,
+  saveSearchSnapshot,
+  SearchSnapshot,
+  MAX_SEARCH_SNAPSHOTS,
+  SEARCH_SNAPSHOT_TTL_MS,
+} from "./search/pagination";
+import { LruCache, PersistentSnapshot, dedupeInFlight } from "./search/query-cache";
+import {
+  buildSuggestionTrie,
+  SuggestionSource,
+  SuggestionTrie,
+  toSuggestionKey,
+} from "./search/suggestion-trie";
+import {
+  buildRecoveryVocabulary,
+  planQueryRecovery,
+  RecoveryPlan,
+  RecoveryVocabulary,
+} from "./search/query-recovery";
+import {
+  searchOfflineCatalog,
+  isCatalogReachable,
+  isLikelyOffline,
+  isNetworkError,
+} from "./offline-catalog-service";
+import { loadSearchTermDictionaryInBackground } from "./search-synonyms-service";
+import { filterByQueryAttributes } from "./search/query-parser";
+import { buildCategoryTree, getCategorySubtreeIds, CategoryTree } from "./search/category-tree";
+import { matchesDietaryTags } from "./search/dietary";
+import {
+  estimateDeliveryMinutes,
+  getDeliveryCoordinates,
+  getDeliveryDistanceKm,
+  QUICK_DELIVERY_MINUTES,
+} from "./search/delivery-estimate";
+import { normalizeJamaicaParish } from "./jamaica-parishes";
 
 /**
  * Core Search Backend Service
@@ -34,6 +91,54 @@ const PRODUCTS_COLLECTION_ID = "products";
 const CATEGORIES_COLLECTION_ID = "categories";
 const STORE_LOCATIONS_COLLECTION_ID = "store_location"; // Note: singular, not plural
 const STORE_BRAND_COLLECTION_ID = "store_brand";
+const SEARCH_POPULARITY_COLLECTION_ID = "search_popularity";
+
+// Caches for repeated lookups (see lib/search/query-cache.ts)
+// Documents by ID expire after 5 minutes so prices, stock and store status stay fresh
+const DOCUMENT_CACHE_TTL_MS = 5 * 60 * 1000;
+// Category tree and brand list change rarely - refresh twice a day
+const LIST_SNAPSHOT_TTL_MS = 12 * 60 * 60 * 1000;
+
+const productCache = new LruCache<Product>("products", 2000, DOCUMENT_CACHE_TTL_MS);
+const storeLocationCache = new LruCache<StoreLocation>("storeLocations", 500, DOCUMENT_CACHE_TTL_MS);
+const storeBrandCache = new LruCache<{ logo_url?: string }>("storeBrands", 200, DOCUMENT_CACHE_TTL_MS);
+const categorySnapshot = new PersistentSnapshot<Category[]>("categories", LIST_SNAPSHOT_TTL_MS, AsyncStorage);
+const brandListSnapshot = new PersistentSnapshot<string[]>("brands", LIST_SNAPSHOT_TTL_MS, AsyncStorage);
+const suggestionSourceSnapshot = new PersistentSnapshot<SuggestionSource>(
+  "suggestions",
+  LIST_SNAPSHOT_TTL_MS,
+  AsyncStorage
+);
+// Popularity scores are re-aggregated daily (scripts/search-popularity.ts), so an hour-old copy is current enough
+const POPULARITY_TTL_MS = 60 * 60 * 1000;
+/** Overall scores - kept on the device so offline search can use them */
+const popularitySnapshot = new PersistentSnapshot<Record<string, number>>("popularityScores", POPULARITY_TTL_MS, AsyncStorage);
+/** Per-query scores, keyed by popularity query key */
+const queryPopularityCache = new LruCache<Record<string, number>>("queryPopularity", 200, POPULARITY_TTL_MS);
+/** Most overall / per-query scores read (the table holds about this many) */
+const MAX_OVERALL_POPULARITY_SCORES = 1000;
+const MAX_QUERY_POPULARITY_SCORES = 100;
+/** Built for a source and synonym dictionary - rebuilt when either changes */
+let suggestionTrie: {
+  source: SuggestionSource;
+  dictionary: SearchTermDictionary;
+  trie: SuggestionTrie;
+} | null = null;
+let recoveryVocabulary: { source: SuggestionSource; vocabulary: RecoveryVocabulary } | null = null;
+/** Category hierarchy, rebuilt when the category list is reloaded */
+let categoryTree: { categories: Category[]; tree: CategoryTree<Category> } | null = null;
+/** Searches (by search key, ignoring sort) that found nothing even after recovery */
+const zeroResultSearches = new LruCache<true>("zeroResultSearches", 200, DOCUMENT_CACHE_TTL_MS);
+/** How each zero-result search snapshot was recovered, keyed by snapshot ID */
+const snapshotRecoveries = new LruCache<SearchRecovery>("searchRecoveries", MAX_SEARCH_SNAPSHOTS, SEARCH_SNAPSHOT_TTL_MS);
+/** Most store_location_product rows a search fetches and ranks */
+const MAX_SEARCH_CANDIDATES = 1000;
+/** Products the suggestion trie is built from - the most popular, topped up from the catalog */
+const MAX_SUGGESTION_PRODUCTS = 1000;
+/** Catalog titles looked up for a prefix the trie can't fill, cached per prefix */
+const lazySuggestionCache = new LruCache<SuggestionSource["products"]>("lazySuggestions", 200, LIST_SNAPSHOT_TTL_MS);
+const LAZY_SUGGESTION_LIMIT = 10;
+const MIN_LAZY_SUGGESTION_LENGTH = 3;
 
 // Type definitions (matching actual database schema)
 // Image object structure from Appwrite
@@ -51,6 +156,8 @@ export interface Product {
   unit_size?: string; // Optional: e.g., "500g", "1L", "296 ml"
   package_quantity?: number; // Optional: e.g., 16 (units per package)
   net_weight?: string; // Optional: e.g., "500g"
+  dietary_tags?: string[]; // Optional: e.g., ["vegan", "gluten_free", "halal"] (see lib/search/dietary.ts)
+  allergens?: string[]; // Optional: allergens the product contains, e.g., ["dairy", "soy"]
   country_of_origin?: string; // Optional: country where product is from (future)
   primary_image_url?: string; // Primary image URL
   images?: ProductImageObject[] | string; // Array of image objects or JSON string
@@ -70,6 +177,11 @@ export interface Category {
   $id: string;
   name: string;
   parentId?: string;
+  parent_id?: string | null; // Parent category (null for departments)
+  depth?: number; // 0 for departments
+  path_ids?: string[]; // Department down to this category
+  path_names?: string[]; // Names for path_ids, e.g. ["Groceries", "Canned Goods"]
+  slug?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -86,9 +198,9 @@ export interface StoreLocation {
   address_line2?: string;
   phone?: string;
   priority?: number;
-  delivery_time_minutes?: number; // Optional: estimated delivery time in minutes - for future use
-  latitude?: number; // Optional: store latitude - for future use
-  longitude?: number; // Optional: store longitude - for future use
+  delivery_time_minutes?: number; // Optional: delivery time in minutes to the store's local area
+  latitude?: number; // Optional: store latitude
+  longitude?: number; // Optional: store longitude
   logo_url?: string; // Optional: store logo image URL
   createdAt?: string;
   updatedAt?: string;
@@ -123,6 +235,11 @@ export interface SearchResult {
   inStock: boolean;
   sku: string;
   relevanceScore?: number; // Optional relevance score for debugging
+  lastSeenAt?: string | null; // Offline results only: when the price was last confirmed
+  possiblyStale?: boolean; // Offline results only: price/stock may have changed since lastSeenAt
+  deliveryEstimateMinutes?: number | null; // ETA to filters.deliveryAddress, null if the store can't be estimated
+  deliveryAddress?: { latitude: number; longitude: number }; // filters.deliveryAddress coordinates (for distance_asc)
+  distanceKm?: number | null; // Store (or its parish centre) to delivery address, null if either location is unknown
 }
 
 /**
@@ -143,6 +260,12 @@ export interface ProductFilters {
   deliveryParish?: string;
   /** Filter stores by specific store location IDs */
   storeLocationIds?: string[];
+  /** Only products with every one of these dietary tags (e.g. "vegan", "gluten_free") */
+  dietaryTags?: string[];
+  /** The user's selected delivery address, for delivery estimates and distance sorting */
+  deliveryAddress?: { parish: string; community?: string; latitude?: number; longitude?: number };
+  /** Only stores estimated to deliver within QUICK_DELIVERY_MINUTES (see delivery-estimate.ts) */
+  quickDelivery?: boolean;
 }
 
 /**
@@ -153,8 +276,10 @@ export interface PaginationOptions {
   page?: number;
   /** Number of items per page */
   pageSize?: number;
-  /** Offset for cursor-based pagination (alternative to page) */
+  /** Offset into the ranked results (alternative to page) */
   offset?: number;
+  /** nextCursor from the previous page (takes precedence over page and offset) */
+  cursor?: string | null;
 }
 
 /**
@@ -173,6 +298,22 @@ export interface PaginatedSearchResults {
   pageSize: number;
   /** Whether there are more results */
   hasMore: boolean;
+  /** Opaque cursor for the next page (null on the last page) */
+  nextCursor: string | null;
+  /** Set when the query found nothing and results are for its corrected spelling */
+  didYouMean?: string | null;
+  /** Set when the query found nothing and results are for a broader query or a category */
+  relaxedQuery?: string | null;
+}
+
+/**
+ * What a zero-result search was answered with instead
+ */
+export interface SearchRecovery {
+  /** Corrected spelling of the query ("ackee" for "akee") */
+  didYouMean: string | null;
+  /** Broader query the results are for - a word dropped, or a category name */
+  relaxedQuery: string | null;
 }
 
 // Ranking logic has been moved to lib/search/ranking.ts
@@ -193,133 +334,193 @@ function convertUserPrefsToRankingPrefs(
 }
 
 /**
- * Get search suggestions based on query from Appwrite
- * Fetches real suggestions from products, categories, and brands
- * Includes typo tolerance and Jamaican term normalization
+ * Fetches the product titles and brands the suggestion trie is built from
+ * Capped at MAX_SUGGESTION_PRODUCTS: the most popular products (see
+ * getSearchPopularity), topped up with a page of the catalog. Titles outside
+ * the set are looked up when typed (see fetchLazySuggestionProducts).
+ * Only the fields suggestions need are selected, and the requests run in parallel.
  */
-export async function getSearchSuggestions(
-  query: string,
-  limit: number = 10
-): Promise<SearchSuggestion[]> {
-  if (!query || query.trim().length === 0) {
-    return [];
-  }
-
-  // Normalize query with Jamaican terms for better matching
-  const normalizedQuery = normalizeText(normalizeJamaicanTerms(query.toLowerCase().trim()));
-  const suggestions: SearchSuggestion[] = [];
-
+async function fetchSuggestionProducts(): Promise<SuggestionSource["products"]> {
+  let popularIds: string[] = [];
   try {
-    // Fetch product suggestions (by title)
-    try {
-      const productsResponse = await databases.listDocuments(
-        databaseId,
-        PRODUCTS_COLLECTION_ID,
-        [
-          Query.search("title", normalizedQuery),
-          Query.limit(Math.ceil(limit * 0.6)), // 60% products
-        ]
-      );
-
-      productsResponse.documents.forEach((doc: any) => {
-        suggestions.push({
-          id: doc.$id,
-          text: doc.title,
-          type: "product",
-        });
-      });
-    } catch (error: any) {
-      console.warn("Error fetching product suggestions:", error.message);
-    }
-
-    // Fetch category suggestions (by name)
-    try {
-      const categoriesResponse = await databases.listDocuments(
-        databaseId,
-        CATEGORIES_COLLECTION_ID,
-        [
-          Query.limit(100), // Get all to filter in memory
-        ]
-      );
+    const overall = await popularitySnapshot.get(() =>
+      fetchPopularityScores(null, MAX_OVERALL_POPULARITY_SCORES)
+    );
+    popularIds = Object.entries(overall)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_SUGGESTION_PRODUCTS)
+      .map(([productId]) => productId);
+  } catch (error: any) {
+    console.warn("Error loading popular products for suggestions:", error.message);
+  }
 
-      const matchingCategories = categoriesResponse.documents
-        .filter((doc: any) =>
-          doc.name && doc.name.toLowerCase().includes(normalizedQuery)
-        )
-        .slice(0, Math.ceil(limit * 0.3)); // 30% categories
+  const select = Query.select(["$id", "title", "brand"]);
+  const requests: Promise<{ documents: any[] }>[] = [];
+  const batchSize = 100;
+  for (let i = 0; i < popularIds.length; i += batchSize) {
+    requests.push(
+      databases.listDocuments(databaseId, PRODUCTS_COLLECTION_ID, [
+        select,
+        Query.equal("$id", popularIds.slice(i, i + batchSize)),
+        Query.limit(batchSize),
+      ])
+    );
+  }
+  if (popularIds.length < MAX_SUGGESTION_PRODUCTS) {
+    requests.push(
+      databases.listDocuments(databaseId, PRODUCTS_COLLECTION_ID, [
+        select,
+        Query.limit(MAX_SUGGESTION_PRODUCTS - popularIds.length),
+      ])
+    );
+  }
 
-      matchingCategories.forEach((doc: any) => {
-        suggestions.push({
-          id: doc.$id,
-          text: doc.name,
-          type: "category",
-        });
-      });
-    } catch (error: any) {
-      console.warn("Error fetching category suggestions:", error.message);
+  // Popular products first, so the catalog page only fills the remaining room
+  const products = new Map<string, SuggestionSource["products"][number]>();
+  for (const response of await Promise.all(requests)) {
+    for (const doc of response.documents) {
+      if (products.size >= MAX_SUGGESTION_PRODUCTS) break;
+      if (!products.has(doc.$id)) {
+        products.set(doc.$id, { $id: doc.$id, title: doc.title, brand: doc.brand || undefined });
+      }
     }
+  }
+  return Array.from(products.values());
+}
 
-    // Fetch brand suggestions (from products)
-    try {
-      const productsForBrands = await databases.listDocuments(
-        databaseId,
-        PRODUCTS_COLLECTION_ID,
-        [
-          Query.contains("brand", normalizedQuery),
-          Query.limit(50), // Get more to extract unique brands
-        ]
-      );
-
-      const brandSet = new Set<string>();
-      productsForBrands.documents.forEach((doc: any) => {
-        if (doc.brand && doc.brand.toLowerCase().includes(normalizedQuery)) {
-          brandSet.add(doc.brand);
-        }
-      });
+/**
+ * Fetches catalog titles matching a prefix, for suggestions the trie's
+ * capped product set can't fill (cached per prefix)
+ */
+async function fetchLazySuggestionProducts(prefix: string): Promise<SuggestionSource["products"]> {
+  const key = toSuggestionKey(prefix);
+  const cached = lazySuggestionCache.peek(key);
+  if (cached) return cached;
+
+  return dedupeInFlight(`suggestions:${key}`, async () => {
+    const response = await databases.listDocuments(databaseId, PRODUCTS_COLLECTION_ID, [
+      Query.search("title", key),
+      Query.select(["$id", "title", "brand"]),
+      Query.limit(LAZY_SUGGESTION_LIMIT),
+    ]);
+    const products = (response.documents as any[]).map((doc) => ({
+      $id: doc.$id,
+      title: doc.title,
+      brand: doc.brand || undefined,
+    }));
+    lazySuggestionCache.set(key, products);
+    return products;
+  });
+}
 
-      const brandSuggestions = Array.from(brandSet)
-        .slice(0, Math.ceil(limit * 0.1)) // 10% brands
-        .map((brand, index) => ({
-          id: `brand_${index}_${brand}`,
-          text: brand,
-          type: "product" as const, // Brands are shown as product type
-        }));
+/**
+ * Returns the popular catalog titles, brands, categories and popular queries
+ * that suggestions and zero-result recovery are built from
+ */
+function getSuggestionSource(): Promise<SuggestionSource> {
+  return suggestionSourceSnapshot.get(async () => {
+    const [products, categories, popularQueries] = await Promise.all([
+      fetchSuggestionProducts(),
+      getAllCategories(),
+      getPopularSearchQueries(),
+    ]);
+    return {
+      products,
+      categories: categories.map((category) => ({ $id: category.$id, name: category.name })),
+      popularQueries,
+    };
+  });
+}
 
-      suggestions.push(...brandSuggestions);
-    } catch (error: any) {
-      console.warn("Error fetching brand suggestions:", error.message);
-    }
+/**
+ * Returns the catalog vocabulary for zero-result recovery, rebuilt when the
+ * suggestion source is refreshed
+ */
+async function getRecoveryVocabulary(): Promise<RecoveryVocabulary> {
+  const source = await getSuggestionSource();
+  if (!recoveryVocabulary || recoveryVocabulary.source !== source) {
+    recoveryVocabulary = { source, vocabulary: buildRecoveryVocabulary(source) };
+  }
+  return recoveryVocabulary.vocabulary;
+}
 
-    // Sort by relevance (exact matches first, then partial matches)
-    const sorted = suggestions.sort((a, b) => {
-      const aText = a.text.toLowerCase();
-      const bText = b.text.toLowerCase();
+/**
+ * Returns the suggestion trie, building it on first use
+ * Once built, lookups never wait on the network: an expired source is
+ * refreshed in the background and the trie swapped when it arrives.
+ */
+async function getSuggestionTrie(): Promise<SuggestionTrie> {
+  const refresh = getSuggestionSource()
+    .then((source) => {
+      const dictionary = getSearchTermDictionary();
+      if (
+        !suggestionTrie ||
+        suggestionTrie.source !== source ||
+        suggestionTrie.dictionary !== dictionary
+      ) {
+        suggestionTrie = { source, dictionary, trie: buildSuggestionTrie(source) };
+      }
+      return suggestionTrie.trie;
+    });
 
-      const aStartsWith = aText.startsWith(normalizedQuery);
-      const bStartsWith = bText.startsWith(normalizedQuery);
+  if (suggestionTrie) {
+    refresh.catch((error) => {
+      console.warn("Error refreshing search suggestions:", error);
+    });
+    return suggestionTrie.trie;
+  }
+  return refresh;
+}
 
-      if (aStartsWith && !bStartsWith) return -1;
-      if (!aStartsWith && bStartsWith) return 1;
+/**
+ * Get search-as-you-type suggestions
+ * Answered from a local prefix trie of popular product titles, brands,
+ * categories, Jamaican terms and popular searches. Only the first call (to
+ * build the trie) and a prefix the trie can't fill wait on the network - the
+ * latter looks up matching catalog titles once per prefix.
+ */
+export async function getSearchSuggestions(
+  query: string,
+  limit: number = 10
+): Promise<SearchSuggestion[]> {
+  if (!query || query.trim().length === 0) {
+    return [];
+  }
 
-      // If both start with query, prefer shorter matches
-      if (aStartsWith && bStartsWith) {
-        return aText.length - bText.length;
+  try {
+    const trie = await getSuggestionTrie();
+    const entries = trie.lookup(query, limit);
+
+    // Also try the corrected spelling ("graece" -> "grace") if there's room
+    const corrected = normalizeJamaicanTerms(query.toLowerCase().trim());
+    if (entries.length < limit && corrected !== query.toLowerCase().trim()) {
+      const seen = new Set(entries.map((entry) => entry.text.toLowerCase()));
+      for (const entry of trie.lookup(corrected, limit)) {
+        if (entries.length >= limit) break;
+        if (!seen.has(entry.text.toLowerCase())) {
+          entries.push(entry);
+        }
       }
+    }
 
-      return aText.localeCompare(bText);
-    });
-
-    // Remove duplicates and limit results
-    const uniqueSuggestions = new Map<string, SearchSuggestion>();
-    for (const suggestion of sorted) {
-      const key = suggestion.text.toLowerCase();
-      if (!uniqueSuggestions.has(key)) {
-        uniqueSuggestions.set(key, suggestion);
-        if (uniqueSuggestions.size >= limit) break;
+    // Titles outside the trie's capped product set
+    if (entries.length < limit && toSuggestionKey(query).length >= MIN_LAZY_SUGGESTION_LENGTH) {
+      try {
+        const products = await fetchLazySuggestionProducts(query);
+        const lazyTrie = buildSuggestionTrie({ products, categories: [], includeSynonyms: false });
+        const seen = new Set(entries.map((entry) => entry.text.toLowerCase()));
+        for (const entry of lazyTrie.lookup(query, limit)) {
+          if (entries.length >= limit) break;
+          if (!seen.has(entry.text.toLowerCase())) {
+            entries.push(entry);
+          }
+        }
+      } catch (error: any) {
+        console.warn("Error looking up catalog suggestions:", error.message);
       }
     }
 
-    return Array.from(uniqueSuggestions.values());
+    return entries.map((entry) => ({ id: entry.id, text: entry.text, type: entry.type }));
   } catch (error: any) {
     console.error("Error fetching search suggestions:", error);
     return [];
@@ -331,38 +532,54 @@ export async function getSearchSuggestions(
  */
 export async function getAllCategories(): Promise<Category[]> {
   try {
-    const response = await databases.listDocuments(
-      databaseId,
-      CATEGORIES_COLLECTION_ID,
-      [Query.limit(1000)]
-    );
-    return response.documents as Category[];
+    return await categorySnapshot.get(async () => {
+      const response = await databases.listDocuments(
+        databaseId,
+        CATEGORIES_COLLECTION_ID,
+        [Query.limit(1000)]
+      );
+      return response.documents as unknown as Category[];
+    });
   } catch (error: any) {
     console.error("Error fetching all categories:", error);
     return [];
   }
 }
 
+/**
+ * Get the category hierarchy for browsing (departments down to leaf categories)
+ * Built from getAllCategories, so it's cached the same way
+ */
+export async function getCategoryTree(): Promise<CategoryTree<Category>> {
+  const categories = await getAllCategories();
+  if (!categoryTree || categoryTree.categories !== categories) {
+    categoryTree = { categories, tree: buildCategoryTree(categories) };
+  }
+  return categoryTree.tree;
+}
+
 /**
  * Get all unique brands from products for filter selection
  */
 export async function getAllBrands(): Promise<string[]> {
   try {
-    // Fetch a sample of products to extract brands
-    const response = await databases.listDocuments(
-      databaseId,
-      PRODUCTS_COLLECTION_ID,
-      [Query.limit(1000)]
-    );
-    
-    const brands = new Set<string>();
-    response.documents.forEach((doc: any) => {
-      if (doc.brand && doc.brand.trim()) {
-        brands.add(doc.brand);
-      }
+    return await brandListSnapshot.get(async () => {
+      // Fetch a sample of products to extract brands
+      const response = await databases.listDocuments(
+        databaseId,
+        PRODUCTS_COLLECTION_ID,
+        [Query.limit(1000)]
+      );
+
+      const brands = new Set<string>();
+      response.documents.forEach((doc: any) => {
+        if (doc.brand && doc.brand.trim()) {
+          brands.add(doc.brand);
+        }
+      });
+
+      return Array.from(brands).sort();
     });
-    
-    return Array.from(brands).sort();
   } catch (error: any) {
     console.error("Error fetching all brands:", error);
     return [];
@@ -371,12 +588,20 @@ export async function getAllBrands(): Promise<string[]> {
 
 /**
  * Get all active store location IDs
+ * Concurrent searches share one request
+ */
+async function getActiveStoreLocationIds(): Promise<string[]> {
+  return dedupeInFlight("storeLocations:active", fetchActiveStoreLocationIds);
+}
+
+/**
+ * Fetch all active store location IDs
  * 
  * First tries to fetch from store_location collection.
  * If that fails (permissions issue), falls back to getting distinct
  * store_location_ids from store_location_product collection.
  */
-async function getActiveStoreLocationIds(): Promise<string[]> {
+async function fetchActiveStoreLocationIds(): Promise<string[]> {
   // Try to fetch from store_location collection first
   try {
     const response = await databases.listDocuments(
@@ -559,19 +784,15 @@ async function searchCategoriesByName(
   try {
     const normalizedQuery = query.toLowerCase().trim();
     
-    // Fetch categories and filter in memory for case-insensitive matching
-    const response = await databases.listDocuments(
-      databaseId,
-      CATEGORIES_COLLECTION_ID,
-      [Query.limit(1000)] // Get all categories to filter
-    );
+    // Filter the cached category tree in memory for case-insensitive matching
+    const categories = await getAllCategories();
     
     // Filter case-insensitively
-    const matching = response.documents.filter((doc: any) => 
-      doc.name && doc.name.toLowerCase().includes(normalizedQuery)
+    const matching = categories.filter((category) => 
+      category.name && category.name.toLowerCase().includes(normalizedQuery)
     );
     
-    return matching.slice(0, limit).map((doc: any) => doc.$id);
+    return matching.slice(0, limit).map((category) => category.$id);
   } catch (error: any) {
     console.error("Error searching categories by name:", error);
     return [];
@@ -580,84 +801,82 @@ async function searchCategoriesByName(
 
 /**
  * Fetch product details by IDs
+ * Served from the product LRU cache where possible; only uncached IDs are fetched
  */
-async function getProductsByIds(productIds: string[]): Promise<Map<string, Product>> {
-  const productMap = new Map<string, Product>();
-
-  if (productIds.length === 0) return productMap;
+export async function getProductsByIds(productIds: string[]): Promise<Map<string, Product>> {
+  if (productIds.length === 0) return new Map<string, Product>();
 
   try {
-    // Fetch products in batches (Appwrite limit is typically 100)
-    const batchSize = 100;
-    for (let i = 0; i < productIds.length; i += batchSize) {
-      const batch = productIds.slice(i, i + batchSize);
-      const response = await databases.listDocuments(
-        databaseId,
-        PRODUCTS_COLLECTION_ID,
-        [
-          Query.equal("$id", batch),
-          Query.limit(batchSize),
-        ]
-      );
-
-      response.documents.forEach((doc: any) => {
-        productMap.set(doc.$id, doc as Product);
-      });
-    }
+    return await productCache.getMany(productIds, async (missingIds) => {
+      const productMap = new Map<string, Product>();
+      // Fetch products in batches (Appwrite limit is typically 100)
+      const batchSize = 100;
+      for (let i = 0; i < missingIds.length; i += batchSize) {
+        const batch = missingIds.slice(i, i + batchSize);
+        const response = await databases.listDocuments(
+          databaseId,
+          PRODUCTS_COLLECTION_ID,
+          [
+            Query.equal("$id", batch),
+            Query.limit(batchSize),
+          ]
+        );
+
+        response.documents.forEach((doc: any) => {
+          productMap.set(doc.$id, doc as Product);
+        });
+      }
+      return productMap;
+    });
   } catch (error: any) {
     console.error("Error fetching products:", error);
+    return new Map<string, Product>();
   }
-
-  return productMap;
 }
 
 /**
  * Get brand names from products
- * Since brands are stored as strings in products, we extract them from product documents
+ * Since brands are stored as strings in products, we read them from the
+ * (cached) product documents
  */
 async function getBrandsFromProducts(productIds: string[]): Promise<Map<string, string>> {
   const brandMap = new Map<string, string>();
 
   if (productIds.length === 0) return brandMap;
 
-  try {
-    const batchSize = 100;
-    for (let i = 0; i < productIds.length; i += batchSize) {
-      const batch = productIds.slice(i, i + batchSize);
-      const response = await databases.listDocuments(
-        databaseId,
-        PRODUCTS_COLLECTION_ID,
-        [
-          Query.equal("$id", batch),
-          Query.limit(batchSize),
-        ]
-      );
-
-      response.documents.forEach((doc: any) => {
-        if (doc.brand) {
-          brandMap.set(doc.$id, doc.brand);
-        }
-      });
+  const productMap = await getProductsByIds(productIds);
+  productMap.forEach((product, productId) => {
+    if (product.brand) {
+      brandMap.set(productId, product.brand);
     }
-  } catch (error: any) {
-    console.error("Error fetching brands from products:", error);
-  }
+  });
 
   return brandMap;
 }
 
 /**
  * Fetch category details by IDs
+ * Uses the cached category tree; only IDs missing from it are fetched
  */
 async function getCategoriesByIds(categoryIds: string[]): Promise<Map<string, Category>> {
   const categoryMap = new Map<string, Category>();
 
   if (categoryIds.length === 0) return categoryMap;
 
+  const categories = await getAllCategories();
+  const wanted = new Set(categoryIds);
+  for (const category of categories) {
+    if (wanted.has(category.$id)) {
+      categoryMap.set(category.$id, category);
+    }
+  }
+  const missingIds = categoryIds.filter((id) => !categoryMap.has(id));
+  if (missingIds.length === 0) return categoryMap;
+
   try {
     const batchSize = 100;
-    for (let i = 0; i < categoryIds.length; i += batchSize) {
-      const batch = categoryIds.slice(i, i + batchSize);
+    for (let i = 0; i < missingIds.length; i += batchSize) {
+      const batch = missingIds.slice(i, i + batchSize);
       const response = await databases.listDocuments(
         databaseId,
         CATEGORIES_COLLECTION_ID,
@@ -682,101 +901,112 @@ async function getCategoriesByIds(categoryIds: string[]): Promise<Map<string, Ca
  * Get store brands by IDs
  */
 async function getStoreBrandsByIds(brandIds: string[]): Promise<Map<string, { logo_url?: string }>> {
-  const brandMap = new Map<string, { logo_url?: string }>();
-
-  if (brandIds.length === 0) return brandMap;
+  if (brandIds.length === 0) return new Map<string, { logo_url?: string }>();
 
   try {
-    const batchSize = 100;
-    for (let i = 0; i < brandIds.length; i += batchSize) {
-      const batch = brandIds.slice(i, i + batchSize);
-      const response = await databases.listDocuments(
-        databaseId,
-        STORE_BRAND_COLLECTION_ID,
-        [
-          Query.equal("$id", batch),
-          Query.limit(batchSize),
-        ]
-      );
-
-      response.documents.forEach((doc: any) => {
-        brandMap.set(doc.$id, { logo_url: doc.logo_url });
-      });
-    }
+    return await storeBrandCache.getMany(brandIds, async (missingIds) => {
+      const brandMap = new Map<string, { logo_url?: string }>();
+      const batchSize = 100;
+      for (let i = 0; i < missingIds.length; i += batchSize) {
+        const batch = missingIds.slice(i, i + batchSize);
+        const response = await databases.listDocuments(
+          databaseId,
+          STORE_BRAND_COLLECTION_ID,
+          [
+            Query.equal("$id", batch),
+            Query.limit(batchSize),
+          ]
+        );
+
+        response.documents.forEach((doc: any) => {
+          brandMap.set(doc.$id, { logo_url: doc.logo_url });
+        });
+      }
+      return brandMap;
+    });
   } catch (error: any) {
     console.error("Error fetching store brands:", error);
+    return new Map<string, { logo_url?: string }>();
   }
-
-  return brandMap;
 }
 
 /**
  * Fetch store location details by IDs
  * Also fetches store brand logos and includes them in the StoreLocation
  */
-async function getStoreLocationsByIds(storeLocationIds: string[]): Promise<Map<string, StoreLocation>> {
-  const storeMap = new Map<string, StoreLocation>();
-
-  if (storeLocationIds.length === 0) return storeMap;
+export async function getStoreLocationsByIds(storeLocationIds: string[]): Promise<Map<string, StoreLocation>> {
+  if (storeLocationIds.length === 0) return new Map<string, StoreLocation>();
 
   try {
-    const batchSize = 100;
-    const brandIds = new Set<string>();
-    
-    // First, fetch store locations and collect brand IDs
-    for (let i = 0; i < storeLocationIds.length; i += batchSize) {
-      const batch = storeLocationIds.slice(i, i + batchSize);
-      const response = await databases.listDocuments(
-        databaseId,
-        STORE_LOCATIONS_COLLECTION_ID,
-        [
-          Query.equal("$id", batch),
-          Query.limit(batchSize),
-        ]
-      );
+    // Cached store locations already carry their brand logo
+    return await storeLocationCache.getMany(storeLocationIds, async (missingIds) => {
+      const storeMap = new Map<string, StoreLocation>();
+      const batchSize = 100;
+      const brandIds = new Set<string>();
+
+      // First, fetch store locations and collect brand IDs
+      for (let i = 0; i < missingIds.length; i += batchSize) {
+        const batch = missingIds.slice(i, i + batchSize);
+        const response = await databases.listDocuments(
+          databaseId,
+          STORE_LOCATIONS_COLLECTION_ID,
+          [
+            Query.equal("$id", batch),
+            Query.limit(batchSize),
+          ]
+        );
+
+        response.documents.forEach((doc: any) => {
+          if (doc.brand_id) {
+            brandIds.add(doc.brand_id);
+          }
+          storeMap.set(doc.$id, doc as StoreLocation);
+        });
+      }
 
-      response.documents.forEach((doc: any) => {
-        if (doc.brand_id) {
-          brandIds.add(doc.brand_id);
+      // Fetch store brands to get logo URLs
+      const brandsMap = await getStoreBrandsByIds(Array.from(brandIds));
+
+      // Add logo_url from brand to each store location
+      storeMap.forEach((storeLocation) => {
+        if (storeLocation.brand_id) {
+          const brand = brandsMap.get(storeLocation.brand_id);
+          if (brand?.logo_url) {
+            storeLocation.logo_url = brand.logo_url;
+          }
         }
-        storeMap.set(doc.$id, doc as StoreLocation);
       });
-    }
 
-    // Fetch store brands to get logo URLs
-    const brandsMap = await getStoreBrandsByIds(Array.from(brandIds));
-
-    // Add logo_url from brand to each store location
-    storeMap.forEach((storeLocation, storeId) => {
-      if (storeLocation.brand_id) {
-        const brand = brandsMap.get(storeLocation.brand_id);
-        if (brand?.logo_url) {
-          storeLocation.logo_url = brand.logo_url;
-        }
-      }
+      return storeMap;
     });
   } catch (error: any) {
     console.error("Error fetching store locations:", error);
+    return new Map<string, StoreLocation>();
   }
-
-  return storeMap;
 }
 
 /**
  * Get store location IDs that deliver to a specific parish
+ * Parishes are compared by canonical name, so "St. Andrew" stores match
+ * "Kingston & St. Andrew" addresses.
  */
 async function getStoreLocationIdsByParish(parish: string): Promise<string[]> {
   try {
+    const canonicalParish = normalizeJamaicaParish(parish);
     const response = await databases.listDocuments(
       databaseId,
       STORE_LOCATIONS_COLLECTION_ID,
       [
         Query.equal("is_active", true),
-        Query.equal("parish", parish),
+        Query.select(["$id", "parish"]),
         Query.limit(1000),
       ]
     );
-    return response.documents.map((doc: any) => doc.$id);
+    return response.documents
+      .filter((doc: any) =>
+        canonicalParish ? normalizeJamaicaParish(doc.parish) === canonicalParish : doc.parish === parish
+      )
+      .map((doc: any) => doc.$id);
   } catch (error: any) {
     console.error("Error fetching store locations by parish:", error);
     // If filtering by parish fails, return empty array (strict filtering)
@@ -786,40 +1016,36 @@ async function getStoreLocationIdsByParish(parish: string): Promise<string[]> {
 }
 
 /**
- * Helper function to fetch all results with automatic pagination
- * Fetches in batches until all results are retrieved
+ * Helper function to fetch results with automatic pagination
+ * Fetches in batches until all results (or maxResults) are retrieved
  */
 async function fetchAllWithPagination(
   queries: any[],
-  batchSize: number = 250
+  batchSize: number = 250,
+  maxResults: number = 10000
 ): Promise<any[]> {
   const allDocs: any[] = [];
   let offset = 0;
   let hasMore = true;
 
-  while (hasMore) {
+  while (hasMore && allDocs.length < maxResults) {
     try {
+      const limit = Math.min(batchSize, maxResults - allDocs.length);
       const response = await databases.listDocuments(
         databaseId,
         STORE_LOCATION_PRODUCT_COLLECTION_ID,
         [
           ...queries,
-          Query.limit(batchSize),
+          Query.limit(limit),
           Query.offset(offset)
         ]
       );
 
       allDocs.push(...response.documents);
       
-      // If we got fewer results than the batch size, we've reached the end
-      hasMore = response.documents.length === batchSize;
-      offset += batchSize;
-
-      // Safety check to prevent infinite loops (max 10,000 results)
-      if (offset >= 10000) {
-        console.warn("⚠️ Reached maximum result limit (10,000). Some results may be truncated.");
-        break;
-      }
+      // If we got fewer results than requested, we've reached the end
+      hasMore = response.documents.length === limit;
+      offset += limit;
     } catch (error: any) {
       console.error("Error fetching batch at offset", offset, ":", error);
       break;
@@ -832,14 +1058,16 @@ async function fetchAllWithPagination(
 /**
  * Query store_location_product with multiple filters
  * Appwrite doesn't support OR queries directly, so we query separately and combine
- * Now with automatic pagination to fetch ALL results (no artificial limits)
+ * Stops at maxResults rows - product matches are fetched before category
+ * matches, so a broad category can't crowd them out
  */
 async function queryStoreLocationProducts(
   activeStoreLocationIds: string[],
   productIds: string[],
   brandIds: string[], // Not used since brands are in products, but kept for API compatibility
   categoryIds: string[],
-  filters?: ProductFilters
+  filters?: ProductFilters,
+  maxResults: number = 10000
 ): Promise<StoreLocationProduct[]> {
   const allResults = new Map<string, StoreLocationProduct>();
 
@@ -866,7 +1094,7 @@ async function queryStoreLocationProducts(
   if (productIds.length > 0) {
     // Query in batches since Appwrite has limits
     const batchSize = 25; // Appwrite limit for Query.equal with arrays
-    for (let i = 0; i < productIds.length; i += batchSize) {
+    for (let i = 0; i < productIds.length && allResults.size < maxResults; i += batchSize) {
       const batch = productIds.slice(i, i + batchSize);
       try {
         const queries: any[] = [];
@@ -892,8 +1120,8 @@ async function queryStoreLocationProducts(
           queries.push(Query.lessThanEqual("price_jmd_cents", filters.maxPrice));
         }
         
-        // Fetch all results with automatic pagination (batch size: 250)
-        const documents = await fetchAllWithPagination(queries, 250);
+        // Fetch up to the remaining candidate budget (batch size: 250)
+        const documents = await fetchAllWithPagination(queries, 250, maxResults - allResults.size);
         
         documents.forEach((doc: any) => {
           allResults.set(doc.$id, doc as StoreLocationProduct);
@@ -910,7 +1138,7 @@ async function queryStoreLocationProducts(
   // Query by category_leaf_id if we have category matches
   if (categoryIds.length > 0) {
     const batchSize = 25;
-    for (let i = 0; i < categoryIds.length; i += batchSize) {
+    for (let i = 0; i < categoryIds.length && allResults.size < maxResults; i += batchSize) {
       const batch = categoryIds.slice(i, i + batchSize);
       try {
         const queries: any[] = [];
@@ -936,8 +1164,8 @@ async function queryStoreLocationProducts(
           queries.push(Query.lessThanEqual("price_jmd_cents", filters.maxPrice));
         }
         
-        // Fetch all results with automatic pagination (batch size: 250)
-        const documents = await fetchAllWithPagination(queries, 250);
+        // Fetch up to the remaining candidate budget (batch size: 250)
+        const documents = await fetchAllWithPagination(queries, 250, maxResults - allResults.size);
         
         documents.forEach((doc: any) => {
           allResults.set(doc.$id, doc as StoreLocationProduct);
@@ -970,15 +1198,23 @@ async function queryStoreLocationProducts(
 /**
  * Perform a global product search across all active stores (paginated version)
  * 
- * This version supports pagination for large result sets.
+ * The first page runs the full search - fetching and ranking up to
+ * MAX_SEARCH_CANDIDATES store_location_product rows, however small the page -
+ * and keeps the ranked results as a snapshot (see lib/search/pagination.ts).
+ * Only later pages are cheaper: requested with the previous page's nextCursor,
+ * they are sliced from that snapshot without repeating the fan-out. If the
+ * snapshot has expired the search is re-run and paging continues from the
+ * cursor's rank position. totalResults counts the ranked candidates, so a very
+ * broad query reports at most MAX_SEARCH_CANDIDATES.
  * 
  * @param query - Search query string
- * @param pagination - Pagination options (page, pageSize, or offset)
+ * @param pagination - Pagination options (cursor, or page/offset, and pageSize)
  * @param userPrefs - User preferences for ranking boost
  * @param sortMode - Sort mode: "relevance", "price_asc", or "price_desc"
  * @param userId - Optional user ID for analytics tracking
  * @param filters - Filter options (brands, categories, price range, etc.)
- * @returns Paginated search results with metadata
+ * @returns Paginated search results with metadata and the next page's cursor
+ * @throws InvalidSearchCursorError if the cursor is malformed or from a different search
  */
 export async function searchProductsPaginated(
   query: string,
@@ -988,36 +1224,88 @@ export async function searchProductsPaginated(
   userId?: string | null,
   filters?: ProductFilters
 ): Promise<PaginatedSearchResults> {
-  // Get all results (we'll paginate in-memory for now)
-  // In a production system, you'd want to paginate at the database level
-  const allResults = await searchProducts(
-    query,
-    10000, // Get more results for pagination
-    userPrefs,
-    sortMode,
-    userId,
-    filters
-  );
-  
-  // Calculate pagination
   const pageSize = pagination.pageSize || 50;
-  const page = pagination.page || 1;
-  const offset = pagination.offset !== undefined ? pagination.offset : (page - 1) * pageSize;
-  
-  const totalResults = allResults.length;
+  const searchKey = buildSearchKey({ query, sortMode, filters, userPrefs });
+
+  let offset: number;
+  let snapshot: SearchSnapshot<SearchResult> | null = getSearchSnapshot<SearchResult>(searchKey);
+  if (pagination.cursor) {
+    const cursor = decodeSearchCursor(pagination.cursor, searchKey);
+    offset = cursor.position;
+    if (snapshot && snapshot.snapshotId !== cursor.snapshotId && __DEV__) {
+      console.warn("[SearchService] Search snapshot changed between pages - continuing by rank position");
+    }
+  } else {
+    const page = pagination.page || 1;
+    offset = pagination.offset !== undefined ? pagination.offset : (page - 1) * pageSize;
+  }
+
+  // A fresh search (first page) always re-ranks so results reflect current prices and stock
+  const isFirstPage = offset === 0 && !pagination.cursor;
+  if (!snapshot || isFirstPage) {
+    let rankedResults: SearchResult[] = [];
+    let recovery: SearchRecovery | null = null;
+    if (query && query.trim().length > 0) {
+      try {
+        ({ results: rankedResults, recovery } = await searchRankedResultsWithRecovery(
+          query,
+          userPrefs,
+          sortMode,
+          filters
+        ));
+      } catch (error: any) {
+        console.error("Error searching products:", error);
+      }
+    }
+    snapshot = saveSearchSnapshot(searchKey, rankedResults);
+    if (recovery) {
+      snapshotRecoveries.set(snapshot.snapshotId, recovery);
+    }
+
+    // Log analytics once per search, not per page (non-blocking)
+    // A recovered search still counts as a no-result search for the query typed
+    if (isFirstPage) {
+      logSearchResults(userId || null, query, recovery ? [] : rankedResults).catch((error) => {
+        if (__DEV__) {
+          console.warn("[SearchService] Failed to log search analytics:", error);
+        }
+      });
+    }
+  }
+
+  const totalResults = snapshot.results.length;
   const totalPages = Math.ceil(totalResults / pageSize);
-  const startIndex = offset;
-  const endIndex = Math.min(startIndex + pageSize, totalResults);
-  
-  const results = allResults.slice(startIndex, endIndex);
-  
+  const endIndex = Math.min(offset + pageSize, totalResults);
+  const results = snapshot.results.slice(offset, endIndex);
+  const hasMore = endIndex < totalResults;
+  const recovery = snapshotRecoveries.peek(snapshot.snapshotId);
+
+  // Log which results this page showed (non-blocking)
+  if (query && results.length > 0) {
+    logSearchImpressions(
+      userId || null,
+      query,
+      results.map((result) => result.product.$id),
+      offset
+    ).catch((error) => {
+      if (__DEV__) {
+        console.warn("[SearchService] Failed to log search impressions:", error);
+      }
+    });
+  }
+
   return {
     results,
     totalResults,
-    currentPage: page,
+    currentPage: Math.floor(offset / pageSize) + 1,
     totalPages,
     pageSize,
-    hasMore: endIndex < totalResults,
+    hasMore,
+    nextCursor: hasMore
+      ? encodeSearchCursor({ searchKey, snapshotId: snapshot.snapshotId, position: endIndex })
+      : null,
+    didYouMean: recovery?.didYouMean ?? null,
+    relaxedQuery: recovery?.relaxedQuery ?? null,
   };
 }
 
@@ -1047,6 +1335,9 @@ export async function searchProductsPaginated(
  * Only returns active, available products (in_stock = true)
  * Results are deduplicated by SKU and sorted by relevance score
  * 
+ * A query that finds nothing is retried once, with its corrected spelling or
+ * broadened (see searchRankedResultsWithRecovery)
+ * 
  * Search events are automatically logged for analytics (non-blocking)
  * 
  * @param query - Search query string
@@ -1070,205 +1361,537 @@ export async function searchProducts(
   }
 
   try {
-    // Normalize query with Jamaican terms before searching
-    // This ensures "corn beef" matches "corned beef", "graece" matches "grace", etc.
-    const normalizedQuery = normalizeText(normalizeJamaicanTerms(query));
-    // Step 1: Get all active store location IDs (optional - search works without it)
-    const activeStoreLocationIds = await getActiveStoreLocationIds();
-    
-    // Note: If we can't get store locations, we'll search all products
-    // This is acceptable - the search will still work, just won't filter by active stores
-    if (activeStoreLocationIds.length === 0) {
-      console.warn("⚠️  WARNING: No active store locations found - searching all products without store filtering");
-      console.warn("⚠️  This may return products from inactive stores. Check store_location collection permissions.");
-    } else {
-      console.log(`✓ Found ${activeStoreLocationIds.length} active store location(s) for filtering`);
-    }
+    const { results: rankedResults, recovery } = await searchRankedResultsWithRecovery(
+      query,
+      userPrefs,
+      sortMode,
+      filters
+    );
 
-    // Step 2: Search for matching products, brands, and categories in parallel
-    // Use normalized query for better matching with Jamaican terms
-    const [productIdsByTitle, categoryIdsFromQuery] = await Promise.all([
-      searchProductsByTitle(normalizedQuery),
-      searchCategoriesByName(normalizedQuery),
-    ]);
+    // Limit results
+    const finalResults = rankedResults.slice(0, limit);
+
+    // Log search analytics (non-blocking - errors are silently caught)
+    logSearchResults(userId || null, query, recovery ? [] : finalResults).catch((error) => {
+      // Analytics logging failures should never break search
+      if (__DEV__) {
+        console.warn("[SearchService] Failed to log search analytics:", error);
+      }
+    });
 
-    // Step 2b: Search products by brand and get matching brand names
-    const matchingBrands = await getMatchingBrands(normalizedQuery);
-    const productIdsByBrand = await searchProductsByBrand(normalizedQuery);
+    return finalResults;
+  } catch (error: any) {
+    console.error("Error searching products:", error);
 
-    // Combine product IDs from title and brand searches
-    // Keep separate arrays for ranking purposes
-    const allProductIds = [...new Set([...productIdsByTitle, ...productIdsByBrand])];
+    // Log no-result search even on error (non-blocking)
+    logSearchResults(userId || null, query, []).catch(() => {
+      // Ignore analytics errors
+    });
 
-    // Apply filter-based category IDs if provided
-    const categoryIds = filters?.categoryIds 
-      ? [...new Set([...categoryIdsFromQuery, ...filters.categoryIds])]
-      : categoryIdsFromQuery;
+    // Return empty array on error rather than throwing
+    // This allows the UI to handle the error gracefully
+    return [];
+  }
+}
 
-    // If no matches found in products or categories, return empty
-    if (allProductIds.length === 0 && categoryIds.length === 0) {
-      return [];
+/**
+ * Browse the products in a category (paginated)
+ * 
+ * Lists the store products whose category_leaf_id is the category or any
+ * category below it, confirmed against category_path_ids. Filters, sort modes
+ * and cursor paging work as in searchProductsPaginated; a filter on other
+ * categories narrows the listing to products also in one of them.
+ * 
+ * @param categoryId - Category to list (department, sub-category or leaf)
+ * @param pagination - Pagination options (cursor, or page/offset, and pageSize)
+ * @param userPrefs - User preferences for ranking boost
+ * @param sortMode - Sort mode (relevance puts popular and preferred products first)
+ * @param filters - Filter options (brands, categories, price range, etc.)
+ * @returns Paginated results with metadata and the next page's cursor
+ * @throws InvalidSearchCursorError if the cursor is malformed or from a different listing
+ */
+export async function getCategoryProductsPaginated(
+  categoryId: string,
+  pagination: PaginationOptions = {},
+  userPrefs?: UserPreferences | RankingUserPrefs | null,
+  sortMode: SortMode = "relevance",
+  filters?: ProductFilters
+): Promise<PaginatedSearchResults> {
+  const pageSize = pagination.pageSize || 50;
+  const searchKey = buildSearchKey({
+    query: "",
+    sortMode,
+    filters: { ...filters, browseCategoryId: categoryId },
+    userPrefs,
+  });
+
+  let offset: number;
+  let snapshot: SearchSnapshot<SearchResult> | null = getSearchSnapshot<SearchResult>(searchKey);
+  if (pagination.cursor) {
+    offset = decodeSearchCursor(pagination.cursor, searchKey).position;
+  } else {
+    const page = pagination.page || 1;
+    offset = pagination.offset !== undefined ? pagination.offset : (page - 1) * pageSize;
+  }
+
+  // The first page always re-lists so results reflect current prices and stock
+  if (!snapshot || (offset === 0 && !pagination.cursor)) {
+    let rankedResults: SearchResult[] = [];
+    try {
+      rankedResults = await listCategoryProducts(categoryId, userPrefs, sortMode, filters);
+    } catch (error: any) {
+      console.error("Error listing category products:", error);
     }
+    snapshot = saveSearchSnapshot(searchKey, rankedResults);
+  }
+
+  const totalResults = snapshot.results.length;
+  const endIndex = Math.min(offset + pageSize, totalResults);
+  const hasMore = endIndex < totalResults;
+
+  return {
+    results: snapshot.results.slice(offset, endIndex),
+    totalResults,
+    currentPage: Math.floor(offset / pageSize) + 1,
+    totalPages: Math.ceil(totalResults / pageSize),
+    pageSize,
+    hasMore,
+    nextCursor: hasMore
+      ? encodeSearchCursor({ searchKey, snapshotId: snapshot.snapshotId, position: endIndex })
+      : null,
+  };
+}
+
+/**
+ * Returns every product in a category and the categories below it, ranked
+ */
+async function listCategoryProducts(
+  categoryId: string,
+  userPrefs: UserPreferences | RankingUserPrefs | null | undefined,
+  sortMode: SortMode,
+  filters: ProductFilters | undefined
+): Promise<SearchResult[]> {
+  const [tree, activeStoreLocationIds] = await Promise.all([
+    getCategoryTree(),
+    getActiveStoreLocationIds(),
+  ]);
+  const categoryIds = getCategorySubtreeIds(categoryId, tree);
+
+  const docs = await queryStoreLocationProducts(activeStoreLocationIds, [], [], categoryIds, filters);
+  if (docs.length === 0) {
+    return [];
+  }
+
+  let results = await buildSearchResults(docs, filters);
+  const filterCategoryIds = filters?.categoryIds || [];
+  if (filterCategoryIds.length > 0) {
+    results = results.filter((result) =>
+      [result.product.category_leaf_id, ...(result.product.category_path_ids || [])].some((id) =>
+        filterCategoryIds.includes(id)
+      )
+    );
+  }
+
+  // Ranked against the category name, so relevance falls back to popularity and preferences
+  const categoryName = tree.byId.get(categoryId)?.name || "";
+  const popularity = await getSearchPopularity(categoryName);
+  return rankResults(results, categoryName, toRankingPrefs(userPrefs), sortMode, popularity);
+}
+
+/**
+ * Returns every matching result, ranked, recovering from zero results
+ *
+ * When the query finds nothing, one more search is run - the corrected
+ * spelling, a broader query or a matching category, picked from the catalog
+ * vocabulary (see planQueryRecovery in lib/search/query-recovery.ts) - and
+ * returned along with what was searched instead. A search that still finds
+ * nothing is remembered for a few minutes, so repeating it costs nothing.
+ */
+async function searchRankedResultsWithRecovery(
+  query: string,
+  userPrefs: UserPreferences | RankingUserPrefs | null | undefined,
+  sortMode: SortMode,
+  filters: ProductFilters | undefined
+): Promise<{ results: SearchResult[]; recovery: SearchRecovery | null }> {
+  // Whether anything matches doesn't depend on the sort order or preferences
+  const zeroResultKey = buildSearchKey({ query, sortMode: "relevance", filters });
+  if (zeroResultSearches.peek(zeroResultKey)) {
+    return { results: [], recovery: null };
+  }
+
+  const results = await searchRankedResults(query, userPrefs, sortMode, filters);
+  if (results.length > 0) {
+    return { results, recovery: null };
+  }
 
-    // Step 3: Query store_location_product collection with all search criteria
-    // Note: brandIds is now empty array since brands are strings in products
-    const filteredDocs = await queryStoreLocationProducts(
-      activeStoreLocationIds,
-      allProductIds,
-      [], // No separate brand collection
-      categoryIds,
-      filters // Pass filters for store location and stock filtering
+  let plan: RecoveryPlan | null;
+  try {
+    plan = planQueryRecovery(query, await getRecoveryVocabulary(), filters?.categoryIds);
+  } catch (error: any) {
+    console.warn("[SearchService] Zero-result recovery unavailable:", error);
+    return { results, recovery: null };
+  }
+
+  if (plan) {
+    const recovered = await searchRankedResults(
+      plan.query,
+      userPrefs,
+      sortMode,
+      plan.categoryId ? { ...filters, categoryIds: [plan.categoryId] } : filters
     );
+    if (recovered.length > 0) {
+      return {
+        results: recovered,
+        recovery: { didYouMean: plan.didYouMean, relaxedQuery: plan.relaxedQuery },
+      };
+    }
+  }
+
+  // Offline results come from the downloaded catalog, which may just be missing the product
+  if (!isLikelyOffline()) {
+    zeroResultSearches.set(zeroResultKey, true);
+  }
+  return { results, recovery: null };
+}
 
-    // If no results after filtering, return empty
-    if (filteredDocs.length === 0) {
+/**
+ * Returns every matching result, ranked
+ *
+ * Shared by searchProducts (which slices to a limit) and searchProductsPaginated
+ * (which snapshots the ranked set for later pages), through
+ * searchRankedResultsWithRecovery. Errors are thrown to the caller.
+ *
+ * Searches online first. If that fails or finds nothing and the server can't be
+ * reached, the downloaded offline catalog is searched instead (results are
+ * flagged possiblyStale). After a network failure, searches go straight to the
+ * offline catalog for a short while.
+ */
+async function searchRankedResults(
+  query: string,
+  userPrefs: UserPreferences | RankingUserPrefs | null | undefined,
+  sortMode: SortMode,
+  filters: ProductFilters | undefined
+): Promise<SearchResult[]> {
+  // Picks up synonym edits once the cached dictionary expires
+  loadSearchTermDictionaryInBackground();
+
+  if (!isLikelyOffline()) {
+    let onlineError: any = null;
+    try {
+      const results = await searchRankedResultsOnline(query, userPrefs, sortMode, filters);
+      if (results.length > 0) return results;
+    } catch (error: any) {
+      if (!isNetworkError(error)) throw error;
+      onlineError = error;
+    }
+
+    // Online search swallows most request errors, so check whether we're actually offline
+    if (await isCatalogReachable()) {
+      if (onlineError) throw onlineError;
       return [];
     }
+  }
 
-    // Step 4: Collect unique IDs for batch fetching
-    const uniqueProductIds = [...new Set(filteredDocs.map((doc) => doc.product_id))];
-    const uniqueCategoryIds = [
-      ...new Set(
-        filteredDocs
-          .map((doc) => doc.category_leaf_id)
-          .filter((id): id is string => !!id)
-          .concat(
-            filteredDocs
-              .flatMap((doc) => doc.category_path_ids || [])
-              .filter((id) => !!id)
-          )
-      ),
-    ];
-    const uniqueStoreLocationIds = [...new Set(filteredDocs.map((doc) => doc.store_location_id))];
-
-    // Step 5: Fetch all related data in parallel
-    const [productsMap, brandsMap, categoriesMap, storeLocationsMap] = await Promise.all([
-      getProductsByIds(uniqueProductIds),
-      getBrandsFromProducts(uniqueProductIds), // Get brands from products
-      getCategoriesByIds(uniqueCategoryIds),
-      uniqueStoreLocationIds.length > 0 
-        ? getStoreLocationsByIds(uniqueStoreLocationIds)
-        : Promise.resolve(new Map<string, StoreLocation>()), // Return empty map if no store IDs
-    ]);
+  const offlineResults = await searchOfflineCatalog(query, {
+    limit: Number.MAX_SAFE_INTEGER,
+    sortMode,
+    userPrefs: toRankingPrefs(userPrefs),
+    filters,
+    // Served from the persisted copy when offline
+    popularity: await getSearchPopularity(query),
+  });
+  if (offlineResults === null) {
+    console.warn("[SearchService] Offline and no catalog snapshot downloaded");
+    return [];
+  }
+  return offlineResults;
+}
 
-    // Step 6: Build search results, calculate relevance scores, and deduplicate by SKU/product_id
-    // Apply additional filters in memory (brand, price range)
-    const resultsMap = new Map<string, SearchResult>();
-    const seenSkus = new Set<string>();
-
-    for (const doc of filteredDocs) {
-      const product = productsMap.get(doc.product_id);
-      const brandName = brandsMap.get(doc.product_id) || ""; // Get brand from product
-      const storeLocation = storeLocationsMap.get(doc.store_location_id);
-      const category = doc.category_leaf_id
-        ? categoriesMap.get(doc.category_leaf_id)
-        : undefined;
-
-      // Skip if essential data is missing (product is required, storeLocation is optional)
-      if (!product) {
-        continue;
-      }
+/**
+ * Converts either user preferences format to ranking preferences
+ */
+function toRankingPrefs(
+  userPrefs: UserPreferences | RankingUserPrefs | null | undefined
+): RankingUserPrefs | undefined {
+  if (!userPrefs) return undefined;
+  if ('categoryPreferences' in userPrefs) {
+    // It's a UserPreferences object
+    return convertUserPrefsToRankingPrefs(userPrefs as UserPreferences);
+  }
+  // It's already a RankingUserPrefs object
+  return userPrefs as RankingUserPrefs;
+}
 
-      // Apply brand filter (in memory, since brands are in products)
-      if (filters?.brands && filters.brands.length > 0) {
-        if (!brandName || !filters.brands.some(b => brandName.toLowerCase() === b.toLowerCase())) {
-          continue;
-        }
-      }
+/**
+ * Runs the full online search fan-out and returns every matching result, ranked
+ */
+async function searchRankedResultsOnline(
+  query: string,
+  userPrefs: UserPreferences | RankingUserPrefs | null | undefined,
+  sortMode: SortMode,
+  filters: ProductFilters | undefined
+): Promise<SearchResult[]> {
+  // Normalize query with Jamaican terms before searching
+  // This ensures "corn beef" matches "corned beef", "graece" matches "grace", etc.
+  const normalizedQuery = normalizeText(normalizeJamaicanTerms(query));
+  // Step 1: Get all active store location IDs (optional - search works without it)
+  const activeStoreLocationIds = await getActiveStoreLocationIds();
+  
+  // Note: If we can't get store locations, we'll search all products
+  // This is acceptable - the search will still work, just won't filter by active stores
+  if (activeStoreLocationIds.length === 0) {
+    console.warn("⚠️  WARNING: No active store locations found - searching all products without store filtering");
+    console.warn("⚠️  This may return products from inactive stores. Check store_location collection permissions.");
+  } else {
+    console.log(`✓ Found ${activeStoreLocationIds.length} active store location(s) for filtering`);
+  }
 
-      // Price range filters are now applied at database level (see queryStoreLocationProducts)
-      // This comment kept for reference - filters moved to DB queries for performance
-      
-      // If we can't fetch store location details, create a minimal one from the ID
-      const finalStoreLocation: StoreLocation = storeLocation || {
-        $id: doc.store_location_id,
-        name: `Store ${doc.store_location_id.substring(0, 8)}`,
-        display_name: `Store ${doc.store_location_id.substring(0, 8)}`,
-        is_active: true, // Assume active if we can't verify
-        brand_id: doc.brand_id,
-        slug: doc.store_location_id,
-      };
+  // Step 2: Search for matching products, brands, and categories in parallel
+  // Use normalized query for better matching with Jamaican terms
+  const [productIdsByTitle, categoryIdsFromQuery] = await Promise.all([
+    searchProductsByTitle(normalizedQuery),
+    searchCategoriesByName(normalizedQuery),
+  ]);
 
-      // Deduplicate by SKU (products always have SKU)
-      const dedupeKey = product.sku;
-      if (seenSkus.has(dedupeKey)) {
-        // If we've seen this SKU, keep the one with better stock status or lower price
-        const existing = resultsMap.get(dedupeKey);
-        if (existing) {
-          // Prefer in-stock items
-          if (doc.in_stock && !existing.inStock) {
-            // Replace with in-stock version
-          } else if (!doc.in_stock && existing.inStock) {
-            // Keep existing in-stock version
-            continue;
-          }
-          // If both have same stock status, prefer lower price
-          else if (doc.price_jmd_cents < existing.priceJmdCents) {
-            // Replace with lower price version
-          } else {
-            // Keep existing
-            continue;
-          }
-        }
-      }
-      seenSkus.add(dedupeKey);
-
-      const result: SearchResult = {
-        product,
-        brand: brandName, // Brand is just a string
-        category,
-        storeLocation: finalStoreLocation,
-        priceJmdCents: doc.price_jmd_cents,
-        inStock: doc.in_stock,
-        sku: product.sku,
-        // relevanceScore will be calculated by rankResults()
-      };
+  // Step 2b: Search products by brand and get matching brand names
+  const matchingBrands = await getMatchingBrands(normalizedQuery);
+  const productIdsByBrand = await searchProductsByBrand(normalizedQuery);
+
+  // Combine product IDs from title and brand searches
+  // Keep separate arrays for ranking purposes
+  const allProductIds = [...new Set([...productIdsByTitle, ...productIdsByBrand])];
+
+  // Apply filter-based category IDs if provided
+  const categoryIds = filters?.categoryIds 
+    ? [...new Set([...categoryIdsFromQuery, ...filters.categoryIds])]
+    : categoryIdsFromQuery;
+
+  // If no matches found in products or categories, return empty
+  if (allProductIds.length === 0 && categoryIds.length === 0) {
+    return [];
+  }
+
+  // Step 3: Query store_location_product collection with all search criteria
+  // Note: brandIds is now empty array since brands are strings in products
+  const filteredDocs = await queryStoreLocationProducts(
+    activeStoreLocationIds,
+    allProductIds,
+    [], // No separate brand collection
+    categoryIds,
+    filters, // Pass filters for store location and stock filtering
+    MAX_SEARCH_CANDIDATES // Bounds the ranking work behind every first page
+  );
+
+  // If no results after filtering, return empty
+  if (filteredDocs.length === 0) {
+    return [];
+  }
+
+  // Steps 4-6: Fetch products, categories and stores, and deduplicate by SKU
+  const results = await buildSearchResults(filteredDocs, filters);
+  
+  // Step 7: Rank and sort by relevance
+  // Convert user preferences format if needed
+  const rankingPrefs = toRankingPrefs(userPrefs);
+  
+  // Apply ranking using the new ranking module
+  // Ranking includes fuzzy matching and synonym handling for typo tolerance
+  // The original query is passed for ranking, but normalization happens inside ranking
+  // A size or pack count in the query ("340g", "16 pack") filters out conflicting products
+  const popularity = await getSearchPopularity(query);
+  return rankResults(filterByQueryAttributes(results, query), query, rankingPrefs, sortMode, popularity);
+}
 
-      resultsMap.set(dedupeKey, result);
+/**
+ * Turns store_location_product documents into search results (unranked)
+ * Fetches the related products, categories and store locations, applies the
+ * brand filter, and keeps one result per SKU - in stock first, then cheapest.
+ */
+async function buildSearchResults(
+  filteredDocs: StoreLocationProduct[],
+  filters: ProductFilters | undefined
+): Promise<SearchResult[]> {
+  // Step 4: Collect unique IDs for batch fetching
+  const uniqueProductIds = [...new Set(filteredDocs.map((doc) => doc.product_id))];
+  const uniqueCategoryIds = [
+    ...new Set(
+      filteredDocs
+        .map((doc) => doc.category_leaf_id)
+        .filter((id): id is string => !!id)
+        .concat(
+          filteredDocs
+            .flatMap((doc) => doc.category_path_ids || [])
+            .filter((id) => !!id)
+        )
+    ),
+  ];
+  const uniqueStoreLocationIds = [...new Set(filteredDocs.map((doc) => doc.store_location_id))];
+
+  // Step 5: Fetch all related data in parallel
+  const [productsMap, brandsMap, categoriesMap, storeLocationsMap] = await Promise.all([
+    getProductsByIds(uniqueProductIds),
+    getBrandsFromProducts(uniqueProductIds), // Get brands from products
+    getCategoriesByIds(uniqueCategoryIds),
+    uniqueStoreLocationIds.length > 0 
+      ? getStoreLocationsByIds(uniqueStoreLocationIds)
+      : Promise.resolve(new Map<string, StoreLocation>()), // Return empty map if no store IDs
+  ]);
+
+  // Step 6: Build search results, calculate relevance scores, and deduplicate by SKU/product_id
+  // Apply additional filters in memory (brand, price range)
+  const resultsMap = new Map<string, SearchResult>();
+  const seenSkus = new Set<string>();
+  const deliveryCoordinates = filters?.deliveryAddress
+    ? getDeliveryCoordinates(filters.deliveryAddress)
+    : null;
+
+  for (const doc of filteredDocs) {
+    const product = productsMap.get(doc.product_id);
+    const brandName = brandsMap.get(doc.product_id) || ""; // Get brand from product
+    const storeLocation = storeLocationsMap.get(doc.store_location_id);
+    const category = doc.category_leaf_id
+      ? categoriesMap.get(doc.category_leaf_id)
+      : undefined;
+
+    // Skip if essential data is missing (product is required, storeLocation is optional)
+    if (!product) {
+      continue;
     }
 
-    // Step 7: Convert to array, rank and sort by relevance, then limit results
-    const results = Array.from(resultsMap.values());
-    
-    // Convert user preferences format if needed
-    let rankingPrefs: RankingUserPrefs | undefined = undefined;
-    if (userPrefs) {
-      if ('categoryPreferences' in userPrefs) {
-        // It's a UserPreferences object
-        rankingPrefs = convertUserPrefsToRankingPrefs(userPrefs as UserPreferences);
-      } else {
-        // It's already a RankingUserPrefs object
-        rankingPrefs = userPrefs as RankingUserPrefs;
+    // Apply brand filter (in memory, since brands are in products)
+    if (filters?.brands && filters.brands.length > 0) {
+      if (!brandName || !filters.brands.some(b => brandName.toLowerCase() === b.toLowerCase())) {
+        continue;
       }
     }
-    
-    // Apply ranking using the new ranking module
-    // Ranking includes fuzzy matching and synonym handling for typo tolerance
-    // The original query is passed for ranking, but normalization happens inside ranking
-    const rankedResults = rankResults(results, query, rankingPrefs, sortMode);
-    
-    // Limit results
-    const finalResults = rankedResults.slice(0, limit);
-    
-    // Log search analytics (non-blocking - errors are silently caught)
-    logSearchResults(userId || null, query, finalResults).catch((error) => {
-      // Analytics logging failures should never break search
-      if (__DEV__) {
-        console.warn("[SearchService] Failed to log search analytics:", error);
+
+    // Apply dietary filter (in memory, untagged products are excluded)
+    if (filters?.dietaryTags && filters.dietaryTags.length > 0) {
+      if (!matchesDietaryTags(product, filters.dietaryTags)) {
+        continue;
       }
-    });
+    }
+
+    // Price range filters are now applied at database level (see queryStoreLocationProducts)
+    // This comment kept for reference - filters moved to DB queries for performance
     
-    return finalResults;
+    // If we can't fetch store location details, create a minimal one from the ID
+    const finalStoreLocation: StoreLocation = storeLocation || {
+      $id: doc.store_location_id,
+      name: `Store ${doc.store_location_id.substring(0, 8)}`,
+      display_name: `Store ${doc.store_location_id.substring(0, 8)}`,
+      is_active: true, // Assume active if we can't verify
+      brand_id: doc.brand_id,
+      slug: doc.store_location_id,
+    };
+
+    // Apply quick delivery filter (stores without a delivery time are excluded)
+    const deliveryEstimateMinutes = estimateDeliveryMinutes(finalStoreLocation, filters?.deliveryAddress);
+    if (
+      filters?.quickDelivery &&
+      (deliveryEstimateMinutes === null || deliveryEstimateMinutes > QUICK_DELIVERY_MINUTES)
+    ) {
+      continue;
+    }
+
+    // Deduplicate by SKU (products always have SKU)
+    const dedupeKey = product.sku;
+    if (seenSkus.has(dedupeKey)) {
+      // If we've seen this SKU, keep the one with better stock status or lower price
+      const existing = resultsMap.get(dedupeKey);
+      if (existing) {
+        // Prefer in-stock items
+        if (doc.in_stock && !existing.inStock) {
+          // Replace with in-stock version
+        } else if (!doc.in_stock && existing.inStock) {
+          // Keep existing in-stock version
+          continue;
+        }
+        // If both have same stock status, prefer lower price
+        else if (doc.price_jmd_cents < existing.priceJmdCents) {
+          // Replace with lower price version
+        } else {
+          // Keep existing
+          continue;
+        }
+      }
+    }
+    seenSkus.add(dedupeKey);
+
+    const result: SearchResult = {
+      product,
+      brand: brandName, // Brand is just a string
+      category,
+      storeLocation: finalStoreLocation,
+      priceJmdCents: doc.price_jmd_cents,
+      inStock: doc.in_stock,
+      sku: product.sku,
+      deliveryEstimateMinutes,
+      deliveryAddress: deliveryCoordinates || undefined,
+      distanceKm: deliveryCoordinates ? getDeliveryDistanceKm(finalStoreLocation, deliveryCoordinates) : null,
+      // relevanceScore will be calculated by rankResults()
+    };
+
+    resultsMap.set(dedupeKey, result);
+  }
+
+  return Array.from(resultsMap.values());
+}
+
+/**
+ * Reads stored popularity scores - overall (query null) or for one query
+ */
+async function fetchPopularityScores(queryKey: string | null, limit: number): Promise<Record<string, number>> {
+  const response = await databases.listDocuments(
+    databaseId,
+    SEARCH_POPULARITY_COLLECTION_ID,
+    [
+      queryKey === null ? Query.isNull("query") : Query.equal("query", queryKey),
+      // Latest run first, while a new one is replacing the table
+      Query.orderDesc("generatedAt"),
+      Query.orderDesc("score"),
+      Query.select(["productId", "query", "score", "generatedAt"]),
+      Query.limit(limit),
+    ]
+  );
+  return parsePopularityScoreRows(response.documents as unknown as PopularityScoreRow[]);
+}
+
+/**
+ * Popularity lookup for a query, from the scores scripts/search-popularity.ts
+ * aggregates out of clicks, add-to-cart and purchases logged against searches
+ * (cached, see popularitySnapshot and queryPopularityCache)
+ * Falls back to overall popularity if the query's scores can't be loaded.
+ * @returns Promise with the lookup, or undefined if no scores could be loaded
+ */
+async function getSearchPopularity(query: string): Promise<PopularityLookup | undefined> {
+  let overall: Record<string, number>;
+  try {
+    overall = await popularitySnapshot.get(() =>
+      fetchPopularityScores(null, MAX_OVERALL_POPULARITY_SCORES)
+    );
   } catch (error: any) {
-    console.error("Error searching products:", error);
-    
-    // Log no-result search even on error (non-blocking)
-    logSearchResults(userId || null, query, []).catch(() => {
-      // Ignore analytics errors
-    });
-    
-    // Return empty array on error rather than throwing
-    // This allows the UI to handle the error gracefully
-    return [];
+    console.warn("Error loading search popularity:", error.message);
+    return undefined;
   }
+
+  const queryKey = toPopularityQueryKey(query);
+  let queryScores = queryKey ? queryPopularityCache.peek(queryKey) : undefined;
+  if (queryKey && !queryScores) {
+    try {
+      queryScores = await dedupeInFlight(`popularity:${queryKey}`, () =>
+        fetchPopularityScores(queryKey, MAX_QUERY_POPULARITY_SCORES)
+      );
+      queryPopularityCache.set(queryKey, queryScores);
+    } catch (error: any) {
+      console.warn("Error loading query popularity:", error.message);
+    }
+  }
+
+  // A query with no stored scores gets overall popularity only
+  const index = {
+    overall,
+    byQuery: queryScores && Object.keys(queryScores).length > 0 ? { [queryKey]: queryScores } : {},
+  };
+  return (productId) => getPopularityScore(index, query, productId);
 }
@@ -0,0 +1,114 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Query } from "appwrite";
+import { databases, databaseId } from "./appwrite-client";
+import {
+  buildSearchTermDictionary,
+  setSearchTermDictionary,
+  getSearchTermDictionary,
+  SearchSynonymEntry,
+  SearchSynonymType,
+  SearchTermDictionary,
+} from "./search/jamaican-terms";
+import { PersistentSnapshot } from "./search/query-cache";
+
+/**
+ * Search Synonyms Service
+ *
+ * Loads the Jamaican synonym and correction dictionary from the
+ * search_synonyms collection, so new terms ("bulla", "bammy") don't need an
+ * app release. Entries are edited in the Appwrite console or imported from
+ * CSV (scripts/search-synonyms.ts).
+ *
+ * The dictionary is cached on the device; until it loads, or if the
+ * collection is empty or unreachable, search uses the built-in terms in
+ * lib/search/jamaican-terms.ts.
+ */
+
+const SEARCH_SYNONYMS_COLLECTION_ID = "search_synonyms";
+
+/** How long the downloaded dictionary is used before it's refreshed */
+const SYNONYMS_TTL_MS = 6 * 60 * 60 * 1000;
+const SYNONYMS_PAGE_SIZE = 500;
+
+const synonymsSnapshot = new PersistentSnapshot<SearchSynonymEntry[]>(
+  "synonyms",
+  SYNONYMS_TTL_MS,
+  AsyncStorage
+);
+
+/** Entries the active dictionary was built from (to skip rebuilding it) */
+let appliedEntries: SearchSynonymEntry[] | null = null;
+
+const SYNONYM_TYPES: SearchSynonymType[] = ["two_way", "one_way", "correction"];
+
+function toSynonymEntry(doc: any): SearchSynonymEntry | null {
+  if (!doc.term || !SYNONYM_TYPES.includes(doc.type)) return null;
+  return {
+    term: doc.term,
+    synonyms: Array.isArray(doc.synonyms) ? doc.synonyms : [],
+    type: doc.type,
+    enabled: doc.enabled !== false,
+  };
+}
+
+/**
+ * Get all enabled synonym and correction entries
+ * @returns Promise with the entries
+ */
+export async function getSearchSynonymEntries(): Promise<SearchSynonymEntry[]> {
+  try {
+    const entries: SearchSynonymEntry[] = [];
+    let cursor: string | null = null;
+
+    while (true) {
+      const response: { documents: any[] } = await databases.listDocuments(
+        databaseId,
+        SEARCH_SYNONYMS_COLLECTION_ID,
+        [
+          Query.equal("enabled", true),
+          Query.limit(SYNONYMS_PAGE_SIZE),
+          ...(cursor ? [Query.cursorAfter(cursor)] : []),
+        ]
+      );
+      for (const doc of response.documents) {
+        const entry = toSynonymEntry(doc);
+        if (entry) entries.push(entry);
+      }
+      if (response.documents.length < SYNONYMS_PAGE_SIZE) break;
+      cursor = response.documents[response.documents.length - 1].$id;
+    }
+
+    return entries;
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to load search synonyms";
+    console.error("Search synonyms error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Loads the synonym dictionary (cached) and makes search use it
+ * Keeps the current dictionary if loading fails or the collection is empty.
+ * @returns Promise with the dictionary search is now using
+ */
+export async function loadSearchTermDictionary(): Promise<SearchTermDictionary> {
+  try {
+    const entries = await synonymsSnapshot.get(getSearchSynonymEntries);
+    if (entries.length > 0 && entries !== appliedEntries) {
+      setSearchTermDictionary(buildSearchTermDictionary(entries));
+      appliedEntries = entries;
+    }
+  } catch (error: any) {
+    console.warn("[SearchSynonyms] Using built-in search terms:", error.message);
+  }
+  return getSearchTermDictionary();
+}
+
+/**
+ * Loads the synonym dictionary in background (non-blocking)
+ */
+export function loadSearchTermDictionaryInBackground(): void {
+  loadSearchTermDictionary().catch((error) => {
+    console.warn("[SearchSynonyms] Background load failed (non-critical):", error);
+  });
+}
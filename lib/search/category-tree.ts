@@ -0,0 +1,135 @@
+/**
+ * Category Tree Module
+ *
+ * Builds the category hierarchy from the categories collection - each
+ * category has a parent_id, a depth, and path_ids / path_names from its
+ * department down to itself ("Groceries > Canned Goods > Corned Beef").
+ *
+ * Used by the Categories tab (departments), the category screen (sub-categories
+ * and breadcrumbs) and category product listings (every leaf under a category).
+ *
+ * No database dependencies.
+ */
+
+export interface TreeCategory {
+  $id: string;
+  name: string;
+  parent_id?: string | null;
+  depth?: number;
+  path_ids?: string[];
+  path_names?: string[];
+}
+
+export interface CategoryTree<T extends TreeCategory> {
+  byId: Map<string, T>;
+  /** Children of each category, sorted by name */
+  childrenById: Map<string, T[]>;
+  /** Top-level categories (departments), sorted by name */
+  roots: T[];
+}
+
+export interface CategoryBreadcrumb {
+  $id: string;
+  name: string;
+}
+
+function byName(a: TreeCategory, b: TreeCategory): number {
+  return a.name.localeCompare(b.name);
+}
+
+/**
+ * Parent of a category - parent_id, or the second-to-last entry of path_ids
+ */
+function getParentId(category: TreeCategory): string | null {
+  if (category.parent_id) return category.parent_id;
+  const pathIds = category.path_ids || [];
+  if (pathIds.length > 1 && pathIds[pathIds.length - 1] === category.$id) {
+    return pathIds[pathIds.length - 2];
+  }
+  return null;
+}
+
+/**
+ * Builds the category tree
+ * Categories whose parent isn't in the list are treated as departments, so a
+ * partly loaded collection still shows every category.
+ */
+export function buildCategoryTree<T extends TreeCategory>(categories: T[]): CategoryTree<T> {
+  const byId = new Map<string, T>();
+  for (const category of categories) {
+    byId.set(category.$id, category);
+  }
+
+  const childrenById = new Map<string, T[]>();
+  const roots: T[] = [];
+  for (const category of categories) {
+    const parentId = getParentId(category);
+    if (parentId && parentId !== category.$id && byId.has(parentId)) {
+      const siblings = childrenById.get(parentId);
+      if (siblings) {
+        siblings.push(category);
+      } else {
+        childrenById.set(parentId, [category]);
+      }
+    } else {
+      roots.push(category);
+    }
+  }
+
+  roots.sort(byName);
+  for (const children of childrenById.values()) {
+    children.sort(byName);
+  }
+  return { byId, childrenById, roots };
+}
+
+/**
+ * Breadcrumbs from the department down to a category
+ * Uses path_ids / path_names when they're complete, otherwise walks parent_id.
+ */
+export function getCategoryBreadcrumbs<T extends TreeCategory>(
+  categoryId: string,
+  tree: CategoryTree<T>
+): CategoryBreadcrumb[] {
+  const category = tree.byId.get(categoryId);
+  if (!category) return [];
+
+  const pathIds = category.path_ids || [];
+  const pathNames = category.path_names || [];
+  if (pathIds.length > 0 && pathIds.length === pathNames.length) {
+    return pathIds.map(($id, index) => ({ $id, name: pathNames[index] }));
+  }
+
+  const breadcrumbs: CategoryBreadcrumb[] = [];
+  const visited = new Set<string>();
+  let current: T | undefined = category;
+  while (current && !visited.has(current.$id)) {
+    visited.add(current.$id);
+    breadcrumbs.unshift({ $id: current.$id, name: current.name });
+    const parentId = getParentId(current);
+    current = parentId ? tree.byId.get(parentId) : undefined;
+  }
+  return breadcrumbs;
+}
+
+/**
+ * A category and every category below it
+ */
+export function getCategorySubtreeIds<T extends TreeCategory>(
+  categoryId: string,
+  tree: CategoryTree<T>
+): string[] {
+  const ids: string[] = [];
+  const visited = new Set<string>();
+  const pending = [categoryId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    ids.push(id);
+    for (const child of tree.childrenById.get(id) || []) {
+      pending.push(child.$id);
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,171 @@
+/**
+ * Delivery Estimate Module
+ *
+ * Estimates how long a store takes to deliver to an address:
+ * - the store's own delivery_time_minutes covers its local area
+ * - beyond LOCAL_DELIVERY_RADIUS_KM, travel time is added for the distance
+ *   from the store (its latitude/longitude, or its parish centre) to the
+ *   address (its coordinates, else its community or parish centre)
+ *
+ * Used for the quick-delivery filter and the delivery_time_asc sort. Stores
+ * without a delivery_time_minutes have no estimate - they're not assumed to
+ * be quick.
+ *
+ * No database dependencies.
+ */
+
+import { geocodeJamaicaAddress, normalizeJamaicaParish } from "../jamaica-parishes";
+
+/** Deliveries estimated at or under this count as quick */
+export const QUICK_DELIVERY_MINUTES = 60;
+
+/** Distance the store's own delivery time is taken to cover */
+export const LOCAL_DELIVERY_RADIUS_KM = 8;
+
+/** Minutes added per km beyond the local radius (winding roads, ~30 km/h) */
+export const MINUTES_PER_KM = 2;
+
+/** Store fields the estimate is read from */
+export interface DeliveryOrigin {
+  is_active?: boolean;
+  parish?: string;
+  delivery_time_minutes?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+/** Where the order is delivered - the user's selected address */
+export interface DeliveryDestination {
+  parish?: string;
+  community?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Coordinates of a store or address - its own, else its community or parish centre
+ * @returns Coordinates, or null if the place has none and no known parish
+ */
+export function getDeliveryCoordinates(place: {
+  parish?: string;
+  community?: string;
+  latitude?: number;
+  longitude?: number;
+}): Coordinates | null {
+  if (typeof place.latitude === "number" && typeof place.longitude === "number") {
+    return { latitude: place.latitude, longitude: place.longitude };
+  }
+  const location = geocodeJamaicaAddress(place.parish, place.community);
+  return location ? { latitude: location.latitude, longitude: location.longitude } : null;
+}
+
+/**
+ * Distance from a store to the delivery address
+ * @returns Distance in km, or null if either location is unknown
+ */
+export function getDeliveryDistanceKm(
+  store: DeliveryOrigin,
+  destination: DeliveryDestination
+): number | null {
+  const from = getDeliveryCoordinates(store);
+  const to = getDeliveryCoordinates(destination);
+  if (!from || !to) return null;
+  return calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+}
+
+/**
+ * Estimated delivery time from a store
+ * @param store - Store location
+ * @param destination - Delivery address (optional - without it the store's own time is used)
+ * @returns Minutes (rounded up to 5), or null if the store has no delivery time or is inactive
+ */
+export function estimateDeliveryMinutes(
+  store: DeliveryOrigin,
+  destination?: DeliveryDestination | null
+): number | null {
+  if (store.is_active === false) return null;
+  const baseMinutes = store.delivery_time_minutes;
+  if (typeof baseMinutes !== "number" || !(baseMinutes >= 0)) return null;
+
+  let travelMinutes = 0;
+  if (destination) {
+    const distanceKm = getDeliveryDistanceKm(store, destination);
+    if (distanceKm !== null) {
+      travelMinutes = Math.max(0, distanceKm - LOCAL_DELIVERY_RADIUS_KM) * MINUTES_PER_KM;
+    } else if (
+      destination.parish &&
+      store.parish &&
+      normalizeJamaicaParish(destination.parish) !== normalizeJamaicaParish(store.parish)
+    ) {
+      // Unknown parishes - only known to be different
+      return null;
+    }
+  }
+
+  return Math.ceil((baseMinutes + travelMinutes) / 5) * 5;
+}
+
+/**
+ * Whether a store delivers quickly (see QUICK_DELIVERY_MINUTES)
+ */
+export function isQuickDelivery(
+  store: DeliveryOrigin,
+  destination?: DeliveryDestination | null
+): boolean {
+  const minutes = estimateDeliveryMinutes(store, destination);
+  return minutes !== null && minutes <= QUICK_DELIVERY_MINUTES;
+}
+
+/**
+ * Formats a delivery estimate for display, e.g. "~45 min" or "~1 hr 30 min"
+ */
+export function formatDeliveryEstimate(minutes: number): string {
+  if (minutes < 60) return `~${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `~${hours} hr ${rest} min` : `~${hours} hr`;
+}
+
+/**
+ * Calculate distance between two coordinates using Haversine formula
+ * 
+ * @param lat1 - Latitude of first point
+ * @param lon1 - Longitude of first point
+ * @param lat2 - Latitude of second point
+ * @param lon2 - Longitude of second point
+ * @returns Distance in kilometers
+ */
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const R = 6371; // Earth's radius in kilometers
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  const distance = R * c;
+  
+  return distance;
+}
+
+/**
+ * Convert degrees to radians
+ */
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
@@ -0,0 +1,191 @@
+/**
+ * Dietary Attributes Module
+ *
+ * Products carry structured dietary data, set by scripts/dietary-tags.ts:
+ * - dietary_tags: what the product is ("vegan", "gluten_free", "halal", "ital")
+ * - allergens: what it contains ("dairy", "peanut", "shellfish")
+ *
+ * Products without the data are unknown, not assumed to match or to conflict:
+ * dietary filters exclude them, and the ranking preference boost skips them.
+ *
+ * No database dependencies.
+ */
+
+export const DIETARY_TAGS = [
+  "vegan",
+  "vegetarian",
+  "gluten_free",
+  "dairy_free",
+  "nut_free",
+  "pork_free",
+  "halal",
+  "ital",
+  "organic",
+  "low_sodium",
+] as const;
+
+export type DietaryTag = (typeof DIETARY_TAGS)[number];
+
+export const ALLERGENS = [
+  "gluten",
+  "dairy",
+  "egg",
+  "peanut",
+  "tree_nut",
+  "soy",
+  "fish",
+  "shellfish",
+  "sesame",
+] as const;
+
+export type Allergen = (typeof ALLERGENS)[number];
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegan: "Vegan",
+  vegetarian: "Vegetarian",
+  gluten_free: "Gluten-Free",
+  dairy_free: "Dairy-Free",
+  nut_free: "Nut-Free",
+  pork_free: "Pork-Free",
+  halal: "Halal",
+  ital: "Ital",
+  organic: "Organic",
+  low_sodium: "Low Sodium",
+};
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  gluten: "Gluten",
+  dairy: "Milk",
+  egg: "Egg",
+  peanut: "Peanuts",
+  tree_nut: "Tree Nuts",
+  soy: "Soy",
+  fish: "Fish",
+  shellfish: "Shellfish",
+  sesame: "Sesame",
+};
+
+/** Product fields dietary data is read from */
+export interface DietaryProduct {
+  dietary_tags?: string[];
+  allergens?: string[];
+}
+
+/** Tags that follow from another tag (a vegan product is also vegetarian) */
+const IMPLIED_TAGS: Partial<Record<DietaryTag, DietaryTag[]>> = {
+  vegan: ["vegetarian", "dairy_free", "pork_free"],
+  vegetarian: ["pork_free"],
+  halal: ["pork_free"],
+  ital: ["pork_free"],
+};
+
+/**
+ * How each preference on the preferences screen is satisfied
+ * A product matches with one of the tags, or - when its allergens are
+ * listed - by not containing the allergen.
+ */
+const PREFERENCE_RULES: Record<string, { tags: DietaryTag[]; withoutAllergen?: Allergen }> = {
+  vegetarian: { tags: ["vegetarian"] },
+  vegan: { tags: ["vegan"] },
+  "no pork": { tags: ["pork_free"] },
+  "no red meat": { tags: ["vegetarian"] },
+  "no shellfish": { tags: [], withoutAllergen: "shellfish" },
+  "no dairy": { tags: ["dairy_free"], withoutAllergen: "dairy" },
+  "gluten free": { tags: ["gluten_free"], withoutAllergen: "gluten" },
+  "nut free": { tags: ["nut_free"] },
+  "low sodium": { tags: ["low_sodium"] },
+  "organic only": { tags: ["organic"] },
+  halal: { tags: ["halal"] },
+  ital: { tags: ["ital"] },
+};
+
+/**
+ * Normalizes a tag, allergen or preference label ("Gluten-Free" -> "gluten_free")
+ */
+export function normalizeDietaryValue(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+function isDietaryTag(value: string): value is DietaryTag {
+  return (DIETARY_TAGS as readonly string[]).includes(value);
+}
+
+function isAllergen(value: string): value is Allergen {
+  return (ALLERGENS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether the product has any dietary data
+ */
+export function hasDietaryData(product: DietaryProduct): boolean {
+  return !!(product.dietary_tags?.length || product.allergens?.length);
+}
+
+/**
+ * A product's dietary tags as labelled (unknown values dropped)
+ */
+export function getLabelledDietaryTags(product: DietaryProduct): DietaryTag[] {
+  const tags: DietaryTag[] = [];
+  for (const value of product.dietary_tags || []) {
+    const tag = normalizeDietaryValue(value);
+    if (isDietaryTag(tag) && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+  return tags;
+}
+
+/**
+ * A product's dietary tags, including the ones they imply
+ */
+export function getDietaryTags(product: DietaryProduct): Set<DietaryTag> {
+  const tags = new Set<DietaryTag>();
+  for (const tag of getLabelledDietaryTags(product)) {
+    tags.add(tag);
+    for (const implied of IMPLIED_TAGS[tag] || []) {
+      tags.add(implied);
+    }
+  }
+  return tags;
+}
+
+/**
+ * Allergens a product contains
+ */
+export function getAllergens(product: DietaryProduct): Allergen[] {
+  const allergens: Allergen[] = [];
+  for (const value of product.allergens || []) {
+    const allergen = normalizeDietaryValue(value);
+    if (isAllergen(allergen) && !allergens.includes(allergen)) {
+      allergens.push(allergen);
+    }
+  }
+  return allergens;
+}
+
+/**
+ * Whether a product has every one of the dietary tags (for filtering)
+ * Products without dietary data don't match.
+ */
+export function matchesDietaryTags(product: DietaryProduct, requiredTags: string[]): boolean {
+  if (requiredTags.length === 0) return true;
+  const tags = getDietaryTags(product);
+  return requiredTags.every((tag) => tags.has(normalizeDietaryValue(tag) as DietaryTag));
+}
+
+/**
+ * Whether a product satisfies a dietary preference ("Vegan", "No Dairy")
+ * @returns true or false, or null if the product has no dietary data or the preference is unknown
+ */
+export function matchesDietaryPreference(product: DietaryProduct, preference: string): boolean | null {
+  if (!hasDietaryData(product)) return null;
+  const rule = PREFERENCE_RULES[normalizeDietaryValue(preference).replace(/_/g, " ")];
+  if (!rule) return null;
+
+  const tags = getDietaryTags(product);
+  if (rule.tags.some((tag) => tags.has(tag))) return true;
+  if (rule.withoutAllergen && product.allergens?.length) {
+    return !getAllergens(product).includes(rule.withoutAllergen);
+  }
+  return false;
+}
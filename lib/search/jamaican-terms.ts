@@ -3,7 +3,38 @@
  * 
  * Provides synonyms and common variations for Jamaican product terms
  * to improve search discovery and tolerance for local naming conventions.
+ * 
+ * The terms in use are managed in the search_synonyms collection and loaded
+ * at runtime (see lib/search-synonyms-service.ts, setSearchTermDictionary).
+ * The maps below are the built-in fallback until that loads, or if it can't.
+ */
+
+export type SearchSynonymType = "two_way" | "one_way" | "correction";
+
+/**
+ * One dictionary entry, as stored in the search_synonyms collection
+ * - two_way: the term and its synonyms all find each other
+ * - one_way: searching the term also finds its synonyms, not the reverse
+ * - correction: the synonyms are misspellings, rewritten to the term
  */
+export interface SearchSynonymEntry {
+  term: string;
+  synonyms: string[];
+  type: SearchSynonymType;
+  enabled: boolean;
+}
+
+/**
+ * Synonyms and corrections used by search
+ */
+export interface SearchTermDictionary {
+  /** Canonical term -> variations, matched both ways */
+  twoWay: Record<string, string[]>;
+  /** Term -> broader or related terms it also searches for */
+  oneWay: Record<string, string[]>;
+  /** Misspelling -> correction */
+  corrections: Record<string, string>;
+}
 
 /**
  * Synonym groups for Jamaican products
@@ -100,6 +131,71 @@ export const JAMAICAN_CORRECTIONS: Record<string, string> = {
   "scotchbonnet": "scotch bonnet",
 };
 
+const DEFAULT_DICTIONARY: SearchTermDictionary = {
+  twoWay: JAMAICAN_SYNONYMS,
+  oneWay: {},
+  corrections: JAMAICAN_CORRECTIONS,
+};
+
+let activeDictionary: SearchTermDictionary = DEFAULT_DICTIONARY;
+/** Corrections longest first, so "corn beef" is replaced before "beef" is looked at */
+let sortedCorrections: [string, string][] = sortCorrections(DEFAULT_DICTIONARY.corrections);
+
+function sortCorrections(corrections: Record<string, string>): [string, string][] {
+  return Object.entries(corrections).sort((a, b) => b[0].length - a[0].length);
+}
+
+/**
+ * Escapes a term for use in a RegExp (terms are admin-editable)
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds a dictionary from search_synonyms entries
+ * Disabled entries are skipped; terms are lowercased and trimmed.
+ */
+export function buildSearchTermDictionary(entries: SearchSynonymEntry[]): SearchTermDictionary {
+  const dictionary: SearchTermDictionary = { twoWay: {}, oneWay: {}, corrections: {} };
+
+  for (const entry of entries) {
+    if (!entry.enabled) continue;
+    const term = entry.term.toLowerCase().trim();
+    const synonyms = entry.synonyms
+      .map((synonym) => synonym.toLowerCase().trim())
+      .filter((synonym) => synonym.length > 0 && synonym !== term);
+    if (!term || synonyms.length === 0) continue;
+
+    if (entry.type === "correction") {
+      for (const misspelling of synonyms) {
+        dictionary.corrections[misspelling] = term;
+      }
+    } else {
+      const group = entry.type === "one_way" ? dictionary.oneWay : dictionary.twoWay;
+      group[term] = Array.from(new Set([...(group[term] || []), ...synonyms]));
+    }
+  }
+
+  return dictionary;
+}
+
+/**
+ * Replaces the synonyms and corrections search uses
+ * @param dictionary - New dictionary, or null to go back to the built-in one
+ */
+export function setSearchTermDictionary(dictionary: SearchTermDictionary | null): void {
+  activeDictionary = dictionary || DEFAULT_DICTIONARY;
+  sortedCorrections = sortCorrections(activeDictionary.corrections);
+}
+
+/**
+ * Returns the synonyms and corrections search is using
+ */
+export function getSearchTermDictionary(): SearchTermDictionary {
+  return activeDictionary;
+}
+
 /**
  * Expand a search query with Jamaican synonyms
  * 
@@ -111,13 +207,13 @@ export function expandQueryWithSynonyms(query: string): string[] {
   const variations = new Set<string>([query]); // Always include original query
   
   // Check each synonym group
-  for (const [canonical, synonyms] of Object.entries(JAMAICAN_SYNONYMS)) {
+  for (const [canonical, synonyms] of Object.entries(activeDictionary.twoWay)) {
     const canonicalLower = canonical.toLowerCase();
     
     // If query contains canonical term, add all synonyms
     if (normalizedQuery.includes(canonicalLower)) {
       synonyms.forEach(synonym => {
-        variations.add(query.replace(new RegExp(canonicalLower, 'gi'), synonym));
+        variations.add(query.replace(new RegExp(escapeRegExp(canonicalLower), 'gi'), synonym));
       });
     }
     
@@ -125,21 +221,31 @@ export function expandQueryWithSynonyms(query: string): string[] {
     synonyms.forEach(synonym => {
       const synonymLower = synonym.toLowerCase();
       if (normalizedQuery.includes(synonymLower)) {
-        variations.add(query.replace(new RegExp(synonymLower, 'gi'), canonical));
+        variations.add(query.replace(new RegExp(escapeRegExp(synonymLower), 'gi'), canonical));
         synonyms.forEach(otherSynonym => {
           if (otherSynonym !== synonym) {
-            variations.add(query.replace(new RegExp(synonymLower, 'gi'), otherSynonym));
+            variations.add(query.replace(new RegExp(escapeRegExp(synonymLower), 'gi'), otherSynonym));
           }
         });
       }
     });
   }
   
+  // One-way synonyms only expand from the term
+  for (const [term, synonyms] of Object.entries(activeDictionary.oneWay)) {
+    const termLower = term.toLowerCase();
+    if (normalizedQuery.includes(termLower)) {
+      synonyms.forEach(synonym => {
+        variations.add(query.replace(new RegExp(escapeRegExp(termLower), 'gi'), synonym));
+      });
+    }
+  }
+  
   // Apply corrections for common misspellings
-  for (const [misspelling, correction] of Object.entries(JAMAICAN_CORRECTIONS)) {
+  for (const [misspelling, correction] of Object.entries(activeDictionary.corrections)) {
     const misspellingLower = misspelling.toLowerCase();
     if (normalizedQuery.includes(misspellingLower)) {
-      variations.add(query.replace(new RegExp(misspellingLower, 'gi'), correction));
+      variations.add(query.replace(new RegExp(escapeRegExp(misspellingLower), 'gi'), correction));
     }
   }
   
@@ -157,12 +263,9 @@ export function normalizeJamaicanTerms(query: string): string {
   let normalized = query;
   
   // Apply corrections (longest matches first to avoid partial replacements)
-  const corrections = Object.entries(JAMAICAN_CORRECTIONS)
-    .sort((a, b) => b[0].length - a[0].length);
-  
-  for (const [misspelling, correction] of corrections) {
+  for (const [misspelling, correction] of sortedCorrections) {
     // Case-insensitive replacement
-    const regex = new RegExp(`\\b${misspelling.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
+    const regex = new RegExp(`\\b${escapeRegExp(misspelling)}\\b`, 'gi');
     normalized = normalized.replace(regex, correction);
   }
   
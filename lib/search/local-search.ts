@@ -0,0 +1,338 @@
+/**
+ * Local Catalog Search Module
+ *
+ * Searches a downloaded catalog snapshot on device, for when the network is
+ * down. Uses the same matching building blocks as online search - Jamaican
+ * term normalization, synonym expansion and fuzzy matching - and the same
+ * ranking (rankResults), so offline results are ordered like online ones.
+ *
+ * Snapshot prices can be out of date. Each result carries the listing's
+ * last_seen_at and a possiblyStale flag so the UI can say so.
+ *
+ * No database or React Native dependencies - the snapshot is loaded by
+ * lib/offline-catalog-service.ts.
+ */
+
+import {
+  rankResults,
+  RankingUserPrefs,
+  SortMode,
+  PopularityLookup,
+  normalizeText,
+} from "./ranking";
+import { fuzzyMatchScore, FUZZY_MATCH_CONFIG } from "./fuzzy-match";
+import { normalizeJamaicanTerms, expandQueryWithSynonyms } from "./jamaican-terms";
+import { filterByQueryAttributes } from "./query-parser";
+import { matchesDietaryTags } from "./dietary";
+import {
+  estimateDeliveryMinutes,
+  getDeliveryCoordinates,
+  getDeliveryDistanceKm,
+  isQuickDelivery,
+  Coordinates,
+  DeliveryDestination,
+} from "./delivery-estimate";
+import { normalizeJamaicaParish } from "../jamaica-parishes";
+
+// Minimal type definitions to avoid circular dependency
+// These match the types from search-service.ts
+export interface CatalogProduct {
+  $id: string;
+  title: string;
+  sku: string;
+  brand?: string;
+  unit_size?: string;
+  net_weight?: string;
+  package_quantity?: number;
+  dietary_tags?: string[];
+  allergens?: string[];
+  primary_image_url?: string;
+  category_leaf_id: string;
+  category_path_ids: string[];
+}
+
+export interface CatalogCategory {
+  $id: string;
+  name: string;
+  parentId?: string;
+}
+
+export interface CatalogStoreLocation {
+  $id: string;
+  name: string;
+  display_name: string;
+  is_active: boolean;
+  brand_id: string;
+  slug: string;
+  parish?: string;
+  logo_url?: string;
+  delivery_time_minutes?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+/** Latest price of a product at a store */
+export interface CatalogListing {
+  product_id: string;
+  store_location_id: string;
+  price_jmd_cents: number;
+  in_stock: boolean;
+  last_seen_at?: string;
+}
+
+export interface CatalogSnapshot {
+  products: CatalogProduct[];
+  categories: CatalogCategory[];
+  storeLocations: CatalogStoreLocation[];
+  listings: CatalogListing[];
+}
+
+export interface LocalCatalogIndex {
+  products: CatalogProduct[];
+  categoriesById: Map<string, CatalogCategory>;
+  storeLocationsById: Map<string, CatalogStoreLocation>;
+  listingsByProductId: Map<string, CatalogListing[]>;
+  /** Normalized title, brand and category name per product (computed once) */
+  matchTextByProductId: Map<string, ProductMatchText>;
+}
+
+interface ProductMatchText {
+  title: string;
+  brand: string;
+  categoryName: string;
+}
+
+export interface LocalSearchFilters {
+  brands?: string[];
+  categoryIds?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  /** true/undefined = in stock only, false = include out of stock */
+  inStock?: boolean;
+  deliveryParish?: string;
+  storeLocationIds?: string[];
+  dietaryTags?: string[];
+  deliveryAddress?: DeliveryDestination;
+  quickDelivery?: boolean;
+}
+
+export interface LocalSearchOptions {
+  limit?: number;
+  sortMode?: SortMode;
+  userPrefs?: RankingUserPrefs;
+  filters?: LocalSearchFilters;
+  popularity?: PopularityLookup;
+  /** Current time (for tests) */
+  now?: number;
+  /** Listings not seen for longer than this are flagged as possibly stale */
+  staleAfterMs?: number;
+}
+
+export interface LocalSearchResult {
+  product: CatalogProduct;
+  brand: string;
+  category?: CatalogCategory;
+  storeLocation: CatalogStoreLocation;
+  priceJmdCents: number;
+  inStock: boolean;
+  sku: string;
+  relevanceScore?: number;
+  /** When the price was last confirmed by the catalog sync */
+  lastSeenAt: string | null;
+  /** True if the price/stock may have changed since lastSeenAt */
+  possiblyStale: boolean;
+  /** ETA to filters.deliveryAddress, null if the store can't be estimated */
+  deliveryEstimateMinutes: number | null;
+  /** filters.deliveryAddress coordinates (for distance_asc) */
+  deliveryAddress?: Coordinates;
+  /** Store (or its parish centre) to delivery address, null if either location is unknown */
+  distanceKm: number | null;
+}
+
+/** Prices not confirmed in the last day are flagged */
+export const DEFAULT_STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/** Brand and category matches count for slightly less than title matches */
+const BRAND_MATCH_FACTOR = 0.9;
+const CATEGORY_MATCH_FACTOR = 0.8;
+
+/**
+ * Builds lookup maps over a snapshot (done once per loaded snapshot)
+ */
+export function buildLocalCatalogIndex(snapshot: CatalogSnapshot): LocalCatalogIndex {
+  const listingsByProductId = new Map<string, CatalogListing[]>();
+  for (const listing of snapshot.listings) {
+    const listings = listingsByProductId.get(listing.product_id);
+    if (listings) {
+      listings.push(listing);
+    } else {
+      listingsByProductId.set(listing.product_id, [listing]);
+    }
+  }
+
+  const categoriesById = new Map(snapshot.categories.map((c) => [c.$id, c]));
+  const matchTextByProductId = new Map<string, ProductMatchText>();
+  for (const product of snapshot.products) {
+    const category = categoriesById.get(product.category_leaf_id);
+    matchTextByProductId.set(product.$id, {
+      title: normalizeText(product.title),
+      brand: product.brand ? normalizeText(product.brand) : "",
+      categoryName: category ? normalizeText(category.name) : "",
+    });
+  }
+
+  return {
+    products: snapshot.products,
+    categoriesById,
+    storeLocationsById: new Map(snapshot.storeLocations.map((s) => [s.$id, s])),
+    listingsByProductId,
+    matchTextByProductId,
+  };
+}
+
+/**
+ * Best match score of a product against any of the query variations
+ */
+function matchProduct(text: ProductMatchText, variations: string[]): number {
+  const { title, brand, categoryName } = text;
+
+  // Exact substring matches are common and skip the edit-distance work
+  for (const variation of variations) {
+    if (title.includes(variation)) return 1;
+  }
+
+  let best = 0;
+  for (const variation of variations) {
+    best = Math.max(
+      best,
+      fuzzyMatchScore(title, variation),
+      brand ? fuzzyMatchScore(brand, variation) * BRAND_MATCH_FACTOR : 0,
+      categoryName ? fuzzyMatchScore(categoryName, variation) * CATEGORY_MATCH_FACTOR : 0
+    );
+    if (best >= 1) break;
+  }
+  return best;
+}
+
+/**
+ * Whether a store's parish is the delivery parish ("St. Andrew" is "Kingston & St. Andrew")
+ */
+function isSameParish(storeParish: string | undefined, deliveryParish: string): boolean {
+  const canonical = normalizeJamaicaParish(deliveryParish);
+  return canonical ? normalizeJamaicaParish(storeParish) === canonical : storeParish === deliveryParish;
+}
+
+/**
+ * Picks the listing to show for a product: in stock first, then cheapest
+ */
+function pickListing(
+  listings: CatalogListing[],
+  index: LocalCatalogIndex,
+  filters: LocalSearchFilters | undefined
+): CatalogListing | null {
+  const inStockOnly = filters?.inStock !== false;
+  let best: CatalogListing | null = null;
+
+  for (const listing of listings) {
+    const store = index.storeLocationsById.get(listing.store_location_id);
+    if (!store || !store.is_active) continue;
+    if (inStockOnly && !listing.in_stock) continue;
+    if (filters?.storeLocationIds?.length && !filters.storeLocationIds.includes(store.$id)) continue;
+    if (filters?.deliveryParish && !isSameParish(store.parish, filters.deliveryParish)) continue;
+    if (filters?.quickDelivery && !isQuickDelivery(store, filters.deliveryAddress)) continue;
+    if (filters?.minPrice !== undefined && listing.price_jmd_cents < filters.minPrice) continue;
+    if (filters?.maxPrice !== undefined && listing.price_jmd_cents > filters.maxPrice) continue;
+
+    if (
+      !best ||
+      (listing.in_stock && !best.in_stock) ||
+      (listing.in_stock === best.in_stock && listing.price_jmd_cents < best.price_jmd_cents)
+    ) {
+      best = listing;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Searches the local catalog
+ * @param index - Index built from a catalog snapshot
+ * @param query - Search query
+ * @param options - Limit, sort, filters and staleness threshold
+ * @returns Ranked results, each flagged with how fresh its price is
+ */
+export function searchLocalCatalog(
+  index: LocalCatalogIndex,
+  query: string,
+  options: LocalSearchOptions = {}
+): LocalSearchResult[] {
+  if (!query || query.trim().length === 0) return [];
+
+  const {
+    limit = 50,
+    sortMode = "relevance",
+    userPrefs,
+    filters,
+    popularity,
+    now = Date.now(),
+    staleAfterMs = DEFAULT_STALE_AFTER_MS,
+  } = options;
+
+  const variations = Array.from(
+    new Set(expandQueryWithSynonyms(normalizeJamaicanTerms(query)).map((v) => normalizeText(v)))
+  ).filter((v) => v.length > 0);
+  const brandFilter = filters?.brands?.map((b) => b.toLowerCase());
+  const deliveryCoordinates = filters?.deliveryAddress
+    ? getDeliveryCoordinates(filters.deliveryAddress)
+    : null;
+
+  const results: LocalSearchResult[] = [];
+  for (const product of index.products) {
+    if (brandFilter?.length && !brandFilter.includes((product.brand || "").toLowerCase())) {
+      continue;
+    }
+    if (filters?.dietaryTags?.length && !matchesDietaryTags(product, filters.dietaryTags)) {
+      continue;
+    }
+    if (
+      filters?.categoryIds?.length &&
+      !filters.categoryIds.some(
+        (id) => id === product.category_leaf_id || product.category_path_ids.includes(id)
+      )
+    ) {
+      continue;
+    }
+
+    const matchText = index.matchTextByProductId.get(product.$id);
+    if (!matchText || matchProduct(matchText, variations) < FUZZY_MATCH_CONFIG.similarityThreshold) {
+      continue;
+    }
+
+    const category = index.categoriesById.get(product.category_leaf_id);
+    const listing = pickListing(index.listingsByProductId.get(product.$id) || [], index, filters);
+    if (!listing) continue;
+
+    const lastSeenAt = listing.last_seen_at || null;
+    const lastSeenTime = lastSeenAt ? new Date(lastSeenAt).getTime() : NaN;
+    const storeLocation = index.storeLocationsById.get(listing.store_location_id)!;
+
+    results.push({
+      product,
+      brand: product.brand || "",
+      category,
+      storeLocation,
+      priceJmdCents: listing.price_jmd_cents,
+      inStock: listing.in_stock,
+      sku: product.sku,
+      lastSeenAt,
+      possiblyStale: !Number.isFinite(lastSeenTime) || now - lastSeenTime > staleAfterMs,
+      deliveryEstimateMinutes: estimateDeliveryMinutes(storeLocation, filters?.deliveryAddress),
+      deliveryAddress: deliveryCoordinates || undefined,
+      distanceKm: deliveryCoordinates ? getDeliveryDistanceKm(storeLocation, deliveryCoordinates) : null,
+    });
+  }
+
+  return rankResults(filterByQueryAttributes(results, query), query, userPrefs, sortMode, popularity)
+    .slice(0, limit);
+}
@@ -0,0 +1,217 @@
+/**
+ * Search Pagination Module
+ *
+ * Cursor pagination over ranked search results.
+ *
+ * Relevance ranking needs every candidate (title, brand and category matches
+ * across all stores) before it can decide what is on page 1, so the first page
+ * still does the full fan-out. The ranked candidate set is then kept in memory
+ * as a snapshot, and later pages are sliced from it without touching the
+ * database.
+ *
+ * Cursors are opaque strings that encode the rank position of the next result,
+ * the snapshot they came from and a hash of the search (query, sort, filters).
+ * If the snapshot has expired the search is re-run and paging continues at the
+ * same rank position - ranking is deterministic, so this only shifts results if
+ * the catalog changed in between.
+ */
+
+/** How long a ranked candidate set is reused for later pages */
+export const SEARCH_SNAPSHOT_TTL_MS = 5 * 60 * 1000;
+
+/** Maximum number of searches kept in memory (oldest evicted first) */
+export const MAX_SEARCH_SNAPSHOTS = 20;
+
+const CURSOR_VERSION = 1;
+
+interface SearchCursorPayload {
+  /** Cursor format version */
+  v: number;
+  /** Hash of the search the cursor belongs to */
+  k: string;
+  /** Snapshot the position refers to */
+  s: string;
+  /** Rank position (0-based) of the first result on the next page */
+  p: number;
+}
+
+export interface SearchCursor {
+  searchKey: string;
+  snapshotId: string;
+  position: number;
+}
+
+export interface SearchSnapshot<T> {
+  snapshotId: string;
+  searchKey: string;
+  results: T[];
+  createdAt: number;
+}
+
+/**
+ * Thrown when a cursor can't be decoded or belongs to a different search
+ */
+export class InvalidSearchCursorError extends Error {
+  constructor(message: string = "Invalid search cursor") {
+    super(message);
+    this.name = "InvalidSearchCursorError";
+  }
+}
+
+const snapshots = new Map<string, SearchSnapshot<unknown>>();
+let snapshotCounter = 0;
+
+/**
+ * FNV-1a hash, base36 encoded
+ * Keeps cursors short regardless of query or filter size
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * JSON with object keys sorted, so equivalent filters hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Builds the key that identifies a search for caching and cursor validation
+ * @param parts - Everything that affects which results are returned and in what order
+ */
+export function buildSearchKey(parts: {
+  query: string;
+  sortMode: string;
+  filters?: unknown;
+  userPrefs?: unknown;
+}): string {
+  return hashString(
+    stableStringify({
+      q: parts.query.trim().toLowerCase(),
+      s: parts.sortMode,
+      f: parts.filters || null,
+      u: parts.userPrefs || null,
+    })
+  );
+}
+
+function toBase64Url(value: string): string {
+  return btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+}
+
+/**
+ * Encodes a cursor as an opaque URL-safe string
+ */
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  const payload: SearchCursorPayload = {
+    v: CURSOR_VERSION,
+    k: cursor.searchKey,
+    s: cursor.snapshotId,
+    p: cursor.position,
+  };
+  return toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Decodes a cursor
+ * @param value - Cursor string from a previous page
+ * @param searchKey - Key of the search being paged (see buildSearchKey)
+ * @throws InvalidSearchCursorError if the cursor is malformed or from another search
+ */
+export function decodeSearchCursor(value: string, searchKey: string): SearchCursor {
+  let payload: SearchCursorPayload;
+  try {
+    payload = JSON.parse(fromBase64Url(value));
+  } catch {
+    throw new InvalidSearchCursorError();
+  }
+
+  if (
+    !payload ||
+    payload.v !== CURSOR_VERSION ||
+    typeof payload.k !== "string" ||
+    typeof payload.s !== "string" ||
+    !Number.isInteger(payload.p) ||
+    payload.p < 0
+  ) {
+    throw new InvalidSearchCursorError();
+  }
+  if (payload.k !== searchKey) {
+    throw new InvalidSearchCursorError("Search cursor belongs to a different search");
+  }
+
+  return { searchKey: payload.k, snapshotId: payload.s, position: payload.p };
+}
+
+/**
+ * Returns the cached ranked results for a search, if still fresh
+ * @param searchKey - Search key
+ * @param now - Current time (for tests)
+ */
+export function getSearchSnapshot<T>(
+  searchKey: string,
+  now: number = Date.now()
+): SearchSnapshot<T> | null {
+  const snapshot = snapshots.get(searchKey);
+  if (!snapshot) return null;
+  if (now - snapshot.createdAt > SEARCH_SNAPSHOT_TTL_MS) {
+    snapshots.delete(searchKey);
+    return null;
+  }
+  return snapshot as SearchSnapshot<T>;
+}
+
+/**
+ * Stores the ranked results for a search
+ * Replaces any earlier snapshot for the same search
+ * @returns The new snapshot
+ */
+export function saveSearchSnapshot<T>(
+  searchKey: string,
+  results: T[],
+  now: number = Date.now()
+): SearchSnapshot<T> {
+  snapshots.delete(searchKey);
+  while (snapshots.size >= MAX_SEARCH_SNAPSHOTS) {
+    const oldestKey = snapshots.keys().next().value;
+    if (oldestKey === undefined) break;
+    snapshots.delete(oldestKey);
+  }
+
+  snapshotCounter += 1;
+  const snapshot: SearchSnapshot<T> = {
+    snapshotId: `${now.toString(36)}${snapshotCounter.toString(36)}`,
+    searchKey,
+    results,
+    createdAt: now,
+  };
+  snapshots.set(searchKey, snapshot as SearchSnapshot<unknown>);
+  return snapshot;
+}
+
+/**
+ * Drops all cached snapshots (e.g. after a catalog refresh)
+ */
+export function clearSearchSnapshots(): void {
+  snapshots.clear();
+}
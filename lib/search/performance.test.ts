@@ -8,6 +8,16 @@
  */
 
 import { rankResults, RankingProduct, RankingCategory, SortMode } from "./ranking";
+import {
+  LruCache,
+  PersistentSnapshot,
+  KeyValueStorage,
+  dedupeInFlight,
+  getSearchCacheStats,
+  resetSearchCaches,
+} from "./query-cache";
+import { buildLocalCatalogIndex, searchLocalCatalog, CatalogSnapshot } from "./local-search";
+import { buildSuggestionTrie } from "./suggestion-trie";
 
 // Test configuration
 const DATASET_SIZES = [100, 1000, 10000];
@@ -277,18 +287,282 @@ DATASET_SIZES.forEach(size => {
 
 console.log("");
 
-// Summary
-console.log("=".repeat(60));
-console.log("Performance Test Summary");
-console.log("=".repeat(60));
-console.log("\n✓ All performance tests completed");
-console.log("\nKey Findings:");
-console.log("  - Ranking scales linearly with dataset size");
-console.log("  - Filtering is efficient for in-memory operations");
-console.log("  - Sorting performance is acceptable up to 10K records");
-console.log("  - Pagination is negligible overhead");
-console.log("\nRecommendations:");
-console.log("  - For datasets > 10K: Consider server-side pagination");
-console.log("  - For filters: Move brand/price filters to database queries");
-console.log("  - Monitor real-world performance with production data");
-console.log("");
+// Test 7: Query cache hit/miss behaviour
+// Simulates repeated keystroke searches against a fake backend that counts fetches
+async function runQueryCacheTests(): Promise<void> {
+  console.log("Test 7: Query Cache");
+  console.log("-".repeat(60));
+
+  let failures = 0;
+  const check = (condition: boolean, message: string) => {
+    if (condition) {
+      console.log(`  ✓ PASS: ${message}`);
+    } else {
+      failures++;
+      console.log(`  ❌ FAIL: ${message}`);
+    }
+  };
+
+  resetSearchCaches();
+  const products = generateMockProducts(1000);
+  const productIndex = new Map(products.map((p) => [p.product.$id, p.product]));
+  let backendCalls = 0;
+  let backendIds = 0;
+  const fetchProducts = async (ids: string[]) => {
+    backendCalls++;
+    backendIds += ids.length;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const found = new Map<string, RankingProduct>();
+    ids.forEach((id) => {
+      const product = productIndex.get(id);
+      if (product) found.set(id, product);
+    });
+    return found;
+  };
+
+  const cache = new LruCache<RankingProduct>("test:products", 500, 60 * 1000);
+  const firstPage = products.slice(0, 100).map((p) => p.product.$id);
+
+  await cache.getMany(firstPage, fetchProducts);
+  check(cache.stats.misses === 100 && cache.stats.hits === 0, "First lookup misses every ID");
+
+  const repeat = await cache.getMany(firstPage, fetchProducts);
+  check(cache.stats.hits === 100 && backendCalls === 1, "Repeat lookup is served from cache");
+  check(repeat.size === 100, "Cached lookup returns every product");
+
+  // Two identical lookups in flight at once share a single fetch
+  const nextPage = products.slice(100, 150).map((p) => p.product.$id);
+  await Promise.all([cache.getMany(nextPage, fetchProducts), cache.getMany(nextPage, fetchProducts)]);
+  check(backendCalls === 2 && cache.stats.dedupedRequests === 50, "Concurrent identical lookups are de-duplicated");
+
+  // Overfilling the cache evicts least-recently-used entries
+  await cache.getMany(products.slice(150, 650).map((p) => p.product.$id), fetchProducts);
+  check(cache.size === 500 && cache.stats.evictions === 150, "LRU evicts oldest entries beyond capacity");
+  check(backendIds === 650, "Only uncached IDs are fetched from the backend");
+
+  // Whole-request de-duplication
+  let listCalls = 0;
+  const loadCategories = async () => {
+    listCalls++;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return ["Beverages", "Snacks"];
+  };
+  await Promise.all([dedupeInFlight("test:list", loadCategories), dedupeInFlight("test:list", loadCategories)]);
+  check(listCalls === 1, "Identical in-flight requests share one call");
+
+  // Persistent snapshot: in-memory, then storage (simulated app restart), then TTL expiry
+  const stored = new Map<string, string>();
+  const storage: KeyValueStorage = {
+    getItem: async (key) => stored.get(key) ?? null,
+    setItem: async (key, value) => {
+      stored.set(key, value);
+    },
+    removeItem: async (key) => {
+      stored.delete(key);
+    },
+  };
+  const ttlMs = 60 * 1000;
+  const start = Date.now();
+  const snapshot = new PersistentSnapshot<string[]>("test:categories", ttlMs, storage);
+  await snapshot.get(loadCategories, start);
+  await snapshot.get(loadCategories, start + 1000);
+  check(snapshot.stats.misses === 1 && snapshot.stats.hits === 1, "Snapshot is loaded once and then served from memory");
+
+  // Storage writes are fire-and-forget - let them land before "restarting"
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  const restarted = new PersistentSnapshot<string[]>("test:categories", ttlMs, storage);
+  const callsBeforeRestart = listCalls;
+  await restarted.get(loadCategories, start + 2000);
+  check(listCalls === callsBeforeRestart && restarted.stats.hits === 1, "Snapshot survives a restart via storage");
+
+  await restarted.get(loadCategories, start + ttlMs + 1);
+  check(listCalls === callsBeforeRestart + 1, "Expired snapshot is refreshed");
+
+  // Large snapshots are split across storage entries and read back whole
+  const largeList = Array.from({ length: 50000 }, (_, i) => `Grace Corned Beef 340g #${i}`);
+  const partKeys = () => Array.from(stored.keys()).filter((key) => key.startsWith("@grovi:search_cache_test:large_"));
+  const large = new PersistentSnapshot<string[]>("test:large", ttlMs, storage);
+  await large.get(async () => largeList, start);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  const firstParts = partKeys();
+  check(
+    firstParts.length > 1 && firstParts.every((key) => stored.get(key)!.length <= 500 * 1000),
+    `Large snapshot is split into ${firstParts.length} entries of at most 500k characters`
+  );
+
+  const largeRestarted = new PersistentSnapshot<string[]>("test:large", ttlMs, storage);
+  const restored = await largeRestarted.get(async () => [], start + 1000);
+  check(
+    restored.length === largeList.length && restored[restored.length - 1] === largeList[largeList.length - 1],
+    "Split snapshot is read back whole after a restart"
+  );
+
+  await largeRestarted.get(async () => largeList.slice(0, 10), start + ttlMs + 1);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  check(partKeys().length === 1 && !firstParts.some((key) => stored.has(key)), "Refresh removes the old parts");
+
+  const stats = getSearchCacheStats();
+  check(stats["test:products"].hits === cache.stats.hits, "getSearchCacheStats reports per-cache stats");
+
+  const hitRate = cache.stats.hits / (cache.stats.hits + cache.stats.misses);
+  console.log(`  Product cache hit rate: ${(hitRate * 100).toFixed(1)}%`);
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+  console.log("");
+}
+
+// Test 8: Offline catalog search
+// Searches a downloaded-style snapshot the size of the full catalog
+function runOfflineCatalogTests(): void {
+  console.log("Test 8: Offline Catalog Search");
+  console.log("-".repeat(60));
+
+  let failures = 0;
+  const check = (condition: boolean, message: string) => {
+    if (condition) {
+      console.log(`  ✓ PASS: ${message}`);
+    } else {
+      failures++;
+      console.log(`  ❌ FAIL: ${message}`);
+    }
+  };
+
+  const now = Date.now();
+  const dayMs = 24 * 60 * 60 * 1000;
+  const mock = generateMockProducts(10000);
+  mock.push({
+    ...mock[0],
+    inStock: true,
+    product: { ...mock[0].product, $id: "product_corned_beef", title: "Grace Corned Beef 340g", sku: "SKU_CB" },
+  });
+
+  const snapshot: CatalogSnapshot = {
+    products: mock.map((p) => p.product),
+    categories: Array.from(new Map(mock.map((p) => [p.category!.$id, p.category!])).values()),
+    storeLocations: Array.from(new Map(mock.map((p) => [p.storeLocation.$id, p.storeLocation])).values()),
+    listings: mock.map((p, i) => ({
+      product_id: p.product.$id,
+      store_location_id: p.storeLocation.$id,
+      price_jmd_cents: p.priceJmdCents,
+      in_stock: p.inStock,
+      // Every other listing was last confirmed three days ago
+      last_seen_at: new Date(now - (i % 2 === 0 ? 1 : 3) * dayMs).toISOString(),
+    })),
+  };
+
+  let start = performance.now();
+  const index = buildLocalCatalogIndex(snapshot);
+  const indexTime = performance.now() - start;
+  console.log(`  Index build (10K products): ${indexTime.toFixed(2)}ms`);
+
+  start = performance.now();
+  const results = searchLocalCatalog(index, "lasco", { limit: 50, now });
+  const searchTime = performance.now() - start;
+  console.log(`  Search (10K products): ${searchTime.toFixed(2)}ms`);
+
+  check(results.length === 50, "Returns a full page of matches");
+  check(results.every((r) => r.inStock), "Out-of-stock listings are excluded by default");
+  check(
+    results.every((r) => r.possiblyStale === now - new Date(r.lastSeenAt!).getTime() > dayMs),
+    "Results are flagged stale from last_seen_at"
+  );
+
+  const synonymResults = searchLocalCatalog(index, "corn beef", { limit: 5, now });
+  check(synonymResults[0]?.product.$id === "product_corned_beef", "Jamaican term normalization applies offline");
+
+  const byPrice = searchLocalCatalog(index, "lasco", { limit: 20, sortMode: "price_asc", now });
+  check(
+    byPrice.every((r, i) => i === 0 || byPrice[i - 1].priceJmdCents <= r.priceJmdCents),
+    "Sort modes use the shared ranking"
+  );
+
+  if (searchTime > 1000) {
+    console.log(`  ⚠️  WARNING: Offline search is slow (${searchTime.toFixed(2)}ms)`);
+  }
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+  console.log("");
+}
+
+// Test 9: Search suggestions
+// Keystroke lookups against a trie of the full catalog must stay under 20ms
+function runSuggestionTests(): void {
+  console.log("Test 9: Search Suggestions");
+  console.log("-".repeat(60));
+
+  let failures = 0;
+  const check = (condition: boolean, message: string) => {
+    if (condition) {
+      console.log(`  ✓ PASS: ${message}`);
+    } else {
+      failures++;
+      console.log(`  ❌ FAIL: ${message}`);
+    }
+  };
+
+  const mock = generateMockProducts(10000);
+  const products = mock.map((p) => p.product);
+  products.push(
+    { $id: "p_corned", title: "Grace Corned Beef 340g", sku: "CB", brand: "Grace", category_leaf_id: "cat_2", category_path_ids: ["cat_2"] },
+    { $id: "p_cornflakes", title: "Kellogg's Corn Flakes", sku: "CF", brand: "Kellogg's", category_leaf_id: "cat_1", category_path_ids: ["cat_1"] }
+  );
+  const categories = Array.from(new Map(mock.map((p) => [p.category!.$id, p.category!])).values());
+
+  let start = performance.now();
+  const trie = buildSuggestionTrie({
+    products,
+    categories,
+    popularQueries: { "corn flakes": 2, "kellogg's corn flakes": 40, "coconut water": 12 },
+  });
+  console.log(`  Trie build (10K products): ${(performance.now() - start).toFixed(2)}ms`);
+
+  const keystrokes = ["g", "gr", "gra", "grac", "grace", "grace c", "grace co", "corn", "la", "be"];
+  start = performance.now();
+  keystrokes.forEach((prefix) => trie.lookup(prefix, 10));
+  const perLookup = (performance.now() - start) / keystrokes.length;
+  console.log(`  Average lookup: ${perLookup.toFixed(3)}ms`);
+  check(perLookup < 20, "Lookups respond in under 20ms");
+
+  const grace = trie.lookup("gra", 10);
+  check(grace[0]?.type === "brand" && grace[0].text === "Grace", "Brands get their own suggestion type");
+  check(trie.lookup("bev", 5).some((s) => s.type === "category"), "Category names are suggested");
+  check(trie.lookup("beef", 10).some((s) => s.text === "Grace Corned Beef 340g"), "Any word of a title matches");
+  check(trie.lookup("grace corned b", 5)[0]?.text === "Grace Corned Beef 340g", "Multi-word prefixes narrow the match");
+  check(trie.lookup("shuga", 5)[0]?.text === "sugar", "Jamaican term variations suggest the canonical term");
+  check(trie.lookup("coco", 5)[0]?.text === "coconut water", "Popular searches are suggested");
+
+  const corn = trie.lookup("corn", 10).map((s) => s.id);
+  check(
+    corn.includes("p_cornflakes") && corn.indexOf("p_cornflakes") < corn.indexOf("p_corned"),
+    "More searched products rank higher"
+  );
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+  console.log("");
+}
+
+runQueryCacheTests().then(() => {
+  runOfflineCatalogTests();
+  runSuggestionTests();
+
+  // Summary
+  console.log("=".repeat(60));
+  console.log("Performance Test Summary");
+  console.log("=".repeat(60));
+  console.log("\n✓ All performance tests completed");
+  console.log("\nKey Findings:");
+  console.log("  - Ranking scales linearly with dataset size");
+  console.log("  - Filtering is efficient for in-memory operations");
+  console.log("  - Sorting performance is acceptable up to 10K records");
+  console.log("  - Pagination is negligible overhead");
+  console.log("\nRecommendations:");
+  console.log("  - For datasets > 10K: Consider server-side pagination");
+  console.log("  - For filters: Move brand/price filters to database queries");
+  console.log("  - Monitor real-world performance with production data");
+  console.log("");
+});
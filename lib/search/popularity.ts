@@ -0,0 +1,176 @@
+/**
+ * Search Popularity Module
+ *
+ * Turns behavioural signals logged against searches - result clicks,
+ * add-to-cart and purchases - into a per-product popularity score (0-1) that
+ * ranking uses for RANKING_WEIGHTS.frequentlySearched.
+ *
+ * Scores are kept per query ("what do people pick when they search 'rice'")
+ * and overall, then blended, so a product popular for one query isn't boosted
+ * for unrelated ones while new queries still get some signal. Older events
+ * count for less (exponential decay) so the scores follow what people buy now.
+ *
+ * Scores are aggregated server-side by scripts/search-popularity.ts into the
+ * search_popularity table, which the app reads instead of the raw events.
+ *
+ * No database dependencies - the script loads the events and search-service
+ * loads the scores.
+ */
+
+import { normalizeText } from "./ranking";
+
+export type SearchInteractionType = "click" | "add_to_cart" | "purchase";
+
+export interface SearchInteractionEvent {
+  query: string;
+  productId: string;
+  eventType: SearchInteractionType;
+  /** ISO 8601 */
+  timestamp: string;
+  /** Who did it (user ID, or session ID when anonymous) - counted once per query, product and signal */
+  actorId?: string;
+}
+
+/**
+ * A stored score (search_popularity document)
+ * query is null for overall popularity; generatedAt identifies the
+ * aggregation run, so a table half-way through being replaced reads as one run.
+ */
+export interface PopularityScoreRow {
+  productId: string;
+  query: string | null;
+  score: number;
+  generatedAt: string;
+}
+
+/**
+ * Aggregated popularity scores (0-1), keyed by product ID
+ * Plain objects so the index can be persisted as JSON
+ */
+export interface PopularityIndex {
+  overall: Record<string, number>;
+  /** Keyed by normalized query */
+  byQuery: Record<string, Record<string, number>>;
+}
+
+/** How much each signal is worth - a purchase says more than a click */
+export const INTERACTION_WEIGHTS: Record<SearchInteractionType, number> = {
+  click: 1,
+  add_to_cart: 3,
+  purchase: 5,
+};
+
+/** An event's weight halves every this many days */
+export const POPULARITY_HALF_LIFE_DAYS = 14;
+
+/** Share of the score that comes from the query's own signals when it has any */
+const QUERY_SCORE_SHARE = 0.7;
+
+/**
+ * Key for per-query scores - same normalization ranking uses, so
+ * "Grace Corned Beef 340g" and "grace corned beef" share signals
+ */
+export function toPopularityQueryKey(query: string): string {
+  return normalizeText(query);
+}
+
+/**
+ * Scales raw totals to 0-1 on a log scale, relative to the highest total
+ * The log keeps one runaway best-seller from flattening everyone else to 0
+ */
+function normalizeScores(raw: Map<string, number>): Record<string, number> {
+  let max = 0;
+  for (const value of raw.values()) {
+    max = Math.max(max, value);
+  }
+
+  const scores: Record<string, number> = {};
+  if (max <= 0) return scores;
+  const maxLog = Math.log1p(max);
+  for (const [productId, value] of raw) {
+    scores[productId] = Math.log1p(value) / maxLog;
+  }
+  return scores;
+}
+
+/**
+ * Aggregates interaction events into popularity scores
+ * @param events - Search interaction events
+ * @param now - Current time (for tests)
+ */
+export function aggregatePopularity(
+  events: SearchInteractionEvent[],
+  now: number = Date.now()
+): PopularityIndex {
+  const halfLifeMs = POPULARITY_HALF_LIFE_DAYS * 24 * 60 * 60 * 1000;
+  const overall = new Map<string, number>();
+  const byQuery = new Map<string, Map<string, number>>();
+  const counted = new Set<string>();
+
+  for (const event of events) {
+    const weight = INTERACTION_WEIGHTS[event.eventType];
+    if (!weight || !event.productId) continue;
+
+    // Repeating the same signal doesn't make a product more popular
+    if (event.actorId) {
+      const key = [event.actorId, toPopularityQueryKey(event.query), event.productId, event.eventType].join("|");
+      if (counted.has(key)) continue;
+      counted.add(key);
+    }
+
+    const time = new Date(event.timestamp).getTime();
+    const ageMs = Number.isFinite(time) ? Math.max(0, now - time) : 0;
+    const value = weight * Math.pow(0.5, ageMs / halfLifeMs);
+
+    overall.set(event.productId, (overall.get(event.productId) || 0) + value);
+
+    const queryKey = toPopularityQueryKey(event.query);
+    if (!queryKey) continue;
+    let queryTotals = byQuery.get(queryKey);
+    if (!queryTotals) {
+      queryTotals = new Map();
+      byQuery.set(queryKey, queryTotals);
+    }
+    queryTotals.set(event.productId, (queryTotals.get(event.productId) || 0) + value);
+  }
+
+  const index: PopularityIndex = { overall: normalizeScores(overall), byQuery: {} };
+  for (const [queryKey, totals] of byQuery) {
+    index.byQuery[queryKey] = normalizeScores(totals);
+  }
+  return index;
+}
+
+/**
+ * Popularity of a product for a query (0-1)
+ * Blends the query's own signals with overall popularity; falls back to
+ * overall popularity for queries with no signals yet
+ */
+export function getPopularityScore(
+  index: PopularityIndex,
+  query: string,
+  productId: string
+): number {
+  const overall = index.overall[productId] || 0;
+  const queryScores = index.byQuery[toPopularityQueryKey(query)];
+  if (!queryScores) return overall;
+  return QUERY_SCORE_SHARE * (queryScores[productId] || 0) + (1 - QUERY_SCORE_SHARE) * overall;
+}
+
+/**
+ * Scores (productId -> score) from stored rows, keeping only the latest run
+ */
+export function parsePopularityScoreRows(rows: PopularityScoreRow[]): Record<string, number> {
+  let latest = "";
+  for (const row of rows) {
+    if (row.generatedAt > latest) latest = row.generatedAt;
+  }
+
+  const scores: Record<string, number> = {};
+  for (const row of rows) {
+    if (row.generatedAt === latest && row.productId && Number.isFinite(row.score)) {
+      scores[row.productId] = row.score;
+    }
+  }
+  return scores;
+}
@@ -0,0 +1,383 @@
+/**
+ * Search Query Cache Module
+ *
+ * Cache layer for the lookups search repeats on every keystroke:
+ * - LRU caches for documents fetched by ID (products, store locations, store brands)
+ * - TTL'd snapshots of small, slow-changing lists (category tree, brand list),
+ *   kept in memory and persisted to device storage between app launches
+ * - De-duplication of identical in-flight requests, so two callers asking for
+ *   the same thing at the same time share one network call
+ *
+ * Every cache records hit/miss stats (see getSearchCacheStats).
+ *
+ * This module has no database or React Native dependencies - search-service
+ * supplies the fetchers and the storage (AsyncStorage), and tests can supply
+ * fakes.
+ */
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  /** Requests that joined an identical in-flight request instead of fetching */
+  dedupedRequests: number;
+}
+
+/** Minimal key-value storage (AsyncStorage-compatible) */
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+interface LruEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+const statsRegistry = new Map<string, CacheStats>();
+const clearRegistry = new Map<string, () => void>();
+
+function createStats(name: string, clear: () => void): CacheStats {
+  const stats: CacheStats = { hits: 0, misses: 0, evictions: 0, dedupedRequests: 0 };
+  statsRegistry.set(name, stats);
+  clearRegistry.set(name, clear);
+  return stats;
+}
+
+function resetStats(stats: CacheStats): void {
+  stats.hits = 0;
+  stats.misses = 0;
+  stats.evictions = 0;
+  stats.dedupedRequests = 0;
+}
+
+/**
+ * Least-recently-used cache of documents keyed by ID
+ * Entries also expire after ttlMs so prices and stock don't go stale
+ */
+export class LruCache<V> {
+  readonly name: string;
+  readonly maxEntries: number;
+  readonly ttlMs: number;
+  readonly stats: CacheStats;
+  private entries = new Map<string, LruEntry<V>>();
+  private inFlight = new Map<string, Promise<V | undefined>>();
+
+  constructor(name: string, maxEntries: number, ttlMs: number) {
+    this.name = name;
+    this.maxEntries = maxEntries;
+    this.ttlMs = ttlMs;
+    this.stats = createStats(name, () => this.clear());
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns a cached value and marks it most recently used
+   * Does not touch stats - use getMany for counted lookups
+   */
+  peek(key: string, now: number = Date.now()): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V, now: number = Date.now()): void {
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+      this.stats.evictions += 1;
+    }
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  /**
+   * Looks up many IDs, fetching only the ones that aren't cached or already
+   * being fetched
+   * @param keys - IDs to look up
+   * @param fetchMissing - Fetches the uncached IDs (IDs it can't find are left out)
+   * @returns Map of ID to value for every ID that was found
+   */
+  async getMany(
+    keys: string[],
+    fetchMissing: (keys: string[]) => Promise<Map<string, V>>
+  ): Promise<Map<string, V>> {
+    const found = new Map<string, V>();
+    const pending: [string, Promise<V | undefined>][] = [];
+    const missing: string[] = [];
+
+    for (const key of new Set(keys)) {
+      const cached = this.peek(key);
+      if (cached !== undefined) {
+        this.stats.hits += 1;
+        found.set(key, cached);
+        continue;
+      }
+
+      const inFlight = this.inFlight.get(key);
+      if (inFlight) {
+        this.stats.dedupedRequests += 1;
+        pending.push([key, inFlight]);
+        continue;
+      }
+
+      this.stats.misses += 1;
+      missing.push(key);
+    }
+
+    if (missing.length > 0) {
+      const request = fetchMissing(missing);
+      for (const key of missing) {
+        // Joiners get undefined if the fetch fails; the caller that started it sees the error
+        const promise = request.then((fetched) => fetched.get(key)).catch(() => undefined);
+        this.inFlight.set(key, promise);
+        pending.push([key, promise]);
+      }
+
+      try {
+        const fetched = await request;
+        for (const [key, value] of fetched) {
+          this.set(key, value);
+        }
+      } finally {
+        for (const key of missing) {
+          this.inFlight.delete(key);
+        }
+      }
+    }
+
+    const settled = await Promise.all(
+      pending.map(async ([key, promise]) => [key, await promise] as const)
+    );
+    for (const [key, value] of settled) {
+      if (value !== undefined) {
+        found.set(key, value);
+      }
+    }
+
+    return found;
+  }
+}
+
+const inFlightRequests = new Map<string, Promise<unknown>>();
+const inFlightStats = createStats("inFlight", () => inFlightRequests.clear());
+
+/**
+ * Shares one in-flight call between identical concurrent requests
+ * @param key - Identifies the request (e.g. "categories:all")
+ * @param request - Starts the request
+ */
+export function dedupeInFlight<T>(key: string, request: () => Promise<T>): Promise<T> {
+  const existing = inFlightRequests.get(key);
+  if (existing) {
+    inFlightStats.dedupedRequests += 1;
+    return existing as Promise<T>;
+  }
+
+  inFlightStats.misses += 1;
+  const promise = request().finally(() => {
+    inFlightRequests.delete(key);
+  });
+  inFlightRequests.set(key, promise);
+  return promise;
+}
+
+interface StoredSnapshot<T> {
+  savedAt: number;
+  value: T;
+}
+
+/** Points at the parts a stored snapshot was split into */
+interface StoredSnapshotHeader {
+  savedAt: number;
+  parts: number;
+}
+
+/**
+ * Serialized snapshots are split into parts of this many characters so each
+ * storage entry stays well under Android's ~2 MB per-row limit
+ */
+const SNAPSHOT_PART_LENGTH = 500 * 1000;
+
+/**
+ * A list (category tree, brand list, suggestion source) cached in memory and
+ * in device storage, refreshed after ttlMs
+ *
+ * If a refresh fails, an expired copy is served rather than nothing.
+ * Stored copies are split across entries, each written under its own keys
+ * before the header is switched over, so a large list never ends up in one
+ * oversized entry and an interrupted write never leaves a mixed copy.
+ */
+export class PersistentSnapshot<T> {
+  readonly name: string;
+  readonly ttlMs: number;
+  readonly stats: CacheStats;
+  private storageKey: string;
+  private storage: KeyValueStorage | null;
+  private memory: StoredSnapshot<T> | null = null;
+
+  constructor(name: string, ttlMs: number, storage: KeyValueStorage | null) {
+    this.name = name;
+    this.ttlMs = ttlMs;
+    this.storage = storage;
+    this.storageKey = `@grovi:search_cache_${name}`;
+    this.stats = createStats(name, () => {
+      this.memory = null;
+    });
+  }
+
+  /**
+   * Returns the cached value, loading it if missing or expired
+   * @param load - Fetches a fresh value
+   */
+  async get(load: () => Promise<T>, now: number = Date.now()): Promise<T> {
+    if (this.memory && now - this.memory.savedAt < this.ttlMs) {
+      this.stats.hits += 1;
+      return this.memory.value;
+    }
+
+    const stored = await this.readStorage();
+    if (stored && now - stored.savedAt < this.ttlMs) {
+      this.stats.hits += 1;
+      this.memory = stored;
+      return stored.value;
+    }
+
+    this.stats.misses += 1;
+    try {
+      const value = await dedupeInFlight(`snapshot:${this.name}`, load);
+      this.memory = { savedAt: now, value };
+      this.writeStorage(this.memory).catch((error) => {
+        console.warn(`[QueryCache] Failed to persist ${this.name}:`, error);
+      });
+      return value;
+    } catch (error) {
+      const fallback = this.memory || stored;
+      if (fallback) {
+        console.warn(`[QueryCache] Refresh of ${this.name} failed - using cached copy:`, error);
+        return fallback.value;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drops the cached value from memory and storage
+   */
+  async invalidate(): Promise<void> {
+    this.memory = null;
+    if (this.storage) {
+      const header = await this.readHeader();
+      await this.storage.removeItem(this.storageKey);
+      if (header) {
+        await this.removeParts(header);
+      }
+    }
+  }
+
+  private partKey(savedAt: number, part: number): string {
+    return `${this.storageKey}_${savedAt}_${part}`;
+  }
+
+  private async readHeader(): Promise<StoredSnapshotHeader | null> {
+    if (!this.storage) return null;
+    const raw = await this.storage.getItem(this.storageKey);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as StoredSnapshotHeader;
+    return typeof parsed?.savedAt === "number" && typeof parsed.parts === "number" ? parsed : null;
+  }
+
+  private async removeParts(header: StoredSnapshotHeader): Promise<void> {
+    const storage = this.storage;
+    if (!storage) return;
+    for (let part = 0; part < header.parts; part++) {
+      await storage.removeItem(this.partKey(header.savedAt, part));
+    }
+  }
+
+  private async readStorage(): Promise<StoredSnapshot<T> | null> {
+    const storage = this.storage;
+    if (!storage) return null;
+    try {
+      const header = await this.readHeader();
+      if (!header) return null;
+      const parts: string[] = [];
+      for (let part = 0; part < header.parts; part++) {
+        const raw = await storage.getItem(this.partKey(header.savedAt, part));
+        if (raw === null) return null;
+        parts.push(raw);
+      }
+      return { savedAt: header.savedAt, value: JSON.parse(parts.join("")) as T };
+    } catch (error) {
+      console.warn(`[QueryCache] Failed to read ${this.name}:`, error);
+      return null;
+    }
+  }
+
+  private async writeStorage(snapshot: StoredSnapshot<T>): Promise<void> {
+    const storage = this.storage;
+    if (!storage) return;
+    const serialized = JSON.stringify(snapshot.value);
+    const header: StoredSnapshotHeader = {
+      savedAt: snapshot.savedAt,
+      parts: Math.max(1, Math.ceil(serialized.length / SNAPSHOT_PART_LENGTH)),
+    };
+
+    for (let part = 0; part < header.parts; part++) {
+      await storage.setItem(
+        this.partKey(header.savedAt, part),
+        serialized.slice(part * SNAPSHOT_PART_LENGTH, (part + 1) * SNAPSHOT_PART_LENGTH)
+      );
+    }
+    const previous = await this.readHeader().catch(() => null);
+    await storage.setItem(this.storageKey, JSON.stringify(header));
+
+    if (previous && previous.savedAt !== header.savedAt) {
+      await this.removeParts(previous);
+    }
+  }
+}
+
+/**
+ * Hit/miss stats for every cache, keyed by cache name
+ */
+export function getSearchCacheStats(): Record<string, CacheStats> {
+  const result: Record<string, CacheStats> = {};
+  for (const [name, stats] of statsRegistry) {
+    result[name] = { ...stats };
+  }
+  return result;
+}
+
+/**
+ * Clears every in-memory cache and resets stats
+ * Persisted snapshots are left in storage (use PersistentSnapshot.invalidate)
+ */
+export function resetSearchCaches(): void {
+  for (const [name, clear] of clearRegistry) {
+    clear();
+    const stats = statsRegistry.get(name);
+    if (stats) resetStats(stats);
+  }
+}
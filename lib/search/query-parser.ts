@@ -0,0 +1,223 @@
+/**
+ * Search Query Parser Module
+ *
+ * Pulls product attributes out of a query, so "grace corned beef 340g" or
+ * "kiss cupcakes 16 pack" match on size, pack count and brand instead of
+ * needing "340g" to appear in the title:
+ * - size: "340g", "2.5 kg", "1L", "12oz" - compared in grams or millilitres
+ *   against Product.unit_size, net_weight, then the title
+ * - pack count: "16 pack", "pack of 6", "x12", "24ct" - against
+ *   Product.package_quantity, then the title
+ * - brand: the product's brand appears in the query
+ *
+ * Ranking boosts products whose attributes match (see RANKING_WEIGHTS).
+ * filterByQueryAttributes drops products whose known size or pack count
+ * conflicts with the query - products without that data are kept.
+ *
+ * No database dependencies.
+ */
+
+export type SizeUnit = "g" | "ml";
+
+export interface QuerySize {
+  /** Amount in grams or millilitres */
+  amount: number;
+  unit: SizeUnit;
+  /** As typed, e.g. "340g" */
+  raw: string;
+}
+
+export interface ParsedQuery {
+  /** Query without the size and pack count */
+  text: string;
+  size: QuerySize | null;
+  packCount: number | null;
+}
+
+/** Product fields attributes are matched against */
+export interface AttributeProduct {
+  title: string;
+  unit_size?: string;
+  net_weight?: string;
+  package_quantity?: number;
+}
+
+/**
+ * How a product's attributes compare to the query
+ * null = the query doesn't ask for it, or the product has no data for it
+ */
+export interface AttributeMatch {
+  size: boolean | null;
+  packCount: boolean | null;
+  brand: boolean | null;
+}
+
+/** Sizes within this fraction count as the same ("12oz" is 340.2g) */
+const SIZE_TOLERANCE = 0.03;
+
+/** Conversion to grams or millilitres */
+const UNIT_CONVERSIONS: Record<string, { unit: SizeUnit; factor: number }> = {
+  g: { unit: "g", factor: 1 },
+  gm: { unit: "g", factor: 1 },
+  gram: { unit: "g", factor: 1 },
+  grams: { unit: "g", factor: 1 },
+  kg: { unit: "g", factor: 1000 },
+  kgs: { unit: "g", factor: 1000 },
+  oz: { unit: "g", factor: 28.35 },
+  lb: { unit: "g", factor: 453.6 },
+  lbs: { unit: "g", factor: 453.6 },
+  ml: { unit: "ml", factor: 1 },
+  l: { unit: "ml", factor: 1000 },
+  ltr: { unit: "ml", factor: 1000 },
+  litre: { unit: "ml", factor: 1000 },
+  liter: { unit: "ml", factor: 1000 },
+  litres: { unit: "ml", factor: 1000 },
+  liters: { unit: "ml", factor: 1000 },
+  gal: { unit: "ml", factor: 3785 },
+  gallon: { unit: "ml", factor: 3785 },
+};
+
+const SIZE_PATTERN = new RegExp(
+  `\\b(\\d+(?:\\.\\d+)?)\\s*(${Object.keys(UNIT_CONVERSIONS).join("|")})\\b`,
+  "i"
+);
+
+const PACK_PATTERNS: RegExp[] = [
+  /\b(\d+)\s*-?\s*(?:pack|pk|pcs|pieces|piece|ct|count)\b/i, // "16 pack", "24ct"
+  /\bpack\s+of\s+(\d+)\b/i, // "pack of 6"
+  /(?:^|\s)x\s*(\d+)\b/i, // "x12"
+  /\b(\d+)\s*x(?=\s|$)/i, // "12x" (not "4x250ml")
+];
+
+/**
+ * Parses a size ("340g", "1.5 L") to grams or millilitres
+ * @returns The size, or null if the text has none
+ */
+export function parseSize(text: string | undefined): QuerySize | null {
+  if (!text) return null;
+  const match = SIZE_PATTERN.exec(text);
+  if (!match) return null;
+  const conversion = UNIT_CONVERSIONS[match[2].toLowerCase()];
+  const amount = parseFloat(match[1]) * conversion.factor;
+  if (!(amount > 0)) return null;
+  return { amount, unit: conversion.unit, raw: match[0] };
+}
+
+/**
+ * Parses a pack count ("16 pack", "pack of 6", "x12")
+ * @returns The count, or null if the text has none
+ */
+export function parsePackCount(text: string | undefined): number | null {
+  if (!text) return null;
+  for (const pattern of PACK_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) {
+      const count = parseInt(match[1], 10);
+      if (count > 0) return count;
+    }
+  }
+  return null;
+}
+
+/**
+ * Splits a query into the product text and its size and pack count
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  let text = query || "";
+  const size = parseSize(text);
+  if (size) {
+    text = text.replace(size.raw, " ");
+  }
+
+  let packCount: number | null = null;
+  for (const pattern of PACK_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match && parseInt(match[1], 10) > 0) {
+      packCount = parseInt(match[1], 10);
+      text = text.replace(match[0], " ");
+      break;
+    }
+  }
+
+  return { text: text.replace(/\s+/g, " ").trim(), size, packCount };
+}
+
+function sameSize(a: QuerySize, b: QuerySize): boolean {
+  if (a.unit !== b.unit) return false;
+  return Math.abs(a.amount - b.amount) <= Math.max(a.amount, b.amount) * SIZE_TOLERANCE;
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^\w\s]/g, " ").split(/\s+/).filter((word) => word.length > 0);
+}
+
+/**
+ * Whether every word of the brand appears, in order, in the query
+ */
+function queryMentionsBrand(queryWords: string[], brand: string): boolean {
+  const brandWords = toWords(brand);
+  if (brandWords.length === 0) return false;
+  for (let start = 0; start + brandWords.length <= queryWords.length; start++) {
+    if (brandWords.every((word, offset) => queryWords[start + offset] === word)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Compares a product's size, pack count and brand to the query
+ * @param product - Product to compare
+ * @param brand - Product brand
+ * @param parsed - Parsed query (see parseSearchQuery)
+ */
+export function getAttributeMatch(
+  product: AttributeProduct,
+  brand: string | undefined,
+  parsed: ParsedQuery
+): AttributeMatch {
+  let size: boolean | null = null;
+  if (parsed.size) {
+    const productSize =
+      parseSize(product.unit_size) || parseSize(product.net_weight) || parseSize(product.title);
+    size = productSize ? sameSize(productSize, parsed.size) : null;
+  }
+
+  let packCount: boolean | null = null;
+  if (parsed.packCount !== null) {
+    const productCount =
+      product.package_quantity && product.package_quantity > 0
+        ? product.package_quantity
+        : parsePackCount(product.title);
+    packCount = productCount ? productCount === parsed.packCount : null;
+  }
+
+  // One-word queries that are just the brand already get the brand match weights
+  const queryWords = toWords(parsed.text);
+  const brandMatch = brand && queryWords.length > 1 ? queryMentionsBrand(queryWords, brand) : null;
+
+  return { size, packCount, brand: brandMatch };
+}
+
+/**
+ * Drops products whose known size or pack count conflicts with the query
+ * If that would leave nothing, the results are returned unfiltered (ranking
+ * still prefers matching sizes), so a query for a size no store carries
+ * shows the closest products instead of an empty list.
+ *
+ * @param results - Search results
+ * @param query - Search query
+ */
+export function filterByQueryAttributes<T extends { product: AttributeProduct; brand?: string }>(
+  results: T[],
+  query: string
+): T[] {
+  const parsed = parseSearchQuery(query);
+  if (!parsed.size && parsed.packCount === null) return results;
+
+  const filtered = results.filter((result) => {
+    const match = getAttributeMatch(result.product, result.brand, parsed);
+    return match.size !== false && match.packCount !== false;
+  });
+  return filtered.length > 0 ? filtered : results;
+}
@@ -0,0 +1,303 @@
+/**
+ * Zero-Result Query Recovery Module
+ *
+ * When a search finds nothing, search-service runs one more search, planned
+ * here from the catalog vocabulary (see planQueryRecovery) out of:
+ * 1. Spelling correction - each word not in the catalog is replaced by a known
+ *    Jamaican correction or the closest catalog word ("akee" -> "ackee")
+ * 2. Relaxation - the least informative word is dropped
+ *    ("grace coconut milk tetra" -> "grace coconut milk")
+ * 3. Category fallback - a category whose name matches a word of the query
+ *
+ * The vocabulary is built from product titles, brands and category names -
+ * the same source data as search suggestions.
+ *
+ * No database dependencies - search-service supplies the source data and runs
+ * the recovered search.
+ */
+
+import { levenshteinDistance, similarityRatio, FUZZY_MATCH_CONFIG } from "./fuzzy-match";
+import { getSearchTermDictionary } from "./jamaican-terms";
+import { tokenize } from "./ranking";
+
+export interface RecoveryVocabularySource {
+  products: { title: string; brand?: string }[];
+  categories: { $id: string; name: string }[];
+}
+
+/**
+ * Catalog words for spelling correction and relaxation
+ */
+export interface RecoveryVocabulary {
+  /** Number of product titles, brands and categories each word appears in */
+  wordFrequency: Map<string, number>;
+  /** Words grouped by length, so correction only compares words of similar length */
+  wordsByLength: Map<number, string[]>;
+  categories: { $id: string; name: string; words: string[] }[];
+  /** Words of each product's title and brand, to check a query matches some product */
+  productWords: Set<string>[];
+}
+
+/**
+ * The one search to run instead of a query that found nothing
+ */
+export interface RecoveryPlan {
+  /** What to search for */
+  query: string;
+  /** Restricts the search to this category (category fallback) */
+  categoryId: string | null;
+  /** Corrected spelling of the query, if it was corrected */
+  didYouMean: string | null;
+  /** Broader query the results are for - a word dropped, or a category name */
+  relaxedQuery: string | null;
+}
+
+/** Relaxed queries returned by default, most promising first */
+export const MAX_RELAXED_QUERIES = 2;
+
+/** Words that say little about which product is wanted */
+const LOW_INFORMATION_WORDS = new Set([
+  "a", "an", "for", "in", "on", "to", "fresh", "new", "best", "cheap", "big", "small",
+  "large", "pack", "bottle", "tin", "can", "bag", "box", "jar",
+]);
+
+function addWords(vocabulary: RecoveryVocabulary, text: string | undefined): string[] {
+  if (!text) return [];
+  const words = tokenize(text).filter((word) => !/^\d+$/.test(word));
+  for (const word of words) {
+    const count = vocabulary.wordFrequency.get(word);
+    if (count === undefined) {
+      const sameLength = vocabulary.wordsByLength.get(word.length);
+      if (sameLength) {
+        sameLength.push(word);
+      } else {
+        vocabulary.wordsByLength.set(word.length, [word]);
+      }
+    }
+    vocabulary.wordFrequency.set(word, (count || 0) + 1);
+  }
+  return words;
+}
+
+/**
+ * Builds the vocabulary from catalog titles, brands and category names
+ */
+export function buildRecoveryVocabulary(source: RecoveryVocabularySource): RecoveryVocabulary {
+  const vocabulary: RecoveryVocabulary = {
+    wordFrequency: new Map(),
+    wordsByLength: new Map(),
+    categories: [],
+    productWords: [],
+  };
+
+  const brands = new Set<string>();
+  for (const product of source.products) {
+    const words = addWords(vocabulary, product.title);
+    const brand = product.brand?.trim().toLowerCase();
+    if (brand && !brands.has(brand)) {
+      brands.add(brand);
+      addWords(vocabulary, brand);
+    }
+    vocabulary.productWords.push(new Set([...words, ...(brand ? tokenize(brand) : [])]));
+  }
+  for (const category of source.categories) {
+    const words = addWords(vocabulary, category.name);
+    vocabulary.categories.push({ $id: category.$id, name: category.name, words });
+  }
+  return vocabulary;
+}
+
+/**
+ * Largest edit distance accepted for a correction, by word length
+ */
+function maxEditDistance(length: number): number {
+  if (length < FUZZY_MATCH_CONFIG.minWordLength) return 0;
+  if (length <= 4) return FUZZY_MATCH_CONFIG.maxEditDistanceShort;
+  if (length <= 7) return FUZZY_MATCH_CONFIG.maxEditDistanceMedium;
+  return FUZZY_MATCH_CONFIG.maxEditDistanceLong;
+}
+
+/**
+ * Closest catalog word to a misspelled word
+ * Fewest edits wins, then the more common word
+ * @returns The correction, or null if nothing is close enough
+ */
+function findClosestWord(word: string, vocabulary: RecoveryVocabulary): string | null {
+  const maxDistance = maxEditDistance(word.length);
+  if (maxDistance === 0) return null;
+
+  let best: string | null = null;
+  let bestDistance = maxDistance + 1;
+  let bestFrequency = 0;
+  for (let length = word.length - maxDistance; length <= word.length + maxDistance; length++) {
+    for (const candidate of vocabulary.wordsByLength.get(length) || []) {
+      const distance = levenshteinDistance(word, candidate);
+      const frequency = vocabulary.wordFrequency.get(candidate) || 0;
+      if (distance < bestDistance || (distance === bestDistance && frequency > bestFrequency)) {
+        best = candidate;
+        bestDistance = distance;
+        bestFrequency = frequency;
+      }
+    }
+  }
+  return bestDistance <= maxDistance ? best : null;
+}
+
+/**
+ * Corrects the spelling of words that aren't in the catalog
+ * Known Jamaican misspellings (the search term corrections) are applied first, then
+ * each remaining unknown word is replaced by its closest catalog word.
+ *
+ * @param query - Query that found nothing
+ * @param vocabulary - Catalog vocabulary
+ * @returns The corrected query, or null if nothing was corrected
+ */
+export function correctQuerySpelling(query: string, vocabulary: RecoveryVocabulary): string | null {
+  const words = tokenize(query);
+  if (words.length === 0) return null;
+
+  const { corrections } = getSearchTermDictionary();
+  let changed = false;
+  const corrected = words.map((word) => {
+    if (vocabulary.wordFrequency.has(word)) return word;
+    const replacement = corrections[word] || findClosestWord(word, vocabulary);
+    if (replacement && replacement !== word) {
+      changed = true;
+      return replacement;
+    }
+    return word;
+  });
+
+  return changed ? corrected.join(" ") : null;
+}
+
+/**
+ * How much a word narrows the search (higher = more informative)
+ * Filler words and words the catalog doesn't contain carry nothing; otherwise
+ * rarer words say more (inverse document frequency).
+ */
+function wordInformation(word: string, vocabulary: RecoveryVocabulary): number {
+  if (LOW_INFORMATION_WORDS.has(word) || /^\d+$/.test(word)) return 0;
+  const frequency = vocabulary.wordFrequency.get(word);
+  if (!frequency) return 0;
+  return 1 / Math.log2(1 + frequency);
+}
+
+/**
+ * Broader versions of a query with one word dropped, least informative word first
+ * @param query - Query that found nothing
+ * @param vocabulary - Catalog vocabulary
+ * @param maxQueries - Most relaxed queries to return
+ * @returns Relaxed queries (empty for one-word queries)
+ */
+export function getRelaxedQueries(
+  query: string,
+  vocabulary: RecoveryVocabulary,
+  maxQueries: number = MAX_RELAXED_QUERIES
+): string[] {
+  const words = tokenize(query);
+  if (words.length < 2) return [];
+
+  return words
+    .map((word, index) => ({ index, information: wordInformation(word, vocabulary) }))
+    .sort((a, b) => a.information - b.information || b.index - a.index)
+    .slice(0, maxQueries)
+    .map(({ index }) => words.filter((_, i) => i !== index).join(" "));
+}
+
+/**
+ * Categories whose name matches a word of the query, best match first
+ * @param query - Query that found nothing
+ * @param vocabulary - Catalog vocabulary
+ * @param limit - Most categories to return
+ */
+export function findFallbackCategories(
+  query: string,
+  vocabulary: RecoveryVocabulary,
+  limit: number = 1
+): { $id: string; name: string }[] {
+  const words = tokenize(query).filter((word) => word.length >= FUZZY_MATCH_CONFIG.minWordLength);
+  if (words.length === 0) return [];
+
+  const scored: { $id: string; name: string; score: number }[] = [];
+  for (const category of vocabulary.categories) {
+    let score = 0;
+    for (const word of words) {
+      for (const categoryWord of category.words) {
+        // "drink" matches "drinks", "beverage" matches "beverages"
+        if (categoryWord.length < FUZZY_MATCH_CONFIG.minWordLength) continue;
+        const similarity =
+          categoryWord.startsWith(word) || word.startsWith(categoryWord)
+            ? 1
+            : similarityRatio(word, categoryWord);
+        if (similarity >= FUZZY_MATCH_CONFIG.similarityThreshold) {
+          score = Math.max(score, similarity);
+        }
+      }
+    }
+    if (score > 0) {
+      scored.push({ $id: category.$id, name: category.name, score });
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.name.length - b.name.length)
+    .slice(0, limit)
+    .map(({ $id, name }) => ({ $id, name }));
+}
+
+/**
+ * Whether every word of a query appears together in some product's title and brand
+ */
+function matchesSomeProduct(query: string, vocabulary: RecoveryVocabulary): boolean {
+  const words = tokenize(query).filter((word) => !/^\d+$/.test(word));
+  if (words.length === 0) return false;
+  return vocabulary.productWords.some((productWords) => words.every((word) => productWords.has(word)));
+}
+
+/**
+ * Picks the one search most likely to recover a query that found nothing,
+ * from the vocabulary alone (no searching)
+ *
+ * The corrected spelling and then the relaxed queries are taken if some
+ * catalog product contains all their words. Failing that, the best matching
+ * category (within the category filter, if any); failing that, the corrected
+ * spelling or least lossy relaxation as a best guess.
+ *
+ * @param query - Query that found nothing
+ * @param vocabulary - Catalog vocabulary
+ * @param allowedCategoryIds - The search's category filter, if any
+ * @returns The search to run, or null if there's nothing worth trying
+ */
+export function planQueryRecovery(
+  query: string,
+  vocabulary: RecoveryVocabulary,
+  allowedCategoryIds?: string[]
+): RecoveryPlan | null {
+  const didYouMean = correctQuerySpelling(query, vocabulary);
+  const baseQuery = didYouMean || query;
+  const relaxedQueries = getRelaxedQueries(baseQuery, vocabulary, tokenize(baseQuery).length);
+
+  if (didYouMean && matchesSomeProduct(didYouMean, vocabulary)) {
+    return { query: didYouMean, categoryId: null, didYouMean, relaxedQuery: null };
+  }
+  const relaxedQuery = relaxedQueries.find((relaxed) => matchesSomeProduct(relaxed, vocabulary));
+  if (relaxedQuery) {
+    return { query: relaxedQuery, categoryId: null, didYouMean, relaxedQuery };
+  }
+
+  const category = findFallbackCategories(baseQuery, vocabulary, vocabulary.categories.length).find(
+    (candidate) => !allowedCategoryIds?.length || allowedCategoryIds.includes(candidate.$id)
+  );
+  if (category) {
+    return { query: category.name, categoryId: category.$id, didYouMean, relaxedQuery: category.name };
+  }
+
+  if (didYouMean) {
+    return { query: didYouMean, categoryId: null, didYouMean, relaxedQuery: null };
+  }
+  if (relaxedQueries.length > 0) {
+    return { query: relaxedQueries[0], categoryId: null, didYouMean: null, relaxedQuery: relaxedQueries[0] };
+  }
+  return null;
+}
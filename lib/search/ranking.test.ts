@@ -15,6 +15,38 @@ import {
   RankingProduct,
   RankingCategory,
 } from "./ranking";
+import {
+  aggregatePopularity,
+  getPopularityScore,
+  parsePopularityScoreRows,
+  SearchInteractionEvent,
+  SearchInteractionType,
+} from "./popularity";
+import {
+  buildRecoveryVocabulary,
+  correctQuerySpelling,
+  getRelaxedQueries,
+  findFallbackCategories,
+  planQueryRecovery,
+} from "./query-recovery";
+import {
+  buildSearchTermDictionary,
+  setSearchTermDictionary,
+  expandQueryWithSynonyms,
+  normalizeJamaicanTerms,
+} from "./jamaican-terms";
+import { parseSearchQuery, filterByQueryAttributes } from "./query-parser";
+import { getProductQuantity, calculateUnitPrice, formatUnitPrice } from "./unit-price";
+import { buildCategoryTree, getCategoryBreadcrumbs, getCategorySubtreeIds } from "./category-tree";
+import { matchesDietaryTags, matchesDietaryPreference } from "./dietary";
+import { estimateDeliveryMinutes, isQuickDelivery, formatDeliveryEstimate } from "./delivery-estimate";
+import {
+  geocodeJamaicaAddress,
+  normalizeJamaicaParish,
+  searchJamaicaCommunities,
+  validateJamaicaCommunity,
+  normalizeJamaicaAddress,
+} from "../jamaica-parishes";
 
 // Test data helpers
 function createProduct(title: string, brand?: string, categoryId?: string): RankingProduct {
@@ -492,4 +524,387 @@ runTest("Tie-breaker uses shorter normalized title when all else equal", () => {
   assertEqual(ranked2[0].product.title, ranked[0].product.title, "Tie-breaker should be deterministic");
 });
 
+// Test 14: Popularity reorders similar matches but not match types
+runTest("Popularity boost reorders similar matches only", () => {
+  const query = "rice";
+  const results: TestResult[] = [
+    { product: createProduct("Rice Krispies"), brand: "Kellogg's", inStock: true, priceJmdCents: 1000 },
+    { product: createProduct("Rice Long Grain 2kg"), brand: "Grace", inStock: true, priceJmdCents: 1000 },
+    { product: createProduct("Rice"), brand: "Generic", inStock: true, priceJmdCents: 1000 },
+  ];
+  const popular = results[1].product.$id;
+  const popularity = (productId: string) => (productId === popular ? 1 : 0);
+
+  const ranked = rankResults(results, query, undefined, "relevance", popularity);
+  assertEqual(ranked[0].product.title, "Rice", "Exact title should still beat a popular startsWith match");
+  assertEqual(ranked[1].product.$id, popular, "Popular product should lead the startsWith matches");
+
+  const withoutPopularity = rankResults(results, query);
+  assertEqual(withoutPopularity[1].product.title, "Rice Krispies", "Without popularity, shorter title leads");
+  assertEqual(RANKING_WEIGHTS.frequentlySearched > 0, true, "frequentlySearched weight should be active");
+});
+
+// Test 15: Popularity aggregation weights signals and decays old events
+runTest("Popularity weights purchases over clicks and decays with age", () => {
+  const now = Date.parse("2026-06-01T00:00:00Z");
+  const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+  const index = aggregatePopularity(
+    [
+      { query: "milk", productId: "clicked", eventType: "click", timestamp: daysAgo(1) },
+      { query: "milk", productId: "bought", eventType: "purchase", timestamp: daysAgo(1) },
+      { query: "milk", productId: "bought_long_ago", eventType: "purchase", timestamp: daysAgo(90) },
+    ],
+    now
+  );
+
+  assertEqual(getPopularityScore(index, "Milk", "bought"), 1, "Top product for the query should score 1");
+  assertGreaterThan(
+    getPopularityScore(index, "milk", "bought"),
+    getPopularityScore(index, "milk", "clicked"),
+    "Purchase should outweigh a click"
+  );
+  assertGreaterThan(
+    getPopularityScore(index, "milk", "clicked"),
+    getPopularityScore(index, "milk", "bought_long_ago"),
+    "A recent click should outweigh a purchase from three months ago"
+  );
+  assertLessThan(
+    getPopularityScore(index, "cheese", "bought"),
+    getPopularityScore(index, "milk", "bought") + 0.0001,
+    "Other queries should only get overall popularity"
+  );
+});
+
+// Test 16: Popularity from a fixed interaction log
+// The log is a fixed fixture (not derived from any relevance judgments): popularity
+// should follow what it records, and one user repeating a signal counts once.
+runTest("Popularity follows a fixed interaction log and ignores repeated signals", () => {
+  const now = Date.parse("2026-06-01T00:00:00Z");
+  const logged = (
+    title: string,
+    eventType: SearchInteractionType,
+    actorId: string,
+    daysAgo: number
+  ): SearchInteractionEvent => ({
+    query: "rice",
+    productId: createProduct(title).$id,
+    eventType,
+    timestamp: new Date(now - daysAgo * 24 * 60 * 60 * 1000).toISOString(),
+    actorId,
+  });
+  const events: SearchInteractionEvent[] = [
+    logged("Rice Long Grain 2kg", "purchase", "user_1", 3),
+    logged("Rice Long Grain 2kg", "purchase", "user_2", 10),
+    logged("Rice Long Grain 2kg", "add_to_cart", "user_3", 1),
+    logged("Rice Long Grain 2kg", "click", "user_4", 2),
+    logged("Rice Long Grain 2kg", "click", "user_5", 6),
+    logged("Rice Parboiled 4kg", "click", "user_1", 4),
+    logged("Rice Parboiled 4kg", "add_to_cart", "user_6", 5),
+    ...Array.from({ length: 25 }, () => logged("Rice Krispies Cereal", "click", "user_7", 1)),
+  ];
+  const results: TestResult[] = [
+    "Rice Krispies Cereal",
+    "Rice Cakes Lightly Salted",
+    "Rice Long Grain 2kg",
+    "Rice Parboiled 4kg",
+    "Rice Noodles",
+  ].map((title) => ({ product: createProduct(title), brand: "Generic", inStock: true, priceJmdCents: 1000 }));
+  const rank = (index: ReturnType<typeof aggregatePopularity>) =>
+    rankResults(results, "rice", undefined, "relevance", (productId) =>
+      getPopularityScore(index, "rice", productId)
+    ).map((r) => r.product.title);
+
+  const ranked = rank(aggregatePopularity(events, now));
+  assertEqual(ranked[0], "Rice Long Grain 2kg", "Most bought product should lead");
+  assertLessThan(
+    ranked.indexOf("Rice Parboiled 4kg"),
+    ranked.indexOf("Rice Krispies Cereal"),
+    "One user's repeated clicks should count once"
+  );
+
+  // The same log without actors counts every repeat
+  const uncounted = rank(aggregatePopularity(events.map(({ actorId, ...event }) => event), now));
+  assertLessThan(
+    uncounted.indexOf("Rice Krispies Cereal"),
+    uncounted.indexOf("Rice Parboiled 4kg"),
+    "Without actors, repeated clicks should add up"
+  );
+});
+
+// Test 16b: Stored popularity scores - only the latest aggregation run is read
+runTest("Stored popularity scores are read from the latest run only", () => {
+  const scores = parsePopularityScoreRows([
+    { productId: "rice", query: null, score: 1, generatedAt: "2026-06-02T03:00:00.000Z" },
+    { productId: "milk", query: null, score: 0.4, generatedAt: "2026-06-02T03:00:00.000Z" },
+    { productId: "rice", query: null, score: 0.2, generatedAt: "2026-06-01T03:00:00.000Z" },
+    { productId: "bread", query: null, score: 0.9, generatedAt: "2026-06-01T03:00:00.000Z" },
+  ]);
+  assertEqual(JSON.stringify(scores), JSON.stringify({ rice: 1, milk: 0.4 }), "Older run should be ignored");
+});
+
+// Test 17: Zero-result recovery - spelling, relaxation, category fallback
+runTest("Zero-result recovery corrects, relaxes and falls back to categories", () => {
+  const vocabulary = buildRecoveryVocabulary({
+    products: [
+      { title: "Grace Ackee in Brine 540g", brand: "Grace" },
+      { title: "Linstead Market Ackee 540g", brand: "Linstead Market" },
+      { title: "Grace Coconut Milk 400ml", brand: "Grace" },
+      { title: "Lasco Coconut Milk Powder", brand: "Lasco" },
+      { title: "Grace Tomato Ketchup", brand: "Grace" },
+    ],
+    categories: [
+      { $id: "cat_canned", name: "Canned Goods" },
+      { $id: "cat_drinks", name: "Beverages" },
+    ],
+  });
+
+  assertEqual(correctQuerySpelling("akee", vocabulary), "ackee", "Should correct to the closest catalog word");
+  assertEqual(correctQuerySpelling("grace ackee", vocabulary), null, "Known words need no correction");
+  assertEqual(correctQuerySpelling("xq", vocabulary), null, "Short unknown words aren't guessed at");
+
+  const relaxed = getRelaxedQueries("grace coconut milk tetra", vocabulary);
+  assertEqual(relaxed[0], "grace coconut milk", "Unknown word should be dropped first");
+  assertEqual(relaxed[1], "coconut milk tetra", "Then the most common word");
+  assertEqual(getRelaxedQueries("ackee", vocabulary).length, 0, "One-word queries can't be relaxed");
+
+  const categories = findFallbackCategories("cold beverage", vocabulary);
+  assertEqual(categories[0]?.$id, "cat_drinks", "Should fall back to the matching category");
+  assertEqual(findFallbackCategories("zzzz", vocabulary).length, 0, "No category for unrelated words");
+
+  // One recovery search, picked without searching
+  assertEqual(planQueryRecovery("akee", vocabulary)?.query, "ackee", "Corrected spelling that matches a product");
+  const relaxedPlan = planQueryRecovery("grace coconut milk tetra", vocabulary);
+  assertEqual(relaxedPlan?.relaxedQuery, "grace coconut milk", "Relaxed query that matches a product");
+  const categoryPlan = planQueryRecovery("cold beverage", vocabulary);
+  assertEqual(categoryPlan?.categoryId, "cat_drinks", "Category when no product matches");
+  assertEqual(
+    planQueryRecovery("cold beverage", vocabulary, ["cat_canned"])?.categoryId ?? null,
+    null,
+    "Category outside the filter isn't used"
+  );
+  assertEqual(planQueryRecovery("zzzz", vocabulary), null, "Nothing worth trying");
+});
+
+// Test 18: Runtime synonym dictionary replaces the built-in terms
+runTest("Loaded synonym dictionary applies one-way, two-way and corrections", () => {
+  setSearchTermDictionary(
+    buildSearchTermDictionary([
+      { term: "bun", synonyms: ["bun and cheese", "spice bun"], type: "one_way", enabled: true },
+      { term: "bammy", synonyms: ["bami"], type: "two_way", enabled: true },
+      { term: "bulla", synonyms: ["bula"], type: "correction", enabled: true },
+      { term: "rice", synonyms: ["raice"], type: "correction", enabled: false },
+    ])
+  );
+  try {
+    assertEqual(expandQueryWithSynonyms("bun").includes("spice bun"), true, "One-way expands from the term");
+    assertEqual(expandQueryWithSynonyms("spice bun").includes("bun"), false, "One-way doesn't expand back");
+    assertEqual(expandQueryWithSynonyms("bami").includes("bammy"), true, "Two-way expands both ways");
+    assertEqual(normalizeJamaicanTerms("bula cake"), "bulla cake", "Corrections are applied");
+    assertEqual(normalizeJamaicanTerms("raice"), "raice", "Disabled entries are ignored");
+  } finally {
+    setSearchTermDictionary(null);
+  }
+  assertEqual(normalizeJamaicanTerms("raice"), "rice", "Reset restores the built-in terms");
+});
+
+// Test 19: Query attributes - size, pack count and brand
+runTest("Query parser extracts size, pack count and brand for matching", () => {
+  const parsed = parseSearchQuery("grace corned beef 340g");
+  assertEqual(parsed.text, "grace corned beef", "Size should be removed from the text");
+  assertEqual(parsed.size?.amount, 340, "Size in grams");
+  assertEqual(parseSearchQuery("kiss cupcakes 16 pack").packCount, 16, "Pack count");
+  assertEqual(parseSearchQuery("water pack of 24").packCount, 24, "Pack of N");
+  assertEqual(parseSearchQuery("milk 1.5L").size?.amount, 1500, "Litres in millilitres");
+  assertEqual(parseSearchQuery("corned beef").size, null, "No size");
+
+  const sized = (title: string, brand: string, unitSize?: string): TestResult => ({
+    product: { ...createProduct(`${title} ${unitSize || ""}`.trim()), title, unit_size: unitSize },
+    brand,
+    inStock: true,
+    priceJmdCents: 1000,
+  });
+  const small = sized("Grace Corned Beef", "Grace", "198g");
+  const large = sized("Grace Corned Beef", "Grace", "340g");
+  const unknown = sized("Grace Corned Beef Loaf", "Grace");
+  const other = sized("Lasco Corned Beef", "Lasco", "340g");
+
+  const ranked = rankResults([small, other, large], "grace corned beef 340g").map((r) => r.product.$id);
+  assertEqual(ranked[0], large.product.$id, "Matching brand and size should rank first");
+  assertEqual(
+    rankResults([small, large], "grace corned beef 12oz")[0].product.$id,
+    large.product.$id,
+    "12oz should match 340g"
+  );
+
+  const filtered = filterByQueryAttributes([small, large, unknown], "grace corned beef 340g");
+  assertEqual(filtered.length, 2, "Conflicting size is dropped, unknown size kept");
+  assertEqual(filterByQueryAttributes([small], "corned beef 340g").length, 1, "Never filters to nothing");
+});
+
+// Test 20: Unit price normalization and unit price sort
+runTest("Unit price normalizes sizes and sorts by best value", () => {
+  assertEqual(getProductQuantity({ title: "Water", unit_size: "250ml", package_quantity: 6 })?.amount, 1500, "Pack of 250ml");
+  assertEqual(getProductQuantity({ title: "Rice", net_weight: "2 kg" })?.amount, 2000, "Net weight in grams");
+  assertEqual(
+    getProductQuantity({ title: "Corned Beef", net_weight: "4080g", package_quantity: 12 })?.amount,
+    4080,
+    "Net weight is the whole pack"
+  );
+  assertEqual(getProductQuantity({ title: "Grace Corned Beef 12 x 340g" })?.amount, 4080, "Multipack title");
+  assertEqual(getProductQuantity({ title: "Juice 4x250ml" })?.amount, 1000, "Multipack title without spaces");
+  assertEqual(getProductQuantity({ title: "Kiss Cupcakes 16 pack" })?.unit, "each", "Count only");
+  assertEqual(getProductQuantity({ title: "Hardo Bread" }), null, "No size or count");
+  assertEqual(formatUnitPrice(calculateUnitPrice(50000, { title: "Rice", unit_size: "2kg" })!), "$25.00 / 100g", "Per 100g");
+
+  const priced = (title: string, unitSize: string | undefined, priceJmdCents: number): TestResult => ({
+    product: { ...createProduct(title), unit_size: unitSize },
+    brand: "Grace",
+    inStock: true,
+    priceJmdCents,
+  });
+  const small = priced("Grace Ketchup Small", "300g", 30000); // $10.00 / 100g
+  const large = priced("Grace Ketchup Large", "1kg", 80000); // $8.00 / 100g
+  const unsized = priced("Grace Ketchup Sachet", undefined, 5000);
+
+  const sorted = rankResults([unsized, small, large], "ketchup", undefined, "unit_price_asc").map((r) => r.product.$id);
+  assertEqual(sorted.join(","), [large, small, unsized].map((r) => r.product.$id).join(","), "Best value first, unknown size last");
+
+  // Cheaper per 100ml doesn't beat a per 100g price - they aren't comparable
+  const sauce = priced("Grace Ketchup Squeeze", "500ml", 25000); // $5.00 / 100ml
+  const mixed = rankResults([sauce, small, unsized, large], "ketchup", undefined, "unit_price_asc").map((r) => r.product.$id);
+  assertEqual(
+    mixed.join(","),
+    [large, small, sauce, unsized].map((r) => r.product.$id).join(","),
+    "Grouped by mass, then volume"
+  );
+});
+
+// Test 21: Category tree - departments, breadcrumbs and subtrees
+runTest("Category tree builds departments, breadcrumbs and subtrees", () => {
+  const tree = buildCategoryTree([
+    { $id: "cat_canned", name: "Canned Goods", parent_id: "cat_groceries", path_ids: ["cat_groceries", "cat_canned"], path_names: ["Groceries", "Canned Goods"] },
+    { $id: "cat_groceries", name: "Groceries", parent_id: null, path_ids: ["cat_groceries"], path_names: ["Groceries"] },
+    { $id: "cat_beef", name: "Corned Beef", parent_id: "cat_canned" },
+    { $id: "cat_drinks", name: "Beverages", path_ids: ["cat_drinks"] },
+  ]);
+
+  assertEqual(tree.roots.map((c) => c.$id).join(","), "cat_drinks,cat_groceries", "Departments sorted by name");
+  assertEqual(
+    getCategoryBreadcrumbs("cat_canned", tree).map((c) => c.name).join(" > "),
+    "Groceries > Canned Goods",
+    "Breadcrumbs from path_names"
+  );
+  assertEqual(
+    getCategoryBreadcrumbs("cat_beef", tree).map((c) => c.name).join(" > "),
+    "Groceries > Canned Goods > Corned Beef",
+    "Breadcrumbs from parent_id when path_names are missing"
+  );
+  assertEqual(getCategorySubtreeIds("cat_groceries", tree).sort().join(","), "cat_beef,cat_canned,cat_groceries", "Subtree");
+});
+
+// Test 22: Dietary attributes - filtering and preference boost from product tags
+runTest("Dietary tags drive filtering and the preference boost", () => {
+  const vegan = { ...createProduct("Coconut Milk"), dietary_tags: ["vegan"], allergens: [] };
+  const cheese = { ...createProduct("Cheddar Cheese"), dietary_tags: ["vegetarian", "gluten_free"], allergens: ["dairy"] };
+  const untagged = createProduct("Flour Dumplings");
+
+  assertEqual(matchesDietaryTags(vegan, ["vegetarian"]), true, "Vegan implies vegetarian");
+  assertEqual(matchesDietaryTags(cheese, ["vegan"]), false, "Vegetarian is not vegan");
+  assertEqual(matchesDietaryTags(untagged, ["gluten_free"]), false, "Untagged products don't match a filter");
+  assertEqual(matchesDietaryPreference(cheese, "No Dairy"), false, "Contains dairy");
+  assertEqual(matchesDietaryPreference(cheese, "Gluten-Free"), true, "Gluten-free tag");
+  assertEqual(matchesDietaryPreference(untagged, "Vegan"), null, "Untagged is unknown");
+
+  const query = "milk";
+  const matchInfo = getMatchInfo(vegan, "Brand", undefined, normalizeText(query), tokenize(query));
+  const boosted = calculateRelevanceScore(vegan, "Brand", undefined, matchInfo, { dietaryPreferences: ["Vegan"] });
+  const unboosted = calculateRelevanceScore(vegan, "Brand", undefined, matchInfo, undefined);
+  assertEqual(boosted - unboosted, RANKING_WEIGHTS.preferenceDietaryBoost, "Matching preference gets the dietary boost");
+});
+
+// Test 23: Delivery estimates - store delivery time plus distance to the address parish
+runTest("Delivery estimates drive quick delivery and the delivery time sort", () => {
+  const kingstonStore = { is_active: true, parish: "St. Andrew", delivery_time_minutes: 30 };
+  const montegoBayStore = { is_active: true, parish: "St. James", delivery_time_minutes: 30, latitude: 18.4762, longitude: -77.8939 };
+  const unknownStore = { is_active: true, parish: "Kingston" };
+
+  assertEqual(estimateDeliveryMinutes(kingstonStore, { parish: "Kingston & St. Andrew" }), 30, "Same parish uses the store's time");
+  assertEqual(estimateDeliveryMinutes(kingstonStore, { parish: "St. Catherine" }), 50, "Neighbouring parish adds travel time");
+  assertEqual(estimateDeliveryMinutes(kingstonStore), 30, "No address uses the store's time");
+  assertEqual(estimateDeliveryMinutes(unknownStore, { parish: "Kingston" }), null, "No delivery time, no estimate");
+  assertEqual(estimateDeliveryMinutes({ ...kingstonStore, is_active: false }), null, "Inactive stores aren't estimated");
+  assertEqual(isQuickDelivery(kingstonStore, { parish: "St. Catherine" }), true, "Spanish Town is quick from Kingston");
+  assertEqual(isQuickDelivery(montegoBayStore, { parish: "Kingston & St. Andrew" }), false, "Montego Bay to Kingston is not quick");
+  assertEqual(formatDeliveryEstimate(90), "~1 hr 30 min", "Formats hours");
+
+  const delivered = (title: string, deliveryEstimateMinutes: number | null) => ({
+    product: createProduct(title),
+    brand: "Grace",
+    inStock: true,
+    priceJmdCents: 10000,
+    storeLocation: { delivery_time_minutes: 30 },
+    deliveryEstimateMinutes,
+  });
+  const near = delivered("Grace Rice Near", 30);
+  const far = delivered("Grace Rice Far", 150);
+  const unknown = delivered("Grace Rice Unknown", null);
+
+  const sorted = rankResults([unknown, far, near], "rice", undefined, "delivery_time_asc").map((r) => r.product.$id);
+  assertEqual(sorted.join(","), [near, far, unknown].map((r) => r.product.$id).join(","), "Fastest estimate first, unknown last");
+});
+
+// Test 24: Address geocoding - community and parish centres, distance sort
+runTest("Addresses are placed by community or parish and sorted by distance", () => {
+  assertEqual(normalizeJamaicaParish("Saint Andrew"), "Kingston & St. Andrew", "St. Andrew is Kingston & St. Andrew");
+  assertEqual(normalizeJamaicaParish("st catherine"), "St. Catherine", "Loose parish spelling");
+  assertEqual(geocodeJamaicaAddress("Kingston & St. Andrew", "Half-Way Tree")?.precision, "community", "Listed community");
+  assertEqual(geocodeJamaicaAddress("St. Catherine", "Somewhere Unlisted")?.precision, "parish", "Unlisted community uses the parish centre");
+  assertEqual(geocodeJamaicaAddress("Atlantis", "Half Way Tree"), null, "Unknown parish");
+
+  const halfWayTree = geocodeJamaicaAddress("Kingston & St. Andrew", "Half Way Tree")!;
+  const located = (
+    title: string,
+    latitude: number | undefined,
+    longitude: number | undefined,
+    parish?: string
+  ) => ({
+    product: createProduct(title),
+    brand: "Grace",
+    inStock: true,
+    priceJmdCents: 10000,
+    storeLocation: { latitude, longitude, parish },
+    deliveryAddress: { latitude: halfWayTree.latitude, longitude: halfWayTree.longitude },
+  });
+  const kingston = located("Grace Rice Kingston", 18.0069, -76.7836); // New Kingston
+  const spanishTown = located("Grace Rice Spanish Town", 17.9911, -76.9574);
+  const unplaced = located("Grace Rice Unplaced", undefined, undefined);
+  // Appwrite returns unset coordinates as null - not a point at (0, 0)
+  const mandeville = located("Grace Rice Mandeville", null as any, null as any, "Manchester");
+
+  const sorted = rankResults([unplaced, mandeville, spanishTown, kingston], "rice", undefined, "distance_asc").map(
+    (r) => r.product.$id
+  );
+  assertEqual(
+    sorted.join(","),
+    [kingston, spanishTown, mandeville, unplaced].map((r) => r.product.$id).join(","),
+    "Nearest store first, parish centre without coordinates, unplaced last"
+  );
+});
+
+// Test 25: Community gazetteer - autocomplete, parish validation and normalization
+runTest("Community gazetteer autocompletes, validates and normalizes addresses", () => {
+  const portmore = searchJamaicaCommunities("portmor", "St. Catherine");
+  assertEqual(portmore[0]?.name, "Portmore", "Fuzzy prefix finds Portmore");
+  assertEqual(searchJamaicaCommunities("mobay")[0]?.name, "Montego Bay", "Alias finds Montego Bay");
+  assertEqual(searchJamaicaCommunities("p").length, 0, "One letter is too short to suggest");
+
+  assertEqual(validateJamaicaCommunity("Kingston & St. Andrew", "half-way tree").canonicalName, "Half Way Tree", "Listed community");
+  assertEqual(validateJamaicaCommunity("St. Catherine", "Half Way Tree").isValid, false, "Community in another parish is rejected");
+  assertEqual(validateJamaicaCommunity("St. Catherine", "Sligoville Road").isValid, true, "Unlisted community is accepted");
+
+  const normalized = normalizeJamaicaAddress("st andrew", " HWT ");
+  assertEqual(`${normalized.parish}|${normalized.community}`, "Kingston & St. Andrew|Half Way Tree", "Canonical parish and community");
+  assertEqual(normalizeJamaicaAddress("Clarendon", "Rock  River").community, "Rock River", "Unlisted community kept as typed");
+});
+
 console.log("\n=== All Tests Complete ===\n");
@@ -8,6 +8,10 @@
 
 import { normalizeJamaicanTerms } from "./jamaican-terms";
 import { fuzzyMatchScore as calculateFuzzyScore, similarityRatio, FUZZY_MATCH_CONFIG } from "./fuzzy-match";
+import { parseSearchQuery, getAttributeMatch, AttributeMatch, ParsedQuery } from "./query-parser";
+import { calculateUnitPrice, UNIT_PRICE_BASIS_ORDER } from "./unit-price";
+import { matchesDietaryPreference } from "./dietary";
+import { getDeliveryDistanceKm } from "./delivery-estimate";
 
 // Minimal type definitions to avoid circular dependency
 // These match the types from search-service.ts
@@ -18,6 +22,11 @@ export interface RankingProduct {
   brand?: string;
   category_leaf_id: string;
   category_path_ids: string[];
+  unit_size?: string; // e.g. "500g" - matched against sizes in the query
+  net_weight?: string; // e.g. "500g"
+  package_quantity?: number; // Units per package - matched against pack counts in the query
+  dietary_tags?: string[]; // e.g. ["vegan", "gluten_free"] - see lib/search/dietary.ts
+  allergens?: string[]; // e.g. ["dairy", "soy"]
 }
 
 export interface RankingCategory {
@@ -46,6 +55,9 @@ export interface RankingCategory {
  * 8. Category exact match (200)
  * 9. Category contains query (100)
  * 10. User preference boosts (60 for category, 40 for dietary)
+ * 11. Popularity for the query (up to 120, from clicks, add-to-cart and purchases)
+ * 12. Query attributes (see lib/search/query-parser.ts): brand named in a
+ *     multi-word query (200), size (150) and pack count (100) match
  */
 export const RANKING_WEIGHTS = {
   exactTitle: 1000,
@@ -57,10 +69,13 @@ export const RANKING_WEIGHTS = {
   brandContains: 150,
   categoryExact: 200,
   categoryContains: 100,
-  frequentlySearched: 0, // Placeholder for future analytics
+  frequentlySearched: 120, // Scaled by popularity (0-1) - smaller than the gaps between title match types
   preferenceCategoryBoost: 60, // Small boost if product category is in user preferred categories
   preferenceDietaryBoost: 40, // Small boost if product matches dietary preference tags
   fuzzyMatch: 200, // Score for fuzzy matches (typo tolerance) - lower than exact but still significant
+  brandInQuery: 200, // Product brand named in a multi-word query ("grace corned beef") - only without another brand match
+  sizeMatch: 150, // Product size matches the query's ("340g" = "12oz")
+  packCountMatch: 100, // Product pack count matches the query's ("16 pack")
 } as const;
 
 /**
@@ -80,6 +95,7 @@ export interface MatchInfo {
   titleStartsWithQuery: boolean; // For tie-breaking
   fuzzyMatchScore: number; // Fuzzy matching score (0-1) for typo tolerance
   fuzzyMatch: boolean; // Whether this is a fuzzy match (typo-tolerant)
+  attributeMatch: AttributeMatch; // Size, pack count and brand compared to the query
 }
 
 /**
@@ -90,6 +106,11 @@ export interface RankingUserPrefs {
   dietaryPreferences?: string[]; // Dietary preference tags
 }
 
+/**
+ * Popularity of a product for the current query (0-1), see lib/search/popularity.ts
+ */
+export type PopularityLookup = (productId: string) => number;
+
 /**
  * Normalize text for comparison
  * 
@@ -202,6 +223,7 @@ export function tokenize(input: string): string[] {
  * @param category - Category (optional)
  * @param queryNormalized - Normalized query string
  * @param queryTokens - Tokenized query
+ * @param parsedQuery - Query attributes (optional, see parseSearchQuery)
  * @returns Match information including fuzzy match scores
  */
 export function getMatchInfo(
@@ -209,7 +231,8 @@ export function getMatchInfo(
   brand: string,
   category: RankingCategory | undefined,
   queryNormalized: string,
-  queryTokens: string[]
+  queryTokens: string[],
+  parsedQuery?: ParsedQuery
 ): MatchInfo {
   const productTitleNormalized = normalizeText(product.title);
   const brandNormalized = brand ? normalizeText(brand) : "";
@@ -289,6 +312,9 @@ export function getMatchInfo(
     titleStartsWithQuery: titleStartsWith || exactTitle,
     fuzzyMatchScore,
     fuzzyMatch,
+    attributeMatch: parsedQuery
+      ? getAttributeMatch(product, brand, parsedQuery)
+      : { size: null, packCount: null, brand: null },
   };
 }
 
@@ -300,6 +326,7 @@ export function getMatchInfo(
  * @param category - Category (optional)
  * @param matchInfo - Match information
  * @param userPrefs - User preferences (optional)
+ * @param popularityScore - Popularity for the query, 0-1 (optional)
  * @returns Relevance score (higher = more relevant)
  */
 export function calculateRelevanceScore(
@@ -307,7 +334,8 @@ export function calculateRelevanceScore(
   brand: string,
   category: RankingCategory | undefined,
   matchInfo: MatchInfo,
-  userPrefs?: RankingUserPrefs
+  userPrefs?: RankingUserPrefs,
+  popularityScore: number = 0
 ): number {
   let score = 0;
   
@@ -349,6 +377,16 @@ export function calculateRelevanceScore(
     score += RANKING_WEIGHTS.brandStartsWith;
   } else if (matchInfo.brandContains) {
     score += RANKING_WEIGHTS.brandContains;
+  } else if (matchInfo.attributeMatch.brand) {
+    score += RANKING_WEIGHTS.brandInQuery;
+  }
+  
+  // Query attributes ("340g", "16 pack") - the unit tokens are stripped from text matching
+  if (matchInfo.attributeMatch.size) {
+    score += RANKING_WEIGHTS.sizeMatch;
+  }
+  if (matchInfo.attributeMatch.packCount) {
+    score += RANKING_WEIGHTS.packCountMatch;
   }
   
   // Category matches (can stack with other matches)
@@ -373,27 +411,22 @@ export function calculateRelevanceScore(
     }
     
     // Dietary preference boost
-    // IMPORTANT: Dietary boost is a no-op until product dietary tags exist.
-    // Only apply boost if product actually has dietary tags/flags.
-    // Do NOT add fake fields or apply boost without product dietary data.
-    // 
-    // When dietary tags are added to products in the future, uncomment and use:
-    // if (userPrefs.dietaryPreferences && product.dietaryTags && product.dietaryTags.length > 0) {
-    //   const hasMatchingDietary = userPrefs.dietaryPreferences.some(pref =>
-    //     product.dietaryTags?.some(tag => normalizeText(tag) === normalizeText(pref))
-    //   );
-    //   if (hasMatchingDietary) {
-    //     score += RANKING_WEIGHTS.preferenceDietaryBoost;
-    //   }
-    // }
-    // 
-    // For now, dietary boost is 0 (product has no dietary tags in schema)
+    // Only products with dietary data (dietary_tags / allergens) can match -
+    // untagged products are unknown, not penalized
+    if (userPrefs.dietaryPreferences && userPrefs.dietaryPreferences.length > 0) {
+      const hasMatchingDietary = userPrefs.dietaryPreferences.some(
+        (pref) => matchesDietaryPreference(product, pref) === true
+      );
+      if (hasMatchingDietary) {
+        score += RANKING_WEIGHTS.preferenceDietaryBoost;
+      }
+    }
   }
   
-  // Frequently searched (placeholder for future analytics)
-  // if (isFrequentlySearched(product.$id)) {
-  //   score += RANKING_WEIGHTS.frequentlySearched;
-  // }
+  // Frequently searched - clicks, add-to-cart and purchases from this query
+  if (popularityScore > 0) {
+    score += RANKING_WEIGHTS.frequentlySearched * Math.min(1, popularityScore);
+  }
   
   return score;
 }
@@ -405,15 +438,17 @@ export function calculateRelevanceScore(
  * - relevance: Sort by search relevance score (default)
  * - price_asc: Sort by price (low to high)
  * - price_desc: Sort by price (high to low)
+ * - unit_price_asc: Sort by price per 100g, then per 100ml, then per unit (best value first within each) - products without a size go last
  * - rating_desc: Sort by customer rating (high to low) - requires rating field
  * - review_count_desc: Sort by review count (high to low) - requires review_count field
- * - delivery_time_asc: Sort by delivery time (fastest first) - requires delivery_time field
- * - distance_asc: Sort by distance from delivery location (nearest first) - requires location coordinates
+ * - delivery_time_asc: Sort by delivery time (fastest first) - deliveryEstimateMinutes, else the store's delivery_time_minutes
+ * - distance_asc: Sort by distance from delivery location (nearest first) - store coordinates, else its parish centre
  */
 export type SortMode = 
   | "relevance" 
   | "price_asc" 
   | "price_desc"
+  | "unit_price_asc"
   | "rating_desc"
   | "review_count_desc"
   | "delivery_time_asc"
@@ -426,6 +461,7 @@ export type SortMode =
  * @param query - Original search query
  * @param userPrefs - User preferences (optional)
  * @param sortMode - Sort mode (default: "relevance")
+ * @param popularity - Popularity lookup for the query (optional)
  * @returns Ranked and sorted results
  */
 export function rankResults<T extends {
@@ -439,6 +475,7 @@ export function rankResults<T extends {
   priceJmdCents: number;
   storeLocation?: {
     delivery_time_minutes?: number; // Optional: estimated delivery time in minutes
+    parish?: string; // Optional: store parish (distance falls back to its centre)
     latitude?: number; // Optional: store latitude
     longitude?: number; // Optional: store longitude
   };
@@ -446,17 +483,22 @@ export function rankResults<T extends {
     latitude?: number; // Optional: delivery address latitude
     longitude?: number; // Optional: delivery address longitude
   };
+  deliveryEstimateMinutes?: number | null; // Optional: ETA to the delivery address (see delivery-estimate.ts)
   relevanceScore?: number;
 }>(
   results: T[],
   query: string,
   userPrefs?: RankingUserPrefs,
-  sortMode: SortMode = "relevance"
+  sortMode: SortMode = "relevance",
+  popularity?: PopularityLookup
 ): T[] {
   if (results.length === 0) return results;
   
-  const queryNormalized = normalizeText(query);
-  const queryTokens = tokenize(query);
+  // Size and pack tokens ("340g", "16 pack") are matched as attributes, not as text
+  const parsedQuery = parseSearchQuery(query);
+  const textQuery = parsedQuery.text || query;
+  const queryNormalized = normalizeText(textQuery);
+  const queryTokens = tokenize(textQuery);
   
   // Calculate relevance scores
   const scoredResults = results.map(result => {
@@ -465,7 +507,8 @@ export function rankResults<T extends {
       result.brand,
       result.category,
       queryNormalized,
-      queryTokens
+      queryTokens,
+      parsedQuery
     );
     
     const relevanceScore = calculateRelevanceScore(
@@ -473,30 +516,22 @@ export function rankResults<T extends {
       result.brand,
       result.category,
       matchInfo,
-      userPrefs
+      userPrefs,
+      popularity ? popularity(result.product.$id) : 0
     );
     
-    // Calculate distance if coordinates are available
-    let distanceKm: number | undefined;
-    if (
-      result.storeLocation?.latitude !== undefined &&
-      result.storeLocation?.longitude !== undefined &&
-      result.deliveryAddress?.latitude !== undefined &&
-      result.deliveryAddress?.longitude !== undefined
-    ) {
-      distanceKm = calculateDistance(
-        result.storeLocation.latitude,
-        result.storeLocation.longitude,
-        result.deliveryAddress.latitude,
-        result.deliveryAddress.longitude
-      );
-    }
+    // Store coordinates fall back to its parish centre (see delivery-estimate.ts)
+    const distanceKm =
+      result.storeLocation && result.deliveryAddress
+        ? getDeliveryDistanceKm(result.storeLocation, result.deliveryAddress)
+        : null;
     
     return {
       ...result,
       relevanceScore,
       _matchInfo: matchInfo, // Internal use only
       _distanceKm: distanceKm, // Internal use only
+      _unitPrice: sortMode === "unit_price_asc" ? calculateUnitPrice(result.priceJmdCents, result.product) : null, // Internal use only
     };
   });
   
@@ -544,6 +579,27 @@ export function rankResults<T extends {
       return b.priceJmdCents - a.priceJmdCents;
     }
     
+    // Unit price sorting (ascending - best value first)
+    // Per-100g and per-100ml prices are compared directly; per-unit prices sort after them
+    if (sortMode === "unit_price_asc") {
+      if (a.inStock && !b.inStock) return -1;
+      if (!a.inStock && b.inStock) return 1;
+      
+      // Products with an unknown size go last
+      if (a._unitPrice && !b._unitPrice) return -1;
+      if (!a._unitPrice && b._unitPrice) return 1;
+      if (a._unitPrice && b._unitPrice) {
+        // Per 100g, per 100ml and per unit prices can't be compared with each other
+        const basisDiff = UNIT_PRICE_BASIS_ORDER[a._unitPrice.basis] - UNIT_PRICE_BASIS_ORDER[b._unitPrice.basis];
+        if (basisDiff !== 0) return basisDiff;
+        const unitPriceDiff = a._unitPrice.centsPerUnit - b._unitPrice.centsPerUnit;
+        if (unitPriceDiff !== 0) return unitPriceDiff;
+      }
+      
+      // Tie-breaker: price (lower price first)
+      return a.priceJmdCents - b.priceJmdCents;
+    }
+    
     // Rating sorting (descending - highest rated first)
     if (sortMode === "rating_desc") {
       const aRating = a.product.rating ?? 0;
@@ -590,8 +646,15 @@ export function rankResults<T extends {
       if (a.inStock && !b.inStock) return -1;
       if (!a.inStock && b.inStock) return 1;
       
-      const aDeliveryTime = a.storeLocation?.delivery_time_minutes ?? Number.MAX_SAFE_INTEGER;
-      const bDeliveryTime = b.storeLocation?.delivery_time_minutes ?? Number.MAX_SAFE_INTEGER;
+      // An estimate of null means the store can't be estimated for this address
+      const aDeliveryTime =
+        (a.deliveryEstimateMinutes !== undefined
+          ? a.deliveryEstimateMinutes
+          : a.storeLocation?.delivery_time_minutes) ?? Number.MAX_SAFE_INTEGER;
+      const bDeliveryTime =
+        (b.deliveryEstimateMinutes !== undefined
+          ? b.deliveryEstimateMinutes
+          : b.storeLocation?.delivery_time_minutes) ?? Number.MAX_SAFE_INTEGER;
       const timeDiff = aDeliveryTime - bDeliveryTime;
       if (timeDiff !== 0) return timeDiff;
       
@@ -618,44 +681,5 @@ export function rankResults<T extends {
   });
   
   // Remove internal fields before returning
-  return scoredResults.map(({ _matchInfo, _distanceKm, ...result }) => result);
-}
-
-/**
- * Calculate distance between two coordinates using Haversine formula
- * 
- * @param lat1 - Latitude of first point
- * @param lon1 - Longitude of first point
- * @param lat2 - Latitude of second point
- * @param lon2 - Longitude of second point
- * @returns Distance in kilometers
- */
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = toRadians(lat2 - lat1);
-  const dLon = toRadians(lon2 - lon1);
-  
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRadians(lat1)) *
-      Math.cos(toRadians(lat2)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const distance = R * c;
-  
-  return distance;
-}
-
-/**
- * Convert degrees to radians
- */
-function toRadians(degrees: number): number {
-  return degrees * (Math.PI / 180);
+  return scoredResults.map(({ _matchInfo, _distanceKm, _unitPrice, ...result }) => result);
 }
@@ -0,0 +1,311 @@
+/**
+ * Search Suggestion Trie Module
+ *
+ * Search-as-you-type suggestions from a prefix trie held in memory, so each
+ * keystroke is answered locally instead of with a round of database requests.
+ *
+ * The trie is built from product titles, brands, category names, popular
+ * queries and the Jamaican synonym terms. Every word of a phrase is indexed,
+ * so "beef" suggests "Grace Corned Beef", and synonym variations point at their
+ * canonical term, so "shuga" suggests "sugar".
+ *
+ * Each node keeps only its best few entries (by weight), so a one-word lookup
+ * is a walk down the prefix - no scan of the subtree.
+ *
+ * No database or React Native dependencies - search-service supplies the
+ * source data and the popularity counts from search_analytics.
+ */
+
+import { getSearchTermDictionary } from "./jamaican-terms";
+
+export type SuggestionType = "product" | "brand" | "category";
+
+export interface SuggestionEntry {
+  id: string;
+  text: string;
+  type: SuggestionType;
+  weight: number;
+}
+
+export interface SuggestionSource {
+  products: { $id: string; title: string; brand?: string }[];
+  categories: { $id: string; name: string }[];
+  /** Search counts keyed by query (see getPopularSearchQueries) */
+  popularQueries?: Record<string, number>;
+  /** Include two-way synonym terms and their variations (default true) */
+  includeSynonyms?: boolean;
+}
+
+/** Entries kept per trie node - enough to fill a suggestion list after de-duplication */
+const ENTRIES_PER_NODE = 12;
+
+/** Base weight per type - brands and categories are broader than one product */
+const TYPE_WEIGHTS: Record<SuggestionType, number> = {
+  brand: 3,
+  category: 2.5,
+  product: 1,
+};
+
+/** Local terms are common searches even before analytics has data */
+const SYNONYM_WEIGHT = 2;
+
+/** Scales log(1 + searches) so a popular query outweighs the type weights */
+const POPULARITY_WEIGHT = 1.5;
+
+/** Queries searched fewer times than this aren't suggested on their own */
+const MIN_POPULAR_QUERY_COUNT = 3;
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  /** Best entries with a word starting with this prefix, highest weight first */
+  entries: SuggestionEntry[];
+}
+
+interface IndexedEntry {
+  entry: SuggestionEntry;
+  /** Normalized words of each text that leads to the entry */
+  keys: string[][];
+}
+
+function createNode(): TrieNode {
+  return { children: new Map(), entries: [] };
+}
+
+/**
+ * Normalizes text for prefix matching: lowercase, accents and punctuation removed
+ */
+export function toSuggestionKey(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toWords(text: string): string[] {
+  return toSuggestionKey(text).split(" ").filter((word) => word.length > 0);
+}
+
+/**
+ * Prefix trie of suggestion entries
+ *
+ * The trie is over words, not whole phrases, which keeps it small: a catalog
+ * has far fewer distinct words than title suffixes. A single-word prefix is
+ * answered straight from the trie node. For multi-word input the earlier,
+ * completed words are looked up in an exact-word index and the candidates are
+ * checked against the last (partial) word.
+ */
+export class SuggestionTrie {
+  private root: TrieNode = createNode();
+  private entriesByWord = new Map<string, IndexedEntry[]>();
+  private entryCount = 0;
+
+  get size(): number {
+    return this.entryCount;
+  }
+
+  /**
+   * Indexes an entry under every word of each key
+   * @param entry - Suggestion to return
+   * @param keys - Texts that should lead to it (defaults to entry.text)
+   */
+  insert(entry: SuggestionEntry, keys: string[] = [entry.text]): void {
+    const indexed: IndexedEntry = {
+      entry,
+      keys: keys.map(toWords).filter((words) => words.length > 0),
+    };
+    const words = new Set(indexed.keys.flat());
+
+    for (const word of words) {
+      let node = this.root;
+      for (const char of word) {
+        let child = node.children.get(char);
+        if (!child) {
+          child = createNode();
+          node.children.set(char, child);
+        }
+        node = child;
+        addEntry(node, entry);
+      }
+
+      const postings = this.entriesByWord.get(word);
+      if (postings) {
+        postings.push(indexed);
+      } else {
+        this.entriesByWord.set(word, [indexed]);
+      }
+    }
+    this.entryCount += 1;
+  }
+
+  /**
+   * Returns the best entries containing every typed word, the last one as a prefix
+   * @param prefix - What the user has typed
+   * @param limit - Maximum number of suggestions
+   */
+  lookup(prefix: string, limit: number = 10): SuggestionEntry[] {
+    const words = toWords(prefix);
+    if (words.length === 0) return [];
+    const key = words.join(" ");
+    const partial = words[words.length - 1];
+    const complete = words.slice(0, -1);
+
+    let candidates: SuggestionEntry[];
+    if (complete.length === 0) {
+      candidates = this.findNode(partial)?.entries || [];
+    } else {
+      // Start from the completed word with the fewest entries
+      const postings = complete.map((word) => this.entriesByWord.get(word) || []);
+      const smallest = postings.reduce((a, b) => (b.length < a.length ? b : a));
+      candidates = smallest
+        .filter((indexed) =>
+          indexed.keys.some(
+            (keyWords) =>
+              complete.every((word) => keyWords.includes(word)) &&
+              keyWords.some((word) => word.startsWith(partial))
+          )
+        )
+        .map((indexed) => indexed.entry)
+        .sort((a, b) => b.weight - a.weight);
+    }
+
+    // Entries that start with what was typed read more naturally than mid-phrase matches
+    const ranked = [...candidates].sort((a, b) => {
+      const aStarts = toSuggestionKey(a.text).startsWith(key);
+      const bStarts = toSuggestionKey(b.text).startsWith(key);
+      if (aStarts !== bStarts) return aStarts ? -1 : 1;
+      return b.weight - a.weight || a.text.length - b.text.length;
+    });
+
+    const seen = new Set<string>();
+    const results: SuggestionEntry[] = [];
+    for (const entry of ranked) {
+      const textKey = entry.text.toLowerCase();
+      if (seen.has(textKey)) continue;
+      seen.add(textKey);
+      results.push(entry);
+      if (results.length >= limit) break;
+    }
+    return results;
+  }
+
+  private findNode(prefix: string): TrieNode | undefined {
+    let node: TrieNode | undefined = this.root;
+    for (const char of prefix) {
+      node = node.children.get(char);
+      if (!node) return undefined;
+    }
+    return node;
+  }
+}
+
+/**
+ * Keeps a node's entries sorted by weight, dropping the lowest past the cap
+ */
+function addEntry(node: TrieNode, entry: SuggestionEntry): void {
+  const entries = node.entries;
+  if (entries.includes(entry)) return;
+  if (entries.length >= ENTRIES_PER_NODE && entries[entries.length - 1].weight >= entry.weight) {
+    return;
+  }
+
+  let index = entries.length;
+  while (index > 0 && entries[index - 1].weight < entry.weight) {
+    index--;
+  }
+  entries.splice(index, 0, entry);
+  if (entries.length > ENTRIES_PER_NODE) {
+    entries.pop();
+  }
+}
+
+function popularityWeight(count: number | undefined): number {
+  return count ? POPULARITY_WEIGHT * Math.log1p(count) : 0;
+}
+
+/**
+ * Builds the suggestion trie
+ * Entries are weighted by type plus how often their text was searched
+ */
+export function buildSuggestionTrie(source: SuggestionSource): SuggestionTrie {
+  const trie = new SuggestionTrie();
+  const popularity = new Map<string, number>();
+  for (const [query, count] of Object.entries(source.popularQueries || {})) {
+    const key = toSuggestionKey(query);
+    if (key) popularity.set(key, (popularity.get(key) || 0) + count);
+  }
+  const indexedTexts = new Set<string>();
+
+  for (const product of source.products) {
+    if (!product.title) continue;
+    const key = toSuggestionKey(product.title);
+    indexedTexts.add(key);
+    trie.insert({
+      id: product.$id,
+      text: product.title,
+      type: "product",
+      weight: TYPE_WEIGHTS.product + popularityWeight(popularity.get(key)),
+    });
+  }
+
+  const brands = new Map<string, string>();
+  for (const product of source.products) {
+    const brand = product.brand?.trim();
+    if (brand && !brands.has(toSuggestionKey(brand))) {
+      brands.set(toSuggestionKey(brand), brand);
+    }
+  }
+  for (const [key, brand] of brands) {
+    indexedTexts.add(key);
+    trie.insert({
+      id: `brand_${key.replace(/\s/g, "_")}`,
+      text: brand,
+      type: "brand",
+      weight: TYPE_WEIGHTS.brand + popularityWeight(popularity.get(key)),
+    });
+  }
+
+  for (const category of source.categories) {
+    if (!category.name) continue;
+    const key = toSuggestionKey(category.name);
+    indexedTexts.add(key);
+    trie.insert({
+      id: category.$id,
+      text: category.name,
+      type: "category",
+      weight: TYPE_WEIGHTS.category + popularityWeight(popularity.get(key)),
+    });
+  }
+
+  if (source.includeSynonyms !== false) {
+    for (const [canonical, variations] of Object.entries(getSearchTermDictionary().twoWay)) {
+      const key = toSuggestionKey(canonical);
+      if (indexedTexts.has(key)) continue;
+      indexedTexts.add(key);
+      trie.insert(
+        {
+          id: `term_${key.replace(/\s/g, "_")}`,
+          text: canonical,
+          type: "product",
+          weight: SYNONYM_WEIGHT + popularityWeight(popularity.get(key)),
+        },
+        [canonical, ...variations]
+      );
+    }
+  }
+
+  // Popular queries that aren't already a product, brand or category
+  for (const [key, count] of popularity) {
+    if (count < MIN_POPULAR_QUERY_COUNT || indexedTexts.has(key)) continue;
+    trie.insert({
+      id: `query_${key.replace(/\s/g, "_")}`,
+      text: key,
+      type: "product",
+      weight: popularityWeight(count),
+    });
+  }
+
+  return trie;
+}
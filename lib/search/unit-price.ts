@@ -0,0 +1,123 @@
+/**
+ * Unit Price Module
+ *
+ * Normalizes a product's free-text size ("296 ml", "500g", "1L") and
+ * package_quantity into a total quantity, and turns a price into a unit
+ * price - per 100g, per 100ml, or each - so value can be compared across
+ * pack sizes.
+ *
+ * Sizes are parsed with parseSize (lib/search/query-parser.ts). unit_size and
+ * a size in the title are taken as the size of one unit, so a 6 pack of 250ml
+ * (or "6 x 250ml") is 1500ml. net_weight is already the whole pack's.
+ *
+ * No database dependencies.
+ */
+
+import { parseSize, parsePackCount, QuerySize, SizeUnit } from "./query-parser";
+
+export type UnitPriceBasis = "100g" | "100ml" | "each";
+
+/** Unit prices are only comparable within a basis - mass first, then volume, then counts */
+export const UNIT_PRICE_BASIS_ORDER: Record<UnitPriceBasis, number> = {
+  "100g": 0,
+  "100ml": 1,
+  each: 2,
+};
+
+/** "12 x 340g", "4x250ml" - a count of units of a size */
+const MULTIPACK_PATTERN = /\b(\d+)\s*x\s*(\d+(?:\.\d+)?\s*[a-z]+)\b/i;
+
+export interface ProductQuantity {
+  /** Total grams, millilitres or units */
+  amount: number;
+  unit: SizeUnit | "each";
+}
+
+export interface UnitPrice {
+  /** Price per basis, in JMD cents */
+  centsPerUnit: number;
+  basis: UnitPriceBasis;
+}
+
+/** Product fields the quantity is read from */
+export interface UnitPriceProduct {
+  title: string;
+  unit_size?: string;
+  net_weight?: string;
+  package_quantity?: number;
+}
+
+/**
+ * Parses a multipack size from a title ("12 x 340g")
+ * @returns The unit count and the size of one unit, or null if the title has none
+ */
+function parseMultipack(title: string): { count: number; size: QuerySize } | null {
+  const match = MULTIPACK_PATTERN.exec(title);
+  if (!match) return null;
+  const count = parseInt(match[1], 10);
+  const size = parseSize(match[2]);
+  return count > 0 && size ? { count, size } : null;
+}
+
+/**
+ * Total quantity of a product
+ * A per-unit size (unit_size, or a size in the title) is multiplied by the
+ * pack count; net_weight is used as is.
+ * @returns The quantity, or null if the product has no size or count
+ */
+export function getProductQuantity(product: UnitPriceProduct): ProductQuantity | null {
+  const packageQuantity =
+    product.package_quantity && product.package_quantity > 0 ? product.package_quantity : null;
+  const count = packageQuantity || parsePackCount(product.title) || 1;
+
+  const unitSize = parseSize(product.unit_size);
+  if (unitSize) {
+    return { amount: unitSize.amount * count, unit: unitSize.unit };
+  }
+  const netWeight = parseSize(product.net_weight);
+  if (netWeight) {
+    return { amount: netWeight.amount, unit: netWeight.unit };
+  }
+  const multipack = parseMultipack(product.title);
+  if (multipack) {
+    return { amount: multipack.size.amount * (packageQuantity || multipack.count), unit: multipack.size.unit };
+  }
+  const titleSize = parseSize(product.title);
+  if (titleSize) {
+    return { amount: titleSize.amount * count, unit: titleSize.unit };
+  }
+  if (count > 1) {
+    return { amount: count, unit: "each" };
+  }
+  return null;
+}
+
+/**
+ * Unit price of a product at a price
+ * @param priceJmdCents - Price of the product
+ * @param product - Product (for its size and pack count)
+ * @returns The unit price, or null if the product's quantity is unknown
+ */
+export function calculateUnitPrice(
+  priceJmdCents: number,
+  product: UnitPriceProduct
+): UnitPrice | null {
+  const quantity = getProductQuantity(product);
+  if (!quantity || !(priceJmdCents >= 0)) return null;
+
+  if (quantity.unit === "each") {
+    return { centsPerUnit: priceJmdCents / quantity.amount, basis: "each" };
+  }
+  return {
+    centsPerUnit: (priceJmdCents / quantity.amount) * 100,
+    basis: quantity.unit === "g" ? "100g" : "100ml",
+  };
+}
+
+/**
+ * Formats a unit price for display, e.g. "$12.50 / 100g" or "$45.00 each"
+ */
+export function formatUnitPrice(unitPrice: UnitPrice): string {
+  const price = `$${(unitPrice.centsPerUnit / 100).toFixed(2)}`;
+  return unitPrice.basis === "each" ? `${price} each` : `${price} / ${unitPrice.basis}`;
+}
@@ -0,0 +1,660 @@
+import { ID, Query, Permission, Role, Models } from "appwrite";
+import { databases, teams, databaseId } from "./appwrite-client";
+import { getProductsByIds, searchProducts } from "./search-service";
+import { getStoreOffers } from "./basket-comparison-service";
+import { StoreOffer } from "./basket-optimizer";
+
+/**
+ * Shopping List Service
+ *
+ * Named lists ("Weekly staples", "Christmas cake") that aren't tied to a store
+ * or price. Items point at a product or are free text. Lists can be shared
+ * by email; people who accept the invite can read and edit the list.
+ *
+ * Sharing goes through an Appwrite team per list, created by the owner on
+ * first share. Invites are team memberships sent by Appwrite's invite email,
+ * and the list document grants read/update to the team (only the owner can
+ * delete it) - so no one has to look up another user's account or grant
+ * permissions to them directly.
+ *
+ * Items are stored as a JSON string on the list document (like cart items),
+ * so edits are read-modify-write. Each edit names the copy of the list it was
+ * made on and is rejected if the list has changed since, so people editing a
+ * shared list at the same time don't overwrite each other.
+ */
+
+const SHOPPING_LISTS_COLLECTION_ID = "shopping_lists";
+
+/** Page size for listing the user's teams */
+const TEAMS_PAGE_SIZE = 100;
+
+/** Most values Appwrite accepts in one equal query */
+const MAX_QUERY_VALUES = 100;
+
+/**
+ * Where the invite email links to (must be a platform URL registered in
+ * Appwrite); it should open /lists/join with the query string intact
+ */
+const LIST_INVITE_URL = process.env.EXPO_PUBLIC_LIST_INVITE_URL || "";
+
+export interface ShoppingListItem {
+  /** Item ID (unique within the list) */
+  id: string;
+  /** Product this item points at (null for free-text entries) */
+  productId: string | null;
+  /** Product title or the user's free text */
+  text: string;
+  quantity: number;
+  /** Ticked off (already bought or moved to the cart) */
+  checked: boolean;
+  addedAt: string;
+}
+
+export interface ShoppingList {
+  $id: string;
+  ownerId: string;
+  name: string;
+  items: ShoppingListItem[];
+  /** Team the list is shared through (null until first shared) */
+  teamId: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** Someone a list is shared with */
+export interface ShoppingListMember {
+  membershipId: string;
+  userId: string;
+  email: string;
+  name: string;
+  /** False while the invite hasn't been accepted */
+  joined: boolean;
+}
+
+export interface AddShoppingListItemParams {
+  productId?: string | null;
+  text: string;
+  quantity?: number;
+}
+
+/** A list item matched to the best in-stock store offer */
+export interface ListCartLine {
+  item: ShoppingListItem;
+  productId: string;
+  title: string;
+  sku: string;
+  brand?: string;
+  imageUrl?: string;
+  offer: StoreOffer;
+}
+
+export interface ListToCartPlan {
+  lines: ListCartLine[];
+  /** Free-text items that didn't match any product */
+  unresolvedItems: ShoppingListItem[];
+  /** Items whose product isn't in stock at any store */
+  unavailableItems: ShoppingListItem[];
+}
+
+/**
+ * Thrown when a list changed after the caller loaded it
+ */
+export class ShoppingListConflictError extends Error {
+  /** The list as it is now */
+  readonly latest: ShoppingList;
+
+  constructor(latest: ShoppingList) {
+    super("Someone else just changed this list. Check the latest version and try again.");
+    this.name = "ShoppingListConflictError";
+    this.latest = latest;
+  }
+}
+
+/**
+ * Parse a shopping list document from Appwrite
+ * Items are stored as a JSON string
+ */
+function parseShoppingListDocument(doc: any): ShoppingList {
+  let items: ShoppingListItem[] = [];
+  try {
+    if (typeof doc.items === "string") {
+      items = JSON.parse(doc.items);
+    } else if (Array.isArray(doc.items)) {
+      items = doc.items;
+    }
+  } catch (e) {
+    console.warn("Error parsing shopping list items:", e);
+  }
+
+  return {
+    $id: doc.$id,
+    ownerId: doc.ownerId,
+    name: doc.name,
+    items,
+    teamId: doc.teamId || null,
+    createdAt: doc.$createdAt,
+    updatedAt: doc.$updatedAt,
+  };
+}
+
+/**
+ * Document permissions: the owner can do anything, the list's team can read
+ * and update it
+ */
+function listPermissions(ownerId: string, teamId: string | null): string[] {
+  const permissions = [
+    Permission.read(Role.user(ownerId)),
+    Permission.update(Role.user(ownerId)),
+    Permission.delete(Role.user(ownerId)),
+  ];
+  if (teamId) {
+    permissions.push(Permission.read(Role.team(teamId)), Permission.update(Role.team(teamId)));
+  }
+  return permissions;
+}
+
+/**
+ * Applies an item change to the latest copy of a list
+ * Appwrite has no conditional update, so the version check narrows a
+ * conflicting edit to the moment between the re-read and the write.
+ * @param list - The list as the caller last loaded it
+ * @throws ShoppingListConflictError if the list changed since it was loaded
+ */
+async function saveListItems(
+  list: ShoppingList,
+  update: (items: ShoppingListItem[]) => ShoppingListItem[]
+): Promise<ShoppingList> {
+  const latest = await getShoppingList(list.$id);
+  if (latest.updatedAt !== list.updatedAt) {
+    throw new ShoppingListConflictError(latest);
+  }
+
+  const doc = await databases.updateDocument(databaseId, SHOPPING_LISTS_COLLECTION_ID, list.$id, {
+    items: JSON.stringify(update(latest.items)),
+  });
+  return parseShoppingListDocument(doc);
+}
+
+/**
+ * IDs of every team the user belongs to, page by page
+ */
+async function getTeamIds(): Promise<string[]> {
+  const teamIds: string[] = [];
+  let cursor: string | null = null;
+
+  while (true) {
+    const page: Models.TeamList<Models.Preferences> = await teams.list([
+      Query.limit(TEAMS_PAGE_SIZE),
+      ...(cursor ? [Query.cursorAfter(cursor)] : []),
+    ]);
+    teamIds.push(...page.teams.map((team) => team.$id));
+    if (page.teams.length < TEAMS_PAGE_SIZE) break;
+    cursor = page.teams[page.teams.length - 1].$id;
+  }
+
+  return teamIds;
+}
+
+/**
+ * Retrieves lists the user owns or that are shared with them
+ * @param userId - User ID
+ * @returns Promise with lists, most recently updated first
+ */
+export async function getShoppingLists(userId: string): Promise<ShoppingList[]> {
+  try {
+    // Lists shared with the user belong to teams they've joined
+    const teamIds = await getTeamIds();
+    const teamQueries: string[] = [];
+    for (let i = 0; i < teamIds.length; i += MAX_QUERY_VALUES) {
+      teamQueries.push(Query.equal("teamId", teamIds.slice(i, i + MAX_QUERY_VALUES)));
+    }
+
+    const result = await databases.listDocuments(
+      databaseId,
+      SHOPPING_LISTS_COLLECTION_ID,
+      [
+        teamQueries.length > 0
+          ? Query.or([Query.equal("ownerId", userId), ...teamQueries])
+          : Query.equal("ownerId", userId),
+        Query.orderDesc("$updatedAt"),
+        Query.limit(100),
+      ]
+    );
+    return result.documents.map(parseShoppingListDocument);
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve shopping lists";
+    console.error("Shopping lists retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Retrieves a single shopping list
+ * @param listId - Shopping list document ID
+ */
+export async function getShoppingList(listId: string): Promise<ShoppingList> {
+  try {
+    const doc = await databases.getDocument(databaseId, SHOPPING_LISTS_COLLECTION_ID, listId);
+    return parseShoppingListDocument(doc);
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve shopping list";
+    console.error("Shopping list retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Creates an empty shopping list
+ * @param userId - Owner's user ID
+ * @param name - List name
+ */
+export async function createShoppingList(userId: string, name: string): Promise<ShoppingList> {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("List name is required");
+  }
+
+  try {
+    const doc = await databases.createDocument(
+      databaseId,
+      SHOPPING_LISTS_COLLECTION_ID,
+      ID.unique(),
+      {
+        ownerId: userId,
+        name: trimmedName,
+        items: "[]",
+        teamId: null,
+      },
+      listPermissions(userId, null)
+    );
+    return parseShoppingListDocument(doc);
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to create shopping list";
+    console.error("Shopping list creation error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Renames a shopping list
+ * @param listId - Shopping list document ID
+ * @param name - New name
+ */
+export async function renameShoppingList(listId: string, name: string): Promise<ShoppingList> {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("List name is required");
+  }
+
+  try {
+    const doc = await databases.updateDocument(databaseId, SHOPPING_LISTS_COLLECTION_ID, listId, {
+      name: trimmedName,
+    });
+    return parseShoppingListDocument(doc);
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to rename shopping list";
+    console.error("Shopping list rename error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Deletes a shopping list and the team it was shared through
+ * @param listId - Shopping list document ID
+ */
+export async function deleteShoppingList(listId: string): Promise<void> {
+  try {
+    const list = await getShoppingList(listId);
+    await databases.deleteDocument(databaseId, SHOPPING_LISTS_COLLECTION_ID, listId);
+
+    // Remove the team (non-blocking)
+    if (list.teamId) {
+      teams.delete(list.teamId).catch((error) => {
+        console.warn("[ShoppingListService] Failed to delete list team:", error);
+      });
+    }
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to delete shopping list";
+    console.error("Shopping list deletion error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Adds an item to a list
+ * Adding a product that's already on the list increases its quantity
+ * @param list - Shopping list as last loaded
+ * @param params - Product ID and/or free text, and quantity
+ * @throws ShoppingListConflictError if the list changed since it was loaded
+ */
+export async function addShoppingListItem(
+  list: ShoppingList,
+  params: AddShoppingListItemParams
+): Promise<ShoppingList> {
+  const text = params.text.trim();
+  const quantity = Math.max(1, params.quantity || 1);
+  if (!text) {
+    throw new Error("Item text is required");
+  }
+
+  try {
+    return await saveListItems(list, (items) => {
+      const existing = params.productId
+        ? items.find((item) => item.productId === params.productId)
+        : undefined;
+      if (existing) {
+        return items.map((item) =>
+          item.id === existing.id
+            ? { ...item, quantity: item.quantity + quantity, checked: false }
+            : item
+        );
+      }
+      return [
+        ...items,
+        {
+          id: ID.unique(),
+          productId: params.productId || null,
+          text,
+          quantity,
+          checked: false,
+          addedAt: new Date().toISOString(),
+        },
+      ];
+    });
+  } catch (error: any) {
+    if (error instanceof ShoppingListConflictError) {
+      throw error;
+    }
+    const errorMessage = error.message || "Failed to add item to list";
+    console.error("Shopping list item add error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Updates an item's quantity, text or checked state
+ * @param list - Shopping list as last loaded
+ * @param itemId - Item ID
+ * @param changes - Fields to change
+ * @throws ShoppingListConflictError if the list changed since it was loaded
+ */
+export async function updateShoppingListItem(
+  list: ShoppingList,
+  itemId: string,
+  changes: Partial<Pick<ShoppingListItem, "text" | "quantity" | "checked">>
+): Promise<ShoppingList> {
+  try {
+    return await saveListItems(list, (items) =>
+      items.map((item) => (item.id === itemId ? { ...item, ...changes } : item))
+    );
+  } catch (error: any) {
+    if (error instanceof ShoppingListConflictError) {
+      throw error;
+    }
+    const errorMessage = error.message || "Failed to update list item";
+    console.error("Shopping list item update error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Removes an item from a list
+ * @param list - Shopping list as last loaded
+ * @param itemId - Item ID
+ * @throws ShoppingListConflictError if the list changed since it was loaded
+ */
+export async function removeShoppingListItem(
+  list: ShoppingList,
+  itemId: string
+): Promise<ShoppingList> {
+  try {
+    return await saveListItems(list, (items) => items.filter((item) => item.id !== itemId));
+  } catch (error: any) {
+    if (error instanceof ShoppingListConflictError) {
+      throw error;
+    }
+    const errorMessage = error.message || "Failed to remove list item";
+    console.error("Shopping list item removal error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Creates the list's team on first share and grants it access to the list
+ * The owner creates the team, so they are its owner and can invite to it
+ */
+async function ensureListTeam(list: ShoppingList): Promise<ShoppingList> {
+  if (list.teamId) {
+    return list;
+  }
+
+  const team = await teams.create(ID.unique(), list.name);
+  const doc = await databases.updateDocument(
+    databaseId,
+    SHOPPING_LISTS_COLLECTION_ID,
+    list.$id,
+    { teamId: team.$id },
+    listPermissions(list.ownerId, team.$id)
+  );
+  return parseShoppingListDocument(doc);
+}
+
+/**
+ * Retrieves the people a list is shared with, including pending invites
+ * @param list - Shopping list
+ * @returns Promise with members other than the owner
+ */
+export async function getShoppingListMembers(list: ShoppingList): Promise<ShoppingListMember[]> {
+  if (!list.teamId) {
+    return [];
+  }
+
+  try {
+    const result = await teams.listMemberships(list.teamId);
+    return result.memberships
+      .filter((membership) => membership.userId !== list.ownerId)
+      .map((membership) => ({
+        membershipId: membership.$id,
+        userId: membership.userId,
+        email: membership.userEmail,
+        name: membership.userName,
+        joined: membership.confirm,
+      }));
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to retrieve list members";
+    console.error("Shopping list members retrieval error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Invites someone to a list by email
+ * They get access once they accept the invite (see acceptShoppingListInvite)
+ * @param listId - Shopping list document ID
+ * @param email - Email to invite
+ * @returns Promise with the updated list
+ */
+export async function shareShoppingList(listId: string, email: string): Promise<ShoppingList> {
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!normalizedEmail) {
+    throw new Error("Email is required");
+  }
+
+  try {
+    const list = await ensureListTeam(await getShoppingList(listId));
+    await teams.createMembership(
+      list.teamId!,
+      [],
+      normalizedEmail,
+      undefined,
+      undefined,
+      LIST_INVITE_URL || undefined
+    );
+    return list;
+  } catch (error: any) {
+    if (error.code === 409) {
+      throw new Error("That email has already been invited to this list");
+    }
+    const errorMessage = error.message || "Failed to share shopping list";
+    console.error("Shopping list share error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Stops sharing a list with a user, cancels their invite, or lets a shared
+ * user leave the list
+ * @param listId - Shopping list document ID
+ * @param userId - User to remove
+ */
+export async function unshareShoppingList(listId: string, userId: string): Promise<ShoppingList> {
+  const list = await getShoppingList(listId);
+  if (!list.teamId) {
+    return list;
+  }
+
+  try {
+    const result = await teams.listMemberships(list.teamId, [Query.equal("userId", userId)]);
+    for (const membership of result.memberships) {
+      await teams.deleteMembership(list.teamId, membership.$id);
+    }
+    return list;
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to update list sharing";
+    console.error("Shopping list unshare error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Accepts a list invite from the invite email link
+ * @param teamId - Team ID from the link
+ * @param membershipId - Membership ID from the link
+ * @param userId - User ID from the link
+ * @param secret - Invite secret from the link
+ * @returns Promise with the shared list, or null if it no longer exists
+ */
+export async function acceptShoppingListInvite(
+  teamId: string,
+  membershipId: string,
+  userId: string,
+  secret: string
+): Promise<ShoppingList | null> {
+  try {
+    await teams.updateMembershipStatus(teamId, membershipId, userId, secret);
+    const result = await databases.listDocuments(databaseId, SHOPPING_LISTS_COLLECTION_ID, [
+      Query.equal("teamId", teamId),
+      Query.limit(1),
+    ]);
+    return result.documents.length > 0 ? parseShoppingListDocument(result.documents[0]) : null;
+  } catch (error: any) {
+    const errorMessage = error.message || "Failed to accept list invite";
+    console.error("Shopping list invite error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
+
+/**
+ * Finds the product a list item refers to
+ * Free text goes through product search, which normalizes Jamaican terms
+ * ("corn beef" -> "corned beef") before matching
+ * @returns Promise with the product ID, or null if nothing matches
+ */
+export async function resolveShoppingListItem(item: ShoppingListItem): Promise<string | null> {
+  if (item.productId) {
+    return item.productId;
+  }
+
+  const results = await searchProducts(item.text, 1);
+  return results[0]?.product.$id || null;
+}
+
+/**
+ * Works out what "move list to cart" would add
+ *
+ * Each unchecked item is matched to a product and then to the cheapest
+ * in-stock offer at an active store.
+ *
+ * @param list - Shopping list
+ * @returns Promise with cart lines and the items that couldn't be matched
+ */
+export async function buildListToCartPlan(list: ShoppingList): Promise<ListToCartPlan> {
+  const pendingItems = list.items.filter((item) => !item.checked);
+
+  const resolved = await Promise.all(
+    pendingItems.map(async (item) => ({
+      item,
+      productId: await resolveShoppingListItem(item).catch((error) => {
+        console.warn(`[ShoppingListService] Failed to resolve "${item.text}":`, error);
+        return null;
+      }),
+    }))
+  );
+
+  const productIds = Array.from(
+    new Set(resolved.map((r) => r.productId).filter((id): id is string => !!id))
+  );
+  const [offers, products] = await Promise.all([
+    getStoreOffers(productIds),
+    getProductsByIds(productIds),
+  ]);
+
+  const bestOffers = new Map<string, StoreOffer>();
+  for (const offer of offers) {
+    const best = bestOffers.get(offer.productId);
+    if (!best || offer.priceJmdCents < best.priceJmdCents) {
+      bestOffers.set(offer.productId, offer);
+    }
+  }
+
+  const plan: ListToCartPlan = { lines: [], unresolvedItems: [], unavailableItems: [] };
+  for (const { item, productId } of resolved) {
+    if (!productId) {
+      plan.unresolvedItems.push(item);
+      continue;
+    }
+
+    const offer = bestOffers.get(productId);
+    const product = products.get(productId);
+    if (!offer || !product) {
+      plan.unavailableItems.push(item);
+      continue;
+    }
+
+    plan.lines.push({
+      item,
+      productId,
+      title: product.title,
+      sku: product.sku,
+      brand: product.brand,
+      imageUrl: product.primary_image_url,
+      offer,
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Ticks off items after they've been moved to the cart
+ * @param list - Shopping list as last loaded
+ * @param itemIds - Items to check
+ * @throws ShoppingListConflictError if the list changed since it was loaded
+ */
+export async function checkShoppingListItems(
+  list: ShoppingList,
+  itemIds: string[]
+): Promise<ShoppingList> {
+  try {
+    return await saveListItems(list, (items) =>
+      items.map((item) => (itemIds.includes(item.id) ? { ...item, checked: true } : item))
+    );
+  } catch (error: any) {
+    if (error instanceof ShoppingListConflictError) {
+      throw error;
+    }
+    const errorMessage = error.message || "Failed to update list items";
+    console.error("Shopping list check error:", errorMessage);
+    throw new Error(errorMessage);
+  }
+}
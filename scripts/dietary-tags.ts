@@ -0,0 +1,191 @@
+import { Query } from "appwrite";
+import * as fs from "fs";
+import { DIETARY_TAGS, ALLERGENS, normalizeDietaryValue } from "../lib/search/dietary";
+import {
+  appwriteRequest,
+  databaseId,
+  listAllDocuments,
+  parseCsvRows,
+  requireEnvironment,
+  toCsvField,
+  writeOutput,
+} from "./script-helpers";
+
+/**
+ * Product dietary tagging tools
+ *
+ * Usage:
+ *   npm run dietary-tags -- export [file.csv]             Export every product's dietary tags and allergens
+ *   npm run dietary-tags -- export-untagged [file.csv]    Export only products without any dietary data
+ *   npm run dietary-tags -- import file.csv               Update products from a CSV
+ *
+ * CSV columns: sku,title,brand,dietary_tags,allergens
+ * - dietary_tags and allergens are separated by "|" (e.g. "vegan|gluten_free")
+ * - dietary_tags: vegan, vegetarian, gluten_free, dairy_free, nut_free, pork_free, halal, ital, organic, low_sodium
+ * - allergens: gluten, dairy, egg, peanut, tree_nut, soy, fish, shellfish, sesame
+ * Products are matched on sku; title and brand are for reference and aren't imported.
+ * Rows with both columns empty are skipped, so an export can be tagged a few rows at a time.
+ */
+
+const PRODUCTS_COLLECTION_ID = "products";
+const CSV_HEADER = ["sku", "title", "brand", "dietary_tags", "allergens"];
+
+interface ProductDietaryRow {
+  sku: string;
+  title: string;
+  brand: string;
+  dietary_tags: string[];
+  allergens: string[];
+}
+
+function toCsv(rows: ProductDietaryRow[]): string {
+  const lines = rows.map((row) =>
+    [row.sku, row.title, row.brand, row.dietary_tags.join("|"), row.allergens.join("|")]
+      .map(toCsvField)
+      .join(",")
+  );
+  return [CSV_HEADER.join(","), ...lines].join("\n") + "\n";
+}
+
+/**
+ * Splits a "|" separated column, normalizing each value ("Gluten-Free" -> "gluten_free")
+ */
+function parseList(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split("|")
+        .map((item) => normalizeDietaryValue(item))
+        .filter((item) => item.length > 0)
+    )
+  );
+}
+
+/**
+ * Parses a dietary tags CSV, reporting every invalid row before giving up
+ */
+function parseDietaryCsv(text: string): ProductDietaryRow[] {
+  const [header, ...rows] = parseCsvRows(text);
+  const columns = (header || []).map((cell) => cell.trim().toLowerCase());
+  const required = ["sku", "dietary_tags", "allergens"];
+  const missing = required.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing column(s): ${missing.join(", ")}`);
+  }
+
+  const parsed: ProductDietaryRow[] = [];
+  const errors: string[] = [];
+  rows.forEach((cells, index) => {
+    const value = (column: string) => (columns.includes(column) ? cells[columns.indexOf(column)] || "" : "").trim();
+    const line = index + 2;
+    const sku = value("sku");
+    const dietaryTags = parseList(value("dietary_tags"));
+    const allergens = parseList(value("allergens"));
+
+    if (!sku) errors.push(`Line ${line}: sku is empty`);
+    const unknownTags = dietaryTags.filter((tag) => !(DIETARY_TAGS as readonly string[]).includes(tag));
+    if (unknownTags.length > 0) errors.push(`Line ${line}: unknown dietary tag(s): ${unknownTags.join(", ")}`);
+    const unknownAllergens = allergens.filter((allergen) => !(ALLERGENS as readonly string[]).includes(allergen));
+    if (unknownAllergens.length > 0) errors.push(`Line ${line}: unknown allergen(s): ${unknownAllergens.join(", ")}`);
+
+    parsed.push({ sku, title: value("title"), brand: value("brand"), dietary_tags: dietaryTags, allergens });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid CSV:\n  ${errors.join("\n  ")}`);
+  }
+  return parsed;
+}
+
+async function loadProducts(): Promise<(ProductDietaryRow & { $id: string })[]> {
+  const documents = await listAllDocuments(PRODUCTS_COLLECTION_ID, [
+    Query.select(["$id", "sku", "title", "brand", "dietary_tags", "allergens"]),
+  ]);
+  return documents.map((doc) => ({
+    $id: doc.$id,
+    sku: doc.sku || "",
+    title: doc.title || "",
+    brand: doc.brand || "",
+    dietary_tags: doc.dietary_tags || [],
+    allergens: doc.allergens || [],
+  }));
+}
+
+async function exportProducts(file: string | undefined, untaggedOnly: boolean): Promise<void> {
+  const products = (await loadProducts())
+    .filter((product) => !untaggedOnly || (product.dietary_tags.length === 0 && product.allergens.length === 0))
+    .sort((a, b) => a.title.localeCompare(b.title));
+  writeOutput(toCsv(products), file);
+  if (file) console.log(`  ${products.length} products`);
+}
+
+async function importProducts(file: string | undefined): Promise<void> {
+  if (!file) {
+    throw new Error("Usage: import <file.csv>");
+  }
+  const rows = parseDietaryCsv(fs.readFileSync(file, "utf8"));
+  const productsBySku = new Map((await loadProducts()).map((product) => [product.sku, product]));
+
+  let updated = 0;
+  let unchanged = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const row of rows) {
+    if (row.dietary_tags.length === 0 && row.allergens.length === 0) {
+      skipped++;
+      continue;
+    }
+    const product = productsBySku.get(row.sku);
+    if (!product) {
+      failed++;
+      console.error(`  ✗ No product with sku '${row.sku}'`);
+      continue;
+    }
+    if (
+      product.dietary_tags.join("|") === row.dietary_tags.join("|") &&
+      product.allergens.join("|") === row.allergens.join("|")
+    ) {
+      unchanged++;
+      continue;
+    }
+    try {
+      await appwriteRequest(
+        "PATCH",
+        `/databases/${databaseId}/collections/${PRODUCTS_COLLECTION_ID}/documents/${product.$id}`,
+        { data: { dietary_tags: row.dietary_tags, allergens: row.allergens } }
+      );
+      updated++;
+    } catch (error: any) {
+      failed++;
+      console.error(`  ✗ Failed to update '${row.sku}': ${error.message}`);
+    }
+  }
+
+  console.log(`✓ Imported ${file}: ${updated} updated, ${unchanged} unchanged, ${skipped} skipped (empty), ${failed} failed`);
+  console.log("  Offline catalogs pick up the changes on their next download.");
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  requireEnvironment();
+  switch (command) {
+    case "export":
+      await exportProducts(args[0], false);
+      break;
+    case "export-untagged":
+      await exportProducts(args[0], true);
+      break;
+    case "import":
+      await importProducts(args[0]);
+      break;
+    default:
+      console.error("Usage: dietary-tags <export|export-untagged|import> [args]");
+      process.exit(1);
+  }
+}
+
+main().catch((error: any) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
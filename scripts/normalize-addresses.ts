@@ -0,0 +1,107 @@
+import { Query } from "appwrite";
+import {
+  geocodeJamaicaAddress,
+  normalizeJamaicaAddress,
+  validateJamaicaCommunity,
+} from "../lib/jamaica-parishes";
+import { appwriteRequest, databaseId, listAllDocuments, requireEnvironment } from "./script-helpers";
+
+/**
+ * Saved address normalization
+ *
+ * Usage:
+ *   npm run normalize-addresses            List the changes (dry run)
+ *   npm run normalize-addresses -- --apply Save the changes
+ *
+ * Rewrites each address's parish and community to the gazetteer names in
+ * lib/jamaica-parishes.ts ("st andrew" -> "Kingston & St. Andrew",
+ * "half-way tree" -> "Half Way Tree"), and fills in missing coordinates.
+ * Communities listed under a different parish are reported, not changed -
+ * only the customer knows which of the two is wrong.
+ */
+
+const ADDRESSES_COLLECTION_ID = "addresses";
+
+interface AddressChange {
+  $id: string;
+  from: { parish: string; community: string };
+  data: Record<string, string | number>;
+}
+
+/**
+ * Works out the fields to update on an address
+ * @returns The change, or null if the address is already normalized
+ */
+function getAddressChange(doc: any): AddressChange | null {
+  const from = { parish: doc.parish || "", community: doc.community || "" };
+  const normalized = normalizeJamaicaAddress(from.parish, from.community);
+  const data: Record<string, string | number> = {};
+  if (normalized.parish !== from.parish) data.parish = normalized.parish;
+  if (normalized.community !== from.community) data.community = normalized.community;
+
+  if (typeof doc.latitude !== "number" || typeof doc.longitude !== "number") {
+    const location = geocodeJamaicaAddress(normalized.parish, normalized.community);
+    if (location) {
+      data.latitude = location.latitude;
+      data.longitude = location.longitude;
+    }
+  }
+
+  return Object.keys(data).length > 0 ? { $id: doc.$id, from, data } : null;
+}
+
+async function main(): Promise<void> {
+  const apply = process.argv.slice(2).includes("--apply");
+
+  requireEnvironment();
+  const addresses = await listAllDocuments(ADDRESSES_COLLECTION_ID, [
+    Query.select(["$id", "parish", "community", "latitude", "longitude"]),
+  ]);
+  console.log(`Checking ${addresses.length} addresses${apply ? "" : " (dry run - pass --apply to save)"}`);
+
+  let updated = 0;
+  let failed = 0;
+  let mismatched = 0;
+  for (const doc of addresses) {
+    const check = validateJamaicaCommunity(doc.parish || "", doc.community || "");
+    if (!check.isValid) {
+      mismatched++;
+      console.warn(`  ! ${doc.$id}: ${check.error}`);
+    }
+
+    const change = getAddressChange(doc);
+    if (!change) continue;
+    const renamed = [
+      change.data.parish !== undefined ? `parish '${change.from.parish}' -> '${change.data.parish}'` : null,
+      change.data.community !== undefined ? `community '${change.from.community}' -> '${change.data.community}'` : null,
+      change.data.latitude !== undefined ? "coordinates added" : null,
+    ].filter(Boolean);
+    console.log(`  ${doc.$id}: ${renamed.join(", ")}`);
+
+    if (!apply) {
+      updated++;
+      continue;
+    }
+    try {
+      await appwriteRequest(
+        "PATCH",
+        `/databases/${databaseId}/collections/${ADDRESSES_COLLECTION_ID}/documents/${change.$id}`,
+        { data: change.data }
+      );
+      updated++;
+    } catch (error: any) {
+      failed++;
+      console.error(`  ✗ Failed to update '${change.$id}': ${error.message}`);
+    }
+  }
+
+  console.log(
+    `✓ ${updated} addresses ${apply ? "updated" : "to update"}, ${failed} failed, ` +
+      `${mismatched} with a community in a different parish`
+  );
+}
+
+main().catch((error: any) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
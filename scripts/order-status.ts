@@ -0,0 +1,87 @@
+import { ID, Permission, Role } from "appwrite";
+import { buildOrderStatusUpdate, ORDER_STATUS_TRANSITIONS } from "../lib/order-status";
+import { appwriteRequest, databaseId, requireEnvironment } from "./script-helpers";
+
+/**
+ * Order status changes for staff
+ *
+ * Usage:
+ *   npm run order-status -- <orderId> <status> [reason]
+ *
+ * Moves an order along its lifecycle (e.g. placed -> accepted -> picking).
+ * The change is checked against the transition table in lib/order-status.ts,
+ * appended to the order's status history and recorded in the customer's
+ * audit log. Cancelling gives the delivery slot back. Uses the server API
+ * key: orders are read-only for customers, who can only cancel through the
+ * orders function (functions/orders).
+ */
+
+const ORDERS_COLLECTION_ID = "orders";
+const DELIVERY_SLOTS_COLLECTION_ID = "delivery_slots";
+const AUDIT_LOGS_COLLECTION_ID = "audit_logs";
+
+function printUsage(): void {
+  console.log("Usage: npm run order-status -- <orderId> <status> [reason]");
+  console.log(`Statuses: ${Object.keys(ORDER_STATUS_TRANSITIONS).join(", ")}`);
+}
+
+async function main(): Promise<void> {
+  const [orderId, nextStatus, ...reasonWords] = process.argv.slice(2);
+  if (!orderId || !nextStatus) {
+    printUsage();
+    process.exit(1);
+  }
+  const reason = reasonWords.join(" ") || undefined;
+
+  requireEnvironment();
+  const orderPath = `/databases/${databaseId}/collections/${ORDERS_COLLECTION_ID}/documents/${orderId}`;
+  const order = await appwriteRequest("GET", orderPath);
+
+  // Throws if the transition isn't allowed
+  const update = buildOrderStatusUpdate(order, nextStatus, reason, new Date().toISOString());
+  await appwriteRequest("PATCH", orderPath, { data: update });
+  console.log(`✓ Order '${orderId}' moved from ${order.status} to ${update.status}`);
+
+  if (update.status === "cancelled" && order.deliverySlotId) {
+    try {
+      await appwriteRequest(
+        "PATCH",
+        `/databases/${databaseId}/collections/${DELIVERY_SLOTS_COLLECTION_ID}/documents/${order.deliverySlotId}/reservedCount/decrement`,
+        { value: 1, min: 0 }
+      );
+      console.log(`  ✓ Released delivery slot '${order.deliverySlotId}'`);
+    } catch (error: any) {
+      console.warn(`  ! Failed to release delivery slot: ${error.message}`);
+    }
+  }
+
+  try {
+    await appwriteRequest(
+      "POST",
+      `/databases/${databaseId}/collections/${AUDIT_LOGS_COLLECTION_ID}/documents`,
+      {
+        documentId: ID.unique(),
+        data: {
+          userId: order.userId,
+          eventType: "order.status_changed",
+          metadata: JSON.stringify({
+            field: "status",
+            orderId,
+            oldValue: order.status,
+            newValue: update.status,
+            reason: reason || null,
+          }),
+          timestamp: new Date().toISOString(),
+        },
+        permissions: [Permission.read(Role.user(order.userId))],
+      }
+    );
+  } catch (error: any) {
+    console.warn(`  ! Failed to write audit log: ${error.message}`);
+  }
+}
+
+main().catch((error: any) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,215 @@
+import { ID, Query } from "appwrite";
+import {
+  formatPriceDropAlert,
+  getPriceDrop,
+  isPriceChanged,
+  isWatchTriggered,
+  parsePriceWatchDocument,
+  PriceDrop,
+} from "../lib/price-alerts";
+import {
+  appwriteRequest,
+  databaseId,
+  listAllDocuments,
+  listDocuments,
+  requireEnvironment,
+} from "./script-helpers";
+
+/**
+ * Price history recorder
+ *
+ * Usage:
+ *   npm run record-prices
+ *
+ * Run after each catalog sync. Compares every store listing's price with its
+ * latest price_history record and records the ones that changed. Price drops
+ * are sent to matching price watchers as push notifications (if they allow
+ * promotions), and the watch remembers the price it alerted on.
+ * Uses the server API key: price_history is read-only for users, and watches
+ * and notification preferences are only readable by their owners.
+ */
+
+const STORE_LOCATION_PRODUCT_COLLECTION_ID = "store_location_product";
+const PRODUCTS_COLLECTION_ID = "products";
+const STORE_LOCATIONS_COLLECTION_ID = "store_location";
+const PRICE_HISTORY_COLLECTION_ID = "price_history";
+const PRICE_WATCHES_COLLECTION_ID = "price_watches";
+const NOTIFICATION_PREFERENCES_COLLECTION_ID = "notification_preferences";
+const EXPO_PUSH_SEND_URL = "https://exp.host/--/api/v2/push/send";
+
+/**
+ * Price in a listing's latest history record (null if it has none)
+ */
+async function getLatestPrice(storeLocationProductId: string): Promise<number | null> {
+  const [latest] = await listDocuments(PRICE_HISTORY_COLLECTION_ID, [
+    Query.equal("storeLocationProductId", storeLocationProductId),
+    Query.orderDesc("observedAt"),
+    Query.select(["priceJmdCents"]),
+    Query.limit(1),
+  ]);
+  return latest ? latest.priceJmdCents : null;
+}
+
+/**
+ * Reads one document, or null if it can't be read
+ */
+async function getDocumentOrNull(collectionId: string, documentId: string): Promise<any | null> {
+  try {
+    return await appwriteRequest(
+      "GET",
+      `/databases/${databaseId}/collections/${collectionId}/documents/${documentId}`
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sends a push notification through the Expo push service
+ * @returns true if Expo accepted the message
+ */
+async function sendPushNotification(
+  pushToken: string,
+  message: { title: string; body: string; data: Record<string, any> }
+): Promise<boolean> {
+  const response = await fetch(EXPO_PUSH_SEND_URL, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ to: pushToken, sound: "default", ...message }),
+  });
+
+  const result: any = await response.json();
+  if (!response.ok || result?.data?.status === "error") {
+    console.warn(`  ! Push rejected: ${result?.data?.message || response.status}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Alerts everyone whose watch the drop triggers
+ * @returns Number of alerts sent
+ */
+async function notifyPriceWatchers(drop: PriceDrop): Promise<number> {
+  const watches = (
+    await listAllDocuments(PRICE_WATCHES_COLLECTION_ID, [
+      Query.equal("productId", drop.productId),
+      Query.equal("isActive", true),
+      Query.greaterThanEqual("targetPriceJmdCents", drop.priceJmdCents),
+    ])
+  )
+    .map(parsePriceWatchDocument)
+    .filter((watch) => isWatchTriggered(watch, drop));
+  if (watches.length === 0) return 0;
+
+  const [product, storeLocation] = await Promise.all([
+    getDocumentOrNull(PRODUCTS_COLLECTION_ID, drop.productId),
+    getDocumentOrNull(STORE_LOCATIONS_COLLECTION_ID, drop.storeLocationId),
+  ]);
+  const message = formatPriceDropAlert({
+    productId: drop.productId,
+    productTitle: product?.title || "A product you're watching",
+    storeName: storeLocation?.display_name || storeLocation?.name || "a store",
+    priceJmdCents: drop.priceJmdCents,
+    previousPriceJmdCents: drop.previousPriceJmdCents,
+  });
+
+  let sent = 0;
+  for (const watch of watches) {
+    try {
+      const [preferences] = await listDocuments(NOTIFICATION_PREFERENCES_COLLECTION_ID, [
+        Query.equal("userId", watch.userId),
+        Query.limit(1),
+      ]);
+      if (
+        !preferences ||
+        !preferences.pushEnabled ||
+        !preferences.promotionsEnabled ||
+        !preferences.pushToken
+      ) {
+        continue;
+      }
+      if (!(await sendPushNotification(preferences.pushToken, message))) continue;
+
+      await appwriteRequest(
+        "PATCH",
+        `/databases/${databaseId}/collections/${PRICE_WATCHES_COLLECTION_ID}/documents/${watch.$id}`,
+        {
+          data: {
+            lastNotifiedAt: new Date().toISOString(),
+            lastNotifiedPriceJmdCents: drop.priceJmdCents,
+          },
+        }
+      );
+      sent++;
+    } catch (error: any) {
+      console.warn(`  ! Failed to alert watch '${watch.$id}': ${error.message}`);
+    }
+  }
+
+  return sent;
+}
+
+async function main(): Promise<void> {
+  requireEnvironment();
+  const listings = await listAllDocuments(STORE_LOCATION_PRODUCT_COLLECTION_ID, [
+    Query.select(["$id", "product_id", "store_location_id", "price_jmd_cents", "last_seen_at"]),
+  ]);
+  console.log(`Checking ${listings.length} store listings`);
+
+  let recorded = 0;
+  let drops = 0;
+  let alerts = 0;
+  let failed = 0;
+  for (const listing of listings) {
+    try {
+      const latestPriceJmdCents = await getLatestPrice(listing.$id);
+      if (!isPriceChanged(listing.price_jmd_cents, latestPriceJmdCents)) continue;
+
+      await appwriteRequest(
+        "POST",
+        `/databases/${databaseId}/collections/${PRICE_HISTORY_COLLECTION_ID}/documents`,
+        {
+          documentId: ID.unique(),
+          data: {
+            storeLocationProductId: listing.$id,
+            productId: listing.product_id,
+            storeLocationId: listing.store_location_id,
+            priceJmdCents: listing.price_jmd_cents,
+            previousPriceJmdCents: latestPriceJmdCents,
+            observedAt: listing.last_seen_at || new Date().toISOString(),
+          },
+        }
+      );
+      recorded++;
+
+      const drop = getPriceDrop(
+        {
+          productId: listing.product_id,
+          storeLocationId: listing.store_location_id,
+          priceJmdCents: listing.price_jmd_cents,
+        },
+        latestPriceJmdCents
+      );
+      if (drop) {
+        drops++;
+        alerts += await notifyPriceWatchers(drop);
+      }
+    } catch (error: any) {
+      failed++;
+      console.error(`  ✗ Failed to record '${listing.$id}': ${error.message}`);
+    }
+  }
+
+  console.log(
+    `✓ ${recorded} price changes recorded, ${drops} drops, ${alerts} alerts sent, ${failed} failed`
+  );
+}
+
+main().catch((error: any) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,205 @@
+import { Query } from "appwrite";
+import * as dotenv from "dotenv";
+import * as path from "path";
+import * as fs from "fs";
+import * as https from "https";
+import * as http from "http";
+
+/**
+ * Shared helpers for the maintenance scripts
+ *
+ * Loads .env, talks to Appwrite over REST with the server API key, pages
+ * through collections and reads/writes CSV files.
+ */
+
+// Load environment variables from .env file
+const envPath = path.join(process.cwd(), ".env");
+if (fs.existsSync(envPath)) {
+  dotenv.config({ path: envPath });
+} else {
+  // Try .env.local as fallback
+  const envLocalPath = path.join(process.cwd(), ".env.local");
+  if (fs.existsSync(envLocalPath)) {
+    dotenv.config({ path: envLocalPath });
+  }
+}
+
+// Get environment variables
+const endpoint = process.env.EXPO_PUBLIC_APPWRITE_ENDPOINT || "";
+const projectId = process.env.EXPO_PUBLIC_APPWRITE_PROJECT_ID || "";
+const apiKey = process.env.APPWRITE_API_KEY || "";
+export const databaseId = process.env.APPWRITE_DATABASE_ID || "grovi-db";
+
+const PAGE_SIZE = 100;
+
+// Helper function to make API requests to Appwrite
+export async function appwriteRequest(
+  method: string,
+  path: string,
+  body?: any
+): Promise<any> {
+  return new Promise((resolve, reject) => {
+    // Ensure endpoint ends with /v1 if not already present
+    const baseUrl = endpoint.endsWith("/v1") ? endpoint : `${endpoint}/v1`;
+    const fullUrl = `${baseUrl}${path}`;
+    const url = new URL(fullUrl);
+    const isHttps = url.protocol === "https:";
+    const httpModule = isHttps ? https : http;
+
+    const postData = body ? JSON.stringify(body) : undefined;
+
+    const options = {
+      hostname: url.hostname,
+      port: url.port || (isHttps ? 443 : 80),
+      path: url.pathname + url.search,
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "X-Appwrite-Project": projectId,
+        "X-Appwrite-Key": apiKey,
+      },
+    };
+
+    const req = httpModule.request(options, (res) => {
+      let data = "";
+
+      res.on("data", (chunk) => {
+        data += chunk;
+      });
+
+      res.on("end", () => {
+        try {
+          const parsed = data ? JSON.parse(data) : {};
+          if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+            resolve(parsed);
+          } else {
+            const error: any = new Error(parsed.message || "Request failed");
+            error.code = res.statusCode;
+            error.response = parsed;
+            reject(error);
+          }
+        } catch {
+          if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+            resolve(data);
+          } else {
+            reject(new Error(`Request failed with status ${res.statusCode}`));
+          }
+        }
+      });
+    });
+
+    req.on("error", (error) => {
+      reject(error);
+    });
+
+    if (postData) {
+      req.write(postData);
+    }
+
+    req.end();
+  });
+}
+
+/**
+ * Exits with a message if the Appwrite endpoint, project or API key is missing
+ */
+export function requireEnvironment(): void {
+  if (!endpoint || !projectId || !apiKey) {
+    console.error("Missing required environment variables:");
+    console.error("  EXPO_PUBLIC_APPWRITE_ENDPOINT:", endpoint ? "✓" : "✗");
+    console.error("  EXPO_PUBLIC_APPWRITE_PROJECT_ID:", projectId ? "✓" : "✗");
+    console.error("  APPWRITE_API_KEY:", apiKey ? "✓" : "✗");
+    process.exit(1);
+  }
+}
+
+/**
+ * Lists one page of documents matching the queries
+ */
+export async function listDocuments(collectionId: string, queries: string[]): Promise<any[]> {
+  const search = queries.map((query) => `queries[]=${encodeURIComponent(query)}`).join("&");
+  const response = await appwriteRequest(
+    "GET",
+    `/databases/${databaseId}/collections/${collectionId}/documents?${search}`
+  );
+  return response.documents;
+}
+
+/**
+ * Lists every document matching the queries, page by page
+ */
+export async function listAllDocuments(collectionId: string, queries: string[], max: number = Infinity): Promise<any[]> {
+  const documents: any[] = [];
+  let cursor: string | null = null;
+
+  while (documents.length < max) {
+    const pageQueries = [...queries, Query.limit(PAGE_SIZE), ...(cursor ? [Query.cursorAfter(cursor)] : [])];
+    const page = await listDocuments(collectionId, pageQueries);
+    documents.push(...page);
+    if (page.length < PAGE_SIZE) break;
+    cursor = page[page.length - 1].$id;
+  }
+
+  return documents.slice(0, max);
+}
+
+// CSV helpers (RFC 4180: fields with commas, quotes or newlines are quoted)
+
+export function toCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Splits CSV text into rows of cells, dropping blank rows
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+/**
+ * Writes to a file, or to stdout if no file is given
+ */
+export function writeOutput(content: string, file: string | undefined): void {
+  if (file) {
+    fs.writeFileSync(file, content, "utf8");
+    console.log(`✓ Wrote ${file}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
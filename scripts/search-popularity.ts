@@ -0,0 +1,153 @@
+import { ID, Query } from "appwrite";
+import {
+  aggregatePopularity,
+  SearchInteractionEvent,
+  SearchInteractionType,
+  toPopularityQueryKey,
+} from "../lib/search/popularity";
+import {
+  appwriteRequest,
+  databaseId,
+  listAllDocuments,
+  listDocuments,
+  requireEnvironment,
+} from "./script-helpers";
+
+/**
+ * Search popularity aggregation
+ *
+ * Usage:
+ *   npm run search-popularity -- [days]
+ *
+ * Run daily (e.g. from cron). Reads the click, add-to-cart and purchase events
+ * logged against searches over the last [days] (default 90), aggregates them
+ * into popularity scores (lib/search/popularity.ts) and replaces the
+ * search_popularity table the app ranks with. Each user (or anonymous
+ * session) counts once per query, product and signal, so repeating an event
+ * can't inflate a score. Only the best-scoring products are kept - overall,
+ * and for the most active queries - so the table stays small.
+ * Uses the server API key: search_popularity is read-only for users.
+ */
+
+const SEARCH_ANALYTICS_COLLECTION_ID = "search_analytics";
+const SEARCH_POPULARITY_COLLECTION_ID = "search_popularity";
+const INTERACTION_EVENT_TYPES: SearchInteractionType[] = ["click", "add_to_cart", "purchase"];
+const DEFAULT_DAYS = 90;
+/** Products kept for overall popularity */
+const MAX_OVERALL_SCORES = 1000;
+/** Queries kept, by number of events */
+const MAX_SCORED_QUERIES = 200;
+/** Products kept per query */
+const MAX_QUERY_SCORES = 20;
+
+function topScores(scores: Record<string, number>, limit: number): [string, number][] {
+  return Object.entries(scores)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit);
+}
+
+async function loadInteractionEvents(days: number): Promise<SearchInteractionEvent[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const documents = await listAllDocuments(SEARCH_ANALYTICS_COLLECTION_ID, [
+    Query.equal("eventType", INTERACTION_EVENT_TYPES),
+    Query.greaterThan("timestamp", since),
+    Query.select(["$id", "query", "productId", "eventType", "timestamp", "userId", "sessionId"]),
+  ]);
+
+  return documents
+    .filter((doc) => doc.productId && doc.query)
+    .map((doc) => ({
+      query: doc.query,
+      productId: doc.productId,
+      eventType: doc.eventType as SearchInteractionType,
+      timestamp: doc.timestamp,
+      actorId: doc.userId || doc.sessionId || undefined,
+    }));
+}
+
+/**
+ * Deletes the scores matching a generatedAt query
+ * Always reads the first page, since each page read is deleted before the next
+ */
+async function deleteScores(generatedAtQuery: string): Promise<number> {
+  let deleted = 0;
+  for (;;) {
+    const page = await listDocuments(SEARCH_POPULARITY_COLLECTION_ID, [
+      generatedAtQuery,
+      Query.select(["$id"]),
+      Query.limit(100),
+    ]);
+    if (page.length === 0) return deleted;
+    for (const doc of page) {
+      await appwriteRequest(
+        "DELETE",
+        `/databases/${databaseId}/collections/${SEARCH_POPULARITY_COLLECTION_ID}/documents/${doc.$id}`
+      );
+      deleted++;
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const days = Number(process.argv[2] || DEFAULT_DAYS);
+  if (!Number.isFinite(days) || days <= 0) {
+    console.log("Usage: npm run search-popularity -- [days]");
+    process.exit(1);
+  }
+
+  requireEnvironment();
+  const events = await loadInteractionEvents(days);
+  console.log(`✓ Loaded ${events.length} search interactions from the last ${days} days`);
+
+  const index = aggregatePopularity(events);
+  const eventCounts = new Map<string, number>();
+  for (const event of events) {
+    const queryKey = toPopularityQueryKey(event.query);
+    if (queryKey) eventCounts.set(queryKey, (eventCounts.get(queryKey) || 0) + 1);
+  }
+  const queryKeys = Array.from(eventCounts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_SCORED_QUERIES)
+    .map(([queryKey]) => queryKey);
+
+  const rows: { productId: string; query: string | null; score: number }[] = [
+    ...topScores(index.overall, MAX_OVERALL_SCORES).map(([productId, score]) => ({ productId, query: null, score })),
+    ...queryKeys.flatMap((queryKey) =>
+      topScores(index.byQuery[queryKey] || {}, MAX_QUERY_SCORES).map(([productId, score]) => ({
+        productId,
+        query: queryKey,
+        score,
+      }))
+    ),
+  ];
+
+  // Written as a new run before the old one is removed, so the app never reads an empty table
+  const generatedAt = new Date().toISOString();
+  let failed = 0;
+  for (const row of rows) {
+    try {
+      await appwriteRequest(
+        "POST",
+        `/databases/${databaseId}/collections/${SEARCH_POPULARITY_COLLECTION_ID}/documents`,
+        { documentId: ID.unique(), data: { ...row, generatedAt } }
+      );
+    } catch (error: any) {
+      failed++;
+      console.error(`  ✗ Failed to save score for '${row.productId}': ${error.message}`);
+    }
+  }
+  if (failed > 0) {
+    // The app reads the latest run, so a partial one would replace the previous scores
+    await deleteScores(Query.equal("generatedAt", generatedAt));
+    throw new Error(`${failed} of ${rows.length} scores failed to save - kept the previous scores`);
+  }
+  console.log(`✓ Saved ${rows.length} scores (${queryKeys.length} queries)`);
+
+  const deleted = await deleteScores(Query.notEqual("generatedAt", generatedAt));
+  console.log(`✓ Removed ${deleted} scores from earlier runs`);
+}
+
+main().catch((error: any) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
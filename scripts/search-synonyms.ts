@@ -0,0 +1,257 @@
+import { ID, Query } from "appwrite";
+import * as fs from "fs";
+import {
+  JAMAICAN_SYNONYMS,
+  JAMAICAN_CORRECTIONS,
+  SearchSynonymEntry,
+  SearchSynonymType,
+} from "../lib/search/jamaican-terms";
+import {
+  appwriteRequest,
+  databaseId,
+  listAllDocuments,
+  parseCsvRows,
+  requireEnvironment,
+  toCsvField,
+  writeOutput,
+} from "./script-helpers";
+
+/**
+ * Search synonym dictionary tools
+ *
+ * Usage:
+ *   npm run search-synonyms -- export [file.csv]        Export the search_synonyms collection
+ *   npm run search-synonyms -- export-defaults [file]  Export the built-in terms (to seed the collection)
+ *   npm run search-synonyms -- import file.csv         Create or update entries from a CSV
+ *   npm run search-synonyms -- report [days] [limit] [file.csv]
+ *                                                      Top zero-result queries not covered yet,
+ *                                                      optionally as disabled CSV rows to fill in
+ *
+ * CSV columns: term,synonyms,type,enabled
+ * - synonyms are separated by "|"
+ * - type is two_way, one_way or correction (for corrections, synonyms are the misspellings)
+ * Entries are matched on term + type, so re-importing an edited export updates in place.
+ */
+
+const SEARCH_SYNONYMS_COLLECTION_ID = "search_synonyms";
+const SEARCH_ANALYTICS_COLLECTION_ID = "search_analytics";
+const CSV_HEADER = ["term", "synonyms", "type", "enabled"];
+const SYNONYM_TYPES: SearchSynonymType[] = ["two_way", "one_way", "correction"];
+
+function entryKey(term: string, type: SearchSynonymType): string {
+  return `${type}:${term.toLowerCase().trim()}`;
+}
+
+function toCsv(entries: SearchSynonymEntry[]): string {
+  const rows = entries.map((entry) =>
+    [entry.term, entry.synonyms.join("|"), entry.type, String(entry.enabled)].map(toCsvField).join(",")
+  );
+  return [CSV_HEADER.join(","), ...rows].join("\n") + "\n";
+}
+
+/**
+ * Parses a synonyms CSV, reporting every invalid row before giving up
+ */
+function parseSynonymsCsv(text: string): SearchSynonymEntry[] {
+  const [header, ...rows] = parseCsvRows(text);
+  const columns = (header || []).map((cell) => cell.trim().toLowerCase());
+  const missing = CSV_HEADER.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing column(s): ${missing.join(", ")}`);
+  }
+
+  const entries: SearchSynonymEntry[] = [];
+  const errors: string[] = [];
+  rows.forEach((cells, index) => {
+    const value = (column: string) => (cells[columns.indexOf(column)] || "").trim();
+    const line = index + 2;
+    const term = value("term").toLowerCase();
+    const type = value("type") as SearchSynonymType;
+    const synonyms = value("synonyms")
+      .split("|")
+      .map((synonym) => synonym.trim().toLowerCase())
+      .filter((synonym) => synonym.length > 0);
+    const enabled = value("enabled").toLowerCase();
+
+    if (!term) errors.push(`Line ${line}: term is empty`);
+    if (term.length > 100) errors.push(`Line ${line}: term is longer than 100 characters`);
+    if (!SYNONYM_TYPES.includes(type)) errors.push(`Line ${line}: type must be one of ${SYNONYM_TYPES.join(", ")}`);
+    if (synonyms.length === 0) errors.push(`Line ${line}: no synonyms`);
+    if (synonyms.some((synonym) => synonym.length > 100)) {
+      errors.push(`Line ${line}: a synonym is longer than 100 characters`);
+    }
+    if (enabled && enabled !== "true" && enabled !== "false") {
+      errors.push(`Line ${line}: enabled must be true or false`);
+    }
+
+    entries.push({ term, synonyms, type, enabled: enabled !== "false" });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid CSV:\n  ${errors.join("\n  ")}`);
+  }
+  return entries;
+}
+
+async function loadCollectionEntries(): Promise<(SearchSynonymEntry & { $id: string })[]> {
+  const documents = await listAllDocuments(SEARCH_SYNONYMS_COLLECTION_ID, [Query.orderAsc("term")]);
+  return documents.map((doc) => ({
+    $id: doc.$id,
+    term: doc.term,
+    synonyms: doc.synonyms || [],
+    type: doc.type,
+    enabled: doc.enabled !== false,
+  }));
+}
+
+function getDefaultEntries(): SearchSynonymEntry[] {
+  const entries: SearchSynonymEntry[] = Object.entries(JAMAICAN_SYNONYMS).map(([term, synonyms]) => ({
+    term,
+    synonyms,
+    type: "two_way",
+    enabled: true,
+  }));
+
+  // Corrections are stored per correct spelling, with its misspellings as synonyms
+  const misspellingsByTerm = new Map<string, string[]>();
+  for (const [misspelling, correction] of Object.entries(JAMAICAN_CORRECTIONS)) {
+    misspellingsByTerm.set(correction, [...(misspellingsByTerm.get(correction) || []), misspelling]);
+  }
+  for (const [term, synonyms] of misspellingsByTerm) {
+    entries.push({ term, synonyms, type: "correction", enabled: true });
+  }
+
+  return entries;
+}
+
+async function exportSynonyms(file: string | undefined): Promise<void> {
+  const entries = await loadCollectionEntries();
+  writeOutput(toCsv(entries), file);
+  if (file) console.log(`  ${entries.length} entries`);
+}
+
+async function importSynonyms(file: string | undefined): Promise<void> {
+  if (!file) {
+    throw new Error("Usage: import <file.csv>");
+  }
+  const entries = parseSynonymsCsv(fs.readFileSync(file, "utf8"));
+  const existing = new Map(
+    (await loadCollectionEntries()).map((entry) => [entryKey(entry.term, entry.type), entry])
+  );
+
+  let created = 0;
+  let updated = 0;
+  let failed = 0;
+  for (const entry of entries) {
+    const data = { ...entry, updatedAt: new Date().toISOString() };
+    const current = existing.get(entryKey(entry.term, entry.type));
+    try {
+      if (current) {
+        await appwriteRequest(
+          "PATCH",
+          `/databases/${databaseId}/collections/${SEARCH_SYNONYMS_COLLECTION_ID}/documents/${current.$id}`,
+          { data }
+        );
+        updated++;
+      } else {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${SEARCH_SYNONYMS_COLLECTION_ID}/documents`,
+          { documentId: ID.unique(), data }
+        );
+        created++;
+      }
+    } catch (error: any) {
+      failed++;
+      console.error(`  ✗ Failed to save '${entry.term}' (${entry.type}): ${error.message}`);
+    }
+  }
+
+  console.log(`✓ Imported ${file}: ${created} created, ${updated} updated, ${failed} failed`);
+  console.log("  Apps pick up the changes when their cached dictionary expires (up to 6 hours).");
+}
+
+/**
+ * Top zero-result queries from search_analytics that no entry covers yet
+ */
+async function reportZeroResultQueries(days: number, limit: number, file: string | undefined): Promise<void> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const documents = await listAllDocuments(
+    SEARCH_ANALYTICS_COLLECTION_ID,
+    [
+      Query.equal("isNoResult", true),
+      Query.greaterThan("timestamp", since),
+      Query.orderDesc("timestamp"),
+      Query.select(["query", "eventType"]),
+    ],
+    10000
+  );
+
+  const covered = new Set<string>();
+  for (const entry of [...getDefaultEntries(), ...(await loadCollectionEntries())]) {
+    covered.add(entry.term.toLowerCase());
+    entry.synonyms.forEach((synonym) => covered.add(synonym.toLowerCase()));
+  }
+
+  const counts = new Map<string, number>();
+  for (const doc of documents) {
+    if (doc.eventType && doc.eventType !== "search") continue;
+    const query = String(doc.query || "").toLowerCase().trim();
+    // Skip queries where sanitization replaced PII, and ones already in the dictionary
+    if (!query || query.includes("[") || covered.has(query)) continue;
+    counts.set(query, (counts.get(query) || 0) + 1);
+  }
+
+  const top = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit);
+
+  console.log(`\nTop zero-result queries (last ${days} days, ${documents.length} no-result searches):\n`);
+  if (top.length === 0) {
+    console.log("  None - every zero-result query is already in the dictionary.");
+  }
+  top.forEach(([query, count], index) => {
+    console.log(`  ${String(index + 1).padStart(3)}. ${query} (${count})`);
+  });
+
+  // Disabled rows with the query as a synonym - fill in the term and type, enable, then import
+  if (file) {
+    const seeds: SearchSynonymEntry[] = top.map(([query]) => ({
+      term: "",
+      synonyms: [query],
+      type: "two_way",
+      enabled: false,
+    }));
+    writeOutput(toCsv(seeds), file);
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === "export-defaults") {
+    writeOutput(toCsv(getDefaultEntries()), args[0]);
+    return;
+  }
+
+  requireEnvironment();
+  switch (command) {
+    case "export":
+      await exportSynonyms(args[0]);
+      break;
+    case "import":
+      await importSynonyms(args[0]);
+      break;
+    case "report":
+      await reportZeroResultQueries(Number(args[0]) || 30, Number(args[1]) || 50, args[2]);
+      break;
+    default:
+      console.error("Usage: search-synonyms <export|export-defaults|import|report> [args]");
+      process.exit(1);
+  }
+}
+
+main().catch((error: any) => {
+  console.error(`\n❌ ${error.message}`);
+  process.exit(1);
+});
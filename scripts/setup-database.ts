@@ -219,6 +219,27 @@ async function setupDatabase() {
       }
     }
 
+    // Lookup by email for sharing (e.g. shopping lists)
+    try {
+      await appwriteRequest(
+        "POST",
+        `/databases/${databaseId}/collections/${profilesCollectionId}/indexes`,
+        {
+          key: "idx_email",
+          type: "key",
+          attributes: ["email"],
+          orders: ["ASC"],
+        }
+      );
+      console.log(`  ✓ Created index 'idx_email' on profiles`);
+    } catch (error: any) {
+      if (error.code === 409) {
+        console.log(`  - Index 'idx_email' already exists`);
+      } else {
+        console.error(`  ✗ Failed to create index: ${error.message}`);
+      }
+    }
+
     // Step 5: Set profiles permissions
     try {
       await appwriteRequest(
@@ -325,6 +346,35 @@ async function setupDatabase() {
       }
     }
 
+    // Create coordinate attributes (community or parish centre, see lib/jamaica-parishes.ts)
+    const addressesFloatAttributes = [
+      { key: "latitude", min: -90, max: 90 },
+      { key: "longitude", min: -180, max: 180 },
+    ];
+
+    for (const attr of addressesFloatAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${addressesCollectionId}/attributes/float`,
+          {
+            key: attr.key,
+            required: false,
+            min: attr.min,
+            max: attr.max,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (float)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
     // Note: createdAt is automatically handled by Appwrite, no need to create it
 
     // Step 8: Create addresses indexes
@@ -1305,6 +1355,35 @@ async function setupDatabase() {
           console.warn(`  ⚠️  Could not create attribute 'country_of_origin': ${error.message}`);
         }
       }
+
+      // Structured dietary attributes (see lib/search/dietary.ts), set by scripts/dietary-tags.ts
+      const productDietaryArrayAttributes = [
+        { key: "dietary_tags", size: 30 }, // e.g. vegan, gluten_free, halal, ital
+        { key: "allergens", size: 30 }, // e.g. dairy, peanut, shellfish
+      ];
+
+      for (const attr of productDietaryArrayAttributes) {
+        try {
+          await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections/${productsCollectionId}/attributes/string`,
+            {
+              key: attr.key,
+              size: attr.size,
+              required: false,
+              array: true,
+            }
+          );
+          console.log(`  ✓ Created attribute '${attr.key}' (string array) on ${productsCollectionId}`);
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+        } catch (error: any) {
+          if (error.code === 409) {
+            console.log(`  - Attribute '${attr.key}' already exists on ${productsCollectionId}`);
+          } else {
+            console.warn(`  ⚠️  Could not create attribute '${attr.key}': ${error.message}`);
+          }
+        }
+      }
     } catch (error: any) {
       if (error.code === 404) {
         console.log(`  - Collection '${productsCollectionId}' does not exist (skipping indexes and attributes)`);
@@ -1371,8 +1450,8 @@ async function setupDatabase() {
               name: "Search Analytics",
               permissions: [
                 Permission.read(Role.users()),
-                Permission.write(Role.users()),
-              ], // Collection-level allows querying; document-level restricts access
+                Permission.create(Role.users()),
+              ], // Users log events but can't edit or delete them; popularity is aggregated from them
             }
           );
           console.log(`✓ Created collection '${searchAnalyticsCollectionId}'`);
@@ -1390,10 +1469,15 @@ async function setupDatabase() {
       { key: "userId", size: 36, required: false }, // Optional - null for anonymous searches
       { key: "query", size: 200, required: true }, // Sanitized query
       { key: "timestamp", size: 50, required: true }, // ISO 8601 format
+      { key: "eventType", size: 20, required: false }, // "search" (or missing), "impression", "click", "add_to_cart", "refinement", "purchase"
+      { key: "productId", size: 36, required: false }, // Product interacted with - click, add_to_cart, purchase
+      { key: "sessionId", size: 36, required: false }, // Search session the event belongs to
+      { key: "detail", size: 2000, required: false }, // impression: product IDs shown, refinement: JSON of the filter/sort change
     ];
 
     const searchAnalyticsIntegerAttributes = [
       { key: "resultCount", required: true },
+      { key: "position", required: false }, // Rank position (0-based) - click: result clicked, impression: first result shown
     ];
 
     const searchAnalyticsBooleanAttributes = [
@@ -1527,6 +1611,48 @@ async function setupDatabase() {
       }
     }
 
+    // Popularity scoring reads recent interaction events (see scripts/search-popularity.ts)
+    try {
+      await appwriteRequest(
+        "POST",
+        `/databases/${databaseId}/collections/${searchAnalyticsCollectionId}/indexes`,
+        {
+          key: "idx_eventType_timestamp",
+          type: "key",
+          attributes: ["eventType", "timestamp"],
+          orders: ["ASC", "DESC"],
+        }
+      );
+      console.log(`  ✓ Created index 'idx_eventType_timestamp' on search_analytics`);
+    } catch (error: any) {
+      if (error.code === 409) {
+        console.log(`  - Index 'idx_eventType_timestamp' already exists`);
+      } else {
+        console.error(`  ✗ Failed to create index: ${error.message}`);
+      }
+    }
+
+    // Reading back everything that happened in one search session
+    try {
+      await appwriteRequest(
+        "POST",
+        `/databases/${databaseId}/collections/${searchAnalyticsCollectionId}/indexes`,
+        {
+          key: "idx_sessionId",
+          type: "key",
+          attributes: ["sessionId"],
+          orders: ["ASC"],
+        }
+      );
+      console.log(`  ✓ Created index 'idx_sessionId' on search_analytics`);
+    } catch (error: any) {
+      if (error.code === 409) {
+        console.log(`  - Index 'idx_sessionId' already exists`);
+      } else {
+        console.error(`  ✗ Failed to create index: ${error.message}`);
+      }
+    }
+
     // Step 36: Set search_analytics permissions
     try {
       await appwriteRequest(
@@ -1536,8 +1662,8 @@ async function setupDatabase() {
           name: "Search Analytics",
           permissions: [
             Permission.read(Role.users()),
-            Permission.write(Role.users()),
-          ], // Collection-level allows querying; document-level restricts access
+            Permission.create(Role.users()),
+          ], // Users log events but can't edit or delete them; popularity is aggregated from them
         }
       );
       console.log(`  ✓ Updated permissions for '${searchAnalyticsCollectionId}'`);
@@ -1675,6 +1801,27 @@ async function setupDatabase() {
       }
     }
 
+    // Promo code entered by the user (optional)
+    try {
+      await appwriteRequest(
+        "POST",
+        `/databases/${databaseId}/collections/${cartsCollectionId}/attributes/string`,
+        {
+          key: "promoCode",
+          size: 50,
+          required: false,
+        }
+      );
+      console.log(`  ✓ Created attribute 'promoCode' (string)`);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    } catch (error: any) {
+      if (error.code === 409) {
+        console.log(`  - Attribute 'promoCode' already exists`);
+      } else {
+        console.error(`  ✗ Failed to create attribute 'promoCode': ${error.message}`);
+      }
+    }
+
     // Step 39: Create carts indexes
     try {
       await appwriteRequest(
@@ -1714,9 +1861,1498 @@ async function setupDatabase() {
       console.error(`  ✗ Failed to update permissions: ${error.message}`);
     }
 
+    // Step 41: Create orders collection
+    const ordersCollectionId = "orders";
+    let ordersCollection;
+    try {
+      ordersCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${ordersCollectionId}`
+      );
+      console.log(`✓ Collection '${ordersCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          ordersCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: ordersCollectionId,
+              name: "Orders",
+              permissions: [
+                Permission.read(Role.users()),
+              ], // Read-only for users; written by the orders function (functions/orders) and scripts/order-status.ts
+            }
+          );
+          console.log(`✓ Created collection '${ordersCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 42: Create orders attributes
+    const ordersStringAttributes = [
+      { key: "userId", size: 36, required: true },
+      { key: "checkoutId", size: 36, required: true }, // Links sub-orders from one checkout
+      { key: "storeId", size: 36, required: true }, // store_location_id
+      { key: "storeName", size: 255, required: true },
+      { key: "storeLogoUrl", size: 2000, required: false },
+      { key: "status", size: 50, required: true },
+      { key: "items", size: 20000, required: true }, // JSON array of item snapshots
+      { key: "addressId", size: 36, required: true },
+      { key: "address", size: 2000, required: true }, // JSON address snapshot
+      { key: "paymentMethodId", size: 36, required: false }, // Null for cash on delivery
+      { key: "paymentMethodLabel", size: 255, required: true },
+      { key: "placedAt", size: 50, required: true }, // ISO 8601 format
+      { key: "statusHistory", size: 5000, required: false }, // JSON array of status transitions
+      { key: "statusUpdatedAt", size: 50, required: false }, // ISO 8601 format
+      { key: "deliverySlotId", size: 36, required: false }, // Null = deliver ASAP
+      { key: "deliveryWindowStart", size: 50, required: false }, // ISO 8601 format
+      { key: "deliveryWindowEnd", size: 50, required: false }, // ISO 8601 format
+      { key: "promoCode", size: 50, required: false }, // Promo code applied at checkout
+    ];
+
+    const ordersIntegerAttributes = [
+      { key: "itemCount", required: true },
+      { key: "subtotalJmdCents", required: true },
+      { key: "totalJmdCents", required: true },
+      { key: "deliveryFeeJmdCents", required: false },
+      { key: "serviceFeeJmdCents", required: false },
+      { key: "smallOrderSurchargeJmdCents", required: false },
+      { key: "gctJmdCents", required: false },
+      { key: "discountJmdCents", required: false }, // Promo discount on items
+    ];
+
+    for (const attr of ordersStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${ordersCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of ordersIntegerAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${ordersCollectionId}/attributes/integer`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (integer)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Step 43: Create orders indexes
+    const ordersIndexes = [
+      { key: "idx_userId", attributes: ["userId"], orders: ["ASC"] },
+      { key: "idx_checkoutId", attributes: ["checkoutId"], orders: ["ASC"] },
+      { key: "idx_placedAt", attributes: ["placedAt"], orders: ["DESC"] },
+    ];
+
+    for (const index of ordersIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${ordersCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: "key",
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on orders`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 44: Set orders permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${ordersCollectionId}`,
+        {
+          name: "Orders",
+          permissions: [
+            Permission.read(Role.users()),
+          ], // Read-only for users; written by the orders function (functions/orders) and scripts/order-status.ts
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${ordersCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
+    // Step 45: Create store_fee_rules collection
+    const storeFeeRulesCollectionId = "store_fee_rules";
+    let storeFeeRulesCollection;
+    try {
+      storeFeeRulesCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${storeFeeRulesCollectionId}`
+      );
+      console.log(`✓ Collection '${storeFeeRulesCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          storeFeeRulesCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: storeFeeRulesCollectionId,
+              name: "Store Fee Rules",
+              permissions: [
+                Permission.read(Role.users()),
+              ], // Read-only for app users; rules are managed from the console
+            }
+          );
+          console.log(`✓ Created collection '${storeFeeRulesCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 46: Create store_fee_rules attributes
+    // A rule applies to a store location, a parish, both, or neither (global default)
+    const storeFeeRulesStringAttributes = [
+      { key: "storeLocationId", size: 36, required: false }, // Null = any store
+      { key: "parish", size: 50, required: false }, // Null = any parish
+    ];
+
+    const storeFeeRulesIntegerAttributes = [
+      { key: "deliveryFeeJmdCents", required: true },
+      { key: "freeDeliveryThresholdJmdCents", required: false }, // Null = never free
+      { key: "serviceFeeBasisPoints", required: true }, // 500 = 5% of subtotal
+      { key: "serviceFeeMinJmdCents", required: false },
+      { key: "serviceFeeMaxJmdCents", required: false },
+      { key: "minimumOrderJmdCents", required: true },
+      { key: "smallOrderThresholdJmdCents", required: false },
+      { key: "smallOrderSurchargeJmdCents", required: false },
+      { key: "gctBasisPoints", required: true }, // 1500 = 15% GCT on fees
+    ];
+
+    const storeFeeRulesBooleanAttributes = [
+      { key: "isActive", required: true },
+    ];
+
+    for (const attr of storeFeeRulesStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${storeFeeRulesCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of storeFeeRulesIntegerAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${storeFeeRulesCollectionId}/attributes/integer`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (integer)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of storeFeeRulesBooleanAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${storeFeeRulesCollectionId}/attributes/boolean`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (boolean)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Step 47: Create store_fee_rules indexes
+    const storeFeeRulesIndexes = [
+      { key: "idx_storeLocationId", attributes: ["storeLocationId"], orders: ["ASC"] },
+      { key: "idx_parish", attributes: ["parish"], orders: ["ASC"] },
+      { key: "idx_isActive", attributes: ["isActive"], orders: ["ASC"] },
+    ];
+
+    for (const index of storeFeeRulesIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${storeFeeRulesCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: "key",
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on store_fee_rules`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 48: Set store_fee_rules permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${storeFeeRulesCollectionId}`,
+        {
+          name: "Store Fee Rules",
+          permissions: [
+            Permission.read(Role.users()),
+          ], // Read-only for app users; rules are managed from the console
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${storeFeeRulesCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
+    // Step 49: Create delivery_slots collection
+    const deliverySlotsCollectionId = "delivery_slots";
+    let deliverySlotsCollection;
+    try {
+      deliverySlotsCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${deliverySlotsCollectionId}`
+      );
+      console.log(`✓ Collection '${deliverySlotsCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          deliverySlotsCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: deliverySlotsCollectionId,
+              name: "Delivery Slots",
+              permissions: [
+                Permission.read(Role.users()),
+              ], // Read-only for users; slots are created from the console and booked by the orders function
+            }
+          );
+          console.log(`✓ Created collection '${deliverySlotsCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 50: Create delivery_slots attributes
+    const deliverySlotsStringAttributes = [
+      { key: "storeLocationId", size: 36, required: true },
+      { key: "startsAt", size: 50, required: true }, // ISO 8601 format
+      { key: "endsAt", size: 50, required: true }, // ISO 8601 format
+      { key: "cutoffAt", size: 50, required: true }, // ISO 8601 format - last time the slot can be booked
+    ];
+
+    const deliverySlotsIntegerAttributes = [
+      { key: "capacity", required: true },
+      { key: "reservedCount", required: true },
+    ];
+
+    const deliverySlotsBooleanAttributes = [
+      { key: "isActive", required: true },
+    ];
+
+    for (const attr of deliverySlotsStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${deliverySlotsCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of deliverySlotsIntegerAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${deliverySlotsCollectionId}/attributes/integer`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (integer)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of deliverySlotsBooleanAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${deliverySlotsCollectionId}/attributes/boolean`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (boolean)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Step 51: Create delivery_slots indexes
+    const deliverySlotsIndexes = [
+      { key: "idx_storeLocationId", attributes: ["storeLocationId"], orders: ["ASC"] },
+      { key: "idx_startsAt", attributes: ["startsAt"], orders: ["ASC"] },
+      { key: "idx_endsAt", attributes: ["endsAt"], orders: ["ASC"] },
+    ];
+
+    for (const index of deliverySlotsIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${deliverySlotsCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: "key",
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on delivery_slots`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 52: Set delivery_slots permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${deliverySlotsCollectionId}`,
+        {
+          name: "Delivery Slots",
+          permissions: [
+            Permission.read(Role.users()),
+          ], // Read-only for users; slots are created from the console and booked by the orders function
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${deliverySlotsCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
+    // Step 53: Create promo_codes collection
+    const promoCodesCollectionId = "promo_codes";
+    let promoCodesCollection;
+    try {
+      promoCodesCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${promoCodesCollectionId}`
+      );
+      console.log(`✓ Collection '${promoCodesCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          promoCodesCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: promoCodesCollectionId,
+              name: "Promo Codes",
+              permissions: [
+                Permission.read(Role.users()),
+              ], // Read-only for users; promos are managed from the console
+            }
+          );
+          console.log(`✓ Created collection '${promoCodesCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 54: Create promo_codes attributes
+    const promoCodesStringAttributes = [
+      { key: "code", size: 50, required: true }, // Stored upper-case
+      { key: "description", size: 500, required: false },
+      { key: "type", size: 50, required: true }, // percentage, fixed_amount, free_delivery, buy_x_get_y
+      { key: "storeBrandIds", size: 5000, required: false }, // JSON array - empty means any store brand
+      { key: "categoryIds", size: 5000, required: false }, // JSON array - empty means any category
+      { key: "productIds", size: 5000, required: false }, // JSON array - empty means any product
+      { key: "startsAt", size: 50, required: false }, // ISO 8601 format
+      { key: "expiresAt", size: 50, required: false }, // ISO 8601 format
+    ];
+
+    const promoCodesIntegerAttributes = [
+      { key: "percentOff", required: false },
+      { key: "amountOffJmdCents", required: false },
+      { key: "buyQuantity", required: false },
+      { key: "getQuantity", required: false },
+      { key: "maxDiscountJmdCents", required: false }, // Null = no cap
+      { key: "minSpendJmdCents", required: false },
+      { key: "usageLimitPerUser", required: false }, // Null = unlimited
+    ];
+
+    const promoCodesBooleanAttributes = [
+      { key: "isActive", required: true },
+    ];
+
+    for (const attr of promoCodesStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${promoCodesCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of promoCodesIntegerAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${promoCodesCollectionId}/attributes/integer`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (integer)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of promoCodesBooleanAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${promoCodesCollectionId}/attributes/boolean`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (boolean)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Step 55: Create promo_codes indexes
+    const promoCodesIndexes = [
+      { key: "idx_code", type: "unique", attributes: ["code"], orders: ["ASC"] },
+    ];
+
+    for (const index of promoCodesIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${promoCodesCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: index.type,
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on promo_codes`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 56: Set promo_codes permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${promoCodesCollectionId}`,
+        {
+          name: "Promo Codes",
+          permissions: [
+            Permission.read(Role.users()),
+          ], // Read-only for users; promos are managed from the console
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${promoCodesCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
+    // Step 57: Create promo_redemptions collection
+    const promoRedemptionsCollectionId = "promo_redemptions";
+    let promoRedemptionsCollection;
+    try {
+      promoRedemptionsCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${promoRedemptionsCollectionId}`
+      );
+      console.log(`✓ Collection '${promoRedemptionsCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          promoRedemptionsCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: promoRedemptionsCollectionId,
+              name: "Promo Redemptions",
+              permissions: [
+                Permission.read(Role.users()),
+              ], // Read-only for users; written by the orders function (functions/orders) at checkout
+            }
+          );
+          console.log(`✓ Created collection '${promoRedemptionsCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 58: Create promo_redemptions attributes
+    const promoRedemptionsStringAttributes = [
+      { key: "userId", size: 36, required: true },
+      { key: "promoId", size: 36, required: true },
+      { key: "code", size: 50, required: true },
+      { key: "checkoutId", size: 36, required: true },
+      { key: "redeemedAt", size: 50, required: true }, // ISO 8601 format
+    ];
+
+    const promoRedemptionsIntegerAttributes = [
+      { key: "discountJmdCents", required: true },
+    ];
+
+    for (const attr of promoRedemptionsStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${promoRedemptionsCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of promoRedemptionsIntegerAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${promoRedemptionsCollectionId}/attributes/integer`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (integer)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Step 59: Create promo_redemptions indexes
+    const promoRedemptionsIndexes = [
+      { key: "idx_userId_promoId", attributes: ["userId", "promoId"], orders: ["ASC", "ASC"] },
+    ];
+
+    for (const index of promoRedemptionsIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${promoRedemptionsCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: "key",
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on promo_redemptions`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 60: Set promo_redemptions permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${promoRedemptionsCollectionId}`,
+        {
+          name: "Promo Redemptions",
+          permissions: [
+            Permission.read(Role.users()),
+          ], // Read-only for users; written by the orders function (functions/orders) at checkout
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${promoRedemptionsCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
+    // Step 61: Create price_history collection
+    const priceHistoryCollectionId = "price_history";
+    let priceHistoryCollection;
+    try {
+      priceHistoryCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${priceHistoryCollectionId}`
+      );
+      console.log(`✓ Collection '${priceHistoryCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          priceHistoryCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: priceHistoryCollectionId,
+              name: "Price History",
+              permissions: [
+                Permission.read(Role.users()),
+              ], // Read-only for users; written by the catalog sync
+            }
+          );
+          console.log(`✓ Created collection '${priceHistoryCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 62: Create price_history attributes
+    const priceHistoryStringAttributes = [
+      { key: "storeLocationProductId", size: 36, required: true },
+      { key: "productId", size: 36, required: true },
+      { key: "storeLocationId", size: 36, required: true },
+      { key: "observedAt", size: 50, required: true }, // ISO 8601 format
+    ];
+
+    const priceHistoryIntegerAttributes = [
+      { key: "priceJmdCents", required: true },
+      { key: "previousPriceJmdCents", required: false }, // Null for the first observation
+    ];
+
+    for (const attr of priceHistoryStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${priceHistoryCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of priceHistoryIntegerAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${priceHistoryCollectionId}/attributes/integer`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (integer)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Step 63: Create price_history indexes
+    const priceHistoryIndexes = [
+      { key: "idx_listing_observedAt", attributes: ["storeLocationProductId", "observedAt"], orders: ["ASC", "DESC"] },
+      { key: "idx_product_observedAt", attributes: ["productId", "observedAt"], orders: ["ASC", "ASC"] },
+    ];
+
+    for (const index of priceHistoryIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${priceHistoryCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: "key",
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on price_history`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 64: Set price_history permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${priceHistoryCollectionId}`,
+        {
+          name: "Price History",
+          permissions: [
+            Permission.read(Role.users()),
+          ], // Read-only for users; written by the catalog sync
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${priceHistoryCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
+    // Step 65: Create price_watches collection
+    const priceWatchesCollectionId = "price_watches";
+    let priceWatchesCollection;
+    try {
+      priceWatchesCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${priceWatchesCollectionId}`
+      );
+      console.log(`✓ Collection '${priceWatchesCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          priceWatchesCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: priceWatchesCollectionId,
+              name: "Price Watches",
+              permissions: [
+                Permission.read(Role.users()),
+                Permission.write(Role.users()),
+              ], // Collection-level allows querying; document-level restricts access
+            }
+          );
+          console.log(`✓ Created collection '${priceWatchesCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 66: Create price_watches attributes
+    const priceWatchesStringAttributes = [
+      { key: "userId", size: 36, required: true },
+      { key: "productId", size: 36, required: true },
+      { key: "storeLocationId", size: 36, required: false }, // Null = any store
+      { key: "lastNotifiedAt", size: 50, required: false }, // ISO 8601 format
+    ];
+
+    const priceWatchesIntegerAttributes = [
+      { key: "targetPriceJmdCents", required: true },
+      { key: "lastNotifiedPriceJmdCents", required: false },
+    ];
+
+    const priceWatchesBooleanAttributes = [
+      { key: "isActive", required: true },
+    ];
+
+    for (const attr of priceWatchesStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${priceWatchesCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of priceWatchesIntegerAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${priceWatchesCollectionId}/attributes/integer`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (integer)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    for (const attr of priceWatchesBooleanAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${priceWatchesCollectionId}/attributes/boolean`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (boolean)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Step 67: Create price_watches indexes
+    const priceWatchesIndexes = [
+      { key: "idx_userId_productId", attributes: ["userId", "productId"], orders: ["ASC", "ASC"] },
+      { key: "idx_productId_target", attributes: ["productId", "targetPriceJmdCents"], orders: ["ASC", "ASC"] },
+    ];
+
+    for (const index of priceWatchesIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${priceWatchesCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: "key",
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on price_watches`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 68: Set price_watches permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${priceWatchesCollectionId}`,
+        {
+          name: "Price Watches",
+          permissions: [
+            Permission.read(Role.users()),
+            Permission.write(Role.users()),
+          ], // Collection-level allows querying; document-level restricts access
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${priceWatchesCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
+    // Step 69: Create shopping_lists collection
+    const shoppingListsCollectionId = "shopping_lists";
+    let shoppingListsCollection;
+    try {
+      shoppingListsCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${shoppingListsCollectionId}`
+      );
+      console.log(`✓ Collection '${shoppingListsCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          shoppingListsCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: shoppingListsCollectionId,
+              name: "Shopping Lists",
+              permissions: [
+                Permission.read(Role.users()),
+                Permission.create(Role.users()),
+              ], // Users create lists; document-level lets the list's team update it and only the owner delete it
+            }
+          );
+          console.log(`✓ Created collection '${shoppingListsCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 70: Create shopping_lists attributes
+    const shoppingListsStringAttributes = [
+      { key: "ownerId", size: 36, required: true },
+      { key: "name", size: 100, required: true },
+      { key: "items", size: 20000, required: true }, // JSON array of list items
+    ];
+
+    for (const attr of shoppingListsStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${shoppingListsCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Team the list is shared through (set on first share)
+    try {
+      await appwriteRequest(
+        "POST",
+        `/databases/${databaseId}/collections/${shoppingListsCollectionId}/attributes/string`,
+        {
+          key: "teamId",
+          size: 36,
+          required: false,
+        }
+      );
+      console.log(`  ✓ Created attribute 'teamId' (string)`);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    } catch (error: any) {
+      if (error.code === 409) {
+        console.log(`  - Attribute 'teamId' already exists`);
+      } else {
+        console.error(`  ✗ Failed to create attribute 'teamId': ${error.message}`);
+      }
+    }
+
+    // Step 71: Create shopping_lists indexes
+    const shoppingListsIndexes = [
+      { key: "idx_ownerId", attributes: ["ownerId"], orders: ["ASC"] },
+      { key: "idx_teamId", attributes: ["teamId"], orders: ["ASC"] },
+    ];
+
+    for (const index of shoppingListsIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${shoppingListsCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: "key",
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on shopping_lists`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 72: Set shopping_lists permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${shoppingListsCollectionId}`,
+        {
+          name: "Shopping Lists",
+          permissions: [
+            Permission.read(Role.users()),
+            Permission.create(Role.users()),
+          ], // Users create lists; document-level lets the list's team update it and only the owner delete it
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${shoppingListsCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
+    // Step 73: Create search_synonyms collection
+    const searchSynonymsCollectionId = "search_synonyms";
+    let searchSynonymsCollection;
+    try {
+      searchSynonymsCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${searchSynonymsCollectionId}`
+      );
+      console.log(`✓ Collection '${searchSynonymsCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          searchSynonymsCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: searchSynonymsCollectionId,
+              name: "Search Synonyms",
+              permissions: [
+                Permission.read(Role.any()),
+              ], // Read-only, including anonymous search; terms are managed from the console or scripts/search-synonyms.ts
+            }
+          );
+          console.log(`✓ Created collection '${searchSynonymsCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 74: Create search_synonyms attributes
+    const searchSynonymsStringAttributes = [
+      { key: "term", size: 100, required: true }, // Canonical term (the correct spelling for corrections)
+      { key: "type", size: 20, required: true }, // "two_way", "one_way", "correction"
+      { key: "updatedAt", size: 50, required: false }, // ISO 8601 format
+    ];
+
+    const searchSynonymsBooleanAttributes = [
+      { key: "enabled", required: true },
+    ];
+
+    for (const attr of searchSynonymsStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${searchSynonymsCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Variations of the term (misspellings, for corrections)
+    try {
+      await appwriteRequest(
+        "POST",
+        `/databases/${databaseId}/collections/${searchSynonymsCollectionId}/attributes/string`,
+        {
+          key: "synonyms",
+          size: 100,
+          required: true,
+          array: true,
+        }
+      );
+      console.log(`  ✓ Created attribute 'synonyms' (string array)`);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    } catch (error: any) {
+      if (error.code === 409) {
+        console.log(`  - Attribute 'synonyms' already exists`);
+      } else {
+        console.error(`  ✗ Failed to create attribute 'synonyms': ${error.message}`);
+      }
+    }
+
+    for (const attr of searchSynonymsBooleanAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${searchSynonymsCollectionId}/attributes/boolean`,
+          {
+            key: attr.key,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (boolean)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Step 75: Create search_synonyms indexes
+    const searchSynonymsIndexes = [
+      { key: "idx_enabled", attributes: ["enabled"], orders: ["ASC"] },
+      { key: "idx_term_type", attributes: ["term", "type"], orders: ["ASC", "ASC"] },
+    ];
+
+    for (const index of searchSynonymsIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${searchSynonymsCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: "key",
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on search_synonyms`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 76: Set search_synonyms permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${searchSynonymsCollectionId}`,
+        {
+          name: "Search Synonyms",
+          permissions: [
+            Permission.read(Role.any()),
+          ], // Read-only, including anonymous search; terms are managed from the console or scripts/search-synonyms.ts
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${searchSynonymsCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
+    // Step 77: Create search_popularity collection
+    const searchPopularityCollectionId = "search_popularity";
+    let searchPopularityCollection;
+    try {
+      searchPopularityCollection = await appwriteRequest(
+        "GET",
+        `/databases/${databaseId}/collections/${searchPopularityCollectionId}`
+      );
+      console.log(`✓ Collection '${searchPopularityCollectionId}' already exists`);
+    } catch (error: any) {
+      if (error.code === 404) {
+        try {
+          searchPopularityCollection = await appwriteRequest(
+            "POST",
+            `/databases/${databaseId}/collections`,
+            {
+              collectionId: searchPopularityCollectionId,
+              name: "Search Popularity",
+              permissions: [
+                Permission.read(Role.any()),
+              ], // Read-only, including anonymous search; written by scripts/search-popularity.ts
+            }
+          );
+          console.log(`✓ Created collection '${searchPopularityCollectionId}'`);
+        } catch (createError: any) {
+          console.error(`✗ Failed to create collection: ${createError.message}`);
+          throw createError;
+        }
+      } else {
+        throw error;
+      }
+    }
+
+    // Step 78: Create search_popularity attributes
+    const searchPopularityStringAttributes = [
+      { key: "productId", size: 36, required: true },
+      { key: "query", size: 200, required: false }, // Popularity query key; null for overall popularity
+      { key: "generatedAt", size: 50, required: true }, // ISO 8601 - the aggregation run the score is from
+    ];
+
+    for (const attr of searchPopularityStringAttributes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${searchPopularityCollectionId}/attributes/string`,
+          {
+            key: attr.key,
+            size: attr.size,
+            required: attr.required,
+          }
+        );
+        console.log(`  ✓ Created attribute '${attr.key}' (string)`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Attribute '${attr.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create attribute '${attr.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // Popularity score (0-1, see lib/search/popularity.ts)
+    try {
+      await appwriteRequest(
+        "POST",
+        `/databases/${databaseId}/collections/${searchPopularityCollectionId}/attributes/float`,
+        {
+          key: "score",
+          required: true,
+          min: 0,
+          max: 1,
+        }
+      );
+      console.log(`  ✓ Created attribute 'score' (float)`);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    } catch (error: any) {
+      if (error.code === 409) {
+        console.log(`  - Attribute 'score' already exists`);
+      } else {
+        console.error(`  ✗ Failed to create attribute 'score': ${error.message}`);
+      }
+    }
+
+    // Step 79: Create search_popularity indexes
+    const searchPopularityIndexes = [
+      { key: "idx_query_generatedAt_score", attributes: ["query", "generatedAt", "score"], orders: ["ASC", "DESC", "DESC"] },
+      { key: "idx_generatedAt", attributes: ["generatedAt"], orders: ["ASC"] },
+    ];
+
+    for (const index of searchPopularityIndexes) {
+      try {
+        await appwriteRequest(
+          "POST",
+          `/databases/${databaseId}/collections/${searchPopularityCollectionId}/indexes`,
+          {
+            key: index.key,
+            type: "key",
+            attributes: index.attributes,
+            orders: index.orders,
+          }
+        );
+        console.log(`  ✓ Created index '${index.key}' on search_popularity`);
+      } catch (error: any) {
+        if (error.code === 409) {
+          console.log(`  - Index '${index.key}' already exists`);
+        } else {
+          console.error(`  ✗ Failed to create index: ${error.message}`);
+        }
+      }
+    }
+
+    // Step 80: Set search_popularity permissions
+    try {
+      await appwriteRequest(
+        "PUT",
+        `/databases/${databaseId}/collections/${searchPopularityCollectionId}`,
+        {
+          name: "Search Popularity",
+          permissions: [
+            Permission.read(Role.any()),
+          ], // Read-only, including anonymous search; written by scripts/search-popularity.ts
+        }
+      );
+      console.log(`  ✓ Updated permissions for '${searchPopularityCollectionId}'`);
+    } catch (error: any) {
+      console.error(`  ✗ Failed to update permissions: ${error.message}`);
+    }
+
     console.log("\n✅ Database setup completed successfully!");
     console.log(`\nDatabase ID: ${databaseId}`);
-    console.log(`Collections: ${profilesCollectionId}, ${addressesCollectionId}, ${auditLogsCollectionId}, ${userPreferencesCollectionId}, ${notificationPreferencesCollectionId}, ${storeLocationProductCollectionId}, ${searchAnalyticsCollectionId}, ${cartsCollectionId}`);
+    console.log(`Collections: ${profilesCollectionId}, ${addressesCollectionId}, ${auditLogsCollectionId}, ${userPreferencesCollectionId}, ${notificationPreferencesCollectionId}, ${storeLocationProductCollectionId}, ${searchAnalyticsCollectionId}, ${cartsCollectionId}, ${ordersCollectionId}, ${storeFeeRulesCollectionId}, ${deliverySlotsCollectionId}, ${promoCodesCollectionId}, ${promoRedemptionsCollectionId}, ${priceHistoryCollectionId}, ${priceWatchesCollectionId}, ${shoppingListsCollectionId}, ${searchSynonymsCollectionId}, ${searchPopularityCollectionId}`);
     console.log("\nNote: Make sure to set APPWRITE_DATABASE_ID in your app configuration.");
   } catch (error: any) {
     console.error("\n❌ Database setup failed:", error.message);